@@ -11,9 +11,11 @@ export interface Env {
   STRIPE_WEBHOOK_SECRET: string;
   RESEND_API_KEY: string;
   ADMIN_SECRET: string;
+  ORDER_TOKEN_SECRET: string;   // Signs storefront order access links
 
   // Vars (wrangler.toml [vars])
   APP_URL: string;
   API_URL: string;
   CORS_ORIGINS: string;
+  INVOICE_CACHE?: string;       // "r2" keeps generated invoice PDFs in R2
 }
@@ -20,6 +20,18 @@ import { billingRoutes } from './routes/billing.js';
 import { uploadRoutes } from './routes/upload.js';
 import { webhookRoutes } from './routes/webhook.js';
 import { adminRoutes } from './routes/admin.js';
+import { discountRoutes } from './routes/discounts.js';
+import { shippingRoutes } from './routes/shipping.js';
+import { taxRoutes } from './routes/taxes.js';
+import { codRoutes } from './routes/cod.js';
+import { returnRoutes } from './routes/returns.js';
+import { customerAccountRoutes } from './routes/customerAccounts.js';
+import { customerRoutes } from './routes/customers.js';
+import { shipmentRoutes } from './routes/shipments.js';
+import { carrierWebhookRoutes } from './routes/carrierWebhooks.js';
+import { trackingRoutes } from './routes/tracking.js';
+import { currencyRoutes } from './routes/currencies.js';
+import { draftOrderRoutes } from './routes/draftOrders.js';
 
 // Re-export Durable Object class — wrangler requires this export
 export { RateLimiterDO } from './middleware/rateLimit.js';
@@ -31,6 +43,8 @@ export type AppContext = {
     tenantId: string;
     role: string;
     plan: string;
+    // Storefront account (middleware/auth.ts requireCustomer/optionalCustomer)
+    customerAccountId: string;
   };
 };
 
@@ -63,7 +77,7 @@ app.use('*', async (c, next) => {
       c.header('Access-Control-Allow-Origin', origin);
       c.header('Access-Control-Allow-Credentials', 'true');
       c.header('Access-Control-Allow-Methods', 'GET, POST, PUT, PATCH, DELETE, OPTIONS');
-      c.header('Access-Control-Allow-Headers', 'Content-Type, Authorization, X-Tenant-Slug, X-Admin-Key');
+      c.header('Access-Control-Allow-Headers', 'Content-Type, Authorization, X-Tenant-Slug, X-Admin-Key, Idempotency-Key');
       c.header('Access-Control-Max-Age', '86400');
       return c.body(null, 204);
     }
@@ -95,14 +109,26 @@ app.route('/auth', authRoutes);
 app.route('/tenants', tenantRoutes);
 
 // Store (public storefront) — tenant resolved from host/header inside each route
+app.route('/store/account', customerAccountRoutes);
+app.route('/store/track', trackingRoutes);
 app.route('/store', productRoutes);
 app.route('/store', orderRoutes);
 app.route('/store/categories', categoryRoutes);
+app.route('/store/shipping', shippingRoutes);
 
 // Dashboard (requires auth + tenant) — same routers, different guard in middleware
 app.route('/dashboard', productRoutes);
 app.route('/dashboard', orderRoutes);
 app.route('/dashboard/categories', categoryRoutes);
+app.route('/dashboard/discounts', discountRoutes);
+app.route('/dashboard/shipping', shippingRoutes);
+app.route('/dashboard/tax-classes', taxRoutes);
+app.route('/dashboard/cod', codRoutes);
+app.route('/dashboard/returns', returnRoutes);
+app.route('/dashboard/customers', customerRoutes);
+app.route('/dashboard/shipments', shipmentRoutes);
+app.route('/dashboard/currencies', currencyRoutes);
+app.route('/dashboard/draft-orders', draftOrderRoutes);
 
 // Billing
 app.route('/billing', billingRoutes);
@@ -113,6 +139,9 @@ app.route('/upload', uploadRoutes);
 // Stripe webhook — must receive raw body (no JSON parsing)
 app.route('/stripe', webhookRoutes);
 
+// Carrier tracking webhooks — each adapter verifies its own requests
+app.route('/carriers', carrierWebhookRoutes);
+
 // Platform admin
 app.route('/admin', adminRoutes);
 
@@ -0,0 +1,88 @@
+// apps/api/src/lib/carriers.ts
+//
+// Carrier adapters. Each carrier integration implements CarrierAdapter and is
+// registered in CARRIERS below; everything else (shipments table, order status,
+// routes) only talks to this interface. Moroccan carriers (Amana, CTM
+// Messagerie, Sendit, …) plug in as one module each, reading their API
+// credentials from Worker secrets.
+// Tracking reaches us both ways: polled (getTracking) and pushed to
+// POST /carriers/:carrier/webhook (parseWebhook).
+
+import type { Order, Shipment } from '@repo/db';
+import type { TrackingEvent } from '@repo/shared/shipments';
+import type { Env } from '../env.js';
+import { mockCarrier } from './mockCarrier.js';
+
+export interface CarrierShipmentInput {
+  /** Our order number — printed on the label, echoed in carrier reports */
+  reference: string;
+  recipient: {
+    name: string;
+    phone: string | null;
+    address: string | null;
+    city: string | null;
+    region: string | null;
+    country: string | null;
+  };
+  /** Cash the courier collects; null for prepaid orders */
+  codAmount: number | null;
+  currency: string;
+  weightGrams: number | null;
+}
+
+export interface CarrierShipment {
+  carrierShipmentId: string;
+  trackingNumber: string;
+  trackingUrl: string | null;
+  /** ISO 8601 */
+  estimatedDeliveryAt: string | null;
+}
+
+export interface CarrierLabel {
+  contentType: string;
+  body: Uint8Array;
+}
+
+export interface CarrierWebhookUpdate {
+  trackingNumber: string;
+  events: TrackingEvent[];
+}
+
+export interface CarrierAdapter {
+  id: string;
+  name: string;
+  createShipment(input: CarrierShipmentInput): Promise<CarrierShipment>;
+  getLabel(shipment: Shipment, order: Order): Promise<CarrierLabel>;
+  /** Full tracking history known to the carrier; we keep what is new */
+  getTracking(shipment: Shipment): Promise<TrackingEvent[]>;
+  /** Authenticates and parses a tracking push — null when the request is not from the carrier */
+  parseWebhook(request: Request): Promise<CarrierWebhookUpdate[] | null>;
+}
+
+interface CarrierRegistration {
+  create: (env: Env) => CarrierAdapter;
+  /** Development only — refused when APP_URL is not localhost */
+  devOnly?: boolean;
+}
+
+const CARRIERS: Record<string, CarrierRegistration> = {
+  mock: { create: mockCarrier, devOnly: true },
+};
+
+function isDevelopment(env: Env): boolean {
+  return (env.APP_URL ?? '').includes('localhost');
+}
+
+/** The adapter for `id`, or null when unknown or unavailable in this environment */
+export function getCarrier(id: string, env: Env): CarrierAdapter | null {
+  const registration = Object.hasOwn(CARRIERS, id) ? CARRIERS[id] : undefined;
+  if (!registration || (registration.devOnly && !isDevelopment(env))) return null;
+  return registration.create(env);
+}
+
+export function availableCarriers(env: Env): Array<{ id: string; name: string }> {
+  return Object.keys(CARRIERS)
+    .map(id => getCarrier(id, env))
+    .filter((c): c is CarrierAdapter => c !== null)
+    .map(c => ({ id: c.id, name: c.name }));
+}
@@ -0,0 +1,159 @@
+// apps/api/src/lib/checkout.ts
+//
+// Prices a cart the same way for Stripe and COD checkout:
+// subtotal → discount → shipping → tax → total.
+// Line prices arrive in the checkout currency (lib/currencies.ts); shipping
+// and fixed discounts are converted from the base currency at `exchangeRate`.
+// All amounts are integer minor units (@repo/shared/money).
+
+import type { Database, NewOrder } from '@repo/db';
+import type { PaymentMethod } from '@repo/shared/types';
+import { sumMoney } from '@repo/shared/money';
+import type { Money } from '@repo/shared/money';
+import { evaluateDiscount, DISCOUNT_ERRORS } from './discounts.js';
+import type { DiscountEvaluation } from './discounts.js';
+import { resolveShipping, cartWeight, SHIPPING_ERRORS } from './shipping.js';
+import type { SelectedShipping } from './shipping.js';
+import { loadTaxSettings, taxOrder } from './tax.js';
+
+export interface CartLine {
+  /** Null for custom lines on draft orders (lib/draftOrders.ts) */
+  productId: string | null;
+  title: string;
+  price: Money;
+  qty: number;
+  weightGrams: number | null;
+  taxClassId: string | null;
+}
+
+/** Storefront carts only hold catalogue products */
+export type ProductCartLine = CartLine & { productId: string };
+
+export interface PricedCheckout {
+  lines: (CartLine & { taxRate: number; taxAmount: Money })[];
+  subtotal: Money;
+  discount: Extract<DiscountEvaluation, { ok: true }> | null;
+  discountTotal: Money;
+  shipping: SelectedShipping | null;
+  shippingTotal: Money;
+  taxTotal: Money;
+  shippingTax: Money;
+  pricesIncludeTax: boolean;
+  total: Money;
+}
+
+export type CheckoutPricing =
+  | { ok: true; pricing: PricedCheckout }
+  | { ok: false; error: string; code: string; reason?: string };
+
+export async function priceCheckout(
+  db: Database,
+  tenantId: string,
+  input: {
+    lines: CartLine[];
+    customerEmail: string;
+    paymentMethod: PaymentMethod;
+    discountCode?: string;
+    shipping?: { rateId: string; country: string; region?: string; city?: string };
+    /** Checkout currency per 1 base currency — defaults to 1 */
+    exchangeRate?: number;
+    /** Re-pricing an existing order after an edit (lib/orderEdits.ts) */
+    editing?: { orderId: string; placedAt: Date };
+  }
+): Promise<CheckoutPricing> {
+  const { lines } = input;
+  const subtotal = sumMoney(lines.map(l => l.price * l.qty));
+
+  // Promo code (validated only — consumed once stock is held)
+  let discount: PricedCheckout['discount'] = null;
+  if (input.discountCode) {
+    const evaluated = await evaluateDiscount(db, tenantId, input.discountCode, {
+      customerEmail: input.customerEmail,
+      subtotal,
+      lines,
+      exchangeRate: input.exchangeRate,
+    }, input.editing);
+    if (!evaluated.ok) {
+      return { ok: false, error: DISCOUNT_ERRORS[evaluated.reason], code: 'DISCOUNT_INVALID', reason: evaluated.reason };
+    }
+    discount = evaluated;
+  }
+  const discountTotal = discount?.result.amount ?? 0;
+
+  const shippingResult = await resolveShipping(db, tenantId, input.shipping, {
+    subtotal: subtotal - discountTotal,
+    weightGrams: cartWeight(lines),
+    paymentMethod: input.paymentMethod,
+    freeShipping: discount?.result.freeShipping,
+    exchangeRate: input.exchangeRate,
+  });
+  if (!shippingResult.ok) {
+    return { ok: false, error: SHIPPING_ERRORS[shippingResult.reason], code: shippingResult.reason };
+  }
+  const shipping = shippingResult.shipping;
+  const shippingTotal = shipping?.amount ?? 0;
+
+  const tax = taxOrder(await loadTaxSettings(db, tenantId), {
+    lines,
+    discountTotal,
+    eligibleProductIds: discount?.eligibleProductIds ?? null,
+    shippingTotal,
+  });
+
+  // Inclusive prices already contain the tax; exclusive ones get it added
+  const total = subtotal - discountTotal + shippingTotal + (tax.inclusive ? 0 : tax.taxTotal);
+
+  return {
+    ok: true,
+    pricing: {
+      lines: lines.map((l, i) => ({ ...l, taxRate: tax.lineRates[i]!, taxAmount: tax.lineTaxes[i]! })),
+      subtotal,
+      discount,
+      discountTotal,
+      shipping,
+      shippingTotal,
+      taxTotal: tax.taxTotal,
+      shippingTax: tax.shippingTax,
+      pricesIncludeTax: tax.inclusive,
+      total,
+    },
+  };
+}
+
+/** Money + snapshot columns for the orders row */
+export function orderPricingColumns(p: PricedCheckout): Pick<
+  NewOrder,
+  | 'subtotal' | 'discountCode' | 'discountTotal'
+  | 'shippingTotal' | 'shippingRateId' | 'shippingMethod' | 'shippingCountry' | 'shippingRegion' | 'shippingCity'
+  | 'taxTotal' | 'shippingTax' | 'pricesIncludeTax' | 'total'
+> {
+  return {
+    subtotal: p.subtotal,
+    discountCode: p.discount?.code.code ?? null,
+    discountTotal: p.discountTotal,
+    shippingTotal: p.shippingTotal,
+    shippingRateId: p.shipping?.rateId ?? null,
+    shippingMethod: p.shipping?.name ?? null,
+    shippingCountry: p.shipping?.country ?? null,
+    shippingRegion: p.shipping?.region ?? null,
+    shippingCity: p.shipping?.city ?? null,
+    taxTotal: p.taxTotal,
+    shippingTax: p.shippingTax,
+    pricesIncludeTax: p.pricesIncludeTax,
+    total: p.total,
+  };
+}
+
+export function orderItemRows(tenantId: string, orderId: string, p: PricedCheckout) {
+  return p.lines.map(l => ({
+    id: crypto.randomUUID(),
+    tenantId,
+    orderId,
+    productId: l.productId,
+    titleSnapshot: l.title,
+    priceSnapshot: l.price,
+    qty: l.qty,
+    taxRate: l.taxRate,
+    taxAmount: l.taxAmount,
+  }));
+}
@@ -0,0 +1,101 @@
+// apps/api/src/lib/currencies.ts
+//
+// Checkout currency: loads the tenant's base currency and rates, and prices
+// products in the currency the customer pays in — a per-currency price when
+// the product has one, otherwise its own price converted. Everything else
+// entered in the base currency (shipping, fixed discounts) is converted with
+// the same rate inside priceCheckout. Rate rules: @repo/shared/currencies.
+
+import { eq, and, inArray } from 'drizzle-orm';
+import { tenants, exchangeRates, productPrices } from '@repo/db';
+import type { Database, Product, ProductPrice } from '@repo/db';
+import { crossRate, convertMoney, exchangeRateFor } from '@repo/shared/currencies';
+import type { ExchangeRates } from '@repo/shared/currencies';
+import type { Currency } from '@repo/shared/types';
+
+export interface CurrencyContext {
+  /** What the customer pays in */
+  currency: Currency;
+  baseCurrency: Currency;
+  /** Units of `currency` per 1 `baseCurrency` — recorded on the order */
+  exchangeRate: number;
+  rates: ExchangeRates;
+}
+
+// Customer-facing — the storefront shows these as is
+export const CURRENCY_ERRORS = {
+  CURRENCY_UNAVAILABLE: 'هذه العملة غير متاحة في المتجر',
+  PRICE_UNAVAILABLE: 'لا يمكن تسعير هذا المنتج بالعملة المختارة',
+} as const;
+
+export async function loadExchangeRates(
+  db: Database,
+  tenantId: string
+): Promise<{ baseCurrency: Currency; rates: ExchangeRates }> {
+  const [tenant, rows] = await Promise.all([
+    db.query.tenants.findFirst({ where: eq(tenants.id, tenantId), columns: { baseCurrency: true } }),
+    db.query.exchangeRates.findMany({ where: eq(exchangeRates.tenantId, tenantId) }),
+  ]);
+  const rates: ExchangeRates = {};
+  for (const row of rows) rates[row.currency] = row.rate;
+  return { baseCurrency: tenant?.baseCurrency ?? 'MAD', rates };
+}
+
+/** `requested` defaults to the base currency; fails when the store has no rate for it */
+export async function checkoutCurrency(
+  db: Database,
+  tenantId: string,
+  requested: Currency | undefined
+): Promise<{ ok: true; context: CurrencyContext } | { ok: false; error: string; code: 'CURRENCY_UNAVAILABLE' }> {
+  const { baseCurrency, rates } = await loadExchangeRates(db, tenantId);
+  const currency = requested ?? baseCurrency;
+  const exchangeRate = exchangeRateFor(currency, baseCurrency, rates);
+  if (exchangeRate === null) {
+    return { ok: false, error: CURRENCY_ERRORS.CURRENCY_UNAVAILABLE, code: 'CURRENCY_UNAVAILABLE' };
+  }
+  return { ok: true, context: { currency, baseCurrency, exchangeRate, rates } };
+}
+
+/** The products' own prices in `currency`, keyed by product id */
+export async function loadPriceOverrides(
+  db: Database,
+  tenantId: string,
+  currency: Currency,
+  productIds: string[]
+): Promise<Map<string, ProductPrice>> {
+  if (productIds.length === 0) return new Map();
+  const rows = await db.query.productPrices.findMany({
+    where: and(
+      eq(productPrices.tenantId, tenantId),
+      eq(productPrices.currency, currency),
+      inArray(productPrices.productId, productIds)
+    ),
+  });
+  return new Map(rows.map(r => [r.productId, r]));
+}
+
+/**
+ * What one unit costs in the checkout currency: the per-currency price if
+ * set, else the product's price converted from its own currency. Null when
+ * that currency has no rate.
+ */
+export function unitPrice(
+  product: Pick<Product, 'price' | 'salePrice' | 'currency'>,
+  override: Pick<ProductPrice, 'price' | 'salePrice'> | undefined,
+  ctx: CurrencyContext
+): number | null {
+  if (override) return override.salePrice ?? override.price;
+
+  const price = product.salePrice ?? product.price;
+  if (product.currency === ctx.currency) return price;
+  // Products in the base currency convert at the rate recorded on the order
+  const rate = product.currency === ctx.baseCurrency
+    ? ctx.exchangeRate
+    : crossRate(product.currency, ctx.currency, ctx.baseCurrency, ctx.rates);
+  return rate === null ? null : convertMoney(price, rate);
+}
+
+/** Currency + rate snapshot for the orders row */
+export function orderCurrencyColumns(ctx: CurrencyContext) {
+  return { currency: ctx.currency, baseCurrency: ctx.baseCurrency, exchangeRate: ctx.exchangeRate };
+}
@@ -0,0 +1,109 @@
+// apps/api/src/lib/customerAccounts.ts
+//
+// Storefront customer accounts. Guest checkout stays the default: an order is
+// tied to an account when the shopper is signed in at checkout, or by email
+// once an account with that address has been verified — verification proves
+// the shopper owns the inbox that received the guest order's confirmation.
+
+import { eq, and, isNull, sql } from 'drizzle-orm';
+import { orders, customerAccounts } from '@repo/db';
+import type { Database, CustomerAccount } from '@repo/db';
+import { normalizeEmail } from '@repo/shared/fraud';
+
+/** What the storefront may see of an account — never hashes or tokens */
+export function accountView(account: CustomerAccount) {
+  return {
+    id: account.id,
+    email: account.email,
+    name: account.name,
+    phone: account.phone,
+    emailVerified: account.emailVerified,
+    createdAt: account.createdAt,
+  };
+}
+
+/** Attaches the tenant's guest orders placed with the account's email. Returns how many were linked. */
+export async function linkGuestOrders(db: Database, account: CustomerAccount): Promise<number> {
+  if (!account.emailVerified) return 0;
+  const linked = await db.update(orders)
+    .set({ customerAccountId: account.id })
+    .where(and(
+      eq(orders.tenantId, account.tenantId),
+      isNull(orders.customerAccountId),
+      sql`lower(${orders.customerEmail}) = ${normalizeEmail(account.email)}`
+    ))
+    .returning({ id: orders.id });
+  return linked.length;
+}
+
+/**
+ * Account a new order belongs to: the signed-in shopper, otherwise a verified
+ * account registered with the checkout email (null for plain guests).
+ */
+export async function accountForCheckout(
+  db: Database,
+  tenantId: string,
+  signedInAccountId: string | undefined,
+  customerEmail: string
+): Promise<string | null> {
+  if (signedInAccountId) return signedInAccountId;
+  const account = await db.query.customerAccounts.findFirst({
+    where: and(
+      eq(customerAccounts.tenantId, tenantId),
+      eq(customerAccounts.email, normalizeEmail(customerEmail)),
+      eq(customerAccounts.emailVerified, true)
+    ),
+    columns: { id: true },
+  });
+  return account?.id ?? null;
+}
+
+/** Storefront of a tenant — stores live on a subdomain of the app */
+export function storefrontUrl(appUrl: string, slug: string, path: string): string {
+  const url = new URL(path, appUrl);
+  url.hostname = `${slug}.${url.hostname}`;
+  return url.toString();
+}
+
+/**
+ * Verification and password-reset emails for shoppers, in the store's name.
+ * Without RESEND_API_KEY the link is logged instead (dev).
+ */
+export async function sendCustomerAccountEmail(
+  apiKey: string | undefined,
+  input: { to: string; storeName: string; kind: 'verify' | 'reset'; url: string }
+): Promise<void> {
+  if (!apiKey) {
+    console.warn(`[Account][Dev] ${input.kind} URL: ${input.url}`);
+    return;
+  }
+
+  const copy = input.kind === 'verify'
+    ? { subject: `تفعيل حسابك في ${input.storeName}`, action: 'تفعيل الحساب', note: 'الرابط صالح لمدة 24 ساعة.' }
+    : { subject: `إعادة تعيين كلمة المرور — ${input.storeName}`, action: 'إعادة تعيين كلمة المرور', note: 'الرابط صالح لمدة ساعة واحدة فقط.' };
+
+  await fetch('https://api.resend.com/emails', {
+    method: 'POST',
+    headers: { Authorization: `Bearer ${apiKey}`, 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      from: 'noreply@yourdomain.com',
+      to: [input.to],
+      subject: copy.subject,
+      html: `
+        <div dir="rtl" style="font-family:Arial,sans-serif;max-width:600px;margin:0 auto;padding:24px">
+          <h2 style="color:#6366f1;margin-bottom:8px">${escapeHtml(input.storeName)}</h2>
+          <a href="${input.url}"
+             style="display:inline-block;background:#6366f1;color:#fff;padding:12px 28px;border-radius:8px;text-decoration:none;font-weight:bold;margin-bottom:16px">
+            ${copy.action}
+          </a>
+          <p style="color:#6b7280;font-size:13px">${copy.note}</p>
+          <p style="color:#6b7280;font-size:13px">إذا لم تطلب هذا، يمكنك تجاهل هذه الرسالة بأمان.</p>
+        </div>
+      `,
+    }),
+  });
+}
+
+function escapeHtml(value: string): string {
+  return value.replace(/[&<>"']/g, ch => `&#${ch.charCodeAt(0)};`);
+}
@@ -0,0 +1,95 @@
+// apps/api/src/lib/customers.ts
+//
+// Keeps the customers table (CRM) in step with orders. Every change that can
+// move a buyer's figures — checkout, payment, status changes, refunds, edits —
+// calls refreshCustomer(), which recomputes the row from scratch. Stats rules:
+// @repo/shared/customers.
+
+import { eq, and, desc, gt, sql } from 'drizzle-orm';
+import { orders, codRefusals, customers } from '@repo/db';
+import type { Database } from '@repo/db';
+import { normalizeEmail } from '@repo/shared/fraud';
+import { customerStats } from '@repo/shared/customers';
+import { orderAmountInBase } from '@repo/shared/currencies';
+import { loadExchangeRates } from './currencies.js';
+
+/** Buyers refreshed per backfill request — keeps the Worker within its CPU budget */
+export const BACKFILL_BATCH = 100;
+
+/** Recomputes (or creates) the CRM row of the buyer behind `email` */
+export async function refreshCustomer(db: Database, tenantId: string, email: string): Promise<void> {
+  const key = normalizeEmail(email);
+
+  const [buyerOrders, refusals] = await Promise.all([
+    db.select({
+      status: orders.status,
+      paymentMethod: orders.paymentMethod,
+      paymentStatus: orders.paymentStatus,
+      total: orders.total,
+      refundedTotal: orders.refundedTotal,
+      currency: orders.currency,
+      baseCurrency: orders.baseCurrency,
+      exchangeRate: orders.exchangeRate,
+      customerName: orders.customerName,
+      customerPhone: orders.customerPhone,
+      customerAccountId: orders.customerAccountId,
+      createdAt: orders.createdAt,
+    })
+      .from(orders)
+      .where(and(eq(orders.tenantId, tenantId), sql`lower(${orders.customerEmail}) = ${key}`))
+      .orderBy(desc(orders.createdAt)),
+    db.select({ count: sql<number>`count(*)` })
+      .from(codRefusals)
+      .where(and(eq(codRefusals.tenantId, tenantId), eq(codRefusals.email, key))),
+  ]);
+  if (buyerOrders.length === 0) return;
+
+  // Spend is kept in the base currency — an order with no rate back to it adds nothing
+  const { baseCurrency, rates } = await loadExchangeRates(db, tenantId);
+  const stats = customerStats(buyerOrders.map(o => ({
+    ...o,
+    total: orderAmountInBase(o.total, o, baseCurrency, rates) ?? 0,
+    refundedTotal: orderAmountInBase(o.refundedTotal, o, baseCurrency, rates) ?? 0,
+  })));
+  // Newest first — contact details and account come from the latest order that has them
+  const figures = {
+    ...stats,
+    name: buyerOrders.find(o => o.customerName)?.customerName ?? null,
+    phone: buyerOrders.find(o => o.customerPhone)?.customerPhone ?? null,
+    customerAccountId: buyerOrders.find(o => o.customerAccountId)?.customerAccountId ?? null,
+    currency: baseCurrency,
+    codRefusalCount: refusals[0]?.count ?? 0,
+    updatedAt: sql`(datetime('now'))`,
+  };
+
+  await db.insert(customers)
+    .values({ id: crypto.randomUUID(), tenantId, email: key, ...figures })
+    .onConflictDoUpdate({ target: [customers.tenantId, customers.email], set: figures });
+}
+
+/**
+ * Builds CRM rows for buyers of orders placed before the table existed.
+ * Walks distinct emails in order; pass `nextCursor` back as `after` until it is null.
+ */
+export async function backfillCustomers(
+  db: Database,
+  tenantId: string,
+  after: string | null
+): Promise<{ processed: number; nextCursor: string | null }> {
+  const email = sql<string>`lower(${orders.customerEmail})`;
+  const batch = await db.selectDistinct({ email })
+    .from(orders)
+    .where(and(eq(orders.tenantId, tenantId), after ? gt(email, after) : undefined))
+    .orderBy(email)
+    .limit(BACKFILL_BATCH);
+
+  // Sequential — D1 runs one statement at a time anyway
+  for (const row of batch) {
+    await refreshCustomer(db, tenantId, row.email);
+  }
+
+  return {
+    processed: batch.length,
+    nextCursor: batch.length === BACKFILL_BATCH ? batch[batch.length - 1].email : null,
+  };
+}
@@ -0,0 +1,185 @@
+// apps/api/src/lib/discounts.ts
+//
+// DB side of the coupon engine: lookup, per-customer usage, atomic redemption.
+// The discount math itself lives in @repo/shared/discounts.
+
+import { eq, and, inArray, sql } from 'drizzle-orm';
+import { discountCodes, discountRedemptions, productCategories } from '@repo/db';
+import type { Database, DiscountCode } from '@repo/db';
+import {
+  checkDiscountAvailability,
+  computeDiscount,
+  isLineEligible,
+  normalizeDiscountCode,
+} from '@repo/shared/discounts';
+import type { DiscountRule, DiscountResult, DiscountRejection } from '@repo/shared/discounts';
+import { convertDiscountRule } from '@repo/shared/currencies';
+
+export type DiscountEvaluation =
+  | { ok: true; code: DiscountCode; result: DiscountResult; eligibleProductIds: string[] }
+  | { ok: false; reason: DiscountRejection | 'NOT_FOUND' };
+
+/** Customer-facing messages (storefront is Arabic-first) */
+export const DISCOUNT_ERRORS: Record<DiscountRejection | 'NOT_FOUND', string> = {
+  NOT_FOUND: 'رمز الخصم غير صالح',
+  INACTIVE: 'رمز الخصم غير مفعّل',
+  NOT_STARTED: 'رمز الخصم لم يبدأ بعد',
+  EXPIRED: 'انتهت صلاحية رمز الخصم',
+  USAGE_LIMIT_REACHED: 'تم استنفاد رمز الخصم',
+  CUSTOMER_LIMIT_REACHED: 'لقد استعملت رمز الخصم هذا من قبل',
+  MIN_SUBTOTAL_NOT_MET: 'لم يبلغ مجموع السلة الحد الأدنى لهذا الرمز',
+  NO_ELIGIBLE_ITEMS: 'رمز الخصم لا ينطبق على منتجات السلة',
+};
+
+export function toDiscountRule(row: DiscountCode): DiscountRule {
+  return {
+    type: row.type,
+    value: row.value,
+    minSubtotal: row.minSubtotal,
+    usageLimit: row.usageLimit,
+    usageCount: row.usageCount,
+    perCustomerLimit: row.perCustomerLimit,
+    startsAt: row.startsAt,
+    endsAt: row.endsAt,
+    isActive: row.isActive,
+    productIds: row.productIdsJson ? JSON.parse(row.productIdsJson) : null,
+    categoryIds: row.categoryIdsJson ? JSON.parse(row.categoryIdsJson) : null,
+  };
+}
+
+/**
+ * Validates a code against the cart without consuming it. When re-pricing an
+ * existing order (`editing`), the order's own redemption does not count
+ * against the limits and dates are checked as of when it was placed.
+ */
+export async function evaluateDiscount(
+  db: Database,
+  tenantId: string,
+  rawCode: string,
+  cart: {
+    customerEmail: string;
+    subtotal: number;
+    lines: { productId: string | null; price: number; qty: number }[];
+    /** Checkout currency per 1 base currency — fixed amounts and minimums are in the base currency */
+    exchangeRate?: number;
+  },
+  editing?: { orderId: string; placedAt: Date }
+): Promise<DiscountEvaluation> {
+  const code = await db.query.discountCodes.findFirst({
+    where: and(
+      eq(discountCodes.tenantId, tenantId),
+      eq(discountCodes.code, normalizeDiscountCode(rawCode))
+    ),
+  });
+  if (!code) return { ok: false, reason: 'NOT_FOUND' };
+
+  const rule = convertDiscountRule(toDiscountRule(code), cart.exchangeRate ?? 1);
+
+  const ownRedemption = editing
+    ? await db.query.discountRedemptions.findFirst({
+        where: and(eq(discountRedemptions.discountCodeId, code.id), eq(discountRedemptions.orderId, editing.orderId)),
+      })
+    : undefined;
+  if (ownRedemption) rule.usageCount = Math.max(0, rule.usageCount - 1);
+
+  let customerUses = 0;
+  if (rule.perCustomerLimit !== null) {
+    const [row] = await db.select({ count: sql<number>`count(*)` })
+      .from(discountRedemptions)
+      .where(and(
+        eq(discountRedemptions.discountCodeId, code.id),
+        eq(discountRedemptions.customerEmail, cart.customerEmail.toLowerCase())
+      ));
+    customerUses = Math.max(0, (row?.count ?? 0) - (ownRedemption ? 1 : 0));
+  }
+
+  const rejection = checkDiscountAvailability(rule, {
+    now: editing?.placedAt ?? new Date(),
+    subtotal: cart.subtotal,
+    customerUses,
+  });
+  if (rejection) return { ok: false, reason: rejection };
+
+  // Category restrictions need each line's categories
+  let categoriesByProduct = new Map<string, string[]>();
+  if (rule.categoryIds?.length) {
+    const rows = await db.select({ productId: productCategories.productId, categoryId: productCategories.categoryId })
+      .from(productCategories)
+      .where(and(
+        eq(productCategories.tenantId, tenantId),
+        inArray(productCategories.productId, cart.lines.flatMap(l => (l.productId ? [l.productId] : [])))
+      ));
+    categoriesByProduct = rows.reduce((map, r) => {
+      map.set(r.productId, [...(map.get(r.productId) ?? []), r.categoryId]);
+      return map;
+    }, new Map<string, string[]>());
+  }
+
+  const lines = cart.lines.map(l => ({ ...l, categoryIds: l.productId ? categoriesByProduct.get(l.productId) : undefined }));
+  const result = computeDiscount(rule, lines);
+  if (result.eligibleSubtotal <= 0) return { ok: false, reason: 'NO_ELIGIBLE_ITEMS' };
+
+  // Which lines the amount comes off — tax is computed on discounted lines
+  const eligibleProductIds = lines.filter(l => isLineEligible(rule, l)).flatMap(l => (l.productId ? [l.productId] : []));
+  return { ok: true, code, result, eligibleProductIds };
+}
+
+/**
+ * Consumes one use of a code for an order. The usage_count guard makes the
+ * global limit race-free; the per-customer limit is counted again once the
+ * redemption is written, so two checkouts by the same customer cannot both
+ * get past the check in evaluateDiscount. Returns why the use was refused —
+ * null when it was taken.
+ */
+export async function redeemDiscount(
+  db: Database,
+  redemption: { tenantId: string; orderId: string; code: DiscountCode; customerEmail: string; amount: number }
+): Promise<Extract<DiscountRejection, 'USAGE_LIMIT_REACHED' | 'CUSTOMER_LIMIT_REACHED'> | null> {
+  const claimed = await db.update(discountCodes)
+    .set({ usageCount: sql`${discountCodes.usageCount} + 1` })
+    .where(and(
+      eq(discountCodes.id, redemption.code.id),
+      sql`(${discountCodes.usageLimit} IS NULL OR ${discountCodes.usageCount} < ${discountCodes.usageLimit})`
+    ))
+    .returning({ id: discountCodes.id, perCustomerLimit: discountCodes.perCustomerLimit });
+  if (claimed.length === 0) return 'USAGE_LIMIT_REACHED';
+
+  const customerEmail = redemption.customerEmail.toLowerCase();
+  await db.insert(discountRedemptions).values({
+    id: crypto.randomUUID(),
+    tenantId: redemption.tenantId,
+    discountCodeId: redemption.code.id,
+    orderId: redemption.orderId,
+    customerEmail,
+    amount: redemption.amount,
+  });
+
+  const perCustomerLimit = claimed[0]!.perCustomerLimit;
+  if (perCustomerLimit !== null) {
+    const [row] = await db.select({ count: sql<number>`count(*)` })
+      .from(discountRedemptions)
+      .where(and(
+        eq(discountRedemptions.discountCodeId, redemption.code.id),
+        eq(discountRedemptions.customerEmail, customerEmail)
+      ));
+    // A concurrent checkout got in too — both back off rather than both keep it
+    if ((row?.count ?? 0) > perCustomerLimit) {
+      await releaseDiscount(db, redemption.orderId);
+      return 'CUSTOMER_LIMIT_REACHED';
+    }
+  }
+  return null;
+}
+
+/** Gives the use back (cancelled order / expired checkout). Idempotent. */
+export async function releaseDiscount(db: Database, orderId: string): Promise<void> {
+  const removed = await db.delete(discountRedemptions)
+    .where(eq(discountRedemptions.orderId, orderId))
+    .returning();
+
+  for (const r of removed) {
+    await db.update(discountCodes)
+      .set({ usageCount: sql`max(0, ${discountCodes.usageCount} - 1)` })
+      .where(eq(discountCodes.id, r.discountCodeId));
+  }
+}
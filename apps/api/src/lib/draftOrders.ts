@@ -0,0 +1,442 @@
+// apps/api/src/lib/draftOrders.ts
+//
+// Draft orders (routes/draftOrders.ts), for sales closed in Instagram or
+// WhatsApp conversations:
+//   - saving prices the draft: catalogue lines at today's price in the draft's
+//     currency unless staff set one, custom lines as entered; shipping and tax
+//     through priceCheckout like any cart. Promo codes don't apply — staff set
+//     the price instead
+//   - COD: re-priced with the COD surcharge, stock taken, a pending COD order created
+//   - payment link: charges the saved total; when it is paid the webhook creates
+//     the paid order from the saved pricing, so the order matches the charge
+// Stock is only taken on conversion — a draft does not hold it.
+
+import { eq, and, ne, inArray, isNull } from 'drizzle-orm';
+import { orders, orderItems, draftOrders, draftOrderItems, products, auditLogs } from '@repo/db';
+import type { Database, DraftOrder, DraftOrderItem, NewOrder, Order, Product } from '@repo/db';
+import { draftStockLines } from '@repo/shared/draftOrders';
+import { codLimitFor } from '@repo/shared/fraud';
+import { formatMoney } from '@repo/shared/money';
+import type { DraftOrderInput } from '@repo/shared/schemas';
+import type { Currency, PaymentMethod } from '@repo/shared/types';
+import Stripe from 'stripe';
+import { priceCheckout, orderPricingColumns } from './checkout.js';
+import type { CartLine, PricedCheckout } from './checkout.js';
+import { checkoutCurrency, loadPriceOverrides, unitPrice, orderCurrencyColumns } from './currencies.js';
+import type { CurrencyContext } from './currencies.js';
+import { reserveStock, commitReservations, releaseReservations } from './stock.js';
+import { loadCodSettings } from './fraud.js';
+import { allocateOrderNumber } from './orderNumbers.js';
+import { recordStatusEvent } from './orderEvents.js';
+import { accountForCheckout } from './customerAccounts.js';
+import { refreshCustomer } from './customers.js';
+import { createPaymentLink, deactivatePaymentLink } from './paymentLinks.js';
+
+type Failure = { ok: false; status: 400 | 409 | 422 | 502; body: { error: string; code?: string; [key: string]: unknown } };
+
+function reject(status: 400 | 409 | 422, code: string, error: string, extra: Record<string, unknown> = {}): Failure {
+  return { ok: false, status, body: { error, code, ...extra } };
+}
+
+/** A draft priced and ready to save */
+export interface PricedDraft {
+  fx: CurrencyContext;
+  pricing: PricedCheckout;
+  /** Per line, whether staff set the price */
+  customPrices: boolean[];
+}
+
+/** Prices a draft as a card payment — the COD surcharge is added on conversion */
+export async function priceDraft(
+  db: Database,
+  tenantId: string,
+  input: DraftOrderInput
+): Promise<{ ok: true; draft: PricedDraft } | Failure> {
+  const fx = await checkoutCurrency(db, tenantId, input.currency);
+  if (!fx.ok) {
+    return reject(422, fx.code, `${input.currency} has no exchange rate — add one under currencies first`);
+  }
+
+  const productIds = [...new Set(input.lines.flatMap(l => (l.productId ? [l.productId] : [])))];
+  const found = productIds.length > 0
+    ? await db.query.products.findMany({
+        where: and(eq(products.tenantId, tenantId), eq(products.status, 'active'), inArray(products.id, productIds)),
+      })
+    : [];
+  const byId = new Map(found.map(p => [p.id, p]));
+  const overrides = await loadPriceOverrides(db, tenantId, fx.context.currency, productIds);
+
+  const lines: CartLine[] = [];
+  for (const line of input.lines) {
+    if (!line.productId) {
+      lines.push({ productId: null, title: line.title!, price: line.price!, qty: line.qty, weightGrams: null, taxClassId: null });
+      continue;
+    }
+    const product = byId.get(line.productId);
+    if (!product) return reject(422, 'PRODUCT_UNAVAILABLE', `Product ${line.productId} not found or not active`);
+
+    const price = line.price ?? unitPrice(product, overrides.get(product.id), fx.context);
+    if (price === null) {
+      return reject(422, 'PRICE_UNAVAILABLE', `${product.title} has no price in ${fx.context.currency} — add an exchange rate or a ${fx.context.currency} price`);
+    }
+    lines.push({
+      productId: product.id,
+      title: line.title ?? product.title,
+      price,
+      qty: line.qty,
+      weightGrams: product.weightGrams,
+      taxClassId: product.taxClassId,
+    });
+  }
+
+  const priced = await priceCheckout(db, tenantId, {
+    lines,
+    customerEmail: input.customerEmail,
+    paymentMethod: 'STRIPE',
+    shipping: input.shipping,
+    exchangeRate: fx.context.exchangeRate,
+  });
+  if (!priced.ok) {
+    return { ok: false, status: 422, body: { error: priced.error, code: priced.code, reason: priced.reason } };
+  }
+
+  return {
+    ok: true,
+    draft: { fx: fx.context, pricing: priced.pricing, customPrices: input.lines.map(l => l.price !== undefined) },
+  };
+}
+
+/** draft_orders columns for a create or a replace */
+export function draftOrderColumns(input: DraftOrderInput, priced: PricedDraft) {
+  return {
+    customerEmail: input.customerEmail,
+    customerName: input.customerName ?? null,
+    customerPhone: input.customerPhone ?? null,
+    customerAddress: input.customerAddress ?? null,
+    ...orderCurrencyColumns(priced.fx),
+    pricingJson: JSON.stringify(orderPricingColumns(priced.pricing)),
+    total: priced.pricing.total,
+    note: input.note ?? null,
+  };
+}
+
+export function draftOrderItemRows(tenantId: string, draftOrderId: string, priced: PricedDraft) {
+  return priced.pricing.lines.map((l, i) => ({
+    id: crypto.randomUUID(),
+    tenantId,
+    draftOrderId,
+    productId: l.productId,
+    title: l.title,
+    price: l.price,
+    customPrice: priced.customPrices[i]!,
+    qty: l.qty,
+    taxRate: l.taxRate,
+    taxAmount: l.taxAmount,
+  }));
+}
+
+/** Saved pricing of a draft — the orders columns it was priced with */
+export function draftPricing(draft: DraftOrder): ReturnType<typeof orderPricingColumns> {
+  return JSON.parse(draft.pricingJson);
+}
+
+// ─── Conversion ───────────────────────────────────────────────
+
+/**
+ * Turns a draft into a pending COD order. Re-priced with the COD surcharge and
+ * checked against the store's COD limit; a payment link already sent is
+ * switched off so the customer cannot pay twice.
+ */
+export async function convertDraftToCod(
+  db: Database,
+  stripeSecretKey: string,
+  actor: { tenantId: string; userId: string },
+  draft: DraftOrder
+): Promise<{ ok: true; order: Order } | Failure> {
+  const { tenantId, userId } = actor;
+
+  if (!draft.customerName || !draft.customerPhone || !draft.customerAddress) {
+    return reject(422, 'MISSING_CUSTOMER_DETAILS', 'COD orders need the customer\'s name, phone and address');
+  }
+
+  const items = await loadDraftItems(db, draft.id);
+  const byId = await loadProducts(db, tenantId, items);
+  const saved = draftPricing(draft);
+
+  // Saved line prices are what the customer was quoted; shipping and tax are re-run for COD
+  const priced = await priceCheckout(db, tenantId, {
+    lines: items.map(i => {
+      const product = i.productId ? byId.get(i.productId) : undefined;
+      return {
+        productId: i.productId,
+        title: i.title,
+        price: i.price,
+        qty: i.qty,
+        weightGrams: product?.weightGrams ?? null,
+        taxClassId: product?.taxClassId ?? null,
+      };
+    }),
+    customerEmail: draft.customerEmail,
+    paymentMethod: 'COD',
+    shipping: saved.shippingRateId && saved.shippingCountry
+      ? {
+          rateId: saved.shippingRateId,
+          country: saved.shippingCountry,
+          region: saved.shippingRegion ?? undefined,
+          city: saved.shippingCity ?? undefined,
+        }
+      : undefined,
+    exchangeRate: draft.exchangeRate,
+  });
+  if (!priced.ok) {
+    return { ok: false, status: 422, body: { error: priced.error, code: priced.code, reason: priced.reason } };
+  }
+  const pricing = priced.pricing;
+
+  const limit = codLimitFor((await loadCodSettings(db, tenantId)).limits, draft.currency as Currency);
+  if (pricing.total > limit) {
+    return reject(422, 'COD_LIMIT_EXCEEDED', `COD orders are limited to ${formatMoney(limit, draft.currency)}`);
+  }
+
+  const orderId = crypto.randomUUID();
+  const hold = await reserveStock(db, tenantId, orderId, draftStockLines(items));
+  if (!hold.ok) {
+    const title = items.find(i => i.productId === hold.productId)?.title ?? hold.productId;
+    return reject(409, 'OUT_OF_STOCK', `Not enough stock for ${title}`, { productId: hold.productId });
+  }
+
+  let order: Order | null;
+  try {
+    order = await completeDraft(db, draft, orderId, {
+      ...orderPricingColumns(pricing),
+      status: 'pending',
+      paymentMethod: 'COD',
+      paymentStatus: 'UNPAID',
+      confirmationStatus: 'pending',
+    }, pricing.lines.map(l => ({ productId: l.productId, title: l.title, price: l.price, qty: l.qty, taxRate: l.taxRate, taxAmount: l.taxAmount })));
+  } catch (err) {
+    await releaseReservations(db, orderId);
+    throw err;
+  }
+  if (!order) {
+    await releaseReservations(db, orderId);
+    return reject(409, 'CONFLICT', 'Draft changed concurrently, reload and retry');
+  }
+  await commitReservations(db, orderId);
+
+  if (draft.stripePaymentLinkId) {
+    await deactivatePaymentLink(new Stripe(stripeSecretKey), draft.stripePaymentLinkId)
+      .catch(() => { /* it only takes one payment anyway */ });
+  }
+
+  await recordStatusEvent(db, { tenantId, orderId, from: null, to: 'pending', source: 'dashboard', actorUserId: userId, note: 'Draft order' });
+  await refreshCustomer(db, tenantId, draft.customerEmail);
+
+  await db.insert(auditLogs).values({
+    id: crypto.randomUUID(),
+    tenantId,
+    actorUserId: userId,
+    action: 'draft_order.completed',
+    metaJson: JSON.stringify({
+      draftOrderId: draft.id, orderId, orderNumber: order.orderNumber, paymentMethod: 'COD',
+      total: pricing.total, currency: draft.currency,
+    }),
+  });
+
+  return { ok: true, order };
+}
+
+/**
+ * Payment link for the draft's total. An existing link is returned as is;
+ * replacing the draft switches it off (routes/draftOrders.ts). The order
+ * number is taken now so the customer sees it on the Stripe page.
+ */
+export async function issueDraftPaymentLink(
+  db: Database,
+  stripe: Stripe,
+  draft: DraftOrder
+): Promise<{ ok: true; url: string; draft: DraftOrder } | Failure> {
+  if (draft.paymentUrl) return { ok: true, url: draft.paymentUrl, draft };
+  if (draft.total <= 0) return reject(422, 'NOTHING_TO_PAY', 'The draft total is zero — convert it to a COD order instead');
+
+  // Not held — but a link for stock that is already gone only makes a refund later
+  const items = await loadDraftItems(db, draft.id);
+  const byId = await loadProducts(db, draft.tenantId, items);
+  for (const line of draftStockLines(items)) {
+    const product = byId.get(line.productId);
+    if (!product || product.stock - product.reservedStock < line.qty) {
+      const title = items.find(i => i.productId === line.productId)?.title ?? line.productId;
+      return reject(409, 'OUT_OF_STOCK', `Not enough stock for ${title}`, { productId: line.productId });
+    }
+  }
+
+  const orderNumber = draft.orderNumber ?? await allocateOrderNumber(db, draft.tenantId);
+
+  let link: { id: string; url: string };
+  try {
+    link = await createPaymentLink(stripe, {
+      amount: draft.total,
+      currency: draft.currency,
+      name: `Order ${orderNumber}`,
+      metadata: { tenantId: draft.tenantId, draftOrderId: draft.id, orderNumber },
+    }, `draft_order_${draft.id}_${draft.updatedAt.replace(/\D/g, '')}`);
+  } catch (err: any) {
+    // Keep the number for the next attempt
+    await db.update(draftOrders).set({ orderNumber }).where(eq(draftOrders.id, draft.id));
+    return { ok: false, status: 502, body: { error: `Stripe payment link failed: ${err.message}` } };
+  }
+
+  const [updated] = await db.update(draftOrders)
+    .set({ status: 'invoice_sent', orderNumber, stripePaymentLinkId: link.id, paymentUrl: link.url })
+    .where(and(eq(draftOrders.id, draft.id), eq(draftOrders.status, 'open')))
+    .returning();
+  if (!updated) {
+    await deactivatePaymentLink(stripe, link.id).catch(() => { /* it only takes one payment anyway */ });
+    return reject(409, 'CONFLICT', 'Draft changed concurrently, reload and retry');
+  }
+  return { ok: true, url: link.url, draft: updated };
+}
+
+/**
+ * Webhook side: the customer paid a draft's payment link. Creates the paid
+ * order from the saved pricing. Idempotent — null when the draft is gone or
+ * already completed. Stock that ran out since the link was sent is reported,
+ * not refused: the customer has paid.
+ */
+export async function completePaidDraft(
+  db: Database,
+  draftOrderId: string,
+  payment: { sessionId: string; paymentIntentId: string | null }
+): Promise<{ order: Order; stockShortProductId: string | null } | null> {
+  const draft = await db.query.draftOrders.findFirst({ where: eq(draftOrders.id, draftOrderId) });
+  if (!draft || draft.status === 'completed') return null;
+
+  const orderId = crypto.randomUUID();
+  const items = await loadDraftItems(db, draft.id);
+  const hold = await reserveStock(db, draft.tenantId, orderId, draftStockLines(items));
+
+  let order: Order | null;
+  try {
+    order = await completeDraft(db, draft, orderId, {
+      ...draftPricing(draft),
+      status: 'paid',
+      paymentMethod: 'STRIPE',
+      paymentStatus: 'PAID',
+      stripeSessionId: payment.sessionId,
+      stripePaymentIntentId: payment.paymentIntentId,
+    }, items);
+  } catch (err) {
+    // The draft is open again, so Stripe's retry of this event converts it
+    if (hold.ok) await releaseReservations(db, orderId);
+    throw err;
+  }
+  if (!order) {
+    if (hold.ok) await releaseReservations(db, orderId);
+    return null;
+  }
+  if (hold.ok) await commitReservations(db, orderId);
+
+  await recordStatusEvent(db, { tenantId: draft.tenantId, orderId, from: null, to: 'paid', source: 'webhook', note: 'Draft order payment link' });
+  await refreshCustomer(db, draft.tenantId, draft.customerEmail);
+
+  await db.insert(auditLogs).values({
+    id: crypto.randomUUID(),
+    tenantId: draft.tenantId,
+    action: 'draft_order.paid',
+    metaJson: JSON.stringify({
+      draftOrderId: draft.id, orderId, orderNumber: order.orderNumber, total: draft.total, currency: draft.currency,
+      paymentIntentId: payment.paymentIntentId, stockShortProductId: hold.ok ? null : hold.productId,
+    }),
+  });
+
+  return { order, stockShortProductId: hold.ok ? null : hold.productId };
+}
+
+// ─── Internal ─────────────────────────────────────────────────
+
+async function loadDraftItems(db: Database, draftOrderId: string): Promise<DraftOrderItem[]> {
+  return db.query.draftOrderItems.findMany({ where: eq(draftOrderItems.draftOrderId, draftOrderId) });
+}
+
+async function loadProducts(db: Database, tenantId: string, items: DraftOrderItem[]): Promise<Map<string, Product>> {
+  const ids = [...new Set(items.flatMap(i => (i.productId ? [i.productId] : [])))];
+  if (ids.length === 0) return new Map();
+  const found = await db.query.products.findMany({ where: and(eq(products.tenantId, tenantId), inArray(products.id, ids)) });
+  return new Map(found.map(p => [p.id, p]));
+}
+
+/**
+ * Claims the draft, then writes the order, its items and the draft's link to
+ * it in one batch. If the write fails the claim is handed back, so the draft
+ * can be converted again (the webhook is retried) instead of staying completed
+ * with no order. Null when another conversion claimed it first.
+ */
+async function completeDraft(
+  db: Database,
+  draft: DraftOrder,
+  orderId: string,
+  columns: Omit<NewOrder, 'id' | 'tenantId' | 'orderNumber' | 'customerEmail'> & { paymentMethod: PaymentMethod },
+  lines: { productId: string | null; title: string; price: number; qty: number; taxRate: number; taxAmount: number }[]
+): Promise<Order | null> {
+  if (!(await claimDraft(db, draft.id))) return null;
+  try {
+    return await insertOrder(db, draft, orderId, columns, lines);
+  } catch (err) {
+    await db.update(draftOrders)
+      .set({ status: draft.status, completedAt: null })
+      .where(and(eq(draftOrders.id, draft.id), eq(draftOrders.status, 'completed'), isNull(draftOrders.orderId)));
+    throw err;
+  }
+}
+
+/** Marks the draft completed — false when another conversion got there first */
+async function claimDraft(db: Database, draftOrderId: string): Promise<boolean> {
+  const claimed = await db.update(draftOrders)
+    .set({ status: 'completed', completedAt: new Date().toISOString() })
+    .where(and(eq(draftOrders.id, draftOrderId), ne(draftOrders.status, 'completed')))
+    .returning({ id: draftOrders.id });
+  return claimed.length > 0;
+}
+
+async function insertOrder(
+  db: Database,
+  draft: DraftOrder,
+  orderId: string,
+  columns: Omit<NewOrder, 'id' | 'tenantId' | 'orderNumber' | 'customerEmail'> & { paymentMethod: PaymentMethod },
+  lines: { productId: string | null; title: string; price: number; qty: number; taxRate: number; taxAmount: number }[]
+): Promise<Order> {
+  const orderNumber = draft.orderNumber ?? await allocateOrderNumber(db, draft.tenantId);
+  const customerAccountId = await accountForCheckout(db, draft.tenantId, undefined, draft.customerEmail);
+
+  // One batch — the order never exists without its items or the draft pointing at it
+  const [inserted] = await db.batch([
+    db.insert(orders).values({
+      id: orderId,
+      tenantId: draft.tenantId,
+      orderNumber,
+      customerEmail: draft.customerEmail,
+      customerName: draft.customerName,
+      customerPhone: draft.customerPhone,
+      customerAddress: draft.customerAddress,
+      customerAccountId,
+      currency: draft.currency,
+      baseCurrency: draft.baseCurrency,
+      exchangeRate: draft.exchangeRate,
+      notes: draft.note,
+      ...columns,
+    }).returning(),
+    db.insert(orderItems).values(lines.map(l => ({
+      id: crypto.randomUUID(),
+      tenantId: draft.tenantId,
+      orderId,
+      productId: l.productId,
+      titleSnapshot: l.title,
+      priceSnapshot: l.price,
+      qty: l.qty,
+      taxRate: l.taxRate,
+      taxAmount: l.taxAmount,
+    }))),
+    db.update(draftOrders).set({ orderId }).where(eq(draftOrders.id, draft.id)),
+  ]);
+  return inserted[0]!;
+}
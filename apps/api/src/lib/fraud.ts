@@ -0,0 +1,104 @@
+// apps/api/src/lib/fraud.ts
+//
+// DB side of COD fraud controls: tenant settings, blacklist lookups,
+// refusal history. Scoring lives in @repo/shared/fraud.
+
+import { eq, and, or, sql } from 'drizzle-orm';
+import { tenants, orders, codBlacklist, codRefusals } from '@repo/db';
+import type { Database, Order } from '@repo/db';
+import {
+  scoreCodRisk,
+  normalizePhone,
+  normalizeEmail,
+  normalizeAddress,
+  DEFAULT_COD_BLOCK_SCORE,
+  DEFAULT_COD_REVIEW_SCORE,
+} from '@repo/shared/fraud';
+import type { CodRisk } from '@repo/shared/fraud';
+import type { Currency } from '@repo/shared/types';
+import type { Money } from '@repo/shared/money';
+
+export interface CodSettings {
+  limits: Partial<Record<Currency, Money>> | null;
+  blockScore: number;
+  reviewScore: number;
+  /** Every COD order must be confirmed by phone before it ships */
+  confirmationRequired: boolean;
+}
+
+export async function loadCodSettings(db: Database, tenantId: string): Promise<CodSettings> {
+  const tenant = await db.query.tenants.findFirst({ where: eq(tenants.id, tenantId) });
+  return {
+    limits: tenant?.codLimitsJson ? JSON.parse(tenant.codLimitsJson) : null,
+    blockScore: tenant?.codBlockScore ?? DEFAULT_COD_BLOCK_SCORE,
+    reviewScore: tenant?.codReviewScore ?? DEFAULT_COD_REVIEW_SCORE,
+    confirmationRequired: tenant?.codConfirmationRequired ?? false,
+  };
+}
+
+/** Normalizes a blacklist value the same way checkout looks it up */
+export function normalizeBlacklistValue(type: 'phone' | 'email' | 'address', value: string): string {
+  if (type === 'phone') return normalizePhone(value);
+  if (type === 'email') return normalizeEmail(value);
+  return normalizeAddress(value);
+}
+
+export async function assessCodRisk(
+  db: Database,
+  tenantId: string,
+  customer: { phone: string; email: string; address: string; total: Money; limit: Money }
+): Promise<CodRisk> {
+  const phone = normalizePhone(customer.phone);
+  const email = normalizeEmail(customer.email);
+  const address = normalizeAddress(customer.address);
+
+  const [listed, refusals, delivered] = await Promise.all([
+    db.select({ type: codBlacklist.type })
+      .from(codBlacklist)
+      .where(and(
+        eq(codBlacklist.tenantId, tenantId),
+        or(
+          and(eq(codBlacklist.type, 'phone'), eq(codBlacklist.value, phone)),
+          and(eq(codBlacklist.type, 'email'), eq(codBlacklist.value, email)),
+          and(eq(codBlacklist.type, 'address'), eq(codBlacklist.value, address))
+        )
+      )),
+    db.select({ count: sql<number>`count(*)` })
+      .from(codRefusals)
+      .where(and(
+        eq(codRefusals.tenantId, tenantId),
+        or(eq(codRefusals.phone, phone), eq(codRefusals.email, email))
+      )),
+    db.select({ count: sql<number>`count(*)` })
+      .from(orders)
+      .where(and(
+        eq(orders.tenantId, tenantId),
+        eq(orders.paymentMethod, 'COD'),
+        eq(orders.status, 'delivered'),
+        sql`lower(${orders.customerEmail}) = ${email}`
+      )),
+  ]);
+
+  const types = new Set(listed.map(l => l.type));
+  return scoreCodRisk({
+    blacklisted: { phone: types.has('phone'), email: types.has('email'), address: types.has('address') },
+    refusals: refusals[0]?.count ?? 0,
+    deliveredOrders: delivered[0]?.count ?? 0,
+    total: customer.total,
+    limit: customer.limit,
+  });
+}
+
+/** Called when a shipped COD order is cancelled — the parcel was refused. Idempotent. */
+export async function recordCodRefusal(db: Database, order: Order): Promise<void> {
+  await db.insert(codRefusals)
+    .values({
+      id: crypto.randomUUID(),
+      tenantId: order.tenantId,
+      orderId: order.id,
+      phone: order.customerPhone ? normalizePhone(order.customerPhone) : null,
+      email: normalizeEmail(order.customerEmail),
+      amount: order.total,
+    })
+    .onConflictDoNothing();
+}
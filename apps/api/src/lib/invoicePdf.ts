@@ -0,0 +1,240 @@
+// apps/api/src/lib/invoicePdf.ts
+//
+// Renders an order invoice as an A4 PDF inside the Worker (pdf-lib).
+//   - English: left-to-right; Arabic: the same layout mirrored right-to-left
+//   - Latin text uses the built-in Helvetica; Arabic needs an embedded font,
+//     loaded only when the invoice contains Arabic (see lib/invoices.ts)
+//   - Amounts come from the order + order_items snapshots, never live prices
+
+import { PDFDocument } from 'pdf-lib';
+import type { PDFPage } from 'pdf-lib';
+import type { Order, OrderItem } from '@repo/db';
+import { taxBreakdown } from '@repo/shared/invoices';
+import type { InvoiceLocale } from '@repo/shared/invoices';
+import { formatAmount, formatMoney } from '@repo/shared/money';
+import {
+  createPdfText,
+  embedLogo,
+  drawBrandHeader,
+  drawRule,
+  parseHexColor,
+  PAGE_WIDTH,
+  PAGE_HEIGHT,
+  MARGIN,
+  CONTENT_WIDTH,
+  MUTED,
+  WHITE,
+  DEFAULT_ACCENT,
+} from './pdfText.js';
+import type { PdfLogo } from './pdfText.js';
+
+export interface InvoiceDocument {
+  locale: InvoiceLocale;
+  invoiceNumber: string;
+  invoicedAt: string;
+  tenant: { name: string; primaryColor: string | null };
+  logo: PdfLogo | null;
+  order: Order;
+  items: OrderItem[];
+}
+
+const LABELS = {
+  en: {
+    invoice: 'INVOICE',
+    invoiceNumber: 'Invoice no.',
+    date: 'Date',
+    order: 'Order',
+    billTo: 'Bill to',
+    payment: 'Payment',
+    description: 'Description',
+    qty: 'Qty',
+    unitPrice: 'Unit price',
+    tax: 'VAT',
+    amount: 'Amount',
+    subtotal: 'Subtotal',
+    discount: 'Discount',
+    shipping: 'Shipping',
+    shippingTax: 'VAT on shipping',
+    total: 'Total',
+    taxIncluded: 'Prices include VAT',
+    cod: 'Cash on delivery',
+    card: 'Card',
+    paid: 'Paid',
+    unpaid: 'Unpaid',
+    thanks: 'Thank you for your order',
+  },
+  ar: {
+    invoice: 'فاتورة',
+    invoiceNumber: 'رقم الفاتورة',
+    date: 'التاريخ',
+    order: 'الطلب',
+    billTo: 'فاتورة إلى',
+    payment: 'الدفع',
+    description: 'الوصف',
+    qty: 'الكمية',
+    unitPrice: 'سعر الوحدة',
+    tax: 'الضريبة',
+    amount: 'المبلغ',
+    subtotal: 'المجموع الفرعي',
+    discount: 'الخصم',
+    shipping: 'الشحن',
+    shippingTax: 'ضريبة الشحن',
+    total: 'الإجمالي',
+    taxIncluded: 'الأسعار تشمل الضريبة على القيمة المضافة',
+    cod: 'الدفع عند الاستلام',
+    card: 'بطاقة',
+    paid: 'مدفوع',
+    unpaid: 'غير مدفوع',
+    thanks: 'شكراً لطلبك',
+  },
+} as const;
+
+const FOOTER_SPACE = 150;
+
+// Table columns — offset of each column's far edge from the start side
+const COLUMNS = { description: 0, qty: 300, unitPrice: 385, tax: 435, amount: CONTENT_WIDTH } as const;
+const DESCRIPTION_WIDTH = 250;
+
+/**
+ * `loadArabicFont` is called at most once, and only if some text is Arabic —
+ * English invoices for Latin-named customers never fetch it.
+ */
+export async function renderInvoicePdf(
+  doc: InvoiceDocument,
+  loadArabicFont: () => Promise<Uint8Array>
+): Promise<Uint8Array> {
+  const pdf = await PDFDocument.create();
+  pdf.setTitle(doc.invoiceNumber);
+  pdf.setProducer(doc.tenant.name);
+
+  const rtl = doc.locale === 'ar';
+  const l = LABELS[doc.locale];
+  const accent = parseHexColor(doc.tenant.primaryColor) ?? DEFAULT_ACCENT;
+  const { order } = doc;
+
+  const text = await createPdfText(pdf, {
+    rtl,
+    texts: [
+      order.customerName, order.customerAddress, order.shippingCity, order.shippingRegion, order.shippingMethod,
+      doc.tenant.name, ...doc.items.map(i => i.titleSnapshot),
+    ],
+    loadArabicFont,
+  });
+  const { draw, fit } = text;
+  const logo = await embedLogo(pdf, doc.logo);
+
+  let page = pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+
+  const money = (amount: number) => formatMoney(amount, order.currency);
+
+  // ─── Header ───────────────────────────────────────────────────
+  let y = PAGE_HEIGHT - MARGIN - 10;
+  let metaY = drawBrandHeader(page, text, { name: doc.tenant.name, logo, accent, title: l.invoice });
+  const meta: Array<[string, string]> = [
+    [l.invoiceNumber, doc.invoiceNumber],
+    [l.date, doc.invoicedAt.slice(0, 10)],
+    [l.order, order.orderNumber],
+  ];
+  for (const [label, value] of meta) {
+    draw(page, label, CONTENT_WIDTH - 110, metaY, { size: 9, color: MUTED, align: 'end' });
+    draw(page, value, CONTENT_WIDTH, metaY, { size: 9, bold: true, align: 'end' });
+    metaY -= 14;
+  }
+
+  // ─── Bill to / payment ────────────────────────────────────────
+  y = Math.min(metaY, y - 80) - 16;
+  draw(page, l.billTo, 0, y, { size: 9, color: MUTED });
+  draw(page, l.payment, CONTENT_WIDTH, y, { size: 9, color: MUTED, align: 'end' });
+  y -= 15;
+
+  const billTo = [
+    order.customerName,
+    order.customerEmail,
+    order.customerPhone,
+    order.customerAddress,
+    [order.shippingCity, order.shippingRegion].filter(Boolean).join(', '),
+  ].filter((line): line is string => !!line);
+  draw(page, order.paymentMethod === 'COD' ? l.cod : l.card, CONTENT_WIDTH, y, { size: 10, bold: true, align: 'end' });
+  draw(page, order.paymentStatus === 'PAID' ? l.paid : l.unpaid, CONTENT_WIDTH, y - 14, {
+    size: 9,
+    color: MUTED,
+    align: 'end',
+  });
+  for (const line of billTo) {
+    draw(page, fit(line, 10, 300), 0, y, { size: 10 });
+    y -= 14;
+  }
+
+  // ─── Items table ──────────────────────────────────────────────
+  const drawTableHeader = (target: PDFPage, top: number) => {
+    target.drawRectangle({ x: MARGIN, y: top - 7, width: CONTENT_WIDTH, height: 22, color: accent });
+    const opts = { size: 9, bold: true, color: WHITE };
+    draw(target, l.description, 6, top, opts);
+    draw(target, l.qty, COLUMNS.qty, top, { ...opts, align: 'end' });
+    draw(target, l.unitPrice, COLUMNS.unitPrice, top, { ...opts, align: 'end' });
+    draw(target, l.tax, COLUMNS.tax, top, { ...opts, align: 'end' });
+    draw(target, l.amount, COLUMNS.amount - 6, top, { ...opts, align: 'end' });
+    return top - 26;
+  };
+
+  y = drawTableHeader(page, y - 24);
+  for (const item of doc.items) {
+    if (y < FOOTER_SPACE) {
+      page = pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+      y = drawTableHeader(page, PAGE_HEIGHT - MARGIN - 20);
+    }
+    draw(page, fit(item.titleSnapshot, 10, DESCRIPTION_WIDTH), 6, y, { size: 10 });
+    draw(page, String(item.qty), COLUMNS.qty, y, { size: 10, align: 'end' });
+    draw(page, formatAmount(item.priceSnapshot, order.currency), COLUMNS.unitPrice, y, { size: 10, align: 'end' });
+    draw(page, item.taxRate > 0 ? `${item.taxRate}%` : '—', COLUMNS.tax, y, { size: 10, color: MUTED, align: 'end' });
+    draw(page, money(item.priceSnapshot * item.qty), COLUMNS.amount - 6, y, { size: 10, align: 'end' });
+    drawRule(page, y - 8);
+    y -= 22;
+  }
+
+  // ─── Totals ───────────────────────────────────────────────────
+  const totals: Array<[string, string]> = [[l.subtotal, money(order.subtotal)]];
+  if (order.discountTotal > 0) {
+    totals.push([order.discountCode ? `${l.discount} (${order.discountCode})` : l.discount, `-${money(order.discountTotal)}`]);
+  }
+  if (order.shippingTotal > 0 || order.shippingMethod) {
+    totals.push([order.shippingMethod ? `${l.shipping} — ${order.shippingMethod}` : l.shipping, money(order.shippingTotal)]);
+  }
+  for (const row of taxBreakdown(doc.items)) totals.push([`${l.tax} ${row.rate}%`, money(row.amount)]);
+  if (order.shippingTax > 0) totals.push([l.shippingTax, money(order.shippingTax)]);
+
+  if (y - (totals.length + 2) * 16 < MARGIN + 40) {
+    page = pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+    y = PAGE_HEIGHT - MARGIN;
+  }
+  y -= 8;
+  for (const [label, value] of totals) {
+    draw(page, fit(label, 10, 170), CONTENT_WIDTH - 120, y, { size: 10, color: MUTED, align: 'end' });
+    draw(page, value, CONTENT_WIDTH - 6, y, { size: 10, align: 'end' });
+    y -= 16;
+  }
+  page.drawRectangle({
+    x: rtl ? MARGIN : PAGE_WIDTH - MARGIN - 260,
+    y: y - 8,
+    width: 260,
+    height: 24,
+    color: accent,
+    opacity: 0.1,
+  });
+  draw(page, l.total, CONTENT_WIDTH - 120, y, { size: 12, bold: true, align: 'end' });
+  draw(page, money(order.total), CONTENT_WIDTH - 6, y, { size: 12, bold: true, color: accent, align: 'end' });
+  y -= 24;
+  if (order.taxTotal > 0 && order.pricesIncludeTax) {
+    draw(page, l.taxIncluded, CONTENT_WIDTH - 6, y, { size: 8, color: MUTED, align: 'end' });
+  }
+
+  // ─── Footer (every page) ──────────────────────────────────────
+  const pages = pdf.getPages();
+  pages.forEach((p, i) => {
+    drawRule(p, 50);
+    draw(p, `${l.thanks} — ${doc.tenant.name}`, 0, 36, { size: 8, color: MUTED });
+    draw(p, `${i + 1} / ${pages.length}`, CONTENT_WIDTH, 36, { size: 8, color: MUTED, align: 'end' });
+  });
+
+  return pdf.save();
+}
@@ -0,0 +1,144 @@
+// apps/api/src/lib/invoices.ts
+//
+// Invoice issuing for orders:
+//   - Numbers are allocated on first download and never change. The counter
+//     bump and the order update run in one D1 batch (a transaction), so
+//     numbers have no gaps and an order never gets two.
+//   - An issued invoice is immutable, so with INVOICE_CACHE="r2" the PDF is
+//     rendered once per language and served from R2 afterwards.
+//   - Font and logo loaders are also used for packing slips (lib/packingSlipPdf.ts).
+//     The Arabic font lives in R2 (ARABIC_FONT_KEY); if missing it is fetched
+//     once from ARABIC_FONT_URL and stored there.
+
+import { eq, and, isNull, sql } from 'drizzle-orm';
+import { tenants, orders, orderItems } from '@repo/db';
+import type { Database, Order } from '@repo/db';
+import type { InvoiceLocale } from '@repo/shared/invoices';
+import { renderInvoicePdf } from './invoicePdf.js';
+import type { PdfLogo } from './pdfText.js';
+import type { Env } from '../env.js';
+
+const ARABIC_FONT_KEY = 'assets/fonts/NotoNaskhArabic-Regular.ttf';
+const ARABIC_FONT_URL =
+  'https://cdn.jsdelivr.net/gh/notofonts/notofonts.github.io/fonts/NotoNaskhArabic/hinted/ttf/NotoNaskhArabic-Regular.ttf';
+
+/** Thrown when a document needs Arabic text but no Arabic font can be loaded */
+export class ArabicFontError extends Error {
+  constructor() {
+    super('Arabic font unavailable');
+  }
+}
+
+// Survives between requests served by the same isolate
+let arabicFont: Uint8Array | null = null;
+
+/** Returns the order's invoice number, allocating one if it has none yet */
+export async function issueInvoiceNumber(
+  db: Database,
+  tenantId: string,
+  order: Order
+): Promise<{ invoiceNumber: string; invoicedAt: string; issued: boolean }> {
+  if (order.invoiceNumber && order.invoicedAt) {
+    return { invoiceNumber: order.invoiceNumber, invoicedAt: order.invoicedAt, issued: false };
+  }
+
+  const invoicedAt = new Date().toISOString();
+  const unnumbered = and(eq(orders.id, order.id), eq(orders.tenantId, tenantId), isNull(orders.invoiceNumber));
+  // Format matches formatOrderNumber() in @repo/shared/orders
+  await db.batch([
+    db.update(tenants)
+      .set({ invoiceSeq: sql`${tenants.invoiceSeq} + 1` })
+      .where(and(
+        eq(tenants.id, tenantId),
+        sql`exists (select 1 from ${orders} where ${unnumbered})`
+      )),
+    db.update(orders)
+      .set({
+        invoiceNumber: sql`(select ${tenants.invoicePrefix} || '-' || printf('%06d', ${tenants.invoiceSeq}) from ${tenants} where ${tenants.id} = ${tenantId})`,
+        invoicedAt,
+      })
+      .where(unnumbered),
+  ]);
+
+  const numbered = await db.query.orders.findFirst({
+    where: and(eq(orders.id, order.id), eq(orders.tenantId, tenantId)),
+    columns: { invoiceNumber: true, invoicedAt: true },
+  });
+  return {
+    invoiceNumber: numbered!.invoiceNumber!,
+    invoicedAt: numbered!.invoicedAt!,
+    // A concurrent download may have numbered it first
+    issued: numbered!.invoicedAt === invoicedAt,
+  };
+}
+
+/** The invoice PDF for an order, from the R2 cache when enabled */
+export async function getInvoicePdf(
+  env: Env,
+  db: Database,
+  order: Order,
+  invoice: { invoiceNumber: string; invoicedAt: string },
+  locale: InvoiceLocale
+): Promise<Uint8Array> {
+  const cacheKey = `invoices/${order.tenantId}/${invoice.invoiceNumber}-${locale}.pdf`;
+  const useCache = env.INVOICE_CACHE === 'r2';
+
+  if (useCache) {
+    const cached = await env.R2.get(cacheKey);
+    if (cached) return new Uint8Array(await cached.arrayBuffer());
+  }
+
+  const [tenant, items] = await Promise.all([
+    db.query.tenants.findFirst({ where: eq(tenants.id, order.tenantId) }),
+    db.query.orderItems.findMany({ where: eq(orderItems.orderId, order.id) }),
+  ]);
+
+  const pdf = await renderInvoicePdf(
+    {
+      locale,
+      ...invoice,
+      tenant: { name: tenant?.name ?? '', primaryColor: tenant?.primaryColor ?? null },
+      logo: tenant?.logoR2Key ? await loadLogo(env, tenant.logoR2Key) : null,
+      order,
+      items,
+    },
+    () => loadArabicFont(env)
+  );
+
+  if (useCache) {
+    await env.R2.put(cacheKey, pdf, {
+      httpMetadata: { contentType: 'application/pdf' },
+      customMetadata: { tenantId: order.tenantId, orderId: order.id },
+    }).catch(() => { /* non-critical */ });
+  }
+  return pdf;
+}
+
+// ─── Assets ───────────────────────────────────────────────────
+
+export async function loadArabicFont(env: Env): Promise<Uint8Array> {
+  if (arabicFont) return arabicFont;
+
+  const stored = await env.R2.get(ARABIC_FONT_KEY);
+  if (stored) {
+    arabicFont = new Uint8Array(await stored.arrayBuffer());
+    return arabicFont;
+  }
+
+  const res = await fetch(ARABIC_FONT_URL).catch(() => null);
+  if (!res?.ok) throw new ArabicFontError();
+  arabicFont = new Uint8Array(await res.arrayBuffer());
+  await env.R2.put(ARABIC_FONT_KEY, arabicFont, { httpMetadata: { contentType: 'font/ttf' } })
+    .catch(() => { /* fetched again next time */ });
+  return arabicFont;
+}
+
+/** PDF supports PNG and JPEG only — other logo formats are left off the invoice */
+export async function loadLogo(env: Env, key: string): Promise<PdfLogo | null> {
+  const object = await env.R2.get(key).catch(() => null);
+  if (!object) return null;
+  const bytes = new Uint8Array(await object.arrayBuffer());
+  if (bytes[0] === 0x89 && bytes[1] === 0x50 && bytes[2] === 0x4e && bytes[3] === 0x47) return { bytes, type: 'png' };
+  if (bytes[0] === 0xff && bytes[1] === 0xd8) return { bytes, type: 'jpg' };
+  return null;
+}
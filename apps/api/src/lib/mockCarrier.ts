@@ -0,0 +1,127 @@
+// apps/api/src/lib/mockCarrier.ts
+//
+// Local stand-in for a real carrier, registered as `mock` in lib/carriers.ts
+// and only offered in development. Nothing leaves the Worker:
+//   - tracking numbers are made up (MK + 10 digits)
+//   - tracking advances one step a minute after booking:
+//     created → in_transit → out_for_delivery → delivered
+//   - the webhook takes unsigned JSON so any status can be pushed by hand:
+//     { "trackingNumber": "MK…", "status": "failed_attempt", "description"?: "…" }
+
+import { PDFDocument } from 'pdf-lib';
+import { SHIPMENT_STATUSES } from '@repo/shared/shipments';
+import type { ShipmentStatus, TrackingEvent } from '@repo/shared/shipments';
+import { formatMoney } from '@repo/shared/money';
+import type { Env } from '../env.js';
+import type { CarrierAdapter } from './carriers.js';
+import { createPdfText, drawRule, PAGE_WIDTH, PAGE_HEIGHT, MARGIN, CONTENT_WIDTH, MUTED } from './pdfText.js';
+import { loadArabicFont } from './invoices.js';
+import { sqliteDate } from './orderEvents.js';
+
+const STEP_MS = 60_000;
+const ROUTE: ShipmentStatus[] = ['created', 'in_transit', 'out_for_delivery', 'delivered'];
+const DESCRIPTIONS: Record<ShipmentStatus, string> = {
+  created: 'Shipment booked',
+  in_transit: 'Parcel in transit',
+  out_for_delivery: 'Out for delivery',
+  failed_attempt: 'Delivery attempt failed',
+  delivered: 'Delivered',
+  returned: 'Returned to sender',
+  cancelled: 'Shipment cancelled',
+};
+
+export function mockCarrier(env: Env): CarrierAdapter {
+  return {
+    id: 'mock',
+    name: 'Mock Carrier',
+
+    async createShipment() {
+      const digits = crypto.getRandomValues(new Uint32Array(2));
+      const trackingNumber = `MK${String(digits[0]! % 100_000).padStart(5, '0')}${String(digits[1]! % 100_000).padStart(5, '0')}`;
+      return {
+        carrierShipmentId: crypto.randomUUID(),
+        trackingNumber,
+        trackingUrl: null,
+        estimatedDeliveryAt: new Date(Date.now() + STEP_MS * (ROUTE.length - 1)).toISOString(),
+      };
+    },
+
+    async getLabel(shipment, order) {
+      const pdf = await PDFDocument.create();
+      const address = [order.customerAddress, order.shippingCity, order.shippingRegion, order.shippingCountry]
+        .filter(Boolean)
+        .join(', ');
+      const text = await createPdfText(pdf, {
+        rtl: false,
+        texts: [order.customerName, address],
+        loadArabicFont: () => loadArabicFont(env),
+      });
+      const page = pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+
+      let y = PAGE_HEIGHT - MARGIN - 20;
+      text.draw(page, 'MOCK CARRIER — NOT A REAL LABEL', 0, y, { size: 10, color: MUTED });
+      y -= 40;
+      text.draw(page, shipment.trackingNumber, 0, y, { size: 28, bold: true });
+      y -= 24;
+      text.draw(page, `Order ${order.orderNumber}`, 0, y, { size: 12 });
+      y -= 16;
+      drawRule(page, y);
+      y -= 24;
+      text.draw(page, text.fit(order.customerName ?? order.customerEmail, 14, CONTENT_WIDTH), 0, y, { size: 14, bold: true });
+      y -= 18;
+      if (order.customerPhone) {
+        text.draw(page, order.customerPhone, 0, y, { size: 11 });
+        y -= 16;
+      }
+      if (address) {
+        text.draw(page, text.fit(address, 11, CONTENT_WIDTH), 0, y, { size: 11 });
+        y -= 16;
+      }
+      y -= 16;
+      const collect = order.paymentMethod === 'COD'
+        ? `COD ${formatMoney(order.total, order.currency)}`
+        : 'Prepaid';
+      text.draw(page, collect, 0, y, { size: 16, bold: true });
+
+      return { contentType: 'application/pdf', body: await pdf.save() };
+    },
+
+    async getTracking(shipment) {
+      const booked = sqliteDate(shipment.createdAt).getTime();
+      const reached = Math.min(Math.floor((Date.now() - booked) / STEP_MS), ROUTE.length - 1);
+      const events: TrackingEvent[] = [];
+      for (let step = 0; step <= reached; step++) {
+        const status = ROUTE[step]!;
+        events.push({
+          status,
+          occurredAt: new Date(booked + step * STEP_MS).toISOString(),
+          description: DESCRIPTIONS[status],
+          location: 'Casablanca',
+        });
+      }
+      return events;
+    },
+
+    async parseWebhook(request) {
+      const body = await request.json().catch(() => null) as
+        | { trackingNumber?: unknown; status?: unknown; description?: unknown }
+        | null;
+      if (
+        !body ||
+        typeof body.trackingNumber !== 'string' ||
+        !(SHIPMENT_STATUSES as readonly unknown[]).includes(body.status)
+      ) {
+        return null;
+      }
+      const status = body.status as ShipmentStatus;
+      return [{
+        trackingNumber: body.trackingNumber,
+        events: [{
+          status,
+          occurredAt: new Date().toISOString(),
+          description: typeof body.description === 'string' ? body.description : DESCRIPTIONS[status],
+        }],
+      }];
+    },
+  };
+}
@@ -0,0 +1,82 @@
+// apps/api/src/lib/orderAccess.ts
+//
+// Proof that a storefront visitor owns an order. Checkout returns an
+// HMAC-SHA256 token over tenant + order id (secret: ORDER_TOKEN_SECRET) which
+// the success link and emails carry. Stateless — nothing to store or expire;
+// rotating the secret invalidates every link.
+// Without a token, GET /store/orders/:id returns publicOrderView() only.
+
+import type { Order, OrderItem } from '@repo/db';
+
+export async function signOrderToken(secret: string, tenantId: string, orderId: string): Promise<string> {
+  const key = await importHmacKey(secret);
+  const sig = await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(tokenPayload(tenantId, orderId)));
+  return toBase64Url(new Uint8Array(sig));
+}
+
+/** Constant-time — crypto.subtle.verify compares the MAC for us */
+export async function verifyOrderToken(
+  secret: string,
+  tenantId: string,
+  orderId: string,
+  token: string
+): Promise<boolean> {
+  const sig = fromBase64Url(token);
+  if (!sig) return false;
+  const key = await importHmacKey(secret);
+  return crypto.subtle.verify('HMAC', key, sig, new TextEncoder().encode(tokenPayload(tenantId, orderId)));
+}
+
+/** Full order for its owner — fraud assessment and call-centre bookkeeping stay private */
+export function ownerOrderView(order: Order, items: OrderItem[]) {
+  const {
+    riskScore, riskReasonsJson, requiresConfirmation,
+    confirmationAttempts, lastContactAt, callbackAt,
+    stripeSessionId, stripePaymentIntentId, notes,
+    ...rest
+  } = order;
+  return { ...rest, items, verified: true as const };
+}
+
+/** What anyone holding an order id or number may see — no customer data, no contents */
+export function publicOrderView(order: Order) {
+  return {
+    id: order.id,
+    orderNumber: order.orderNumber,
+    status: order.status,
+    paymentMethod: order.paymentMethod,
+    paymentStatus: order.paymentStatus,
+    createdAt: order.createdAt,
+    verified: false as const,
+  };
+}
+
+// ─── Helpers ──────────────────────────────────────────────────
+
+function tokenPayload(tenantId: string, orderId: string): string {
+  return `order-access:v1:${tenantId}:${orderId}`;
+}
+
+function importHmacKey(secret: string): Promise<CryptoKey> {
+  return crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign', 'verify']
+  );
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(value: string): Uint8Array | null {
+  if (!/^[A-Za-z0-9_-]{1,128}$/.test(value)) return null;
+  const b64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  try {
+    return Uint8Array.from(atob(b64 + '='.repeat((4 - (b64.length % 4)) % 4)), ch => ch.charCodeAt(0));
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,355 @@
+// apps/api/src/lib/orderEdits.ts
+//
+// Editing an order before fulfillment (POST /dashboard/orders/:id/edits):
+//   - lines keep the price they were sold at; added products take today's price,
+//     in the order's currency at the rate it was placed at
+//   - the order is re-priced by priceCheckout (discount, shipping, tax)
+//   - added units are reserved and committed, removed units go back to stock
+//   - paid Stripe orders settle the difference: a payment link for more, an
+//     edit refund for less (kept out of refundedTotal — see lib/refunds.ts)
+// Which orders may change and what a list of changes does: @repo/shared/orderEdits.
+
+import { eq, and, desc, inArray } from 'drizzle-orm';
+import { orders, orderItems, orderEdits, products, discountRedemptions, auditLogs } from '@repo/db';
+import type { Database, Order, OrderEdit } from '@repo/db';
+import { applyOrderEdit, isOrderEditable, stockDeltas } from '@repo/shared/orderEdits';
+import { codLimitFor } from '@repo/shared/fraud';
+import { formatMoney } from '@repo/shared/money';
+import type { EditOrderInput } from '@repo/shared/schemas';
+import type { Currency } from '@repo/shared/types';
+import Stripe from 'stripe';
+import { priceCheckout, orderPricingColumns } from './checkout.js';
+import type { CartLine } from './checkout.js';
+import { reserveStock, commitReservations, settleReturnedStock } from './stock.js';
+import { releaseDiscount } from './discounts.js';
+import { loadCodSettings } from './fraud.js';
+import { sqliteDate } from './orderEvents.js';
+import { createRefund } from './refunds.js';
+import { createPaymentLink, deactivatePaymentLink } from './paymentLinks.js';
+import { refreshCustomer } from './customers.js';
+import { loadExchangeRates, loadPriceOverrides, unitPrice } from './currencies.js';
+import type { CurrencyContext } from './currencies.js';
+
+export type EditOrderResult =
+  | { ok: true; order: Order; edit: OrderEdit; settlementError?: string }
+  | { ok: false; status: 400 | 409 | 422 | 502; body: { error: string; code?: string; [key: string]: unknown } };
+
+function reject(status: 400 | 409 | 422, code: string, error: string, extra: Record<string, unknown> = {}): EditOrderResult {
+  return { ok: false, status, body: { error, code, ...extra } };
+}
+
+export async function editOrder(
+  db: Database,
+  stripeSecretKey: string,
+  actor: { tenantId: string; userId: string },
+  order: Order,
+  input: EditOrderInput
+): Promise<EditOrderResult> {
+  const { tenantId, userId } = actor;
+
+  if (!isOrderEditable(order)) {
+    return reject(422, 'NOT_EDITABLE', 'Only pending COD orders and paid Stripe orders that have not shipped can be edited');
+  }
+  if (order.refundedTotal > 0) {
+    return reject(422, 'HAS_REFUNDS', 'Orders with refunds cannot be edited');
+  }
+  // An issued invoice is final — it must keep matching the order
+  if (order.invoiceNumber) {
+    return reject(422, 'INVOICED', `Invoice ${order.invoiceNumber} was already issued for this order`);
+  }
+
+  const items = await db.query.orderItems.findMany({ where: eq(orderItems.orderId, order.id) });
+  const edited = applyOrderEdit(
+    items.map(i => ({ orderItemId: i.id, productId: i.productId, qty: i.qty })),
+    input.changes
+  );
+  if (!edited.ok) {
+    switch (edited.code) {
+      case 'UNKNOWN_ITEM': return reject(400, edited.code, `Order item ${edited.orderItemId} not found`);
+      case 'EMPTY_ORDER': return reject(422, edited.code, 'An edit cannot remove every item — cancel the order instead');
+      case 'NO_CHANGES': return reject(422, edited.code, 'The edit does not change the order');
+    }
+  }
+
+  // ── Re-price: sold lines keep their snapshot price, new lines take the live one ──
+  const productIds = [...new Set(edited.lines.map(l => l.productId).filter((id): id is string => !!id))];
+  const found = productIds.length > 0
+    ? await db.query.products.findMany({ where: and(eq(products.tenantId, tenantId), inArray(products.id, productIds)) })
+    : [];
+  const byId = new Map(found.map(p => [p.id, p]));
+
+  const fx: CurrencyContext = {
+    currency: order.currency as Currency,
+    baseCurrency: order.baseCurrency as Currency,
+    exchangeRate: order.exchangeRate,
+    rates: (await loadExchangeRates(db, tenantId)).rates,
+  };
+  const overrides = await loadPriceOverrides(db, tenantId, fx.currency, productIds);
+
+  const cart: CartLine[] = [];
+  for (const line of edited.lines) {
+    const product = line.productId ? byId.get(line.productId) : undefined;
+    const item = line.orderItemId ? items.find(i => i.id === line.orderItemId) : undefined;
+    // Custom lines of orders created from a draft have no product to look up
+    if (item && !item.productId) {
+      cart.push({ productId: null, title: item.titleSnapshot, price: item.priceSnapshot, qty: line.qty, weightGrams: null, taxClassId: null });
+      continue;
+    }
+    if (!product || (!item && product.status !== 'active')) {
+      return reject(422, 'PRODUCT_UNAVAILABLE', `Product ${item?.titleSnapshot ?? line.productId} is no longer available`);
+    }
+    const price = item?.priceSnapshot ?? unitPrice(product, overrides.get(product.id), fx);
+    if (price === null) {
+      return reject(422, 'PRICE_UNAVAILABLE', `${product.title} has no price in ${fx.currency} — add an exchange rate or a ${fx.currency} price`);
+    }
+    cart.push({
+      productId: product.id,
+      title: item?.titleSnapshot ?? product.title,
+      price,
+      qty: line.qty,
+      weightGrams: product.weightGrams,
+      taxClassId: product.taxClassId,
+    });
+  }
+
+  const priced = await priceCheckout(db, tenantId, {
+    lines: cart,
+    customerEmail: order.customerEmail,
+    paymentMethod: order.paymentMethod,
+    discountCode: input.removeDiscount ? undefined : order.discountCode ?? undefined,
+    shipping: order.shippingRateId && order.shippingCountry
+      ? {
+          rateId: order.shippingRateId,
+          country: order.shippingCountry,
+          region: order.shippingRegion ?? undefined,
+          city: order.shippingCity ?? undefined,
+        }
+      : undefined,
+    exchangeRate: order.exchangeRate,
+    editing: { orderId: order.id, placedAt: sqliteDate(order.createdAt) },
+  });
+  if (!priced.ok) {
+    return { ok: false, status: 422, body: { error: priced.error, code: priced.code, reason: priced.reason } };
+  }
+  const pricing = priced.pricing;
+
+  if (order.paymentMethod === 'COD' && pricing.total > order.total) {
+    const limit = codLimitFor((await loadCodSettings(db, tenantId)).limits, order.currency as Currency);
+    if (pricing.total > limit) {
+      return reject(422, 'COD_LIMIT_EXCEEDED', `COD orders are limited to ${formatMoney(limit, order.currency)}`);
+    }
+  }
+
+  // What the customer has actually paid: an unpaid balance from an earlier
+  // edit is replaced by this one, not added to it
+  const isStripe = order.paymentMethod === 'STRIPE';
+  const awaiting = isStripe
+    ? await db.query.orderEdits.findFirst({
+        where: and(eq(orderEdits.orderId, order.id), eq(orderEdits.status, 'awaiting_payment')),
+        orderBy: [desc(orderEdits.createdAt)],
+      })
+    : undefined;
+  const charged = awaiting?.previousTotal ?? order.total;
+  const balance = isStripe ? pricing.total - charged : 0;
+
+  // ── Stock: take added units first — the edit fails cleanly if they are gone ──
+  const deltas = stockDeltas(edited.diff);
+  const added = [...deltas].filter(([, d]) => d > 0).map(([productId, qty]) => ({ productId, qty }));
+  const removed = [...deltas].filter(([, d]) => d < 0).map(([productId, d]) => ({ productId, qty: -d, restock: true }));
+  if (added.length > 0) {
+    const hold = await reserveStock(db, tenantId, order.id, added);
+    if (!hold.ok) {
+      const title = cart.find(l => l.productId === hold.productId)?.title ?? hold.productId;
+      return reject(409, 'OUT_OF_STOCK', `Not enough stock for ${title}`, { productId: hold.productId });
+    }
+    await commitReservations(db, order.id);
+  }
+
+  // Guarded on what was priced — a concurrent edit or status change wins
+  const paymentStatus: Order['paymentStatus'] = isStripe ? (balance > 0 ? 'PENDING' : 'PAID') : order.paymentStatus;
+  const updated = await db.update(orders)
+    .set({ ...orderPricingColumns(pricing), paymentStatus })
+    .where(and(
+      eq(orders.id, order.id),
+      eq(orders.tenantId, tenantId),
+      eq(orders.status, order.status),
+      eq(orders.total, order.total),
+      eq(orders.paymentStatus, order.paymentStatus)
+    ))
+    .returning();
+  if (updated.length === 0) {
+    await settleReturnedStock(db, order.id, added.map(a => ({ ...a, restock: true })));
+    return reject(409, 'CONFLICT', 'Order changed concurrently, reload and retry');
+  }
+
+  const lineStatements = [
+    ...edited.removed.map(id => db.delete(orderItems).where(eq(orderItems.id, id))),
+    ...pricing.lines.map((l, i) => {
+      const orderItemId = edited.lines[i]!.orderItemId;
+      return orderItemId
+        ? db.update(orderItems).set({ qty: l.qty, taxRate: l.taxRate, taxAmount: l.taxAmount }).where(eq(orderItems.id, orderItemId))
+        : db.insert(orderItems).values({
+            id: crypto.randomUUID(),
+            tenantId,
+            orderId: order.id,
+            productId: l.productId,
+            titleSnapshot: l.title,
+            priceSnapshot: l.price,
+            qty: l.qty,
+            taxRate: l.taxRate,
+            taxAmount: l.taxAmount,
+          });
+    }),
+  ];
+  const [firstStatement, ...otherStatements] = lineStatements;
+  await db.batch([firstStatement!, ...otherStatements]);
+
+  if (removed.length > 0) await settleReturnedStock(db, order.id, removed);
+
+  if (input.removeDiscount && order.discountCode) {
+    await releaseDiscount(db, order.id);
+  } else if (pricing.discount) {
+    await db.update(discountRedemptions)
+      .set({ amount: pricing.discountTotal })
+      .where(eq(discountRedemptions.orderId, order.id));
+  }
+
+  // ── Record the edit, then settle the difference (Stripe only) ──
+  const stripe = isStripe ? new Stripe(stripeSecretKey) : null;
+  if (awaiting) {
+    await db.update(orderEdits).set({ status: 'superseded' }).where(eq(orderEdits.id, awaiting.id));
+    if (stripe && awaiting.stripePaymentLinkId) {
+      await deactivatePaymentLink(stripe, awaiting.stripePaymentLinkId).catch(() => { /* it only takes one payment anyway */ });
+    }
+  }
+
+  const titles = new Map([
+    ...items.map(i => [i.id, i.titleSnapshot] as const),
+    ...found.map(p => [p.id, p.title] as const),
+  ]);
+  const changes = edited.diff.map(d => ({
+    ...d,
+    title: (d.orderItemId && titles.get(d.orderItemId)) || (d.productId && titles.get(d.productId)) || null,
+  }));
+
+  const editId = crypto.randomUUID();
+  await db.insert(orderEdits).values({
+    id: editId,
+    tenantId,
+    orderId: order.id,
+    actorUserId: userId,
+    changesJson: JSON.stringify(changes),
+    previousTotal: charged,
+    newTotal: pricing.total,
+    balance,
+    currency: order.currency,
+    status: balance > 0 ? 'awaiting_payment' : 'settled',
+    note: input.note ?? null,
+  });
+
+  let settlementError: string | undefined;
+  if (stripe && balance > 0) {
+    const link = await issueEditPaymentLink(db, stripe, updated[0]!, editId, balance);
+    if (!link.ok) settlementError = link.error;
+  } else if (stripe && balance < 0) {
+    // Refund against what was charged, not the lowered total
+    const refunded = await createRefund(
+      db,
+      stripeSecretKey,
+      actor,
+      { ...order, total: charged, paymentStatus: 'PAID' },
+      { amount: -balance, reason: 'requested_by_customer', note: `Order edit ${editId}` },
+      'edit'
+    );
+    if (refunded.ok) {
+      await db.update(orderEdits).set({ status: 'refunded', refundId: refunded.refund.id }).where(eq(orderEdits.id, editId));
+    } else {
+      settlementError = refunded.body.error;
+      await db.update(orderEdits)
+        .set({ status: 'refund_failed', refundId: (refunded.body.refundId as string | undefined) ?? null })
+        .where(eq(orderEdits.id, editId));
+    }
+  }
+
+  await refreshCustomer(db, tenantId, order.customerEmail);
+
+  await db.insert(auditLogs).values({
+    id: crypto.randomUUID(),
+    tenantId,
+    actorUserId: userId,
+    action: 'order.edited',
+    metaJson: JSON.stringify({
+      orderId: order.id,
+      editId,
+      changes,
+      previousTotal: charged,
+      newTotal: pricing.total,
+      balance,
+      currency: order.currency,
+      discountRemoved: input.removeDiscount && !!order.discountCode,
+      settlementError,
+    }),
+  });
+
+  const edit = await db.query.orderEdits.findFirst({ where: eq(orderEdits.id, editId) });
+  return { ok: true, order: updated[0]!, edit: edit!, settlementError };
+}
+
+/**
+ * Payment link for a balance owed after an edit. Also used to retry when
+ * Stripe failed during the edit; an existing link is returned as is.
+ */
+export async function issueEditPaymentLink(
+  db: Database,
+  stripe: Stripe,
+  order: Order,
+  editId: string,
+  amount: number
+): Promise<{ ok: true; url: string } | { ok: false; error: string }> {
+  const edit = await db.query.orderEdits.findFirst({ where: eq(orderEdits.id, editId) });
+  if (edit?.paymentUrl) return { ok: true, url: edit.paymentUrl };
+
+  try {
+    const link = await createPaymentLink(stripe, {
+      amount,
+      currency: order.currency,
+      name: `${order.orderNumber} — balance after order change`,
+      metadata: { tenantId: order.tenantId, orderId: order.id, orderEditId: editId },
+    }, `order_edit_${editId}`);
+
+    await db.update(orderEdits)
+      .set({ stripePaymentLinkId: link.id, paymentUrl: link.url })
+      .where(eq(orderEdits.id, editId));
+    return { ok: true, url: link.url };
+  } catch (err: any) {
+    return { ok: false, error: `Stripe payment link failed: ${err.message}` };
+  }
+}
+
+/**
+ * Webhook side: the customer paid an edit's payment link. Idempotent — only an
+ * edit still awaiting payment is settled. Null when nothing changed.
+ */
+export async function markEditPaid(
+  db: Database,
+  orderEditId: string,
+  paymentIntentId: string | null
+): Promise<OrderEdit | null> {
+  const [edit] = await db.update(orderEdits)
+    .set({ status: 'paid', paidAt: new Date().toISOString(), stripePaymentIntentId: paymentIntentId })
+    .where(and(eq(orderEdits.id, orderEditId), eq(orderEdits.status, 'awaiting_payment')))
+    .returning();
+  if (!edit) return null;
+
+  await db.update(orders)
+    .set({ paymentStatus: 'PAID' })
+    .where(and(eq(orders.id, edit.orderId), eq(orders.paymentStatus, 'PENDING')));
+
+  await db.insert(auditLogs).values({
+    id: crypto.randomUUID(),
+    tenantId: edit.tenantId,
+    action: 'order.edit_paid',
+    metaJson: JSON.stringify({ orderId: edit.orderId, editId: edit.id, amount: edit.balance, paymentIntentId }),
+  });
+  return edit;
+}
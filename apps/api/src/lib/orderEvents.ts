@@ -0,0 +1,45 @@
+// apps/api/src/lib/orderEvents.ts
+//
+// Order status timeline — every lifecycle transition is appended here,
+// whether it comes from the dashboard, checkout or the Stripe webhook.
+
+import { eq, asc, sql } from 'drizzle-orm';
+import { orderStatusEvents } from '@repo/db';
+import type { Database, OrderStatusEvent } from '@repo/db';
+import type { OrderStatus } from '@repo/shared/types';
+
+export interface StatusEventInput {
+  tenantId: string;
+  orderId: string;
+  from: OrderStatus | null;
+  to: OrderStatus;
+  source: OrderStatusEvent['source'];
+  actorUserId?: string | null;
+  note?: string | null;
+}
+
+export async function recordStatusEvent(db: Database, event: StatusEventInput): Promise<void> {
+  await db.insert(orderStatusEvents).values({
+    id: crypto.randomUUID(),
+    tenantId: event.tenantId,
+    orderId: event.orderId,
+    fromStatus: event.from,
+    toStatus: event.to,
+    source: event.source,
+    actorUserId: event.actorUserId ?? null,
+    note: event.note ?? null,
+  });
+}
+
+/** Oldest first; rowid breaks ties within the same second */
+export async function getStatusTimeline(db: Database, orderId: string): Promise<OrderStatusEvent[]> {
+  return db.query.orderStatusEvents.findMany({
+    where: eq(orderStatusEvents.orderId, orderId),
+    orderBy: [asc(orderStatusEvents.createdAt), sql`rowid`],
+  });
+}
+
+/** Parses created_at-style values — SQLite's datetime('now') is UTC without a zone */
+export function sqliteDate(value: string): Date {
+  return new Date(value.includes('T') ? value : `${value.replace(' ', 'T')}Z`);
+}
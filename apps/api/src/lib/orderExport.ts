@@ -0,0 +1,181 @@
+// apps/api/src/lib/orderExport.ts
+//
+// Streams every matching order as CSV or XLSX without holding the result set:
+//   - orders are read in pages of EXPORT_PAGE_SIZE with a keyset cursor on
+//     (created_at, id), so page N costs the same as page 1
+//   - the response stream pulls a page only when the client has taken the
+//     previous one (backpressure), keeping memory flat for any tenant size
+// Columns and headers: @repo/shared/exports.
+
+import { eq, and, or, gt, asc, inArray } from 'drizzle-orm';
+import type { SQL } from 'drizzle-orm';
+import { orders, orderItems, products } from '@repo/db';
+import type { Database, Order, OrderItem } from '@repo/db';
+import {
+  ORDER_EXPORT_COLUMNS,
+  LINE_EXPORT_COLUMNS,
+  exportHeaders,
+  csvRow,
+} from '@repo/shared/exports';
+import type {
+  ExportCell,
+  ExportFormat,
+  ExportLocale,
+  OrderExportKey,
+  LineExportKey,
+} from '@repo/shared/exports';
+import { fromMinor } from '@repo/shared/money';
+import { xlsxStream } from './xlsx.js';
+
+export const EXPORT_PAGE_SIZE = 500;
+
+export interface OrderExportOptions {
+  tenantId: string;
+  /** Filter conditions, tenant included */
+  where: SQL;
+  format: ExportFormat;
+  /** One row per order item instead of per order */
+  lines: boolean;
+  locale: ExportLocale;
+}
+
+export const EXPORT_CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+};
+
+export function orderExportStream(db: Database, opts: OrderExportOptions): ReadableStream<Uint8Array> {
+  const columns = opts.lines ? LINE_EXPORT_COLUMNS : ORDER_EXPORT_COLUMNS;
+  const header = exportHeaders(columns, opts.locale);
+  const rows = opts.lines ? lineRows(db, opts) : orderRows(db, opts);
+
+  const chunks = opts.format === 'xlsx'
+    ? xlsxStream({ name: opts.locale === 'ar' ? 'الطلبات' : 'Orders', header, rtl: opts.locale === 'ar' }, rows)
+    : csvStream(header, rows);
+  return toReadableStream(chunks);
+}
+
+// ─── Rows ─────────────────────────────────────────────────────
+// Amounts leave as decimal numbers so spreadsheets can sum them
+
+
+const ORDER_VALUES: Record<OrderExportKey, (o: Order) => ExportCell> = {
+  orderNumber: o => o.orderNumber,
+  createdAt: o => o.createdAt,
+  status: o => o.status,
+  paymentMethod: o => o.paymentMethod,
+  paymentStatus: o => o.paymentStatus,
+  customerName: o => o.customerName,
+  customerEmail: o => o.customerEmail,
+  customerPhone: o => o.customerPhone,
+  shippingCity: o => o.shippingCity,
+  shippingRegion: o => o.shippingRegion,
+  shippingMethod: o => o.shippingMethod,
+  currency: o => o.currency,
+  subtotal: o => fromMinor(o.subtotal, o.currency),
+  discountCode: o => o.discountCode,
+  discountTotal: o => fromMinor(o.discountTotal, o.currency),
+  shippingTotal: o => fromMinor(o.shippingTotal, o.currency),
+  taxTotal: o => fromMinor(o.taxTotal, o.currency),
+  total: o => fromMinor(o.total, o.currency),
+  refundedTotal: o => fromMinor(o.refundedTotal, o.currency),
+  invoiceNumber: o => o.invoiceNumber,
+};
+
+const LINE_VALUES: Record<LineExportKey, (o: Order, i: OrderItem, sku: string | null) => ExportCell> = {
+  orderNumber: o => o.orderNumber,
+  createdAt: o => o.createdAt,
+  status: o => o.status,
+  paymentMethod: o => o.paymentMethod,
+  paymentStatus: o => o.paymentStatus,
+  customerName: o => o.customerName,
+  customerEmail: o => o.customerEmail,
+  sku: (_o, _i, sku) => sku,
+  product: (_o, i) => i.titleSnapshot,
+  qty: (_o, i) => i.qty,
+  unitPrice: (o, i) => fromMinor(i.priceSnapshot, o.currency),
+  taxRate: (_o, i) => i.taxRate,
+  taxAmount: (o, i) => fromMinor(i.taxAmount, o.currency),
+  lineTotal: (o, i) => fromMinor(i.priceSnapshot * i.qty, o.currency),
+  currency: o => o.currency,
+};
+
+async function* orderRows(db: Database, opts: OrderExportOptions): AsyncGenerator<ExportCell[][]> {
+  for await (const page of orderPages(db, opts.where)) {
+    yield page.map(o => ORDER_EXPORT_COLUMNS.map(c => ORDER_VALUES[c.key](o)));
+  }
+}
+
+async function* lineRows(db: Database, opts: OrderExportOptions): AsyncGenerator<ExportCell[][]> {
+  for await (const page of orderPages(db, opts.where)) {
+    const items = await db.query.orderItems.findMany({
+      where: inArray(orderItems.orderId, page.map(o => o.id)),
+    });
+    // SKU is read live — order items only snapshot title and price
+    const productIds = [...new Set(items.map(i => i.productId).filter((id): id is string => !!id))];
+    const skuRows = productIds.length > 0
+      ? await db.select({ id: products.id, sku: products.sku })
+          .from(products)
+          .where(and(eq(products.tenantId, opts.tenantId), inArray(products.id, productIds)))
+      : [];
+    const skus = new Map(skuRows.map(p => [p.id, p.sku]));
+
+    const itemsByOrder = new Map<string, OrderItem[]>();
+    for (const item of items) itemsByOrder.set(item.orderId, [...(itemsByOrder.get(item.orderId) ?? []), item]);
+
+    yield page.flatMap(o =>
+      (itemsByOrder.get(o.id) ?? []).map(i => {
+        const sku = i.productId ? skus.get(i.productId) ?? null : null;
+        return LINE_EXPORT_COLUMNS.map(c => LINE_VALUES[c.key](o, i, sku));
+      })
+    );
+  }
+}
+
+/** Oldest first; the cursor is the last (createdAt, id) seen */
+async function* orderPages(db: Database, where: SQL): AsyncGenerator<Order[]> {
+  let cursor: { createdAt: string; id: string } | null = null;
+  for (;;) {
+    const after: SQL | undefined = cursor
+      ? or(
+          gt(orders.createdAt, cursor.createdAt),
+          and(eq(orders.createdAt, cursor.createdAt), gt(orders.id, cursor.id))
+        )
+      : undefined;
+    const page: Order[] = await db.query.orders.findMany({
+      where: after ? and(where, after) : where,
+      orderBy: [asc(orders.createdAt), asc(orders.id)],
+      limit: EXPORT_PAGE_SIZE,
+    });
+    if (page.length > 0) yield page;
+    if (page.length < EXPORT_PAGE_SIZE) return;
+    const last = page[page.length - 1]!;
+    cursor = { createdAt: last.createdAt, id: last.id };
+  }
+}
+
+// ─── Encoding ─────────────────────────────────────────────────
+
+const encoder = new TextEncoder();
+
+async function* csvStream(header: string[], rows: AsyncIterable<ExportCell[][]>): AsyncGenerator<Uint8Array> {
+  // BOM: without it Excel reads UTF-8 as the system code page and garbles Arabic
+  yield encoder.encode(`\uFEFF${csvRow(header)}`);
+  for await (const batch of rows) {
+    if (batch.length > 0) yield encoder.encode(batch.map(csvRow).join(''));
+  }
+}
+
+/** One chunk per pull, so the database is read only as fast as the client downloads */
+function toReadableStream(chunks: AsyncGenerator<Uint8Array>): ReadableStream<Uint8Array> {
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      const { value, done } = await chunks.next();
+      if (done) controller.close();
+      else controller.enqueue(value);
+    },
+    async cancel() {
+      await chunks.return(undefined);
+    },
+  });
+}
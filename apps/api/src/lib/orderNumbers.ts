@@ -0,0 +1,20 @@
+// apps/api/src/lib/orderNumbers.ts
+//
+// Per-tenant sequential order numbers. The counter lives on the tenant row and
+// is bumped with a single UPDATE … RETURNING, which SQLite runs atomically —
+// two concurrent checkouts can never read the same value. Numbers taken by a
+// checkout that later fails are skipped, not reused.
+
+import { eq, sql } from 'drizzle-orm';
+import { tenants } from '@repo/db';
+import type { Database } from '@repo/db';
+import { formatOrderNumber } from '@repo/shared/orders';
+
+export async function allocateOrderNumber(db: Database, tenantId: string): Promise<string> {
+  const [row] = await db.update(tenants)
+    .set({ orderNumberSeq: sql`${tenants.orderNumberSeq} + 1` })
+    .where(eq(tenants.id, tenantId))
+    .returning({ seq: tenants.orderNumberSeq, prefix: tenants.orderNumberPrefix });
+  if (!row) throw new Error(`Tenant ${tenantId} not found`);
+  return formatOrderNumber(row.prefix, row.seq);
+}
@@ -0,0 +1,191 @@
+// apps/api/src/lib/orderStatus.ts
+//
+// Status changes — one set of rules for PATCH /dashboard/orders/:id/status,
+// the bulk endpoint, COD confirmation calls and carrier tracking
+// (lib/shipments.ts), so neither a batch nor a carrier can do what a single
+// update may not:
+//   - staff cannot cancel or refund; refunds go through the refunds endpoint
+//   - the lifecycle graph (@repo/shared/orders) and COD phone confirmation
+//   - cancelling an unpaid card order expires its Checkout session first
+//   - side effects: timeline event, stock/discount release, COD refusal, CRM figures, audit log
+
+import { eq, and } from 'drizzle-orm';
+import { orders, auditLogs } from '@repo/db';
+import type { Database, Order } from '@repo/db';
+import { canTransition, allowedTransitions, canShipCod } from '@repo/shared/orders';
+import type { UpdateOrderStatusInput } from '@repo/shared/schemas';
+import Stripe from 'stripe';
+import { recordStatusEvent } from './orderEvents.js';
+import { releaseReservations } from './stock.js';
+import { releaseDiscount } from './discounts.js';
+import { loadCodSettings, recordCodRefusal } from './fraud.js';
+import { refreshCustomer } from './customers.js';
+
+export interface StatusActor {
+  tenantId: string;
+  /** null for automatic changes (carrier tracking) */
+  userId: string | null;
+  /** 'system' when the change is not the staff member's call (carrier, customer) */
+  role: string;
+  /** Timeline source — defaults to 'dashboard' */
+  source?: 'dashboard' | 'webhook';
+  /** Cancelling an unpaid card order expires its Checkout session, which needs Stripe */
+  stripeSecretKey?: string;
+}
+
+export type StatusChangeResult =
+  | { ok: true; paymentStatus: Order['paymentStatus'] }
+  | { ok: false; status: 403 | 409 | 422 | 502; body: { error: string; code?: string; [key: string]: unknown } };
+
+/**
+ * Applies `input` to `order` if the rules allow it. `codConfirmationRequired`
+ * is loaded on demand when omitted — bulk callers pass it once for the batch.
+ */
+export async function changeOrderStatus(
+  db: Database,
+  actor: StatusActor,
+  order: Order,
+  input: UpdateOrderStatusInput,
+  codConfirmationRequired?: boolean
+): Promise<StatusChangeResult> {
+  const { tenantId, userId, role, source = 'dashboard' } = actor;
+  const to = input.status;
+
+  // Staff cannot cancel or refund — only owner/admin can
+  if (role === 'staff' && ['cancelled', 'refunded'].includes(to)) {
+    return { ok: false, status: 403, body: { error: 'Staff cannot cancel or refund orders' } };
+  }
+
+  // Refunds move money — they go through the refunds endpoint, which
+  // transitions the order itself once fully refunded
+  if (to === 'refunded') {
+    return {
+      ok: false,
+      status: 422,
+      body: { error: 'Use POST /dashboard/orders/:id/refunds to refund an order', code: 'USE_REFUNDS_ENDPOINT' },
+    };
+  }
+
+  // Enforce the declared lifecycle graph (see @repo/shared/orders)
+  if (!canTransition(order.paymentMethod, order.status, to)) {
+    return {
+      ok: false,
+      status: 422,
+      body: {
+        error: `Cannot move a ${order.paymentMethod} order from ${order.status} to ${to}`,
+        code: 'INVALID_TRANSITION',
+        allowed: allowedTransitions(order.paymentMethod, order.status),
+      },
+    };
+  }
+
+  // COD orders wait for the customer's phone confirmation before shipping
+  if (order.paymentMethod === 'COD' && order.status === 'pending' && to === 'shipped') {
+    const confirmationRequired = codConfirmationRequired
+      ?? (await loadCodSettings(db, tenantId)).confirmationRequired;
+    if (!canShipCod(order, confirmationRequired)) {
+      return {
+        ok: false,
+        status: 422,
+        body: {
+          error: 'Confirm this order with the customer before shipping',
+          code: 'CONFIRMATION_REQUIRED',
+          confirmationStatus: order.confirmationStatus,
+        },
+      };
+    }
+  }
+
+  // Determine payment status update:
+  // When marking COD order as delivered → auto-mark as PAID
+  let paymentStatus = input.paymentStatus ?? order.paymentStatus;
+  if (to === 'delivered' && order.paymentMethod === 'COD') {
+    paymentStatus = 'PAID';
+  }
+  if (to === 'cancelled') {
+    paymentStatus = order.paymentMethod === 'STRIPE' ? order.paymentStatus : 'UNPAID';
+  }
+
+  // An unpaid card order keeps its Checkout session open — close it first, or the
+  // customer could still pay for an order that no longer holds any stock
+  if (order.paymentMethod === 'STRIPE' && order.status === 'pending' && to === 'cancelled' && order.stripeSessionId) {
+    const closed = await expireCheckoutSession(actor, order.stripeSessionId);
+    if (!closed.ok) return closed;
+  }
+
+  // Guard on the status we validated against — a concurrent update wins, this one retries
+  const updated = await db.update(orders)
+    .set({ status: to, paymentStatus })
+    .where(and(eq(orders.id, order.id), eq(orders.tenantId, tenantId), eq(orders.status, order.status)))
+    .returning({ id: orders.id });
+  if (updated.length === 0) {
+    return {
+      ok: false,
+      status: 409,
+      body: { error: 'Order status changed concurrently, reload and retry', code: 'CONFLICT' },
+    };
+  }
+
+  await recordStatusEvent(db, {
+    tenantId,
+    orderId: order.id,
+    from: order.status,
+    to,
+    source,
+    actorUserId: userId,
+    note: input.note,
+  });
+
+  // Cancelled orders give their stock back (holds or committed units)
+  if (to === 'cancelled') {
+    await releaseReservations(db, order.id);
+    // …and no longer count against the code's usage limits
+    await releaseDiscount(db, order.id);
+  }
+  // Cancelled after shipping = the customer refused the parcel
+  if (order.paymentMethod === 'COD' && order.status === 'shipped' && to === 'cancelled') {
+    await recordCodRefusal(db, order);
+  }
+  await refreshCustomer(db, tenantId, order.customerEmail);
+
+  await db.insert(auditLogs).values({
+    id: crypto.randomUUID(),
+    tenantId,
+    actorUserId: userId,
+    action: 'order.status_updated',
+    metaJson: JSON.stringify({
+      orderId: order.id,
+      from: order.status,
+      to,
+      paymentMethod: order.paymentMethod,
+      paymentStatusFrom: order.paymentStatus,
+      paymentStatusTo: paymentStatus,
+    }),
+  });
+
+  return { ok: true, paymentStatus };
+}
+
+/** Expires an open Checkout session; one the customer already paid blocks the cancellation */
+async function expireCheckoutSession(
+  actor: StatusActor,
+  sessionId: string
+): Promise<{ ok: true } | Extract<StatusChangeResult, { ok: false }>> {
+  if (!actor.stripeSecretKey) throw new Error('changeOrderStatus: stripeSecretKey is needed to cancel a pending card order');
+  const stripe = new Stripe(actor.stripeSecretKey);
+  try {
+    await stripe.checkout.sessions.expire(sessionId);
+    return { ok: true };
+  } catch (err: any) {
+    const session = await stripe.checkout.sessions.retrieve(sessionId).catch(() => null);
+    if (session?.status === 'expired') return { ok: true };
+    if (session?.status === 'complete') {
+      return {
+        ok: false,
+        status: 409,
+        body: { error: 'The customer has just paid this order — refund it instead of cancelling', code: 'PAYMENT_COMPLETED' },
+      };
+    }
+    return { ok: false, status: 502, body: { error: `Stripe session could not be expired: ${err.message}` } };
+  }
+}
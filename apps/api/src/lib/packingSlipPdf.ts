@@ -0,0 +1,241 @@
+// apps/api/src/lib/packingSlipPdf.ts
+//
+// One printable PDF for a warehouse batch:
+//   - pick list first (total qty per product across the batch)
+//   - then one packing slip per order, each starting on a new page
+// Slips carry no prices — only what to pack, where it goes and, for COD,
+// the amount the courier collects. Layout helpers: lib/pdfText.ts.
+
+import { PDFDocument } from 'pdf-lib';
+import type { PDFPage, RGB } from 'pdf-lib';
+import type { Order, OrderItem } from '@repo/db';
+import type { InvoiceLocale } from '@repo/shared/invoices';
+import type { PickListRow } from '@repo/shared/fulfillment';
+import { formatMoney } from '@repo/shared/money';
+import {
+  createPdfText,
+  embedLogo,
+  drawBrandHeader,
+  drawRule,
+  parseHexColor,
+  PAGE_WIDTH,
+  PAGE_HEIGHT,
+  MARGIN,
+  CONTENT_WIDTH,
+  TEXT,
+  MUTED,
+  WHITE,
+  DEFAULT_ACCENT,
+} from './pdfText.js';
+import type { PdfLogo, PdfText } from './pdfText.js';
+
+export interface PackingBatch {
+  locale: InvoiceLocale;
+  generatedAt: string;
+  tenant: { name: string; primaryColor: string | null };
+  logo: PdfLogo | null;
+  pickList: PickListRow[];
+  orders: Array<{ order: Order; items: OrderItem[]; skus: Map<string, string | null> }>;
+}
+
+const LABELS = {
+  en: {
+    pickList: 'PICK LIST',
+    packingSlip: 'PACKING SLIP',
+    orders: 'Orders',
+    units: 'Units',
+    generated: 'Generated',
+    order: 'Order',
+    date: 'Date',
+    shipTo: 'Ship to',
+    delivery: 'Delivery',
+    sku: 'SKU',
+    product: 'Product',
+    qty: 'Qty',
+    inOrders: 'Orders',
+    collect: 'Cash to collect',
+    prepaid: 'Prepaid — collect nothing',
+  },
+  ar: {
+    pickList: 'قائمة التجهيز',
+    packingSlip: 'قسيمة التغليف',
+    orders: 'الطلبات',
+    units: 'الوحدات',
+    generated: 'تاريخ الإنشاء',
+    order: 'الطلب',
+    date: 'التاريخ',
+    shipTo: 'الشحن إلى',
+    delivery: 'التوصيل',
+    sku: 'SKU',
+    product: 'المنتج',
+    qty: 'الكمية',
+    inOrders: 'الطلبات',
+    collect: 'المبلغ المطلوب تحصيله',
+    prepaid: 'مدفوع مسبقاً — لا شيء للتحصيل',
+  },
+} as const;
+
+const ROW_HEIGHT = 22;
+const BOTTOM = MARGIN + 30;
+
+// Column offsets from the start side
+const PICK_COLUMNS = { sku: 6, product: 110, qty: 440, orders: CONTENT_WIDTH - 6 } as const;
+const SLIP_COLUMNS = { check: 6, sku: 30, product: 130, qty: CONTENT_WIDTH - 6 } as const;
+
+export async function renderPackingSlipsPdf(
+  batch: PackingBatch,
+  loadArabicFont: () => Promise<Uint8Array>
+): Promise<Uint8Array> {
+  const pdf = await PDFDocument.create();
+  pdf.setProducer(batch.tenant.name);
+
+  const rtl = batch.locale === 'ar';
+  const l = LABELS[batch.locale];
+  const accent = parseHexColor(batch.tenant.primaryColor) ?? DEFAULT_ACCENT;
+
+  const text = await createPdfText(pdf, {
+    rtl,
+    texts: [
+      batch.tenant.name,
+      ...batch.pickList.map(r => r.title),
+      ...batch.orders.flatMap(({ order }) => [
+        order.customerName, order.customerAddress, order.shippingCity, order.shippingRegion, order.shippingMethod,
+      ]),
+    ],
+    loadArabicFont,
+  });
+  const { draw, fit } = text;
+  const logo = await embedLogo(pdf, batch.logo);
+  const brand = { name: batch.tenant.name, logo, accent };
+
+  // ─── Pick list ────────────────────────────────────────────────
+  let page = pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+  let y = drawBrandHeader(page, text, { ...brand, title: l.pickList });
+
+  const totalUnits = batch.pickList.reduce((sum, r) => sum + r.qty, 0);
+  const summary: Array<[string, string]> = [
+    [l.orders, String(batch.orders.length)],
+    [l.units, String(totalUnits)],
+    [l.generated, batch.generatedAt.slice(0, 16).replace('T', ' ')],
+  ];
+  for (const [label, value] of summary) {
+    draw(page, label, CONTENT_WIDTH - 110, y, { size: 9, color: MUTED, align: 'end' });
+    draw(page, value, CONTENT_WIDTH, y, { size: 9, bold: true, align: 'end' });
+    y -= 14;
+  }
+
+  const pickHeader = (target: PDFPage, top: number) =>
+    tableHeader(target, text, accent, top, [
+      [l.sku, PICK_COLUMNS.sku, 'start'],
+      [l.product, PICK_COLUMNS.product, 'start'],
+      [l.qty, PICK_COLUMNS.qty, 'end'],
+      [l.inOrders, PICK_COLUMNS.orders, 'end'],
+    ]);
+
+  y = pickHeader(page, y - 30);
+  for (const row of batch.pickList) {
+    if (y < BOTTOM) {
+      page = pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+      y = pickHeader(page, PAGE_HEIGHT - MARGIN - 20);
+    }
+    draw(page, fit(row.sku ?? '—', 10, 95), PICK_COLUMNS.sku, y, { size: 10, color: row.sku ? TEXT : MUTED });
+    draw(page, fit(row.title, 10, 280), PICK_COLUMNS.product, y, { size: 10 });
+    draw(page, String(row.qty), PICK_COLUMNS.qty, y, { size: 12, bold: true, align: 'end' });
+    draw(page, String(row.orders), PICK_COLUMNS.orders, y, { size: 10, color: MUTED, align: 'end' });
+    drawRule(page, y - 8);
+    y -= ROW_HEIGHT;
+  }
+
+  // ─── Packing slips ────────────────────────────────────────────
+  for (const { order, items, skus } of batch.orders) {
+    page = pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+    y = drawBrandHeader(page, text, { ...brand, title: l.packingSlip });
+
+    const meta: Array<[string, string]> = [
+      [l.order, order.orderNumber],
+      [l.date, order.createdAt.slice(0, 10)],
+    ];
+    for (const [label, value] of meta) {
+      draw(page, label, CONTENT_WIDTH - 110, y, { size: 9, color: MUTED, align: 'end' });
+      draw(page, value, CONTENT_WIDTH, y, { size: 11, bold: true, align: 'end' });
+      y -= 15;
+    }
+
+    y -= 12;
+    draw(page, l.shipTo, 0, y, { size: 9, color: MUTED });
+    draw(page, l.delivery, CONTENT_WIDTH, y, { size: 9, color: MUTED, align: 'end' });
+    y -= 16;
+
+    const shipTo = [
+      order.customerName,
+      order.customerPhone,
+      order.customerAddress,
+      [order.shippingCity, order.shippingRegion].filter(Boolean).join(', '),
+    ].filter((line): line is string => !!line);
+    draw(page, order.shippingMethod ?? '—', CONTENT_WIDTH, y, { size: 10, bold: true, align: 'end' });
+    if (order.paymentMethod === 'COD' && order.paymentStatus !== 'PAID') {
+      draw(page, l.collect, CONTENT_WIDTH, y - 18, { size: 9, color: MUTED, align: 'end' });
+      draw(page, formatMoney(order.total, order.currency), CONTENT_WIDTH, y - 34, {
+        size: 14,
+        bold: true,
+        color: accent,
+        align: 'end',
+      });
+    } else {
+      draw(page, l.prepaid, CONTENT_WIDTH, y - 18, { size: 9, color: MUTED, align: 'end' });
+    }
+    for (const [i, line] of shipTo.entries()) {
+      draw(page, fit(line, i === 0 ? 13 : 11, 300), 0, y, { size: i === 0 ? 13 : 11, bold: i === 0 });
+      y -= i === 0 ? 18 : 15;
+    }
+
+    const slipHeader = (target: PDFPage, top: number) =>
+      tableHeader(target, text, accent, top, [
+        [l.sku, SLIP_COLUMNS.sku, 'start'],
+        [l.product, SLIP_COLUMNS.product, 'start'],
+        [l.qty, SLIP_COLUMNS.qty, 'end'],
+      ]);
+
+    y = slipHeader(page, Math.min(y, PAGE_HEIGHT - 260) - 20);
+    for (const item of items) {
+      if (y < BOTTOM) {
+        page = pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+        y = slipHeader(page, PAGE_HEIGHT - MARGIN - 20);
+      }
+      // Tick box for the packer
+      const boxX = rtl ? text.at(SLIP_COLUMNS.check) - 10 : text.at(SLIP_COLUMNS.check);
+      page.drawRectangle({ x: boxX, y: y - 1, width: 10, height: 10, borderColor: MUTED, borderWidth: 0.8 });
+      const sku = item.productId ? skus.get(item.productId) ?? null : null;
+      draw(page, fit(sku ?? '—', 10, 95), SLIP_COLUMNS.sku, y, { size: 10, color: sku ? TEXT : MUTED });
+      draw(page, fit(item.titleSnapshot, 10, 300), SLIP_COLUMNS.product, y, { size: 10 });
+      draw(page, String(item.qty), SLIP_COLUMNS.qty, y, { size: 12, bold: true, align: 'end' });
+      drawRule(page, y - 8);
+      y -= ROW_HEIGHT;
+    }
+  }
+
+  // ─── Footer (every page) ──────────────────────────────────────
+  const pages = pdf.getPages();
+  pages.forEach((p, i) => {
+    draw(p, `${i + 1} / ${pages.length}`, CONTENT_WIDTH, MARGIN - 10, { size: 8, color: MUTED, align: 'end' });
+  });
+
+  return pdf.save();
+}
+
+// ─── Helpers ──────────────────────────────────────────────────
+
+/** Accent band with column titles; returns the y of the first row */
+function tableHeader(
+  page: PDFPage,
+  text: PdfText,
+  accent: RGB,
+  top: number,
+  columns: Array<[label: string, offset: number, align: 'start' | 'end']>
+): number {
+  page.drawRectangle({ x: MARGIN, y: top - 7, width: CONTENT_WIDTH, height: 22, color: accent });
+  for (const [label, offset, align] of columns) {
+    text.draw(page, label, offset, top, { size: 9, bold: true, color: WHITE, align });
+  }
+  return top - 26;
+}
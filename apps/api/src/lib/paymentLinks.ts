@@ -0,0 +1,50 @@
+// apps/api/src/lib/paymentLinks.ts
+//
+// One-off Stripe Payment Links for money owed outside checkout (e.g. the
+// balance of an order edit). Unlike a Checkout session a link does not expire,
+// so it can be sent to the customer by SMS or WhatsApp. Each link accepts a
+// single payment; its metadata is copied onto the Checkout session that the
+// webhook receives (checkout.session.completed).
+
+import type Stripe from 'stripe';
+import type { Money } from '@repo/shared/money';
+
+export interface PaymentLinkInput {
+  amount: Money;
+  currency: string;
+  /** Shown to the customer on the payment page */
+  name: string;
+  metadata: Record<string, string>;
+}
+
+export async function createPaymentLink(
+  stripe: Stripe,
+  input: PaymentLinkInput,
+  idempotencyKey: string
+): Promise<{ id: string; url: string }> {
+  // Payment Links only take saved prices — one per link, never reused
+  const price = await stripe.prices.create(
+    {
+      currency: input.currency.toLowerCase(),
+      unit_amount: input.amount,
+      product_data: { name: input.name },
+    },
+    { idempotencyKey: `${idempotencyKey}_price` }
+  );
+
+  const link = await stripe.paymentLinks.create(
+    {
+      line_items: [{ price: price.id, quantity: 1 }],
+      metadata: input.metadata,
+      payment_intent_data: { metadata: input.metadata },
+      restrictions: { completed_sessions: { limit: 1 } },
+    },
+    { idempotencyKey: `${idempotencyKey}_link` }
+  );
+  return { id: link.id, url: link.url };
+}
+
+/** Stops a link from taking payments (superseded or no longer owed) */
+export async function deactivatePaymentLink(stripe: Stripe, id: string): Promise<void> {
+  await stripe.paymentLinks.update(id, { active: false });
+}
@@ -0,0 +1,152 @@
+// apps/api/src/lib/pdfText.ts
+//
+// Text layout for the PDFs the Worker renders (invoices, packing slips).
+// PDF places glyphs at coordinates and nothing more, so this handles:
+//   - mirroring: offsets are measured from the start side (left in English,
+//     right in Arabic) so one layout serves both directions
+//   - mixed scripts: each line is split into bidi runs (@repo/shared/invoices);
+//     Arabic runs use the embedded Arabic font, the rest Helvetica
+//   - characters Helvetica cannot encode are replaced rather than throwing
+
+import { StandardFonts, rgb } from 'pdf-lib';
+import type { PDFDocument, PDFFont, PDFImage, PDFPage, RGB } from 'pdf-lib';
+import fontkit from '@pdf-lib/fontkit';
+import { hasArabic, visualRuns } from '@repo/shared/invoices';
+
+export interface PdfLogo {
+  bytes: Uint8Array;
+  type: 'png' | 'jpg';
+}
+
+// A4 in points
+export const PAGE_WIDTH = 595;
+export const PAGE_HEIGHT = 842;
+export const MARGIN = 40;
+export const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+
+export const TEXT = rgb(0.12, 0.16, 0.23);
+export const MUTED = rgb(0.39, 0.45, 0.55);
+export const RULE = rgb(0.89, 0.91, 0.94);
+export const WHITE = rgb(1, 1, 1);
+export const DEFAULT_ACCENT = rgb(0.39, 0.4, 0.95);
+
+export interface DrawOptions {
+  size?: number;
+  color?: RGB;
+  bold?: boolean;
+  /** 'end' puts the text's far edge at the offset */
+  align?: 'start' | 'end';
+}
+
+export interface PdfText {
+  rtl: boolean;
+  /** x of a point `offset` in from the start side */
+  at(offset: number): number;
+  draw(page: PDFPage, text: string, offset: number, y: number, opts?: DrawOptions): void;
+  measure(text: string, size: number, bold?: boolean): number;
+  /** Shortens text with an ellipsis until it fits `maxWidth` */
+  fit(text: string, size: number, maxWidth: number): string;
+}
+
+/**
+ * `texts` is every string the document will draw that is not a fixed label;
+ * the Arabic font is loaded only for RTL documents or when one of them is Arabic.
+ */
+export async function createPdfText(
+  pdf: PDFDocument,
+  opts: { rtl: boolean; texts: Array<string | null | undefined>; loadArabicFont: () => Promise<Uint8Array> }
+): Promise<PdfText> {
+  pdf.registerFontkit(fontkit);
+  const latin = await pdf.embedFont(StandardFonts.Helvetica);
+  const latinBold = await pdf.embedFont(StandardFonts.HelveticaBold);
+  const latinChars = new Set(latin.getCharacterSet());
+
+  const needsArabic = opts.rtl || opts.texts.some(t => t && hasArabic(t));
+  const arabic: PDFFont | null = needsArabic
+    ? await pdf.embedFont(await opts.loadArabicFont(), { subset: true })
+    : null;
+
+  const { rtl } = opts;
+  const at = (offset: number) => (rtl ? PAGE_WIDTH - MARGIN - offset : MARGIN + offset);
+
+  const runFont = (run: string, isRtl: boolean, bold: boolean): PDFFont =>
+    (isRtl || hasArabic(run)) && arabic ? arabic : bold ? latinBold : latin;
+
+  const encodable = (run: string, font: PDFFont) =>
+    font === arabic ? run : [...run].map(ch => (latinChars.has(ch.codePointAt(0)!) ? ch : '?')).join('');
+
+  const measure = (text: string, size: number, bold = false) =>
+    visualRuns(text).reduce((w, r) => {
+      const font = runFont(r.text, r.rtl, bold);
+      return w + font.widthOfTextAtSize(encodable(r.text, font), size);
+    }, 0);
+
+  const draw = (page: PDFPage, text: string, offset: number, y: number, o: DrawOptions = {}) => {
+    if (!text) return;
+    const size = o.size ?? 10;
+    const anchor = at(offset);
+    // In RTL 'start' text grows leftwards from the anchor
+    const growsLeft = (o.align ?? 'start') === 'start' ? rtl : !rtl;
+    let x = growsLeft ? anchor - measure(text, size, o.bold) : anchor;
+    for (const run of visualRuns(text)) {
+      const font = runFont(run.text, run.rtl, o.bold ?? false);
+      const value = encodable(run.text, font);
+      page.drawText(value, { x, y, size, font, color: o.color ?? TEXT });
+      x += font.widthOfTextAtSize(value, size);
+    }
+  };
+
+  const fit = (text: string, size: number, maxWidth: number) => {
+    if (measure(text, size) <= maxWidth) return text;
+    let cut = text;
+    while (cut.length > 1 && measure(`${cut}…`, size) > maxWidth) cut = cut.slice(0, -1);
+    return `${cut.trimEnd()}…`;
+  };
+
+  return { rtl, at, draw, measure, fit };
+}
+
+export function parseHexColor(hex: string | null): RGB | null {
+  const match = hex?.match(/^#([0-9a-f]{2})([0-9a-f]{2})([0-9a-f]{2})$/i);
+  if (!match) return null;
+  return rgb(parseInt(match[1]!, 16) / 255, parseInt(match[2]!, 16) / 255, parseInt(match[3]!, 16) / 255);
+}
+
+/** Horizontal hairline across the content width */
+export function drawRule(page: PDFPage, y: number): void {
+  page.drawLine({ start: { x: MARGIN, y }, end: { x: PAGE_WIDTH - MARGIN, y }, thickness: 0.5, color: RULE });
+}
+
+/** A logo that fails to decode is left off rather than failing the document */
+export async function embedLogo(pdf: PDFDocument, logo: PdfLogo | null): Promise<PDFImage | null> {
+  if (!logo) return null;
+  return (logo.type === 'png' ? pdf.embedPng(logo.bytes) : pdf.embedJpg(logo.bytes)).catch(() => null);
+}
+
+/**
+ * Accent bar, logo + store name on the start side, document title on the end
+ * side. Returns the y just below the title for the caller's metadata lines.
+ */
+export function drawBrandHeader(
+  page: PDFPage,
+  text: PdfText,
+  brand: { name: string; logo: PDFImage | null; accent: RGB; title: string }
+): number {
+  page.drawRectangle({ x: 0, y: PAGE_HEIGHT - 8, width: PAGE_WIDTH, height: 8, color: brand.accent });
+
+  const top = PAGE_HEIGHT - MARGIN - 10;
+  if (brand.logo) {
+    const scaled = brand.logo.scaleToFit(140, 50);
+    page.drawImage(brand.logo, {
+      x: text.rtl ? text.at(0) - scaled.width : text.at(0),
+      y: top - scaled.height + 10,
+      ...scaled,
+    });
+    text.draw(page, brand.name, 0, top - scaled.height - 6, { size: 11, bold: true });
+  } else {
+    text.draw(page, brand.name, 0, top - 8, { size: 16, bold: true });
+  }
+
+  text.draw(page, brand.title, CONTENT_WIDTH, top - 8, { size: 22, bold: true, color: brand.accent, align: 'end' });
+  return top - 30;
+}
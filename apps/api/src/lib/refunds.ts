@@ -0,0 +1,353 @@
+// apps/api/src/lib/refunds.ts
+//
+// Refund bookkeeping shared by the dashboard endpoint, returns and the Stripe
+// webhook. The refunds table is the source of truth; orders.refundedTotal/refundStatus
+// are recomputed from it, so replays and out-of-order webhooks converge.
+
+import { eq, and, asc, inArray, isNotNull } from 'drizzle-orm';
+import { orders, orderItems, orderEdits, refunds, auditLogs } from '@repo/db';
+import type { Database, Order, Refund } from '@repo/db';
+import { canTransition } from '@repo/shared/orders';
+import { chargedLineTotals, lineRefundAmount } from '@repo/shared/tax';
+import { splitRefund } from '@repo/shared/orderEdits';
+import type { RefundableCharge } from '@repo/shared/orderEdits';
+import { sumMoney, formatMoney } from '@repo/shared/money';
+import type { Money } from '@repo/shared/money';
+import type { CreateRefundInput } from '@repo/shared/schemas';
+import Stripe from 'stripe';
+import { recordStatusEvent } from './orderEvents.js';
+import { releaseReservations } from './stock.js';
+import { refreshCustomer } from './customers.js';
+
+/** What can still be refunded on an order */
+export function refundableAmount(order: Pick<Order, 'total' | 'refundedTotal'>): Money {
+  return Math.max(0, order.total - order.refundedTotal);
+}
+
+/** Qty already refunded per order item, across refunds that did not fail */
+export function refundedQtyByItem(existing: Refund[]): Map<string, number> {
+  const map = new Map<string, number>();
+  for (const r of existing) {
+    if (!r.itemsJson || r.status === 'failed' || r.status === 'canceled') continue;
+    for (const line of JSON.parse(r.itemsJson) as { orderItemId: string; qty: number }[]) {
+      map.set(line.orderItemId, (map.get(line.orderItemId) ?? 0) + line.qty);
+    }
+  }
+  return map;
+}
+
+/**
+ * Payment intent for a Stripe order — stored by the webhook, or looked up from
+ * the Checkout session for orders paid before the column existed.
+ */
+export async function resolvePaymentIntentId(
+  db: Database,
+  stripe: Stripe,
+  order: Order
+): Promise<string | null> {
+  if (order.stripePaymentIntentId) return order.stripePaymentIntentId;
+  if (!order.stripeSessionId) return null;
+
+  const session = await stripe.checkout.sessions.retrieve(order.stripeSessionId);
+  const paymentIntentId = getPaymentIntentId(session.payment_intent);
+  if (paymentIntentId) {
+    await db.update(orders)
+      .set({ stripePaymentIntentId: paymentIntentId })
+      .where(eq(orders.id, order.id));
+  }
+  return paymentIntentId;
+}
+
+/**
+ * Every charge on a Stripe order with what is left to refund on it: the
+ * checkout payment first, then paid edit balances in the order they came in.
+ */
+async function listRefundableCharges(
+  db: Database,
+  stripe: Stripe,
+  order: Order
+): Promise<RefundableCharge[]> {
+  const original = await resolvePaymentIntentId(db, stripe, order);
+  if (!original) throw new Error('Order has no Stripe payment intent');
+
+  const edits = await db.query.orderEdits.findMany({
+    where: and(eq(orderEdits.orderId, order.id), isNotNull(orderEdits.stripePaymentIntentId)),
+    orderBy: [asc(orderEdits.paidAt)],
+  });
+
+  const charges: RefundableCharge[] = [];
+  for (const paymentIntentId of [original, ...edits.map(e => e.stripePaymentIntentId!)]) {
+    const pi = await stripe.paymentIntents.retrieve(paymentIntentId, { expand: ['latest_charge'] });
+    const charge = pi.latest_charge as Stripe.Charge | null;
+    charges.push({ paymentIntentId, refundable: charge ? charge.amount_captured - charge.amount_refunded : 0 });
+  }
+  return charges;
+}
+
+export function getPaymentIntentId(pi: string | Stripe.PaymentIntent | null | undefined): string | null {
+  if (!pi) return null;
+  return typeof pi === 'string' ? pi : pi.id;
+}
+
+export function mapStripeRefundStatus(status: string | null): Refund['status'] {
+  switch (status) {
+    case 'succeeded': return 'succeeded';
+    case 'failed': return 'failed';
+    case 'canceled': return 'canceled';
+    default: return 'pending';  // pending | requires_action
+  }
+}
+
+/**
+ * Records Stripe refunds we did not create ourselves (e.g. issued from the
+ * Stripe dashboard) and refreshes the status of the ones we did.
+ */
+export async function upsertStripeRefunds(
+  db: Database,
+  order: Order,
+  stripeRefunds: Stripe.Refund[]
+): Promise<void> {
+  for (const sr of stripeRefunds) {
+    const status = mapStripeRefundStatus(sr.status);
+    const existing = await db.query.refunds.findFirst({
+      where: eq(refunds.stripeRefundId, sr.id),
+    });
+
+    if (existing) {
+      if (existing.status !== status) {
+        await db.update(refunds).set({ status }).where(eq(refunds.id, existing.id));
+      }
+      continue;
+    }
+
+    // Our own refunds carry refundId in metadata but may not have the Stripe id yet
+    const ownId = sr.metadata?.refundId;
+    if (ownId) {
+      const updated = await db.update(refunds)
+        .set({ stripeRefundId: sr.id, status })
+        .where(and(eq(refunds.id, ownId), eq(refunds.orderId, order.id)))
+        .returning({ id: refunds.id });
+      if (updated.length > 0) continue;
+    }
+
+    await db.insert(refunds).values({
+      id: crypto.randomUUID(),
+      tenantId: order.tenantId,
+      orderId: order.id,
+      method: 'STRIPE',
+      amount: sr.amount,
+      currency: order.currency,
+      status,
+      stripeRefundId: sr.id,
+      reason: sr.reason ?? null,
+      note: 'Issued outside the dashboard',
+    });
+  }
+}
+
+/**
+ * Recomputes refundedTotal/refundStatus from succeeded refunds. Edit refunds
+ * are left out: they pay back a total that an order edit already lowered.
+ * A full refund also moves the order to `refunded` (when the lifecycle allows)
+ * and gives its stock back.
+ */
+export async function syncOrderRefunds(
+  db: Database,
+  orderId: string,
+  actor: { userId?: string | null; source: 'dashboard' | 'webhook' }
+): Promise<Order | null> {
+  const order = await db.query.orders.findFirst({ where: eq(orders.id, orderId) });
+  if (!order) return null;
+
+  const all = await db.query.refunds.findMany({ where: eq(refunds.orderId, orderId) });
+  const refundedTotal = sumMoney(
+    all.filter(r => r.status === 'succeeded' && r.kind === 'refund').map(r => r.amount)
+  );
+  const refundStatus: Order['refundStatus'] =
+    refundedTotal <= 0 ? 'NONE' : refundedTotal >= order.total ? 'FULL' : 'PARTIAL';
+
+  await db.update(orders)
+    .set({ refundedTotal, refundStatus })
+    .where(eq(orders.id, orderId));
+
+  let status = order.status;
+  if (refundStatus === 'FULL' && canTransition(order.paymentMethod, order.status, 'refunded')) {
+    const moved = await db.update(orders)
+      .set({ status: 'refunded' })
+      .where(and(eq(orders.id, orderId), eq(orders.status, order.status)))
+      .returning({ id: orders.id });
+
+    if (moved.length > 0) {
+      status = 'refunded';
+      await recordStatusEvent(db, {
+        tenantId: order.tenantId,
+        orderId,
+        from: order.status,
+        to: 'refunded',
+        source: actor.source,
+        actorUserId: actor.userId ?? null,
+        note: `Fully refunded (${formatMoney(refundedTotal, order.currency)})`,
+      });
+      await releaseReservations(db, orderId);
+    }
+  }
+
+  await refreshCustomer(db, order.tenantId, order.customerEmail);
+
+  return { ...order, status, refundedTotal, refundStatus };
+}
+
+/** `refunds` has one row per charge the amount was taken from; `refund` is the first */
+export type CreateRefundResult =
+  | { ok: true; refund: Refund; refunds: Refund[]; synced: Order | null }
+  | { ok: false; status: 400 | 422 | 502; body: { error: string; code?: string; [key: string]: unknown } };
+
+/**
+ * Refunds a paid order: in full, by amount, or by items.
+ * STRIPE → refund through the Stripe API, split across the checkout payment
+ *          and paid edit balances (webhook charge.refunded confirms)
+ * COD    → records a manual cash refund
+ */
+export async function createRefund(
+  db: Database,
+  stripeSecretKey: string,
+  actor: { tenantId: string; userId: string },
+  order: Order,
+  input: CreateRefundInput,
+  kind: Refund['kind'] = 'refund'
+): Promise<CreateRefundResult> {
+  const { tenantId, userId } = actor;
+
+  if (order.paymentStatus !== 'PAID') {
+    return { ok: false, status: 422, body: { error: 'Only paid orders can be refunded', code: 'NOT_PAID' } };
+  }
+
+  const remaining = refundableAmount(order);
+  const { items: lines, reason, note } = input;
+
+  // ── Work out the amount ──
+  let amount = input.amount ?? remaining;
+  if (lines) {
+    const [items, existing] = await Promise.all([
+      db.query.orderItems.findMany({ where: eq(orderItems.orderId, order.id) }),
+      db.query.refunds.findMany({ where: eq(refunds.orderId, order.id) }),
+    ]);
+    const alreadyRefunded = refundedQtyByItem(existing);
+    // What was charged per line — tax on exclusive stores, net of the discount
+    const charged = chargedLineTotals(
+      items.map(i => ({ price: i.priceSnapshot, qty: i.qty, taxAmount: i.taxAmount })),
+      order.discountTotal,
+      order.pricesIncludeTax
+    );
+
+    amount = 0;
+    for (const line of lines) {
+      const index = items.findIndex(i => i.id === line.orderItemId);
+      const item = items[index];
+      if (!item) return { ok: false, status: 400, body: { error: `Order item ${line.orderItemId} not found` } };
+      const refundedQty = alreadyRefunded.get(item.id) ?? 0;
+      const left = item.qty - refundedQty;
+      if (line.qty > left) {
+        return { ok: false, status: 422, body: { error: `Only ${left} × ${item.titleSnapshot} left to refund` } };
+      }
+      amount += lineRefundAmount(charged[index]!, item.qty, refundedQty, line.qty);
+      alreadyRefunded.set(item.id, refundedQty + line.qty);
+    }
+  }
+  amount = Math.min(amount, remaining);
+
+  if (amount <= 0) {
+    return { ok: false, status: 422, body: { error: 'Nothing left to refund', code: 'FULLY_REFUNDED' } };
+  }
+  if (input.amount !== undefined && input.amount > remaining) {
+    return { ok: false, status: 422, body: { error: `Refund exceeds refundable amount (${formatMoney(remaining, order.currency)})` } };
+  }
+
+  const isCash = order.paymentMethod === 'COD';
+  const stripe = isCash ? null : new Stripe(stripeSecretKey);
+
+  // ── Split across the order's charges (Stripe only) ──
+  let parts: { paymentIntentId: string | null; amount: Money }[] = [{ paymentIntentId: null, amount }];
+  if (stripe) {
+    let charges: RefundableCharge[];
+    try {
+      charges = await listRefundableCharges(db, stripe, order);
+    } catch (err: any) {
+      return { ok: false, status: 502, body: { error: `Stripe refund failed: ${err.message}` } };
+    }
+    const split = splitRefund(charges, amount);
+    if (!split) {
+      return { ok: false, status: 422, body: { error: 'Refund exceeds what is left on the Stripe charges', code: 'EXCEEDS_CHARGES' } };
+    }
+    parts = split;
+  }
+
+  // One row per charge; the items go on the first so they are counted once
+  const rows = parts.map((part, i) => ({
+    id: crypto.randomUUID(),
+    tenantId,
+    orderId: order.id,
+    method: isCash ? 'CASH' as const : 'STRIPE' as const,
+    amount: part.amount,
+    currency: order.currency,
+    status: isCash ? 'succeeded' as const : 'pending' as const,
+    reason,
+    itemsJson: lines && i === 0 ? JSON.stringify(lines) : null,
+    kind,
+    note: note ?? null,
+    actorUserId: userId,
+  }));
+  await db.insert(refunds).values(rows);
+  const refundId = rows[0]!.id;
+
+  // ── Move the money (Stripe only) ──
+  if (stripe) {
+    for (const [i, part] of parts.entries()) {
+      const row = rows[i]!;
+      try {
+        const stripeRefund = await stripe.refunds.create(
+          {
+            payment_intent: part.paymentIntentId!,
+            amount: part.amount,
+            reason: reason === 'other' ? undefined : reason,
+            metadata: { tenantId, orderId: order.id, refundId: row.id },
+          },
+          { idempotencyKey: `refund_${row.id}` }
+        );
+
+        await db.update(refunds)
+          .set({ stripeRefundId: stripeRefund.id, status: mapStripeRefundStatus(stripeRefund.status) })
+          .where(eq(refunds.id, row.id));
+      } catch (err: any) {
+        // This part and the ones after it never reached Stripe
+        await db.update(refunds)
+          .set({ status: 'failed' })
+          .where(inArray(refunds.id, rows.slice(i).map(r => r.id)));
+        if (i > 0) await syncOrderRefunds(db, order.id, { userId, source: 'dashboard' });
+        return { ok: false, status: 502, body: { error: `Stripe refund failed: ${err.message}`, refundId: row.id } };
+      }
+    }
+  }
+
+  const synced = await syncOrderRefunds(db, order.id, { userId, source: 'dashboard' });
+
+  await db.insert(auditLogs).values({
+    id: crypto.randomUUID(),
+    tenantId,
+    actorUserId: userId,
+    action: 'order.refund_created',
+    metaJson: JSON.stringify({
+      orderId: order.id,
+      refundId,
+      refundIds: rows.map(r => r.id),
+      amount,
+      currency: order.currency,
+      method: isCash ? 'CASH' : 'STRIPE',
+      kind,
+    }),
+  });
+
+  const created = await db.query.refunds.findMany({ where: inArray(refunds.id, rows.map(r => r.id)) });
+  const ordered = rows.map(r => created.find(c => c.id === r.id)!);
+  return { ok: true, refund: ordered[0]!, refunds: ordered, synced };
+}
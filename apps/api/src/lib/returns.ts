@@ -0,0 +1,237 @@
+// apps/api/src/lib/returns.ts
+//
+// Returns (RMA). Opening a return is shared by the storefront and the
+// dashboard; completing one either refunds the returned lines (lib/refunds.ts)
+// or sends replacements in a no-charge exchange order.
+// Lifecycle and policy rules: @repo/shared/returns.
+
+import { eq, and, desc, inArray } from 'drizzle-orm';
+import { tenants, orders, orderItems, orderStatusEvents, products, returns, returnItems } from '@repo/db';
+import type { Database, Order, OrderReturn, ReturnItem } from '@repo/db';
+import {
+  checkReturnLines,
+  formatRmaNumber,
+  isWithinReturnWindow,
+  returnedQtyByItem,
+} from '@repo/shared/returns';
+import type { CreateReturnInput } from '@repo/shared/schemas';
+import { reserveStock, commitReservations, releaseReservations } from './stock.js';
+import { allocateOrderNumber } from './orderNumbers.js';
+import { recordStatusEvent, sqliteDate } from './orderEvents.js';
+import { refreshCustomer } from './customers.js';
+
+export type ReturnErrorCode =
+  | 'NOT_DELIVERED'
+  | 'RETURNS_DISABLED'
+  | 'WINDOW_CLOSED'
+  | 'UNKNOWN_ITEM'
+  | 'QTY_EXCEEDED'
+  | 'EXCHANGE_PRODUCT_UNAVAILABLE'
+  | 'OUT_OF_STOCK';
+
+// Customer-facing — the storefront shows these as is
+export const RETURN_ERRORS: Record<ReturnErrorCode, string> = {
+  NOT_DELIVERED: 'لا يمكن إرجاع الطلب قبل تسليمه',
+  RETURNS_DISABLED: 'يرجى التواصل مع المتجر لإرجاع هذا الطلب',
+  WINDOW_CLOSED: 'انتهت مدة الإرجاع لهذا الطلب',
+  UNKNOWN_ITEM: 'المنتج غير موجود في هذا الطلب',
+  QTY_EXCEEDED: 'الكمية المطلوبة أكبر من الكمية القابلة للإرجاع',
+  EXCHANGE_PRODUCT_UNAVAILABLE: 'منتج الاستبدال غير متاح',
+  OUT_OF_STOCK: 'منتج الاستبدال غير متوفر في المخزون',
+};
+
+export type ReturnFailure = {
+  ok: false;
+  status: 400 | 409 | 422;
+  body: { error: string; code: ReturnErrorCode; [key: string]: unknown };
+};
+
+function fail(status: ReturnFailure['status'], code: ReturnErrorCode, extra: Record<string, unknown> = {}): ReturnFailure {
+  return { ok: false, status, body: { error: RETURN_ERRORS[code], code, ...extra } };
+}
+
+/** When the order reached `delivered` — the order date for orders delivered before the timeline existed */
+export async function deliveredAt(db: Database, order: Order): Promise<Date> {
+  const event = await db.query.orderStatusEvents.findFirst({
+    where: and(eq(orderStatusEvents.orderId, order.id), eq(orderStatusEvents.toStatus, 'delivered')),
+    orderBy: [desc(orderStatusEvents.createdAt)],
+  });
+  return sqliteDate(event?.createdAt ?? order.createdAt);
+}
+
+export type OpenReturnResult =
+  | { ok: true; orderReturn: OrderReturn; items: ReturnItem[]; outsideWindow: boolean }
+  | ReturnFailure;
+
+/**
+ * Opens a return for delivered units of `order`. The storefront must respect
+ * the tenant's return window; staff may open one after it has closed
+ * (`outsideWindow` tells the caller to record that).
+ */
+export async function openReturn(
+  db: Database,
+  order: Order,
+  input: CreateReturnInput,
+  opts: { source: OrderReturn['source']; actorUserId?: string | null }
+): Promise<OpenReturnResult> {
+  if (order.status !== 'delivered') return fail(422, 'NOT_DELIVERED');
+
+  const tenant = await db.query.tenants.findFirst({
+    where: eq(tenants.id, order.tenantId),
+    columns: { returnWindowDays: true },
+  });
+  const windowDays = tenant?.returnWindowDays ?? 0;
+  const outsideWindow = !isWithinReturnWindow(await deliveredAt(db, order), windowDays);
+  if (outsideWindow && opts.source === 'storefront') {
+    return fail(422, windowDays <= 0 ? 'RETURNS_DISABLED' : 'WINDOW_CLOSED');
+  }
+
+  // What is still returnable: ordered qty minus earlier returns that were not rejected
+  const [items, previous] = await Promise.all([
+    db.query.orderItems.findMany({ where: eq(orderItems.orderId, order.id) }),
+    db.query.returns.findMany({ where: eq(returns.orderId, order.id) }),
+  ]);
+  const previousItems = previous.length > 0
+    ? await db.query.returnItems.findMany({ where: inArray(returnItems.returnId, previous.map(r => r.id)) })
+    : [];
+  const statusOf = new Map(previous.map(r => [r.id, r.status]));
+  const alreadyReturned = returnedQtyByItem(
+    previousItems.map(i => ({ orderItemId: i.orderItemId, qty: i.qty, status: statusOf.get(i.returnId)! }))
+  );
+
+  const check = checkReturnLines(items, alreadyReturned, input.items);
+  if (!check.ok) {
+    return check.code === 'UNKNOWN_ITEM'
+      ? fail(400, 'UNKNOWN_ITEM', { orderItemId: check.orderItemId })
+      : fail(422, 'QTY_EXCEEDED', { orderItemId: check.orderItemId, available: check.available });
+  }
+
+  const exchangeProductIds = [...new Set(input.items.map(i => i.exchangeProductId).filter((id): id is string => !!id))];
+  if (exchangeProductIds.length > 0) {
+    const available = await db.select({ id: products.id })
+      .from(products)
+      .where(and(
+        eq(products.tenantId, order.tenantId),
+        eq(products.status, 'active'),
+        inArray(products.id, exchangeProductIds)
+      ));
+    if (available.length !== exchangeProductIds.length) return fail(422, 'EXCHANGE_PRODUCT_UNAVAILABLE');
+  }
+
+  const returnId = crypto.randomUUID();
+  const rows = input.items.map(line => ({
+    id: crypto.randomUUID(),
+    tenantId: order.tenantId,
+    returnId,
+    orderItemId: line.orderItemId,
+    productId: items.find(i => i.id === line.orderItemId)!.productId,
+    qty: line.qty,
+    reason: line.reason,
+    exchangeProductId: line.exchangeProductId ?? null,
+  }));
+
+  // One batch: a return never exists without its items
+  await db.batch([
+    db.insert(returns).values({
+      id: returnId,
+      tenantId: order.tenantId,
+      orderId: order.id,
+      rmaNumber: formatRmaNumber(order.orderNumber, previous.length + 1),
+      resolution: input.resolution,
+      source: opts.source,
+      customerNote: input.note ?? null,
+      actorUserId: opts.actorUserId ?? null,
+    }),
+    db.insert(returnItems).values(rows),
+  ]);
+
+  const orderReturn = await db.query.returns.findFirst({ where: eq(returns.id, returnId) });
+  const created = await db.query.returnItems.findMany({ where: eq(returnItems.returnId, returnId) });
+  return { ok: true, orderReturn: orderReturn!, items: created, outsideWindow };
+}
+
+export type ExchangeOrderResult = { ok: true; orderId: string; orderNumber: string } | ReturnFailure;
+
+/**
+ * Ships replacements for an exchange: a COD order with nothing to collect,
+ * already confirmed, going through the normal fulfilment flow. Each returned
+ * line is replaced unit for unit — by its exchange product, or the same one.
+ * Price differences are not charged here; settle them with a refund or a new order.
+ */
+export async function createExchangeOrder(
+  db: Database,
+  original: Order,
+  orderReturn: OrderReturn,
+  items: ReturnItem[],
+  actorUserId: string
+): Promise<ExchangeOrderResult> {
+  const tenantId = original.tenantId;
+  const productIds = [...new Set(items.map(i => i.exchangeProductId ?? i.productId).filter((id): id is string => !!id))];
+  const found = productIds.length > 0
+    ? await db.query.products.findMany({
+        where: and(eq(products.tenantId, tenantId), eq(products.status, 'active'), inArray(products.id, productIds)),
+      })
+    : [];
+
+  const lines: { productId: string; title: string; qty: number }[] = [];
+  for (const item of items) {
+    const product = found.find(p => p.id === (item.exchangeProductId ?? item.productId));
+    if (!product) return fail(422, 'EXCHANGE_PRODUCT_UNAVAILABLE', { returnItemId: item.id });
+    lines.push({ productId: product.id, title: product.title, qty: item.qty });
+  }
+
+  const orderId = crypto.randomUUID();
+  const hold = await reserveStock(db, tenantId, orderId, lines);
+  if (!hold.ok) return fail(409, 'OUT_OF_STOCK', { productId: hold.productId });
+
+  const orderNumber = await allocateOrderNumber(db, tenantId);
+  const note = `Exchange for ${original.orderNumber} (${orderReturn.rmaNumber})`;
+
+  // Order and items in one batch; the stock is only taken once they exist
+  try {
+    await db.batch([
+      db.insert(orders).values({
+        id: orderId,
+        tenantId,
+        orderNumber,
+        customerEmail: original.customerEmail,
+        customerName: original.customerName,
+        customerPhone: original.customerPhone,
+        customerAddress: original.customerAddress,
+        status: 'pending',
+        // Nothing to collect at the door; the customer already agreed to the exchange
+        paymentMethod: 'COD',
+        paymentStatus: 'PAID',
+        confirmationStatus: 'confirmed',
+        confirmedAt: new Date().toISOString(),
+        subtotal: 0,
+        total: 0,
+        currency: original.currency,
+        shippingMethod: original.shippingMethod,
+        shippingCountry: original.shippingCountry,
+        shippingRegion: original.shippingRegion,
+        shippingCity: original.shippingCity,
+        pricesIncludeTax: original.pricesIncludeTax,
+        notes: note,
+      }),
+      db.insert(orderItems).values(lines.map(l => ({
+        id: crypto.randomUUID(),
+        tenantId,
+        orderId,
+        productId: l.productId,
+        titleSnapshot: l.title,
+        priceSnapshot: 0,
+        qty: l.qty,
+      }))),
+    ]);
+  } catch (err) {
+    await releaseReservations(db, orderId);
+    throw err;
+  }
+  await commitReservations(db, orderId);
+
+  await recordStatusEvent(db, { tenantId, orderId, from: null, to: 'pending', source: 'dashboard', actorUserId, note });
+  await refreshCustomer(db, tenantId, original.customerEmail);
+
+  return { ok: true, orderId, orderNumber };
+}
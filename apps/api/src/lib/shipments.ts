@@ -0,0 +1,284 @@
+// apps/api/src/lib/shipments.ts
+//
+// Shipments: booking a parcel moves the order to `shipped`; tracking (polled
+// or pushed by the carrier) moves the shipment forward and, on delivery, the
+// order to `delivered` through the usual status rules (lib/orderStatus.ts) —
+// which is also what marks a COD order PAID.
+// Adapters: lib/carriers.ts. Tracking rules: @repo/shared/shipments.
+
+import { eq, and, asc, ne, notInArray } from 'drizzle-orm';
+import { orders, shipments, shipmentEvents, auditLogs } from '@repo/db';
+import type { Database, Shipment } from '@repo/db';
+import { canTransition, allowedTransitions, canShipCod } from '@repo/shared/orders';
+import {
+  MANUAL_CARRIER,
+  latestTrackingEvent,
+  orderStatusForShipment,
+  shouldApplyTrackingStatus,
+} from '@repo/shared/shipments';
+import type { TrackingEvent } from '@repo/shared/shipments';
+import type { CreateShipmentInput } from '@repo/shared/schemas';
+import type { Env } from '../env.js';
+import { getCarrier } from './carriers.js';
+import { changeOrderStatus } from './orderStatus.js';
+import type { StatusActor } from './orderStatus.js';
+import { loadCodSettings } from './fraud.js';
+
+const CARRIER_ACTOR = { userId: null, role: 'system', source: 'webhook' } as const;
+
+export type CreateShipmentResult =
+  | { ok: true; shipment: Shipment; orderUpdated: boolean }
+  | { ok: false; status: 404 | 409 | 422 | 502; body: { error: string; code?: string; [key: string]: unknown } };
+
+/**
+ * Books a parcel for an order (or records a manual tracking number) and marks
+ * the order shipped. The status rules are checked before the carrier is
+ * called, so a parcel is never booked for an order that cannot ship.
+ */
+export async function createOrderShipment(
+  db: Database,
+  env: Env,
+  actor: StatusActor & { userId: string },
+  input: CreateShipmentInput
+): Promise<CreateShipmentResult> {
+  const { tenantId } = actor;
+
+  const order = await db.query.orders.findFirst({
+    where: and(eq(orders.id, input.orderId), eq(orders.tenantId, tenantId)),
+  });
+  if (!order) return { ok: false, status: 404, body: { error: 'Order not found' } };
+
+  // A shipped order may get another parcel (split delivery, re-send after a return)
+  if (order.status !== 'shipped') {
+    if (!canTransition(order.paymentMethod, order.status, 'shipped')) {
+      return {
+        ok: false,
+        status: 422,
+        body: {
+          error: `Cannot ship a ${order.paymentMethod} order that is ${order.status}`,
+          code: 'INVALID_TRANSITION',
+          allowed: allowedTransitions(order.paymentMethod, order.status),
+        },
+      };
+    }
+    if (order.paymentMethod === 'COD' && order.status === 'pending') {
+      const { confirmationRequired } = await loadCodSettings(db, tenantId);
+      if (!canShipCod(order, confirmationRequired)) {
+        return {
+          ok: false,
+          status: 422,
+          body: {
+            error: 'Confirm this order with the customer before shipping',
+            code: 'CONFIRMATION_REQUIRED',
+            confirmationStatus: order.confirmationStatus,
+          },
+        };
+      }
+    }
+  }
+
+  let booked: Pick<Shipment, 'carrierShipmentId' | 'trackingNumber' | 'trackingUrl' | 'estimatedDeliveryAt'>;
+  let carrierName: string;
+  if (input.carrier === MANUAL_CARRIER) {
+    booked = {
+      carrierShipmentId: null,
+      trackingNumber: input.trackingNumber!,
+      trackingUrl: input.trackingUrl ?? null,
+      estimatedDeliveryAt: null,
+    };
+    carrierName = input.carrierName!;
+  } else {
+    const adapter = getCarrier(input.carrier, env);
+    if (!adapter) {
+      return { ok: false, status: 422, body: { error: `Unknown carrier: ${input.carrier}`, code: 'UNKNOWN_CARRIER' } };
+    }
+    try {
+      booked = await adapter.createShipment({
+        reference: order.orderNumber,
+        recipient: {
+          name: order.customerName ?? order.customerEmail,
+          phone: order.customerPhone,
+          address: order.customerAddress,
+          city: order.shippingCity,
+          region: order.shippingRegion,
+          country: order.shippingCountry,
+        },
+        codAmount: order.paymentMethod === 'COD' ? order.total : null,
+        currency: order.currency,
+        weightGrams: input.weightGrams ?? null,
+      });
+    } catch (err) {
+      return {
+        ok: false,
+        status: 502,
+        body: { error: `${adapter.name} did not accept the shipment`, code: 'CARRIER_ERROR', detail: String(err) },
+      };
+    }
+    carrierName = adapter.name;
+  }
+
+  const existing = await db.query.shipments.findFirst({
+    where: and(
+      eq(shipments.tenantId, tenantId),
+      eq(shipments.carrier, input.carrier),
+      eq(shipments.trackingNumber, booked.trackingNumber)
+    ),
+  });
+  if (existing) {
+    return {
+      ok: false,
+      status: 409,
+      body: { error: 'This tracking number is already recorded', code: 'DUPLICATE_TRACKING', shipmentId: existing.id },
+    };
+  }
+
+  const [shipment] = await db.insert(shipments).values({
+    id: crypto.randomUUID(),
+    tenantId,
+    orderId: order.id,
+    carrier: input.carrier,
+    carrierName: input.carrier === MANUAL_CARRIER ? carrierName : null,
+    ...booked,
+    actorUserId: actor.userId,
+  }).returning();
+
+  // The parcel exists either way — a concurrent status change is reported, not undone
+  let orderUpdated = false;
+  if (order.status !== 'shipped') {
+    const result = await changeOrderStatus(db, actor, order, {
+      status: 'shipped',
+      note: input.note ?? `${carrierName} ${booked.trackingNumber}`,
+    });
+    orderUpdated = result.ok;
+  }
+
+  await db.insert(auditLogs).values({
+    id: crypto.randomUUID(),
+    tenantId,
+    actorUserId: actor.userId,
+    action: 'shipment.created',
+    metaJson: JSON.stringify({
+      orderId: order.id,
+      shipmentId: shipment!.id,
+      carrier: input.carrier,
+      trackingNumber: booked.trackingNumber,
+    }),
+  });
+
+  return { ok: true, shipment: shipment!, orderUpdated };
+}
+
+/**
+ * Records carrier events (repeats are ignored) and moves the shipment to the
+ * latest one when that is a step forward. Delivery moves the order too.
+ */
+export async function applyTrackingEvents(
+  db: Database,
+  shipment: Shipment,
+  events: TrackingEvent[]
+): Promise<Shipment> {
+  for (const event of events) {
+    await db.insert(shipmentEvents).values({
+      id: crypto.randomUUID(),
+      tenantId: shipment.tenantId,
+      shipmentId: shipment.id,
+      status: event.status,
+      description: event.description ?? null,
+      location: event.location ?? null,
+      occurredAt: event.occurredAt,
+    }).onConflictDoNothing();
+  }
+
+  const latest = latestTrackingEvent(events);
+  if (!latest || !shouldApplyTrackingStatus(shipment.status, latest.status)) return shipment;
+
+  // Guard on the status we compared against — a concurrent update already moved it
+  const [updated] = await db.update(shipments)
+    .set({
+      status: latest.status,
+      lastEventAt: latest.occurredAt,
+      deliveredAt: latest.status === 'delivered' ? latest.occurredAt : shipment.deliveredAt,
+    })
+    .where(and(eq(shipments.id, shipment.id), eq(shipments.status, shipment.status)))
+    .returning();
+  if (!updated) return shipment;
+
+  const orderStatus = orderStatusForShipment(updated.status);
+  if (orderStatus) {
+    const order = await db.query.orders.findFirst({
+      where: and(eq(orders.id, updated.orderId), eq(orders.tenantId, updated.tenantId)),
+    });
+    // Only a shipped order follows its parcel — staff may have moved it on already
+    if (order && order.status === 'shipped') {
+      await changeOrderStatus(db, { tenantId: order.tenantId, ...CARRIER_ACTOR }, order, {
+        status: orderStatus,
+        note: `${updated.carrier} ${updated.trackingNumber}: ${latest.description ?? latest.status}`,
+      });
+    }
+  }
+  return updated;
+}
+
+/** Asks the carrier for news. Manual shipments are only ever updated by staff. */
+export async function pollShipment(db: Database, env: Env, shipment: Shipment): Promise<Shipment> {
+  const adapter = getCarrier(shipment.carrier, env);
+  if (!adapter) return shipment;
+
+  const events = await adapter.getTracking(shipment);
+  const checkedAt = new Date().toISOString();
+  await db.update(shipments).set({ lastCheckedAt: checkedAt }).where(eq(shipments.id, shipment.id));
+  return applyTrackingEvents(db, { ...shipment, lastCheckedAt: checkedAt }, events);
+}
+
+/** Polls the open shipments checked longest ago; one failing carrier does not stop the batch */
+export async function pollOpenShipments(
+  db: Database,
+  env: Env,
+  tenantId: string,
+  limit: number
+): Promise<{ checked: number; updated: number; failed: number }> {
+  const open = await db.query.shipments.findMany({
+    where: and(
+      eq(shipments.tenantId, tenantId),
+      notInArray(shipments.status, ['delivered', 'returned', 'cancelled']),
+      ne(shipments.carrier, MANUAL_CARRIER)
+    ),
+    // Never-checked shipments (NULL) sort first
+    orderBy: [asc(shipments.lastCheckedAt), asc(shipments.createdAt)],
+    limit,
+  });
+
+  let updated = 0;
+  let failed = 0;
+  // Sequential — carriers rate-limit, and D1 runs one statement at a time anyway
+  for (const shipment of open) {
+    try {
+      const after = await pollShipment(db, env, shipment);
+      if (after.status !== shipment.status) updated++;
+    } catch {
+      failed++;
+    }
+  }
+  return { checked: open.length, updated, failed };
+}
+
+/** Tracking pushed by a carrier — matched on tracking number across tenants */
+export async function applyCarrierUpdate(
+  db: Database,
+  carrier: string,
+  trackingNumber: string,
+  events: TrackingEvent[]
+): Promise<number> {
+  const matches = await db.query.shipments.findMany({
+    where: and(eq(shipments.carrier, carrier), eq(shipments.trackingNumber, trackingNumber)),
+  });
+  for (const shipment of matches) {
+    await applyTrackingEvents(db, shipment, events);
+  }
+  return matches.length;
+}
+
+/** Manual shipments carry the name staff typed; integrated ones use the adapter's */
+export function carrierDisplayName(shipment: Shipment, env: Env): string {
+  return shipment.carrierName ?? getCarrier(shipment.carrier, env)?.name ?? shipment.carrier;
+}
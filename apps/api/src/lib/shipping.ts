@@ -0,0 +1,151 @@
+// apps/api/src/lib/shipping.ts
+//
+// DB side of shipping: loads a tenant's active zones/rates and prices them.
+// Matching and rate math live in @repo/shared/shipping.
+
+import { eq, and, inArray } from 'drizzle-orm';
+import { shippingZones, shippingRates } from '@repo/db';
+import type { Database, ShippingZone, ShippingRate } from '@repo/db';
+import { matchShippingZone, computeShippingCharge } from '@repo/shared/shipping';
+import { convertShippingZone, convertShippingRate } from '@repo/shared/currencies';
+import type {
+  ShippingZoneRule,
+  ShippingRateRule,
+  ShippingDestination,
+  ShippingCharge,
+} from '@repo/shared/shipping';
+import type { PaymentMethod } from '@repo/shared/types';
+
+export type ZoneWithRates = ShippingZoneRule & { rates: ShippingRateRule[] };
+
+export interface ShippingCart {
+  /** Merchandise subtotal after discounts — drives price tiers + free threshold */
+  subtotal: number;
+  weightGrams: number;
+  paymentMethod: PaymentMethod;
+  freeShipping?: boolean;
+  /** Checkout currency per 1 base currency — zone and rate amounts are in the base currency */
+  exchangeRate?: number;
+}
+
+export interface ShippingOption extends ShippingCharge {
+  rateId: string;
+  name: string;
+  minDeliveryDays: number | null;
+  maxDeliveryDays: number | null;
+}
+
+export interface SelectedShipping extends ShippingOption {
+  zoneId: string;
+  country: string;
+  region: string | null;
+  city: string | null;
+}
+
+export type ShippingRejection = 'SHIPPING_REQUIRED' | 'NO_ZONE' | 'RATE_UNAVAILABLE';
+
+/** Customer-facing messages (storefront is Arabic-first) */
+export const SHIPPING_ERRORS: Record<ShippingRejection, string> = {
+  SHIPPING_REQUIRED: 'يرجى اختيار طريقة التوصيل',
+  NO_ZONE: 'التوصيل غير متوفر إلى هذا العنوان',
+  RATE_UNAVAILABLE: 'طريقة التوصيل المختارة غير متاحة لهذا الطلب',
+};
+
+export function toZoneRule(row: ShippingZone): ShippingZoneRule {
+  return {
+    id: row.id,
+    name: row.name,
+    countries: JSON.parse(row.countriesJson),
+    regions: row.regionsJson ? JSON.parse(row.regionsJson) : null,
+    freeShippingThreshold: row.freeShippingThreshold,
+    codSurcharge: row.codSurcharge,
+  };
+}
+
+export function toRateRule(row: ShippingRate): ShippingRateRule {
+  return {
+    id: row.id,
+    zoneId: row.zoneId,
+    name: row.name,
+    type: row.type,
+    amount: row.amount,
+    tiers: row.tiersJson ? JSON.parse(row.tiersJson) : null,
+    minDeliveryDays: row.minDeliveryDays,
+    maxDeliveryDays: row.maxDeliveryDays,
+  };
+}
+
+/** Active zones with their active rates */
+export async function loadShippingZones(db: Database, tenantId: string): Promise<ZoneWithRates[]> {
+  const zones = await db.query.shippingZones.findMany({
+    where: and(eq(shippingZones.tenantId, tenantId), eq(shippingZones.isActive, true)),
+  });
+  if (zones.length === 0) return [];
+
+  const rates = await db.query.shippingRates.findMany({
+    where: and(
+      inArray(shippingRates.zoneId, zones.map(z => z.id)),
+      eq(shippingRates.isActive, true)
+    ),
+  });
+
+  return zones.map(z => ({
+    ...toZoneRule(z),
+    rates: rates.filter(r => r.zoneId === z.id).map(toRateRule),
+  }));
+}
+
+export function cartWeight(lines: { weightGrams: number | null; qty: number }[]): number {
+  return lines.reduce((acc, l) => acc + (l.weightGrams ?? 0) * l.qty, 0);
+}
+
+/** Every rate the destination can use, cheapest first */
+export function priceZoneRates(zone: ZoneWithRates, cart: ShippingCart): ShippingOption[] {
+  const exchangeRate = cart.exchangeRate ?? 1;
+  const converted = convertShippingZone(zone, exchangeRate);
+  const options: ShippingOption[] = [];
+  for (const rate of zone.rates) {
+    const charge = computeShippingCharge(convertShippingRate(rate, exchangeRate), converted, cart);
+    if (!charge) continue;
+    options.push({
+      rateId: rate.id,
+      name: rate.name,
+      minDeliveryDays: rate.minDeliveryDays,
+      maxDeliveryDays: rate.maxDeliveryDays,
+      ...charge,
+    });
+  }
+  return options.sort((a, b) => a.amount - b.amount);
+}
+
+/**
+ * Re-prices the rate the customer picked at checkout.
+ * Tenants without any zone keep the old behaviour (no shipping charge).
+ */
+export async function resolveShipping(
+  db: Database,
+  tenantId: string,
+  selection: (ShippingDestination & { rateId: string }) | undefined,
+  cart: ShippingCart
+): Promise<{ ok: true; shipping: SelectedShipping | null } | { ok: false; reason: ShippingRejection }> {
+  const zones = await loadShippingZones(db, tenantId);
+  if (zones.length === 0) return { ok: true, shipping: null };
+  if (!selection) return { ok: false, reason: 'SHIPPING_REQUIRED' };
+
+  const zone = matchShippingZone(zones, selection);
+  if (!zone) return { ok: false, reason: 'NO_ZONE' };
+
+  const option = priceZoneRates(zone, cart).find(o => o.rateId === selection.rateId);
+  if (!option) return { ok: false, reason: 'RATE_UNAVAILABLE' };
+
+  return {
+    ok: true,
+    shipping: {
+      ...option,
+      zoneId: zone.id,
+      country: selection.country,
+      region: selection.region ?? null,
+      city: selection.city ?? null,
+    },
+  };
+}
@@ -0,0 +1,216 @@
+// apps/api/src/lib/stock.ts
+//
+// Stock reservations for checkout.
+//
+//   hold    → conditional UPDATE (stock - reserved_stock >= qty) so two buyers
+//             can never both take the last unit
+//   commit  → hold becomes a real products.stock decrement (Stripe paid / COD placed)
+//   release → hold dropped, or committed units put back (cancelled / refunded / expired)
+//   return  → some committed units come back in a return (restocked or written off)
+//
+// Every transition first "claims" the reservation rows with a status-guarded
+// UPDATE … RETURNING, so retried webhooks or double clicks never apply twice.
+
+import { eq, and, lt, inArray, sql } from 'drizzle-orm';
+import { products, stockReservations } from '@repo/db';
+import type { Database, StockReservation } from '@repo/db';
+
+/** How long a checkout may hold stock before the sweep gives it back */
+export const HOLD_TTL_MS = 35 * 60 * 1000;
+
+/** Stripe Checkout session lifetime — shorter than the hold so late webhooks still find it */
+export const STRIPE_SESSION_TTL_MS = 30 * 60 * 1000;
+
+export type ReserveResult =
+  | { ok: true; expiresAt: string }
+  | { ok: false; productId: string };
+
+/**
+ * Holds `qty` units of each product for an order.
+ * All-or-nothing: the conditional increments and the reservation rows go out in
+ * one D1 batch (one transaction), so a failing statement leaves nothing behind;
+ * if a line is short of stock, the lines that were held are given back.
+ */
+export async function reserveStock(
+  db: Database,
+  tenantId: string,
+  orderId: string,
+  items: { productId: string; qty: number }[],
+  ttlMs = HOLD_TTL_MS
+): Promise<ReserveResult> {
+  const expiresAt = new Date(Date.now() + ttlMs).toISOString();
+  if (items.length === 0) return { ok: true, expiresAt };
+
+  const rows = items.map(item => ({
+    id: crypto.randomUUID(),
+    tenantId,
+    orderId,
+    productId: item.productId,
+    qty: item.qty,
+    status: 'held' as const,
+    expiresAt,
+  }));
+  const [first, ...rest] = items.map(item => db.update(products)
+    .set({ reservedStock: sql`${products.reservedStock} + ${item.qty}` })
+    .where(and(
+      eq(products.id, item.productId),
+      eq(products.tenantId, tenantId),
+      sql`${products.stock} - ${products.reservedStock} >= ${item.qty}`
+    ))
+    .returning({ id: products.id }));
+
+  const results = await db.batch([first!, ...rest, db.insert(stockReservations).values(rows)]);
+  const held = items.map((_, i) => (results[i] as { id: string }[]).length > 0);
+
+  const short = held.indexOf(false);
+  if (short !== -1) {
+    await db.batch([
+      db.delete(stockReservations).where(inArray(stockReservations.id, rows.map(r => r.id))),
+      ...items.flatMap((item, i) => (held[i] ? [unreserve(db, item.productId, item.qty)] : [])),
+    ]);
+    return { ok: false, productId: items[short]!.productId };
+  }
+
+  return { ok: true, expiresAt };
+}
+
+/** Converts an order's holds into real stock decrements. Idempotent. */
+export async function commitReservations(db: Database, orderId: string): Promise<number> {
+  const claimed = await db.update(stockReservations)
+    .set({ status: 'committed' })
+    .where(and(eq(stockReservations.orderId, orderId), eq(stockReservations.status, 'held')))
+    .returning();
+
+  await runAll(db, claimed.map(r =>
+    db.update(products)
+      .set({
+        stock: sql`max(0, ${products.stock} - ${r.qty})`,
+        reservedStock: sql`max(0, ${products.reservedStock} - ${r.qty})`,
+      })
+      .where(eq(products.id, r.productId))
+  ));
+
+  return claimed.length;
+}
+
+/**
+ * Gives an order's stock back: held units are un-reserved, committed units
+ * are restocked. Idempotent — already released rows are ignored.
+ */
+export async function releaseReservations(db: Database, orderId: string): Promise<number> {
+  const [wasHeld, wasCommitted] = await Promise.all([
+    claimForRelease(db, and(eq(stockReservations.orderId, orderId), eq(stockReservations.status, 'held'))),
+    claimForRelease(db, and(eq(stockReservations.orderId, orderId), eq(stockReservations.status, 'committed'))),
+  ]);
+
+  await runAll(db, [
+    ...wasHeld.map(r => unreserve(db, r.productId, r.qty)),
+    ...wasCommitted.map(r =>
+      db.update(products)
+        .set({ stock: sql`${products.stock} + ${r.qty}` })
+        .where(eq(products.id, r.productId))
+    ),
+  ]);
+
+  return wasHeld.length + wasCommitted.length;
+}
+
+export interface ReturnedUnits {
+  productId: string;
+  qty: number;
+  /** false = written off (damaged) — taken off the order without going back on the shelf */
+  restock: boolean;
+}
+
+/**
+ * Takes units off the order's committed reservations — returned parcels, or
+ * lines removed by an order edit — so a later cancellation or full refund,
+ * which releases whatever is still committed, cannot restock them a second
+ * time. Returns the qty actually put back per product.
+ *
+ *   committed rows left → decrement them, restock what was claimed
+ *   no reservations     → order predates reservations: restock directly
+ *   only released rows  → the order's stock is already back, nothing to do
+ */
+export async function settleReturnedStock(
+  db: Database,
+  orderId: string,
+  lines: ReturnedUnits[]
+): Promise<Map<string, number>> {
+  const restocked = new Map<string, number>();
+
+  for (const line of lines) {
+    const rows = await db.query.stockReservations.findMany({
+      where: and(eq(stockReservations.orderId, orderId), eq(stockReservations.productId, line.productId)),
+    });
+
+    let settled = 0;
+    if (rows.length === 0) {
+      settled = line.qty;
+    } else {
+      for (const r of rows.filter(r => r.status === 'committed')) {
+        const take = Math.min(r.qty, line.qty - settled);
+        if (take <= 0) break;
+        // Guarded on qty so a concurrent return cannot claim the same units
+        const claimed = await db.update(stockReservations)
+          .set({
+            qty: sql`${stockReservations.qty} - ${take}`,
+            status: sql`CASE WHEN ${stockReservations.qty} - ${take} <= 0 THEN 'released' ELSE ${stockReservations.status} END`,
+          })
+          .where(and(
+            eq(stockReservations.id, r.id),
+            eq(stockReservations.status, 'committed'),
+            sql`${stockReservations.qty} >= ${take}`
+          ))
+          .returning({ id: stockReservations.id });
+        if (claimed.length > 0) settled += take;
+      }
+    }
+
+    if (line.restock && settled > 0) {
+      await db.update(products)
+        .set({ stock: sql`${products.stock} + ${settled}` })
+        .where(eq(products.id, line.productId));
+      restocked.set(line.productId, (restocked.get(line.productId) ?? 0) + settled);
+    }
+  }
+
+  return restocked;
+}
+
+/** Lazy sweep — releases holds whose checkout was abandoned */
+export async function releaseExpiredHolds(db: Database, tenantId: string): Promise<number> {
+  const expired = await claimForRelease(db, and(
+    eq(stockReservations.tenantId, tenantId),
+    eq(stockReservations.status, 'held'),
+    lt(stockReservations.expiresAt, new Date().toISOString())
+  ));
+
+  await runAll(db, expired.map(r => unreserve(db, r.productId, r.qty)));
+  return expired.length;
+}
+
+// ─── Internal ─────────────────────────────────────────────────
+
+async function claimForRelease(
+  db: Database,
+  where: ReturnType<typeof and>
+): Promise<StockReservation[]> {
+  return db.update(stockReservations)
+    .set({ status: 'released' })
+    .where(where)
+    .returning();
+}
+
+function unreserve(db: Database, productId: string, qty: number) {
+  return db.update(products)
+    .set({ reservedStock: sql`max(0, ${products.reservedStock} - ${qty})` })
+    .where(eq(products.id, productId));
+}
+
+/** Runs product counter updates in a single D1 batch (one implicit transaction) */
+async function runAll(db: Database, statements: ReturnType<typeof unreserve>[]): Promise<void> {
+  if (statements.length === 0) return;
+  const [first, ...rest] = statements;
+  await db.batch([first, ...rest]);
+}
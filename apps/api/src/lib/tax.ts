@@ -0,0 +1,76 @@
+// apps/api/src/lib/tax.ts
+//
+// DB side of TVA/VAT: tenant settings + tax classes → per-line tax.
+// The math lives in @repo/shared/tax.
+
+import { eq } from 'drizzle-orm';
+import { tenants, taxClasses } from '@repo/db';
+import type { Database } from '@repo/db';
+import { allocateDiscount, computeTaxes } from '@repo/shared/tax';
+import type { TaxBreakdown } from '@repo/shared/tax';
+
+export interface TaxSettings {
+  enabled: boolean;
+  inclusive: boolean;
+  taxShipping: boolean;
+  /** Rate of the default class — products without a class, and shipping */
+  defaultRate: number;
+  rates: Map<string, number>;
+}
+
+export interface OrderTax extends TaxBreakdown {
+  inclusive: boolean;
+  /** Rate applied to each line, same order as the input */
+  lineRates: number[];
+}
+
+export async function loadTaxSettings(db: Database, tenantId: string): Promise<TaxSettings> {
+  const [tenant, classes] = await Promise.all([
+    db.query.tenants.findFirst({ where: eq(tenants.id, tenantId) }),
+    db.query.taxClasses.findMany({ where: eq(taxClasses.tenantId, tenantId) }),
+  ]);
+
+  return {
+    enabled: tenant?.taxEnabled ?? false,
+    inclusive: tenant?.pricesIncludeTax ?? true,
+    taxShipping: tenant?.taxShipping ?? true,
+    defaultRate: classes.find(tc => tc.isDefault)?.rate ?? 0,
+    rates: new Map(classes.map(tc => [tc.id, tc.rate])),
+  };
+}
+
+/**
+ * Tax for a priced cart. The discount is spread over the lines it applied to
+ * before taxing, so a 10% code also lowers the TVA due.
+ */
+export function taxOrder(
+  settings: TaxSettings,
+  input: {
+    lines: { productId: string | null; price: number; qty: number; taxClassId: string | null }[];
+    discountTotal: number;
+    /** Lines the discount applies to — null = whole cart */
+    eligibleProductIds: string[] | null;
+    shippingTotal: number;
+  }
+): OrderTax {
+  const lineRates = input.lines.map(l => {
+    if (!settings.enabled) return 0;
+    return (l.taxClassId ? settings.rates.get(l.taxClassId) : undefined) ?? settings.defaultRate;
+  });
+
+  const amounts = input.lines.map(l => l.price * l.qty);
+  const eligible = input.lines.map(l =>
+    !input.eligibleProductIds || (l.productId !== null && input.eligibleProductIds.includes(l.productId))
+  );
+  const shares = allocateDiscount(amounts.map((a, i) => (eligible[i] ? a : 0)), input.discountTotal);
+
+  const breakdown = computeTaxes({
+    lines: amounts.map((a, i) => ({ amount: a - shares[i]!, rate: lineRates[i]! })),
+    shipping: settings.enabled && settings.taxShipping && input.shippingTotal > 0
+      ? { amount: input.shippingTotal, rate: settings.defaultRate }
+      : null,
+    inclusive: settings.inclusive,
+  });
+
+  return { ...breakdown, inclusive: settings.inclusive, lineRates };
+}
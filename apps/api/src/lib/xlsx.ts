@@ -0,0 +1,232 @@
+// apps/api/src/lib/xlsx.ts
+//
+// Streaming XLSX writer — just enough Office Open XML for one sheet of plain
+// values, emitted while the rows are still being read:
+//   - zip entries are stored uncompressed, with the CRC and sizes in a data
+//     descriptor after each entry, so no entry is ever held in memory
+//   - cells are inline strings or numbers (no shared-string table to collect)
+//   - Arabic sheets open right-to-left; the header row is bold and frozen
+// Plain ZIP (not ZIP64): a single export is capped at 4 GiB.
+
+import type { ExportCell } from '@repo/shared/exports';
+
+const encoder = new TextEncoder();
+
+export interface SheetOptions {
+  name: string;
+  header: string[];
+  rtl: boolean;
+}
+
+/** `rows` yields batches of rows, typically one database page at a time */
+export function xlsxStream(sheet: SheetOptions, rows: AsyncIterable<ExportCell[][]>): AsyncGenerator<Uint8Array> {
+  const name = sheet.name.replace(/[[\]:*?/\\]/g, ' ').slice(0, 31);
+  return zipStream([
+    ['[Content_Types].xml', once(CONTENT_TYPES)],
+    ['_rels/.rels', once(ROOT_RELS)],
+    ['xl/workbook.xml', once(workbookXml(name))],
+    ['xl/_rels/workbook.xml.rels', once(WORKBOOK_RELS)],
+    ['xl/styles.xml', once(STYLES)],
+    ['xl/worksheets/sheet1.xml', sheetXml(sheet, rows)],
+  ]);
+}
+
+// ─── Sheet ────────────────────────────────────────────────────
+
+async function* sheetXml(sheet: SheetOptions, rows: AsyncIterable<ExportCell[][]>): AsyncGenerator<Uint8Array> {
+  yield encoder.encode(
+    `${XML_DECLARATION}<worksheet xmlns="${SPREADSHEET_NS}"><sheetViews>` +
+      `<sheetView workbookViewId="0"${sheet.rtl ? ' rightToLeft="1"' : ''}>` +
+      '<pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/>' +
+      '</sheetView></sheetViews><sheetData>' +
+      rowXml(1, sheet.header, HEADER_STYLE)
+  );
+  let rowNumber = 1;
+  for await (const batch of rows) {
+    if (batch.length === 0) continue;
+    yield encoder.encode(batch.map(values => rowXml(++rowNumber, values)).join(''));
+  }
+  yield encoder.encode('</sheetData></worksheet>');
+}
+
+const HEADER_STYLE = 1;
+
+function rowXml(rowNumber: number, values: ExportCell[], style?: number): string {
+  const s = style ? ` s="${style}"` : '';
+  const cells = values.map((value, i) => {
+    const ref = `${columnName(i)}${rowNumber}`;
+    if (value === null || (typeof value === 'number' && !Number.isFinite(value))) return '';
+    if (typeof value === 'number') return `<c r="${ref}"${s}><v>${value}</v></c>`;
+    return `<c r="${ref}"${s} t="inlineStr"><is><t xml:space="preserve">${escapeXml(value)}</t></is></c>`;
+  });
+  return `<row r="${rowNumber}">${cells.join('')}</row>`;
+}
+
+/** 0 → A, 25 → Z, 26 → AA */
+function columnName(index: number): string {
+  let name = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  }
+  return name;
+}
+
+function escapeXml(text: string): string {
+  return text
+    // Control characters are not allowed in XML 1.0, even escaped
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F\uFFFE\uFFFF]/g, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+// ─── Fixed parts ──────────────────────────────────────────────
+
+const XML_DECLARATION = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+const SPREADSHEET_NS = 'http://schemas.openxmlformats.org/spreadsheetml/2006/main';
+const RELATIONSHIP_NS = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+
+const CONTENT_TYPES =
+  `${XML_DECLARATION}<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">` +
+  '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+  '<Default Extension="xml" ContentType="application/xml"/>' +
+  '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+  '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>' +
+  '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>' +
+  '</Types>';
+
+const ROOT_RELS =
+  `${XML_DECLARATION}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">` +
+  `<Relationship Id="rId1" Type="${RELATIONSHIP_NS}/officeDocument" Target="xl/workbook.xml"/>` +
+  '</Relationships>';
+
+const WORKBOOK_RELS =
+  `${XML_DECLARATION}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">` +
+  `<Relationship Id="rId1" Type="${RELATIONSHIP_NS}/worksheet" Target="worksheets/sheet1.xml"/>` +
+  `<Relationship Id="rId2" Type="${RELATIONSHIP_NS}/styles" Target="styles.xml"/>` +
+  '</Relationships>';
+
+// Style 0: default; style 1: bold (header row)
+const STYLES =
+  `${XML_DECLARATION}<styleSheet xmlns="${SPREADSHEET_NS}">` +
+  '<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>' +
+  '<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>' +
+  '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>' +
+  '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>' +
+  '<cellXfs count="2"><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>' +
+  '<xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/></cellXfs>' +
+  '</styleSheet>';
+
+function workbookXml(sheetName: string): string {
+  return (
+    `${XML_DECLARATION}<workbook xmlns="${SPREADSHEET_NS}" xmlns:r="${RELATIONSHIP_NS}">` +
+    `<sheets><sheet name="${escapeXml(sheetName)}" sheetId="1" r:id="rId1"/></sheets></workbook>`
+  );
+}
+
+async function* once(text: string): AsyncGenerator<Uint8Array> {
+  yield encoder.encode(text);
+}
+
+// ─── ZIP ──────────────────────────────────────────────────────
+
+const ZIP_VERSION = 20;
+// Bit 3: CRC/sizes follow the data; bit 11: UTF-8 names
+const ZIP_FLAGS = 0x0808;
+const ZIP32_MAX = 0xffffffff;
+
+async function* zipStream(entries: Array<[name: string, data: AsyncIterable<Uint8Array>]>): AsyncGenerator<Uint8Array> {
+  const { time, date } = dosDateTime(new Date());
+  const central: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const [name, data] of entries) {
+    const nameBytes = encoder.encode(name);
+
+    const local = new Uint8Array(30 + nameBytes.length);
+    const lv = new DataView(local.buffer);
+    lv.setUint32(0, 0x04034b50, true);
+    lv.setUint16(4, ZIP_VERSION, true);
+    lv.setUint16(6, ZIP_FLAGS, true);
+    lv.setUint16(8, 0, true); // stored
+    lv.setUint16(10, time, true);
+    lv.setUint16(12, date, true);
+    // CRC and sizes (14–25) stay zero — they are in the data descriptor
+    lv.setUint16(26, nameBytes.length, true);
+    local.set(nameBytes, 30);
+    yield local;
+
+    let crc = 0;
+    let size = 0;
+    for await (const chunk of data) {
+      crc = crc32(chunk, crc);
+      size += chunk.length;
+      yield chunk;
+    }
+    if (size > ZIP32_MAX || offset > ZIP32_MAX) throw new Error('Export too large for a single XLSX file');
+
+    const descriptor = new Uint8Array(16);
+    const dv = new DataView(descriptor.buffer);
+    dv.setUint32(0, 0x08074b50, true);
+    dv.setUint32(4, crc, true);
+    dv.setUint32(8, size, true);
+    dv.setUint32(12, size, true);
+    yield descriptor;
+
+    const record = new Uint8Array(46 + nameBytes.length);
+    const cv = new DataView(record.buffer);
+    cv.setUint32(0, 0x02014b50, true);
+    cv.setUint16(4, ZIP_VERSION, true);
+    cv.setUint16(6, ZIP_VERSION, true);
+    cv.setUint16(8, ZIP_FLAGS, true);
+    cv.setUint16(10, 0, true);
+    cv.setUint16(12, time, true);
+    cv.setUint16(14, date, true);
+    cv.setUint32(16, crc, true);
+    cv.setUint32(20, size, true);
+    cv.setUint32(24, size, true);
+    cv.setUint16(28, nameBytes.length, true);
+    cv.setUint32(42, offset, true);
+    record.set(nameBytes, 46);
+    central.push(record);
+
+    offset += local.length + size + descriptor.length;
+  }
+
+  const centralSize = central.reduce((sum, r) => sum + r.length, 0);
+  for (const record of central) yield record;
+
+  const end = new Uint8Array(22);
+  const ev = new DataView(end.buffer);
+  ev.setUint32(0, 0x06054b50, true);
+  ev.setUint16(8, central.length, true);
+  ev.setUint16(10, central.length, true);
+  ev.setUint32(12, centralSize, true);
+  ev.setUint32(16, offset, true);
+  yield end;
+}
+
+function dosDateTime(d: Date): { time: number; date: number } {
+  return {
+    time: (d.getUTCHours() << 11) | (d.getUTCMinutes() << 5) | (d.getUTCSeconds() >> 1),
+    date: ((d.getUTCFullYear() - 1980) << 9) | ((d.getUTCMonth() + 1) << 5) | d.getUTCDate(),
+  };
+}
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+/** CRC-32 (zip), continued from `crc` across chunks */
+function crc32(bytes: Uint8Array, crc = 0): number {
+  let c = crc ^ 0xffffffff;
+  for (let i = 0; i < bytes.length; i++) c = CRC_TABLE[(c ^ bytes[i]!) & 0xff]! ^ (c >>> 8);
+  return (c ^ 0xffffffff) >>> 0;
+}
@@ -8,15 +8,17 @@
 //   - PBKDF2-SHA256: 310,000 iterations + 32-byte salt + timing-safe compare
 //   - Rolling sessions: expiry يتجدد مع كل request
 //   - Role/Plan يُجلبان من DB مع كل request (مش من JWT stale)
+//   - Storefront customers: نفس الـ helpers، cookie مستقل (__customer_session) + جدول customer_sessions
 
 import type { MiddlewareHandler, Context } from 'hono';
 import { getCookie, setCookie, deleteCookie } from 'hono/cookie';
 import { eq, and, lt } from 'drizzle-orm';
-import { createDb, sessions, memberships, tenants } from '@repo/db';
+import { createDb, sessions, memberships, tenants, customerSessions, customerAccounts } from '@repo/db';
 import type { AppContext } from '../index.js';
 
 // ─── Constants ────────────────────────────────────────────────
 const SESSION_COOKIE = '__session';
+const CUSTOMER_SESSION_COOKIE = '__customer_session';
 const SESSION_TTL_DAYS = 14;
 const PBKDF2_ITERATIONS = 310_000;  // OWASP 2023 for SHA-256
 const SALT_BYTES = 32;              // 256-bit salt
@@ -117,22 +119,9 @@ export async function createSession(
     );
   } catch { /* non-critical */ }
 
-  const rawToken = generateSecureToken(32);
-  const tokenHash = await hashToken(rawToken);
-  const sessionId = crypto.randomUUID();
-  const expiresAt = new Date(Date.now() + SESSION_TTL_DAYS * 864e5).toISOString();
-
-  await db.insert(sessions).values({ id: sessionId, userId, tokenHash, expiresAt });
-
-  const isProduction = !(c.env.APP_URL ?? '').includes('localhost');
-
-  setCookie(c, SESSION_COOKIE, rawToken, {
-    httpOnly: true,
-    secure: isProduction,   // false في local dev بدون HTTPS
-    sameSite: 'Lax',
-    path: '/',
-    maxAge: SESSION_TTL_DAYS * 86400,
-  });
+  const { rawToken, tokenHash, expiresAt } = await newSessionToken();
+  await db.insert(sessions).values({ id: crypto.randomUUID(), userId, tokenHash, expiresAt });
+  setSessionCookie(c, SESSION_COOKIE, rawToken);
 }
 
 /** Destroys session in DB and clears cookie — real logout */
@@ -145,11 +134,7 @@ export async function destroySession(c: Context<AppContext>): Promise<void> {
     await db.delete(sessions).where(eq(sessions.tokenHash, tokenHash));
   }
 
-  deleteCookie(c, SESSION_COOKIE, {
-    httpOnly: true,
-    secure: true,
-    path: '/',
-  });
+  deleteCookie(c, SESSION_COOKIE, { httpOnly: true, secure: true, path: '/' });
 }
 
 // ─── Auth Middleware ──────────────────────────────────────────
@@ -247,6 +232,102 @@ async function injectTenantContext(
   c.set('plan', tenant.plan);  // source of truth = tenants.plan (updated by webhook)
 }
 
+// ─── Customer Sessions (storefront) ───────────────────────────
+
+/**
+ * Same flow as createSession, for a storefront customer account.
+ * Separate cookie and table — a shopper session never grants dashboard access.
+ */
+export async function createCustomerSession(
+  c: Context<AppContext>,
+  customerAccountId: string
+): Promise<void> {
+  const db = createDb(c.env.DB);
+
+  try {
+    await db.delete(customerSessions).where(
+      and(
+        eq(customerSessions.customerAccountId, customerAccountId),
+        lt(customerSessions.expiresAt, new Date().toISOString())
+      )
+    );
+  } catch { /* non-critical */ }
+
+  const { rawToken, tokenHash, expiresAt } = await newSessionToken();
+  await db.insert(customerSessions).values({ id: crypto.randomUUID(), customerAccountId, tokenHash, expiresAt });
+  setSessionCookie(c, CUSTOMER_SESSION_COOKIE, rawToken);
+}
+
+export async function destroyCustomerSession(c: Context<AppContext>): Promise<void> {
+  const db = createDb(c.env.DB);
+  const rawToken = getCookie(c, CUSTOMER_SESSION_COOKIE);
+
+  if (rawToken) {
+    const tokenHash = await hashToken(rawToken);
+    await db.delete(customerSessions).where(eq(customerSessions.tokenHash, tokenHash));
+  }
+
+  deleteCookie(c, CUSTOMER_SESSION_COOKIE, { httpOnly: true, secure: true, path: '/' });
+}
+
+/**
+ * requireCustomer — validates the customer cookie → injects customerAccountId.
+ * Must run after resolveTenant(): accounts belong to one store, so a session
+ * from another tenant's storefront is refused.
+ */
+export function requireCustomer(): MiddlewareHandler<AppContext> {
+  return async (c, next) => {
+    const valid = await validateCustomerSession(c);
+    if (!valid) {
+      return c.json({ error: 'يرجى تسجيل الدخول' }, 401);
+    }
+    await next();
+  };
+}
+
+/** Like requireCustomer but lets guests through (checkout) */
+export function optionalCustomer(): MiddlewareHandler<AppContext> {
+  return async (c, next) => {
+    await validateCustomerSession(c);
+    await next();
+  };
+}
+
+async function validateCustomerSession(c: Context<AppContext>): Promise<boolean> {
+  const db = createDb(c.env.DB);
+  const rawToken = getCookie(c, CUSTOMER_SESSION_COOKIE);
+  if (!rawToken) return false;
+
+  const tokenHash = await hashToken(rawToken);
+  const [row] = await db.select({ session: customerSessions, tenantId: customerAccounts.tenantId })
+    .from(customerSessions)
+    .innerJoin(customerAccounts, eq(customerAccounts.id, customerSessions.customerAccountId))
+    .where(eq(customerSessions.tokenHash, tokenHash))
+    .limit(1);
+
+  if (!row) {
+    deleteCookie(c, CUSTOMER_SESSION_COOKIE, { httpOnly: true, secure: true, path: '/' });
+    return false;
+  }
+
+  if (new Date(row.session.expiresAt) < new Date()) {
+    await db.delete(customerSessions).where(eq(customerSessions.id, row.session.id));
+    deleteCookie(c, CUSTOMER_SESSION_COOKIE, { httpOnly: true, secure: true, path: '/' });
+    return false;
+  }
+
+  // Signed in to another store — not an error, just not a customer here
+  if (row.tenantId !== c.get('tenantId')) return false;
+
+  const newExpiry = new Date(Date.now() + SESSION_TTL_DAYS * 864e5).toISOString();
+  await db.update(customerSessions)
+    .set({ expiresAt: newExpiry })
+    .where(eq(customerSessions.id, row.session.id));
+
+  c.set('customerAccountId', row.session.customerAccountId);
+  return true;
+}
+
 // ─── Reset Token Helpers ──────────────────────────────────────
 
 /**
@@ -268,6 +349,26 @@ export async function verifyResetToken(rawToken: string, storedHash: string): Pr
 
 // ─── Utility ──────────────────────────────────────────────────
 
+/** Raw token for the cookie, its hash for the DB, and the expiry of a new session */
+async function newSessionToken(): Promise<{ rawToken: string; tokenHash: string; expiresAt: string }> {
+  const rawToken = generateSecureToken(32);
+  const tokenHash = await hashToken(rawToken);
+  const expiresAt = new Date(Date.now() + SESSION_TTL_DAYS * 864e5).toISOString();
+  return { rawToken, tokenHash, expiresAt };
+}
+
+function setSessionCookie(c: Context<AppContext>, name: string, rawToken: string): void {
+  const isProduction = !(c.env.APP_URL ?? '').includes('localhost');
+
+  setCookie(c, name, rawToken, {
+    httpOnly: true,
+    secure: isProduction,   // false في local dev بدون HTTPS
+    sameSite: 'Lax',
+    path: '/',
+    maxAge: SESSION_TTL_DAYS * 86400,
+  });
+}
+
 function toHex(buf: Uint8Array): string {
   return Array.from(buf, b => b.toString(16).padStart(2, '0')).join('');
 }
@@ -0,0 +1,106 @@
+// apps/api/src/middleware/idempotency.ts
+//
+// Idempotency-Key support for checkout + order-mutating routes.
+//   - First request with a key runs normally; its response is stored in D1
+//     (not KV — two concurrent retries must not both create an order)
+//   - Retries with the same key + body get the stored response back
+//   - Same key with a different body → 422
+//   - 5xx responses are not stored, so the client can retry them
+// Must run after resolveTenant() — keys are scoped per tenant.
+
+import type { MiddlewareHandler } from 'hono';
+import type { ContentfulStatusCode } from 'hono/utils/http-status';
+import { and, eq, lt } from 'drizzle-orm';
+import { createDb, idempotencyKeys } from '@repo/db';
+import type { AppContext } from '../index.js';
+
+const KEY_TTL_MS = 24 * 60 * 60 * 1000;
+const MAX_KEY_LENGTH = 255;
+// A 'processing' row this old belongs to a request that died mid-way
+const STALE_PROCESSING_MS = 2 * 60 * 1000;
+
+export function idempotency(): MiddlewareHandler<AppContext> {
+  return async (c, next) => {
+    const key = c.req.header('Idempotency-Key')?.trim();
+    if (!key) return next();
+    if (key.length > MAX_KEY_LENGTH) {
+      return c.json({ error: 'Idempotency-Key too long', code: 'IDEMPOTENCY_KEY_INVALID' }, 400);
+    }
+
+    const db = createDb(c.env.DB);
+    const tenantId = c.get('tenantId');
+    const now = new Date();
+
+    // Hono caches the body, so the handler can still call c.req.json()
+    const body = await c.req.text();
+    const requestHash = await sha256(`${c.req.method} ${c.req.path}\n${body}`);
+
+    await db.delete(idempotencyKeys)
+      .where(and(eq(idempotencyKeys.tenantId, tenantId), lt(idempotencyKeys.expiresAt, now.toISOString())))
+      .catch(() => { /* non-critical */ });
+
+    const rowId = crypto.randomUUID();
+    const claimed = await db.insert(idempotencyKeys)
+      .values({
+        id: rowId,
+        tenantId,
+        key,
+        requestHash,
+        expiresAt: new Date(now.getTime() + KEY_TTL_MS).toISOString(),
+      })
+      .onConflictDoNothing()
+      .returning({ id: idempotencyKeys.id });
+
+    if (claimed.length === 0) {
+      const existing = await db.query.idempotencyKeys.findFirst({
+        where: and(eq(idempotencyKeys.tenantId, tenantId), eq(idempotencyKeys.key, key)),
+      });
+      if (!existing) {
+        return c.json({ error: 'Request with this Idempotency-Key is in progress', code: 'IDEMPOTENCY_IN_PROGRESS' }, 409);
+      }
+      if (existing.requestHash !== requestHash) {
+        return c.json({
+          error: 'Idempotency-Key was already used with a different request',
+          code: 'IDEMPOTENCY_KEY_REUSED',
+        }, 422);
+      }
+      if (existing.status !== 'completed') {
+        if (now.getTime() - sqliteDate(existing.createdAt).getTime() > STALE_PROCESSING_MS) {
+          await db.delete(idempotencyKeys).where(eq(idempotencyKeys.id, existing.id));
+        }
+        c.header('Retry-After', '1');
+        return c.json({ error: 'Request with this Idempotency-Key is in progress', code: 'IDEMPOTENCY_IN_PROGRESS' }, 409);
+      }
+
+      c.header('Idempotent-Replayed', 'true');
+      c.header('Content-Type', 'application/json; charset=UTF-8');
+      return c.body(existing.responseBody ?? '', (existing.responseStatus ?? 200) as ContentfulStatusCode);
+    }
+
+    await next();
+
+    if (c.res.status >= 500) {
+      // Let the client retry failures
+      await db.delete(idempotencyKeys).where(eq(idempotencyKeys.id, rowId));
+      return;
+    }
+
+    await db.update(idempotencyKeys)
+      .set({
+        status: 'completed',
+        responseStatus: c.res.status,
+        responseBody: await c.res.clone().text(),
+      })
+      .where(eq(idempotencyKeys.id, rowId));
+  };
+}
+
+/** datetime('now') is UTC without a zone marker */
+function sqliteDate(value: string): Date {
+  return new Date(value.includes('T') ? value : `${value.replace(' ', 'T')}Z`);
+}
+
+async function sha256(input: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(input));
+  return [...new Uint8Array(digest)].map(b => b.toString(16).padStart(2, '0')).join('');
+}
@@ -0,0 +1,32 @@
+// apps/api/src/routes/carrierWebhooks.ts
+//
+// Tracking pushed by carriers (mounted at /carriers):
+//   POST /:carrier/webhook — each adapter authenticates and parses its own format
+//                            (lib/carriers.ts); updates go through lib/shipments.ts
+// Unknown tracking numbers are acknowledged so carriers do not retry them forever.
+
+import { Hono } from 'hono';
+import { createDb } from '@repo/db';
+import { getCarrier } from '../lib/carriers.js';
+import { applyCarrierUpdate } from '../lib/shipments.js';
+import type { AppContext } from '../index.js';
+
+export const carrierWebhookRoutes = new Hono<AppContext>();
+
+// ─── POST /carriers/:carrier/webhook ──────────────────────────
+carrierWebhookRoutes.post('/:carrier/webhook', async (c) => {
+  const db = createDb(c.env.DB);
+  const { carrier } = c.req.param();
+
+  const adapter = getCarrier(carrier, c.env);
+  if (!adapter) return c.json({ error: 'Unknown carrier' }, 404);
+
+  const updates = await adapter.parseWebhook(c.req.raw);
+  if (!updates) return c.json({ error: 'Invalid webhook' }, 400);
+
+  let matched = 0;
+  for (const update of updates) {
+    matched += await applyCarrierUpdate(db, adapter.id, update.trackingNumber, update.events);
+  }
+  return c.json({ received: true, matched });
+});
@@ -0,0 +1,148 @@
+// apps/api/src/routes/cod.ts
+//
+// COD fraud controls (mounted at /dashboard/cod):
+//   GET   /settings       — limits per currency, risk thresholds, confirmation policy
+//   PATCH /settings       — (owner|admin)
+//   GET   /blacklist      — blocked phones/emails/addresses
+//   POST  /blacklist      — (owner|admin)
+//   DELETE /blacklist/:id — (owner|admin)
+//   GET   /refusals       — refused COD parcels, newest first
+// Checkout applies these in POST /store/checkout/cod — see routes/orders.ts.
+
+import { Hono } from 'hono';
+import { eq, and, desc, sql } from 'drizzle-orm';
+import { createDb, tenants, codBlacklist, codRefusals, auditLogs } from '@repo/db';
+import { updateCodSettingsSchema, createCodBlacklistSchema } from '@repo/shared/schemas';
+import { DEFAULT_COD_LIMITS } from '@repo/shared/fraud';
+import { requireAuth } from '../middleware/auth.js';
+import { resolveTenant } from '../middleware/tenant.js';
+import { requireRole } from '../middleware/rbac.js';
+import { loadCodSettings, normalizeBlacklistValue } from '../lib/fraud.js';
+import type { AppContext } from '../index.js';
+
+export const codRoutes = new Hono<AppContext>();
+
+// ─── GET /dashboard/cod/settings ──────────────────────────────
+codRoutes.get('/settings', requireAuth(), resolveTenant(), async (c) => {
+  const db = createDb(c.env.DB);
+  const settings = await loadCodSettings(db, c.get('tenantId'));
+  return c.json({ ...settings, limits: { ...DEFAULT_COD_LIMITS, ...settings.limits } });
+});
+
+// ─── PATCH /dashboard/cod/settings ────────────────────────────
+codRoutes.patch('/settings', requireAuth(), resolveTenant(), requireRole(['owner', 'admin']), async (c) => {
+  const db = createDb(c.env.DB);
+  const tenantId = c.get('tenantId');
+  const body = await c.req.json().catch(() => null);
+  const parsed = updateCodSettingsSchema.safeParse(body);
+  if (!parsed.success) return c.json({ error: 'Validation failed', issues: parsed.error.issues }, 400);
+
+  const current = await loadCodSettings(db, tenantId);
+  const blockScore = parsed.data.blockScore ?? current.blockScore;
+  const reviewScore = parsed.data.reviewScore ?? current.reviewScore;
+  if (reviewScore > blockScore) {
+    return c.json({ error: 'reviewScore must not exceed blockScore' }, 400);
+  }
+
+  const limits = parsed.data.limits ? { ...current.limits, ...parsed.data.limits } : current.limits;
+  const confirmationRequired = parsed.data.confirmationRequired ?? current.confirmationRequired;
+  await db.update(tenants)
+    .set({
+      codLimitsJson: limits ? JSON.stringify(limits) : null,
+      codBlockScore: blockScore,
+      codReviewScore: reviewScore,
+      codConfirmationRequired: confirmationRequired,
+    })
+    .where(eq(tenants.id, tenantId));
+
+  await db.insert(auditLogs).values({
+    id: crypto.randomUUID(),
+    tenantId,
+    actorUserId: c.get('userId'),
+    action: 'cod.settings_updated',
+    metaJson: JSON.stringify({ limits, blockScore, reviewScore, confirmationRequired }),
+  });
+  return c.json({ success: true });
+});
+
+// ─── GET /dashboard/cod/blacklist ─────────────────────────────
+codRoutes.get('/blacklist', requireAuth(), resolveTenant(), async (c) => {
+  const db = createDb(c.env.DB);
+  const list = await db.query.codBlacklist.findMany({
+    where: eq(codBlacklist.tenantId, c.get('tenantId')),
+    orderBy: [desc(codBlacklist.createdAt)],
+  });
+  return c.json({ data: list });
+});
+
+// ─── POST /dashboard/cod/blacklist ────────────────────────────
+codRoutes.post('/blacklist', requireAuth(), resolveTenant(), requireRole(['owner', 'admin']), async (c) => {
+  const db = createDb(c.env.DB);
+  const tenantId = c.get('tenantId');
+  const userId = c.get('userId');
+  const body = await c.req.json().catch(() => null);
+  const parsed = createCodBlacklistSchema.safeParse(body);
+  if (!parsed.success) return c.json({ error: 'Validation failed', issues: parsed.error.issues }, 400);
+
+  const value = normalizeBlacklistValue(parsed.data.type, parsed.data.value);
+  const id = crypto.randomUUID();
+  const inserted = await db.insert(codBlacklist)
+    .values({ id, tenantId, type: parsed.data.type, value, reason: parsed.data.reason, actorUserId: userId })
+    .onConflictDoNothing()
+    .returning({ id: codBlacklist.id });
+  if (inserted.length === 0) return c.json({ error: 'Already blacklisted' }, 409);
+
+  await db.insert(auditLogs).values({
+    id: crypto.randomUUID(),
+    tenantId,
+    actorUserId: userId,
+    action: 'cod.blacklist_added',
+    metaJson: JSON.stringify({ type: parsed.data.type, value, reason: parsed.data.reason }),
+  });
+  return c.json({ id, type: parsed.data.type, value, reason: parsed.data.reason ?? null }, 201);
+});
+
+// ─── DELETE /dashboard/cod/blacklist/:id ──────────────────────
+codRoutes.delete('/blacklist/:id', requireAuth(), resolveTenant(), requireRole(['owner', 'admin']), async (c) => {
+  const db = createDb(c.env.DB);
+  const tenantId = c.get('tenantId');
+  const { id } = c.req.param();
+
+  const removed = await db.delete(codBlacklist)
+    .where(and(eq(codBlacklist.id, id), eq(codBlacklist.tenantId, tenantId)))
+    .returning();
+  if (removed.length === 0) return c.json({ error: 'Entry not found' }, 404);
+
+  await db.insert(auditLogs).values({
+    id: crypto.randomUUID(),
+    tenantId,
+    actorUserId: c.get('userId'),
+    action: 'cod.blacklist_removed',
+    metaJson: JSON.stringify({ type: removed[0]!.type, value: removed[0]!.value }),
+  });
+  return c.json({ success: true });
+});
+
+// ─── GET /dashboard/cod/refusals ──────────────────────────────
+codRoutes.get('/refusals', requireAuth(), resolveTenant(), async (c) => {
+  const db = createDb(c.env.DB);
+  const tenantId = c.get('tenantId');
+  const { page = '1', limit = '20' } = c.req.query();
+
+  const pageNum = Math.max(1, parseInt(page));
+  const limitNum = Math.min(100, parseInt(limit));
+
+  const [list, countResult] = await Promise.all([
+    db.query.codRefusals.findMany({
+      where: eq(codRefusals.tenantId, tenantId),
+      orderBy: [desc(codRefusals.createdAt)],
+      limit: limitNum,
+      offset: (pageNum - 1) * limitNum,
+    }),
+    db.select({ count: sql<number>`count(*)` })
+      .from(codRefusals)
+      .where(eq(codRefusals.tenantId, tenantId)),
+  ]);
+
+  return c.json({ data: list, total: countResult[0]?.count ?? 0, page: pageNum, pageSize: limitNum });
+});
@@ -0,0 +1,197 @@
+// apps/api/src/routes/currencies.ts
+//
+// Currencies (mounted at /dashboard/currencies):
+//   GET    /                 — Base currency + exchange rates
+//   PATCH  /                 — Change the base currency; rates are re-expressed against it (RBAC: owner|admin)
+//   POST   /rates/import     — Set rates from a CSV/TSV file sent as the raw body (RBAC: owner|admin)
+//   PUT    /rates/:currency  — Set one rate by hand (RBAC: owner|admin)
+//   DELETE /rates/:currency  — Stop selling in that currency (RBAC: owner|admin)
+// Rates are "units of that currency per 1 base unit"; file format and rebasing: @repo/shared/currencies.
+// Per-product prices per currency live under /dashboard/products/:id/prices.
+
+import { Hono } from 'hono';
+import { eq, and, asc, sql } from 'drizzle-orm';
+import { createDb, tenants, exchangeRates, auditLogs } from '@repo/db';
+import { updateBaseCurrencySchema, exchangeRateSchema } from '@repo/shared/schemas';
+import { parseExchangeRateFile, rebaseRates, roundRate } from '@repo/shared/currencies';
+import { CURRENCIES } from '@repo/shared/types';
+import type { Currency } from '@repo/shared/types';
+import { requireAuth } from '../middleware/auth.js';
+import { resolveTenant } from '../middleware/tenant.js';
+import { requireRole } from '../middleware/rbac.js';
+import { loadExchangeRates } from '../lib/currencies.js';
+import type { AppContext } from '../index.js';
+
+export const currencyRoutes = new Hono<AppContext>();
+
+/** Rate files are a few lines — anything bigger is not one */
+const MAX_IMPORT_BYTES = 16 * 1024;
+
+function isCurrency(value: string): value is Currency {
+  return (CURRENCIES as readonly string[]).includes(value);
+}
+
+// ─── GET /dashboard/currencies ────────────────────────────────
+currencyRoutes.get('/', requireAuth(), resolveTenant(), async (c) => {
+  const db = createDb(c.env.DB);
+  const tenantId = c.get('tenantId');
+
+  const [tenant, rates] = await Promise.all([
+    db.query.tenants.findFirst({ where: eq(tenants.id, tenantId), columns: { baseCurrency: true } }),
+    db.query.exchangeRates.findMany({
+      where: eq(exchangeRates.tenantId, tenantId),
+      orderBy: [asc(exchangeRates.currency)],
+    }),
+  ]);
+
+  return c.json({ baseCurrency: tenant?.baseCurrency ?? 'MAD', rates });
+});
+
+// ─── PATCH /dashboard/currencies ──────────────────────────────
+// Needs a rate for the new base so the others can be rebased through it.
+// Product prices keep their own currency; shipping and fixed discount amounts
+// are read in the new base from now on. Existing orders keep their snapshot.
+currencyRoutes.patch('/', requireAuth(), resolveTenant(), requireRole(['owner', 'admin']), async (c) => {
+  const db = createDb(c.env.DB);
+  const tenantId = c.get('tenantId');
+
+  const body = await c.req.json().catch(() => null);
+  const parsed = updateBaseCurrencySchema.safeParse(body);
+  if (!parsed.success) return c.json({ error: 'Validation failed', issues: parsed.error.issues }, 400);
+
+  const { baseCurrency: oldBase, rates } = await loadExchangeRates(db, tenantId);
+  const newBase = parsed.data.baseCurrency;
+  if (newBase === oldBase) return c.json({ baseCurrency: newBase, rates });
+
+  const rebased = rebaseRates(rates, oldBase, newBase);
+  if (!rebased) {
+    return c.json({ error: `Set an exchange rate for ${newBase} before making it the base currency` }, 422);
+  }
+
+  await db.delete(exchangeRates).where(eq(exchangeRates.tenantId, tenantId));
+  const rows = Object.entries(rebased).map(([currency, rate]) => ({
+    id: crypto.randomUUID(),
+    tenantId,
+    currency: currency as Currency,
+    rate: rate!,
+    source: 'manual' as const,
+    actorUserId: c.get('userId'),
+  }));
+  if (rows.length > 0) await db.insert(exchangeRates).values(rows);
+  await db.update(tenants).set({ baseCurrency: newBase }).where(eq(tenants.id, tenantId));
+
+  await db.insert(auditLogs).values({
+    id: crypto.randomUUID(),
+    tenantId,
+    actorUserId: c.get('userId'),
+    action: 'currency.base_changed',
+    metaJson: JSON.stringify({ from: oldBase, to: newBase, rates: rebased }),
+  });
+
+  return c.json({ baseCurrency: newBase, rates: rebased });
+});
+
+// ─── POST /dashboard/currencies/rates/import ──────────────────
+// Registered before /rates/:currency. All or nothing: any bad line rejects the
+// file. Currencies missing from the file keep their current rate.
+currencyRoutes.post('/rates/import', requireAuth(), resolveTenant(), requireRole(['owner', 'admin']), async (c) => {
+  const db = createDb(c.env.DB);
+  const tenantId = c.get('tenantId');
+
+  const text = await c.req.text();
+  if (text.length > MAX_IMPORT_BYTES) return c.json({ error: 'File too large' }, 413);
+
+  const { rates: parsedRates, errors } = parseExchangeRateFile(text);
+  if (errors.length > 0) return c.json({ error: 'Invalid rate file', errors }, 422);
+  if (parsedRates.length === 0) return c.json({ error: 'The file contains no rates' }, 422);
+
+  const { baseCurrency } = await loadExchangeRates(db, tenantId);
+  const imported = parsedRates.filter(r => r.currency !== baseCurrency);
+  for (const { currency, rate } of imported) {
+    await upsertRate(db, tenantId, currency, rate, 'import', c.get('userId'));
+  }
+
+  await db.insert(auditLogs).values({
+    id: crypto.randomUUID(),
+    tenantId,
+    actorUserId: c.get('userId'),
+    action: 'currency.rates_imported',
+    metaJson: JSON.stringify({ rates: imported }),
+  });
+
+  return c.json({
+    imported: imported.length,
+    // The base currency is always 1 — a line for it is ignored rather than rejected
+    skipped: parsedRates.length - imported.length,
+  });
+});
+
+// ─── PUT /dashboard/currencies/rates/:currency ────────────────
+currencyRoutes.put('/rates/:currency', requireAuth(), resolveTenant(), requireRole(['owner', 'admin']), async (c) => {
+  const db = createDb(c.env.DB);
+  const tenantId = c.get('tenantId');
+  const currency = c.req.param('currency').toUpperCase();
+  if (!isCurrency(currency)) return c.json({ error: 'Unsupported currency' }, 404);
+
+  const body = await c.req.json().catch(() => null);
+  const parsed = exchangeRateSchema.safeParse(body);
+  if (!parsed.success) return c.json({ error: 'Validation failed', issues: parsed.error.issues }, 400);
+
+  const { baseCurrency, rates } = await loadExchangeRates(db, tenantId);
+  if (currency === baseCurrency) {
+    return c.json({ error: 'The base currency always has a rate of 1' }, 422);
+  }
+
+  const rate = roundRate(parsed.data.rate);
+  await upsertRate(db, tenantId, currency, rate, 'manual', c.get('userId'));
+
+  await db.insert(auditLogs).values({
+    id: crypto.randomUUID(),
+    tenantId,
+    actorUserId: c.get('userId'),
+    action: 'currency.rate_updated',
+    metaJson: JSON.stringify({ currency, from: rates[currency] ?? null, to: rate }),
+  });
+
+  return c.json({ currency, rate });
+});
+
+// ─── DELETE /dashboard/currencies/rates/:currency ─────────────
+// Checkout in that currency fails from now on; orders already placed keep their rate
+currencyRoutes.delete('/rates/:currency', requireAuth(), resolveTenant(), requireRole(['owner', 'admin']), async (c) => {
+  const db = createDb(c.env.DB);
+  const tenantId = c.get('tenantId');
+  const currency = c.req.param('currency').toUpperCase();
+  if (!isCurrency(currency)) return c.json({ error: 'Unsupported currency' }, 404);
+
+  const deleted = await db.delete(exchangeRates)
+    .where(and(eq(exchangeRates.tenantId, tenantId), eq(exchangeRates.currency, currency)))
+    .returning({ rate: exchangeRates.rate });
+  if (deleted.length === 0) return c.json({ error: 'Exchange rate not found' }, 404);
+
+  await db.insert(auditLogs).values({
+    id: crypto.randomUUID(),
+    tenantId,
+    actorUserId: c.get('userId'),
+    action: 'currency.rate_deleted',
+    metaJson: JSON.stringify({ currency, rate: deleted[0].rate }),
+  });
+
+  return c.json({ success: true });
+});
+
+async function upsertRate(
+  db: ReturnType<typeof createDb>,
+  tenantId: string,
+  currency: Currency,
+  rate: number,
+  source: 'manual' | 'import',
+  actorUserId: string
+): Promise<void> {
+  await db.insert(exchangeRates)
+    .values({ id: crypto.randomUUID(), tenantId, currency, rate, source, actorUserId })
+    .onConflictDoUpdate({
+      target: [exchangeRates.tenantId, exchangeRates.currency],
+      set: { rate, source, actorUserId, updatedAt: sql`(datetime('now'))` },
+    });
+}
@@ -0,0 +1,461 @@
+// apps/api/src/routes/customerAccounts.ts
+//
+// Storefront customer accounts — per tenant, separate from merchant users
+// (own table, own __customer_session cookie; password and session helpers
+// from middleware/auth.ts). Guest checkout keeps working; see
+// lib/customerAccounts.ts for how orders are tied to an account.
+//
+// Endpoints (mounted at /store/account):
+//   POST   /store/account/register            — Create account + session, send verification email
+//   GET    /store/account/verify-email?token= — Verify email, link earlier guest orders
+//   POST   /store/account/resend-verification — New verification email (signed in)
+//   POST   /store/account/login
+//   POST   /store/account/logout
+//   POST   /store/account/forgot               — Reset link by email (same response either way)
+//   POST   /store/account/reset                — New password, ends every session
+//   GET    /store/account                      — Signed-in account
+//   PATCH  /store/account                      — Name / phone
+//   GET    /store/account/orders               — Order history, newest first
+//   GET    /store/account/addresses            — Saved addresses, default first
+//   POST   /store/account/addresses
+//   PATCH  /store/account/addresses/:id
+//   DELETE /store/account/addresses/:id
+
+import { Hono } from 'hono';
+import { eq, and, desc, inArray, ne, count } from 'drizzle-orm';
+import {
+  createDb,
+  tenants,
+  orders,
+  orderItems,
+  customerAccounts,
+  customerSessions,
+  customerAddresses,
+} from '@repo/db';
+import {
+  customerRegisterSchema,
+  loginSchema,
+  forgotPasswordSchema,
+  resetPasswordSchema,
+  updateCustomerAccountSchema,
+  customerAddressSchema,
+  updateCustomerAddressSchema,
+  customerOrdersQuerySchema,
+} from '@repo/shared/schemas';
+import { normalizeEmail } from '@repo/shared/fraud';
+import {
+  hashPassword,
+  verifyPassword,
+  generateResetToken,
+  verifyResetToken,
+  createCustomerSession,
+  destroyCustomerSession,
+  requireCustomer,
+} from '../middleware/auth.js';
+import { resolveTenant } from '../middleware/tenant.js';
+import { loginRateLimit, resetRateLimit, registerRateLimit, publicApiRateLimit } from '../middleware/rateLimit.js';
+import {
+  accountView,
+  linkGuestOrders,
+  storefrontUrl,
+  sendCustomerAccountEmail,
+} from '../lib/customerAccounts.js';
+import { signOrderToken, ownerOrderView } from '../lib/orderAccess.js';
+import type { Database } from '@repo/db';
+import type { AppContext } from '../index.js';
+
+export const customerAccountRoutes = new Hono<AppContext>();
+
+const VERIFY_TTL_MS = 24 * 60 * 60 * 1000;
+const RESET_TTL_MS = 60 * 60 * 1000;
+const MAX_ADDRESSES = 10;
+
+// ─── POST /store/account/register ────────────────────────────
+customerAccountRoutes.post('/register', registerRateLimit, resolveTenant(), async (c) => {
+  const db = createDb(c.env.DB);
+  const tenantId = c.get('tenantId');
+
+  const body = await c.req.json().catch(() => null);
+  const parsed = customerRegisterSchema.safeParse(body);
+  if (!parsed.success) {
+    return c.json({ error: 'Validation failed', issues: parsed.error.flatten().fieldErrors }, 400);
+  }
+
+  const email = normalizeEmail(parsed.data.email);
+  const existing = await db.query.customerAccounts.findFirst({
+    where: and(eq(customerAccounts.tenantId, tenantId), eq(customerAccounts.email, email)),
+    columns: { id: true },
+  });
+  if (existing) {
+    return c.json({ error: 'البريد الإلكتروني مستخدم بالفعل' }, 409);
+  }
+
+  const accountId = crypto.randomUUID();
+  const { rawToken: rawSecret, tokenHash: verifyHash } = await generateResetToken();
+
+  await db.insert(customerAccounts).values({
+    id: accountId,
+    tenantId,
+    email,
+    passwordHash: await hashPassword(parsed.data.password),
+    name: parsed.data.name,
+    phone: parsed.data.phone ?? null,
+    emailVerifyToken: verifyHash,
+    emailVerifyExpiresAt: new Date(Date.now() + VERIFY_TTL_MS).toISOString(),
+  });
+
+  // Registration must succeed even if the email fails
+  sendAccountLink(c.env, db, tenantId, email, 'verify', `${accountId}.${rawSecret}`)
+    .catch(err => console.error('[Account] Verification email failed:', err));
+
+  await createCustomerSession(c, accountId);
+
+  const account = await db.query.customerAccounts.findFirst({ where: eq(customerAccounts.id, accountId) });
+  return c.json({
+    account: accountView(account!),
+    message: 'تم إنشاء الحساب. تحقق من بريدك الإلكتروني للتفعيل.',
+  }, 201);
+});
+
+// ─── GET /store/account/verify-email?token=accountId.rawSecret ─
+customerAccountRoutes.get('/verify-email', publicApiRateLimit, resolveTenant(), async (c) => {
+  const db = createDb(c.env.DB);
+  const tenantId = c.get('tenantId');
+
+  const token = parseToken(c.req.query('token'));
+  if (!token) return c.json({ error: 'رابط غير صالح' }, 400);
+
+  const account = await db.query.customerAccounts.findFirst({
+    where: and(eq(customerAccounts.id, token.accountId), eq(customerAccounts.tenantId, tenantId)),
+  });
+  if (!account) return c.json({ error: 'رابط التفعيل غير صالح' }, 400);
+  if (account.emailVerified) return c.json({ message: 'البريد الإلكتروني مفعّل بالفعل' });
+
+  if (!account.emailVerifyToken || !account.emailVerifyExpiresAt) {
+    return c.json({ error: 'لا يوجد طلب تفعيل نشط' }, 400);
+  }
+  if (new Date(account.emailVerifyExpiresAt) < new Date()) {
+    return c.json({ error: 'انتهت صلاحية رابط التفعيل (24 ساعة). سجّل دخولك لإعادة الإرسال.' }, 400);
+  }
+  if (!(await verifyResetToken(token.rawSecret, account.emailVerifyToken))) {
+    return c.json({ error: 'رابط التفعيل غير صالح' }, 400);
+  }
+
+  await db.update(customerAccounts)
+    .set({ emailVerified: true, emailVerifyToken: null, emailVerifyExpiresAt: null })
+    .where(eq(customerAccounts.id, account.id));
+
+  const linkedOrders = await linkGuestOrders(db, { ...account, emailVerified: true });
+
+  return c.json({ message: 'تم تفعيل البريد الإلكتروني بنجاح!', linkedOrders });
+});
+
+// ─── POST /store/account/resend-verification ─────────────────
+customerAccountRoutes.post('/resend-verification', resetRateLimit, resolveTenant(), requireCustomer(), async (c) => {
+  const db = createDb(c.env.DB);
+  const tenantId = c.get('tenantId');
+  const accountId = c.get('customerAccountId');
+
+  const account = await db.query.customerAccounts.findFirst({ where: eq(customerAccounts.id, accountId) });
+  if (!account) return c.json({ error: 'Account not found' }, 404);
+  if (account.emailVerified) return c.json({ message: 'البريد مفعّل بالفعل' });
+
+  const { rawToken: rawSecret, tokenHash: verifyHash } = await generateResetToken();
+  await db.update(customerAccounts)
+    .set({ emailVerifyToken: verifyHash, emailVerifyExpiresAt: new Date(Date.now() + VERIFY_TTL_MS).toISOString() })
+    .where(eq(customerAccounts.id, accountId));
+
+  sendAccountLink(c.env, db, tenantId, account.email, 'verify', `${accountId}.${rawSecret}`)
+    .catch(err => console.error('[Account] Resend verification failed:', err));
+
+  return c.json({ message: 'تم إرسال رابط تفعيل جديد إلى بريدك الإلكتروني.' });
+});
+
+// ─── POST /store/account/login ───────────────────────────────
+customerAccountRoutes.post('/login', loginRateLimit, resolveTenant(), async (c) => {
+  const db = createDb(c.env.DB);
+  const tenantId = c.get('tenantId');
+
+  const body = await c.req.json().catch(() => null);
+  const parsed = loginSchema.safeParse(body);
+  if (!parsed.success) {
+    return c.json({ error: 'Validation failed' }, 400);
+  }
+
+  const account = await db.query.customerAccounts.findFirst({
+    where: and(eq(customerAccounts.tenantId, tenantId), eq(customerAccounts.email, normalizeEmail(parsed.data.email))),
+  });
+
+  // Always run verifyPassword even when the account is missing — prevents timing oracle
+  const dummyHash = '$pbkdf2-sha256$310000$' + '00'.repeat(32) + '$' + '00'.repeat(32);
+  const passwordValid = account
+    ? await verifyPassword(parsed.data.password, account.passwordHash)
+    : await verifyPassword(parsed.data.password, dummyHash).then(() => false);
+
+  if (!account || !passwordValid) {
+    return c.json({ error: 'البريد الإلكتروني أو كلمة المرور غير صحيحة' }, 401);
+  }
+
+  await createCustomerSession(c, account.id);
+  return c.json({ account: accountView(account) });
+});
+
+// ─── POST /store/account/logout ──────────────────────────────
+customerAccountRoutes.post('/logout', async (c) => {
+  await destroyCustomerSession(c);
+  return c.json({ message: 'تم تسجيل الخروج بنجاح' });
+});
+
+// ─── POST /store/account/forgot ──────────────────────────────
+customerAccountRoutes.post('/forgot', resetRateLimit, resolveTenant(), async (c) => {
+  const db = createDb(c.env.DB);
+  const tenantId = c.get('tenantId');
+
+  const body = await c.req.json().catch(() => null);
+  const parsed = forgotPasswordSchema.safeParse(body);
+  if (!parsed.success) return c.json({ error: 'Invalid email' }, 400);
+
+  // Same response regardless of whether the account exists — prevents enumeration
+  const account = await db.query.customerAccounts.findFirst({
+    where: and(eq(customerAccounts.tenantId, tenantId), eq(customerAccounts.email, normalizeEmail(parsed.data.email))),
+  });
+
+  if (account) {
+    const { rawToken: rawSecret, tokenHash } = await generateResetToken();
+    await db.update(customerAccounts)
+      .set({ resetToken: tokenHash, resetTokenExpiresAt: new Date(Date.now() + RESET_TTL_MS).toISOString() })
+      .where(eq(customerAccounts.id, account.id));
+
+    sendAccountLink(c.env, db, tenantId, account.email, 'reset', `${account.id}.${rawSecret}`)
+      .catch(err => console.error('[Account] Reset email failed:', err));
+  }
+
+  return c.json({ message: 'إذا كان البريد مسجلاً، ستصلك رسالة خلال دقائق' });
+});
+
+// ─── POST /store/account/reset ───────────────────────────────
+customerAccountRoutes.post('/reset', resetRateLimit, resolveTenant(), async (c) => {
+  const db = createDb(c.env.DB);
+  const tenantId = c.get('tenantId');
+
+  const body = await c.req.json().catch(() => null);
+  const parsed = resetPasswordSchema.safeParse(body);
+  if (!parsed.success) return c.json({ error: 'Invalid input' }, 400);
+
+  const token = parseToken(parsed.data.token);
+  if (!token) return c.json({ error: 'رابط غير صالح' }, 400);
+
+  const account = await db.query.customerAccounts.findFirst({
+    where: and(eq(customerAccounts.id, token.accountId), eq(customerAccounts.tenantId, tenantId)),
+  });
+  if (!account || !account.resetToken || !account.resetTokenExpiresAt) {
+    return c.json({ error: 'الرابط منتهي الصلاحية أو غير صالح' }, 400);
+  }
+  if (new Date(account.resetTokenExpiresAt) < new Date()) {
+    return c.json({ error: 'انتهت صلاحية الرابط (ساعة واحدة). اطلب رابطاً جديداً.' }, 400);
+  }
+  if (!(await verifyResetToken(token.rawSecret, account.resetToken))) {
+    return c.json({ error: 'الرابط منتهي الصلاحية أو غير صالح' }, 400);
+  }
+
+  await db.update(customerAccounts)
+    .set({ passwordHash: await hashPassword(parsed.data.password), resetToken: null, resetTokenExpiresAt: null })
+    .where(eq(customerAccounts.id, account.id));
+
+  // Sign out everywhere after a reset
+  await db.delete(customerSessions).where(eq(customerSessions.customerAccountId, account.id));
+
+  return c.json({ message: 'تم تغيير كلمة المرور بنجاح. يمكنك تسجيل الدخول الآن.' });
+});
+
+// ─── GET /store/account ──────────────────────────────────────
+customerAccountRoutes.get('/', resolveTenant(), requireCustomer(), async (c) => {
+  const db = createDb(c.env.DB);
+  const account = await db.query.customerAccounts.findFirst({
+    where: eq(customerAccounts.id, c.get('customerAccountId')),
+  });
+  if (!account) {
+    await destroyCustomerSession(c);
+    return c.json({ error: 'Account not found' }, 404);
+  }
+  return c.json({ account: accountView(account) });
+});
+
+// ─── PATCH /store/account ────────────────────────────────────
+customerAccountRoutes.patch('/', resolveTenant(), requireCustomer(), async (c) => {
+  const db = createDb(c.env.DB);
+  const accountId = c.get('customerAccountId');
+
+  const body = await c.req.json().catch(() => null);
+  const parsed = updateCustomerAccountSchema.safeParse(body);
+  if (!parsed.success) {
+    return c.json({ error: 'Validation failed', issues: parsed.error.issues }, 400);
+  }
+
+  if (Object.keys(parsed.data).length > 0) {
+    await db.update(customerAccounts).set(parsed.data).where(eq(customerAccounts.id, accountId));
+  }
+  const account = await db.query.customerAccounts.findFirst({ where: eq(customerAccounts.id, accountId) });
+  return c.json({ account: accountView(account!) });
+});
+
+// ─── GET /store/account/orders ───────────────────────────────
+// Each order carries its access token, so the storefront can open the full
+// view (GET /store/orders/:id?token=) and the invoice
+customerAccountRoutes.get('/orders', resolveTenant(), requireCustomer(), async (c) => {
+  const db = createDb(c.env.DB);
+  const tenantId = c.get('tenantId');
+  const accountId = c.get('customerAccountId');
+
+  const query = customerOrdersQuerySchema.safeParse(c.req.query());
+  if (!query.success) {
+    return c.json({ error: 'Validation failed', issues: query.error.issues }, 400);
+  }
+  const { page, limit } = query.data;
+
+  const where = and(eq(orders.tenantId, tenantId), eq(orders.customerAccountId, accountId));
+  const [rows, [{ total }]] = await Promise.all([
+    db.select().from(orders)
+      .where(where)
+      .orderBy(desc(orders.createdAt), desc(orders.id))
+      .limit(limit)
+      .offset((page - 1) * limit),
+    db.select({ total: count() }).from(orders).where(where),
+  ]);
+
+  const items = rows.length > 0
+    ? await db.query.orderItems.findMany({ where: inArray(orderItems.orderId, rows.map(o => o.id)) })
+    : [];
+
+  const data = await Promise.all(rows.map(async order => ({
+    ...ownerOrderView(order, items.filter(i => i.orderId === order.id)),
+    accessToken: await signOrderToken(c.env.ORDER_TOKEN_SECRET, tenantId, order.id),
+  })));
+
+  return c.json({ data, total, page, pageSize: limit });
+});
+
+// ─── GET /store/account/addresses ────────────────────────────
+customerAccountRoutes.get('/addresses', resolveTenant(), requireCustomer(), async (c) => {
+  const db = createDb(c.env.DB);
+  const data = await db.query.customerAddresses.findMany({
+    where: eq(customerAddresses.customerAccountId, c.get('customerAccountId')),
+    orderBy: [desc(customerAddresses.isDefault), desc(customerAddresses.createdAt)],
+  });
+  return c.json({ data });
+});
+
+// ─── POST /store/account/addresses ───────────────────────────
+customerAccountRoutes.post('/addresses', resolveTenant(), requireCustomer(), async (c) => {
+  const db = createDb(c.env.DB);
+  const tenantId = c.get('tenantId');
+  const accountId = c.get('customerAccountId');
+
+  const body = await c.req.json().catch(() => null);
+  const parsed = customerAddressSchema.safeParse(body);
+  if (!parsed.success) {
+    return c.json({ error: 'Validation failed', issues: parsed.error.issues }, 400);
+  }
+
+  const [{ saved }] = await db.select({ saved: count() })
+    .from(customerAddresses)
+    .where(eq(customerAddresses.customerAccountId, accountId));
+  if (saved >= MAX_ADDRESSES) {
+    return c.json({ error: `يمكنك حفظ ${MAX_ADDRESSES} عناوين كحد أقصى` }, 422);
+  }
+
+  const id = crypto.randomUUID();
+  // The first address is the default one
+  const isDefault = parsed.data.isDefault || saved === 0;
+  if (isDefault) await clearDefaultAddress(db, accountId);
+
+  await db.insert(customerAddresses).values({ ...parsed.data, id, tenantId, customerAccountId: accountId, isDefault });
+
+  const address = await db.query.customerAddresses.findFirst({ where: eq(customerAddresses.id, id) });
+  return c.json(address, 201);
+});
+
+// ─── PATCH /store/account/addresses/:id ──────────────────────
+customerAccountRoutes.patch('/addresses/:id', resolveTenant(), requireCustomer(), async (c) => {
+  const db = createDb(c.env.DB);
+  const accountId = c.get('customerAccountId');
+  const { id } = c.req.param();
+
+  const body = await c.req.json().catch(() => null);
+  const parsed = updateCustomerAddressSchema.safeParse(body);
+  if (!parsed.success) {
+    return c.json({ error: 'Validation failed', issues: parsed.error.issues }, 400);
+  }
+
+  const owned = and(eq(customerAddresses.id, id), eq(customerAddresses.customerAccountId, accountId));
+  const address = await db.query.customerAddresses.findFirst({ where: owned });
+  if (!address) return c.json({ error: 'العنوان غير موجود' }, 404);
+
+  if (parsed.data.isDefault) await clearDefaultAddress(db, accountId);
+  if (Object.keys(parsed.data).length > 0) {
+    await db.update(customerAddresses).set(parsed.data).where(owned);
+  }
+
+  const updated = await db.query.customerAddresses.findFirst({ where: owned });
+  return c.json(updated);
+});
+
+// ─── DELETE /store/account/addresses/:id ─────────────────────
+customerAccountRoutes.delete('/addresses/:id', resolveTenant(), requireCustomer(), async (c) => {
+  const db = createDb(c.env.DB);
+  const accountId = c.get('customerAccountId');
+  const { id } = c.req.param();
+
+  const [deleted] = await db.delete(customerAddresses)
+    .where(and(eq(customerAddresses.id, id), eq(customerAddresses.customerAccountId, accountId)))
+    .returning();
+  if (!deleted) return c.json({ error: 'العنوان غير موجود' }, 404);
+
+  // Promote the newest remaining address so there is always a default
+  if (deleted.isDefault) {
+    const next = await db.query.customerAddresses.findFirst({
+      where: and(eq(customerAddresses.customerAccountId, accountId), ne(customerAddresses.id, id)),
+      orderBy: [desc(customerAddresses.createdAt)],
+    });
+    if (next) {
+      await db.update(customerAddresses).set({ isDefault: true }).where(eq(customerAddresses.id, next.id));
+    }
+  }
+
+  return c.json({ success: true });
+});
+
+// ─── Helpers ──────────────────────────────────────────────────
+
+/** Token format: accountId.rawSecret */
+function parseToken(token: string | undefined): { accountId: string; rawSecret: string } | null {
+  const dotIdx = token?.indexOf('.') ?? -1;
+  if (!token || dotIdx === -1) return null;
+  return { accountId: token.slice(0, dotIdx), rawSecret: token.slice(dotIdx + 1) };
+}
+
+async function clearDefaultAddress(db: Database, accountId: string): Promise<void> {
+  await db.update(customerAddresses)
+    .set({ isDefault: false })
+    .where(and(eq(customerAddresses.customerAccountId, accountId), eq(customerAddresses.isDefault, true)));
+}
+
+/** Email links open the tenant's storefront, which calls back into this API */
+async function sendAccountLink(
+  env: AppContext['Bindings'],
+  db: Database,
+  tenantId: string,
+  to: string,
+  kind: 'verify' | 'reset',
+  composedToken: string
+): Promise<void> {
+  const tenant = await db.query.tenants.findFirst({
+    where: eq(tenants.id, tenantId),
+    columns: { name: true, slug: true },
+  });
+  if (!tenant) return;
+  // Storefront pages (apps/web/src/pages/store/account) that call verify-email / reset
+  const path = kind === 'verify' ? '/store/account/verify' : '/store/account/reset';
+  const url = storefrontUrl(env.APP_URL, tenant.slug, `${path}?token=${encodeURIComponent(composedToken)}`);
+  await sendCustomerAccountEmail(env.RESEND_API_KEY, { to, storeName: tenant.name, kind, url });
+}
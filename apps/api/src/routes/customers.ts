@@ -0,0 +1,218 @@
+// apps/api/src/routes/customers.ts
+//
+// Customer CRM (mounted at /dashboard/customers):
+//   GET   /          — Buyers with lifetime spend, order count, first/last order, COD refusals
+//                      (?q= name/email/phone · ?tag= · ?minOrders= · ?sort= &dir=)
+//   GET   /:id       — Buyer + their orders, newest first (?page=&limit=)
+//   PATCH /:id       — Tags and notes (RBAC: owner|admin|staff)
+//   POST  /backfill  — Build rows for orders placed before the CRM existed, in batches (RBAC: owner|admin)
+// Rows are created and refreshed from orders — lib/customers.ts.
+
+import { Hono } from 'hono';
+import { eq, and, or, asc, desc, gte, sql } from 'drizzle-orm';
+import { createDb, orders, customers, auditLogs } from '@repo/db';
+import type { Customer } from '@repo/db';
+import {
+  customerListQuerySchema,
+  customerOrdersQuerySchema,
+  updateCustomerSchema,
+  customerBackfillSchema,
+} from '@repo/shared/schemas';
+import { parseOrderSearch } from '@repo/shared/orders';
+import { normalizeTags } from '@repo/shared/customers';
+import { requireAuth } from '../middleware/auth.js';
+import { resolveTenant } from '../middleware/tenant.js';
+import { requireRole } from '../middleware/rbac.js';
+import { backfillCustomers } from '../lib/customers.js';
+import type { AppContext } from '../index.js';
+
+export const customerRoutes = new Hono<AppContext>();
+
+const CUSTOMER_SORT_COLUMNS = {
+  lastOrderAt: customers.lastOrderAt,
+  firstOrderAt: customers.firstOrderAt,
+  lifetimeSpend: customers.lifetimeSpend,
+  orderCount: customers.orderCount,
+  codRefusalCount: customers.codRefusalCount,
+  name: customers.name,
+};
+
+// ─── GET /dashboard/customers ─────────────────────────────────
+customerRoutes.get('/', requireAuth(), resolveTenant(), async (c) => {
+  const db = createDb(c.env.DB);
+  const tenantId = c.get('tenantId');
+
+  const parsed = customerListQuerySchema.safeParse(c.req.query());
+  if (!parsed.success) {
+    return c.json({ error: 'Validation failed', issues: parsed.error.issues }, 400);
+  }
+  const query = parsed.data;
+
+  const conditions: any[] = [eq(customers.tenantId, tenantId)];
+  if (query.q) conditions.push(customerSearchCondition(query.q));
+  if (query.tag) {
+    conditions.push(sql`exists (select 1 from json_each(${customers.tagsJson}) where value = ${query.tag})`);
+  }
+  if (query.minOrders !== undefined) conditions.push(gte(customers.orderCount, query.minOrders));
+
+  const direction = query.dir === 'asc' ? asc : desc;
+
+  const [list, countResult] = await Promise.all([
+    db.query.customers.findMany({
+      where: and(...conditions),
+      // id breaks ties so pages never overlap
+      orderBy: [direction(CUSTOMER_SORT_COLUMNS[query.sort]), direction(customers.id)],
+      limit: query.limit,
+      offset: (query.page - 1) * query.limit,
+    }),
+    db.select({ count: sql<number>`count(*)` })
+      .from(customers)
+      .where(and(...conditions)),
+  ]);
+
+  return c.json({
+    data: list.map(customerView),
+    total: countResult[0]?.count ?? 0,
+    page: query.page,
+    pageSize: query.limit,
+  });
+});
+
+// ─── POST /dashboard/customers/backfill ──────────────────────
+// Body: { after?: string } — call again with nextCursor until it is null.
+// Safe to re-run: rows are recomputed, tags and notes are kept.
+// Registered before /:id so the path is not read as an id.
+customerRoutes.post(
+  '/backfill',
+  requireAuth(),
+  resolveTenant(),
+  requireRole(['owner', 'admin']),
+  async (c) => {
+    const db = createDb(c.env.DB);
+    const tenantId = c.get('tenantId');
+
+    const body = await c.req.json().catch(() => ({}));
+    const parsed = customerBackfillSchema.safeParse(body);
+    if (!parsed.success) {
+      return c.json({ error: 'Validation failed', issues: parsed.error.issues }, 400);
+    }
+
+    const result = await backfillCustomers(db, tenantId, parsed.data.after ?? null);
+    return c.json(result);
+  }
+);
+
+// ─── GET /dashboard/customers/:id ─────────────────────────────
+customerRoutes.get('/:id', requireAuth(), resolveTenant(), async (c) => {
+  const db = createDb(c.env.DB);
+  const tenantId = c.get('tenantId');
+  const { id } = c.req.param();
+
+  const paging = customerOrdersQuerySchema.safeParse(c.req.query());
+  if (!paging.success) {
+    return c.json({ error: 'Validation failed', issues: paging.error.issues }, 400);
+  }
+  const { page, limit } = paging.data;
+
+  const customer = await db.query.customers.findFirst({
+    where: and(eq(customers.id, id), eq(customers.tenantId, tenantId)),
+  });
+  if (!customer) return c.json({ error: 'Customer not found' }, 404);
+
+  // Every order with this email, including ones that do not count towards the figures
+  const byEmail = and(eq(orders.tenantId, tenantId), sql`lower(${orders.customerEmail}) = ${customer.email}`);
+  const [orderList, countResult] = await Promise.all([
+    db.select({
+      id: orders.id,
+      orderNumber: orders.orderNumber,
+      status: orders.status,
+      paymentMethod: orders.paymentMethod,
+      paymentStatus: orders.paymentStatus,
+      total: orders.total,
+      refundedTotal: orders.refundedTotal,
+      currency: orders.currency,
+      createdAt: orders.createdAt,
+    })
+      .from(orders)
+      .where(byEmail)
+      .orderBy(desc(orders.createdAt), desc(orders.id))
+      .limit(limit)
+      .offset((page - 1) * limit),
+    db.select({ count: sql<number>`count(*)` }).from(orders).where(byEmail),
+  ]);
+
+  return c.json({
+    ...customerView(customer),
+    orders: {
+      data: orderList,
+      total: countResult[0]?.count ?? 0,
+      page,
+      pageSize: limit,
+    },
+  });
+});
+
+// ─── PATCH /dashboard/customers/:id ───────────────────────────
+customerRoutes.patch(
+  '/:id',
+  requireAuth(),
+  resolveTenant(),
+  requireRole(['owner', 'admin', 'staff']),
+  async (c) => {
+    const db = createDb(c.env.DB);
+    const tenantId = c.get('tenantId');
+    const { id } = c.req.param();
+
+    const body = await c.req.json().catch(() => null);
+    const parsed = updateCustomerSchema.safeParse(body);
+    if (!parsed.success) {
+      return c.json({ error: 'Validation failed', issues: parsed.error.issues }, 400);
+    }
+
+    const changes: Partial<Pick<Customer, 'tagsJson' | 'notes'>> = {};
+    if (parsed.data.tags !== undefined) changes.tagsJson = JSON.stringify(normalizeTags(parsed.data.tags));
+    if (parsed.data.notes !== undefined) changes.notes = parsed.data.notes;
+
+    const [updated] = Object.keys(changes).length > 0
+      ? await db.update(customers)
+          .set(changes)
+          .where(and(eq(customers.id, id), eq(customers.tenantId, tenantId)))
+          .returning()
+      : await db.select().from(customers).where(and(eq(customers.id, id), eq(customers.tenantId, tenantId)));
+    if (!updated) return c.json({ error: 'Customer not found' }, 404);
+
+    await db.insert(auditLogs).values({
+      id: crypto.randomUUID(),
+      tenantId,
+      actorUserId: c.get('userId'),
+      action: 'customer.updated',
+      metaJson: JSON.stringify({ customerId: id, fields: Object.keys(parsed.data) }),
+    });
+
+    return c.json(customerView(updated));
+  }
+);
+
+// ─── Helpers ──────────────────────────────────────────────────
+
+function customerView({ tagsJson, ...customer }: Customer) {
+  return { ...customer, tags: JSON.parse(tagsJson) as string[] };
+}
+
+/** Same rules as the orders search: a full email matches exactly, phone digits ignore separators */
+function customerSearchCondition(q: string) {
+  const search = parseOrderSearch(q);
+  if (search.email) return eq(customers.email, search.email);
+
+  const contains = (term: string) => `%${term.replace(/[\\%_]/g, '\\$&')}%`;
+  const matches = [
+    sql`${customers.name} LIKE ${contains(search.text)} ESCAPE '\\'`,
+    sql`${customers.email} LIKE ${contains(search.text)} ESCAPE '\\'`,
+    sql`${customers.phone} LIKE ${contains(search.text)} ESCAPE '\\'`,
+  ];
+  if (search.phoneDigits) {
+    const digitsOnly = sql`replace(replace(replace(replace(replace(replace(${customers.phone}, ' ', ''), '-', ''), '.', ''), '(', ''), ')', ''), '+', '')`;
+    matches.push(sql`${digitsOnly} LIKE ${contains(search.phoneDigits)}`);
+  }
+  return or(...matches);
+}
@@ -0,0 +1,130 @@
+// apps/api/src/routes/discounts.ts
+//
+// Dashboard CRUD for promo codes (mounted at /dashboard/discounts).
+// Codes are applied at checkout via `discountCode` — see routes/orders.ts.
+
+import { Hono } from 'hono';
+import { eq, and, desc } from 'drizzle-orm';
+import { createDb, discountCodes } from '@repo/db';
+import type { NewDiscountCode } from '@repo/db';
+import { createDiscountCodeSchema, updateDiscountCodeSchema } from '@repo/shared/schemas';
+import type { UpdateDiscountCodeInput } from '@repo/shared/schemas';
+import type { DiscountType } from '@repo/shared/discounts';
+import { toMinor } from '@repo/shared/money';
+import { requireAuth } from '../middleware/auth.js';
+import { resolveTenant } from '../middleware/tenant.js';
+import { requireRole } from '../middleware/rbac.js';
+import type { AppContext } from '../index.js';
+
+export const discountRoutes = new Hono<AppContext>();
+
+// ─── GET /dashboard/discounts ─────────────────────────────────
+discountRoutes.get('/', requireAuth(), resolveTenant(), async (c) => {
+  const db = createDb(c.env.DB);
+  const tenantId = c.get('tenantId');
+  const list = await db.query.discountCodes.findMany({
+    where: eq(discountCodes.tenantId, tenantId),
+    orderBy: [desc(discountCodes.createdAt)],
+  });
+  return c.json({ data: list.map(serialize) });
+});
+
+// ─── POST /dashboard/discounts ────────────────────────────────
+discountRoutes.post('/', requireAuth(), resolveTenant(), requireRole(['owner', 'admin']), async (c) => {
+  const db = createDb(c.env.DB);
+  const tenantId = c.get('tenantId');
+  const body = await c.req.json().catch(() => null);
+  const parsed = createDiscountCodeSchema.safeParse(body);
+  if (!parsed.success) return c.json({ error: 'Validation failed', issues: parsed.error.issues }, 400);
+
+  const existing = await db.query.discountCodes.findFirst({
+    where: and(eq(discountCodes.tenantId, tenantId), eq(discountCodes.code, parsed.data.code)),
+  });
+  if (existing) return c.json({ error: 'Code already exists' }, 409);
+
+  const id = crypto.randomUUID();
+  await db.insert(discountCodes).values({
+    ...toColumns(parsed.data, parsed.data.type),
+    id,
+    tenantId,
+    code: parsed.data.code,
+    type: parsed.data.type,
+  });
+
+  const created = await db.query.discountCodes.findFirst({ where: eq(discountCodes.id, id) });
+  return c.json(serialize(created!), 201);
+});
+
+// ─── PATCH /dashboard/discounts/:id ───────────────────────────
+discountRoutes.patch('/:id', requireAuth(), resolveTenant(), requireRole(['owner', 'admin']), async (c) => {
+  const db = createDb(c.env.DB);
+  const tenantId = c.get('tenantId');
+  const { id } = c.req.param();
+
+  const existing = await db.query.discountCodes.findFirst({
+    where: and(eq(discountCodes.id, id), eq(discountCodes.tenantId, tenantId)),
+  });
+  if (!existing) return c.json({ error: 'Discount code not found' }, 404);
+
+  const body = await c.req.json().catch(() => null);
+  const parsed = updateDiscountCodeSchema.safeParse(body);
+  if (!parsed.success) return c.json({ error: 'Validation failed', issues: parsed.error.issues }, 400);
+
+  // Re-check cross-field rules (percentage range, date window) on the merged result
+  const merged = createDiscountCodeSchema.safeParse({ ...serialize(existing), ...parsed.data });
+  if (!merged.success) return c.json({ error: 'Validation failed', issues: merged.error.issues }, 400);
+
+  if (parsed.data.code && parsed.data.code !== existing.code) {
+    const clash = await db.query.discountCodes.findFirst({
+      where: and(eq(discountCodes.tenantId, tenantId), eq(discountCodes.code, parsed.data.code)),
+    });
+    if (clash) return c.json({ error: 'Code already exists' }, 409);
+  }
+
+  const updates = toColumns(parsed.data, parsed.data.type ?? existing.type);
+  if (Object.keys(updates).length > 0) {
+    await db.update(discountCodes)
+      .set(updates)
+      .where(and(eq(discountCodes.id, id), eq(discountCodes.tenantId, tenantId)));
+  }
+  return c.json({ success: true });
+});
+
+// ─── DELETE /dashboard/discounts/:id ──────────────────────────
+// Deactivates rather than deletes — redemptions keep per-customer history
+discountRoutes.delete('/:id', requireAuth(), resolveTenant(), requireRole(['owner', 'admin']), async (c) => {
+  const db = createDb(c.env.DB);
+  const tenantId = c.get('tenantId');
+  const { id } = c.req.param();
+
+  const existing = await db.query.discountCodes.findFirst({
+    where: and(eq(discountCodes.id, id), eq(discountCodes.tenantId, tenantId)),
+  });
+  if (!existing) return c.json({ error: 'Discount code not found' }, 404);
+
+  await db.update(discountCodes)
+    .set({ isActive: false })
+    .where(and(eq(discountCodes.id, id), eq(discountCodes.tenantId, tenantId)));
+  return c.json({ success: true });
+});
+
+// ─── Helpers ──────────────────────────────────────────────────
+
+/** API shape → columns (restriction lists are stored as JSON, fixed amounts in minor units) */
+function toColumns(input: UpdateDiscountCodeInput, type: DiscountType): Partial<NewDiscountCode> {
+  const { productIds, categoryIds, ...rest } = input;
+  const columns: Partial<NewDiscountCode> = { ...rest };
+  if (rest.value !== undefined && type === 'fixed') columns.value = toMinor(rest.value);
+  if (productIds !== undefined) columns.productIdsJson = productIds?.length ? JSON.stringify(productIds) : null;
+  if (categoryIds !== undefined) columns.categoryIdsJson = categoryIds?.length ? JSON.stringify(categoryIds) : null;
+  return columns;
+}
+
+function serialize(row: typeof discountCodes.$inferSelect) {
+  const { productIdsJson, categoryIdsJson, ...rest } = row;
+  return {
+    ...rest,
+    productIds: productIdsJson ? JSON.parse(productIdsJson) as string[] : null,
+    categoryIds: categoryIdsJson ? JSON.parse(categoryIdsJson) as string[] : null,
+  };
+}
@@ -0,0 +1,285 @@
+// apps/api/src/routes/draftOrders.ts
+//
+// Draft orders (mounted at /dashboard/draft-orders):
+//   GET    /                  — Drafts, newest first (?status=)
+//   GET    /:id               — Draft + lines and saved pricing
+//   POST   /                  — Create from products, custom lines and custom prices (RBAC: owner|admin|staff)
+//   PUT    /:id               — Replace a draft; a payment link already sent is switched off (RBAC: owner|admin|staff)
+//   DELETE /:id               — Discard a draft that is not an order yet (RBAC: owner|admin|staff)
+//   POST   /:id/cod           — Convert into a pending COD order (RBAC: owner|admin|staff)
+//   POST   /:id/payment-link  — Stripe payment link for the total; paid → order via the webhook (RBAC: owner|admin|staff)
+// Pricing and conversion rules: lib/draftOrders.ts.
+
+import { Hono } from 'hono';
+import { eq, and, desc, sql } from 'drizzle-orm';
+import { createDb, draftOrders, draftOrderItems, auditLogs } from '@repo/db';
+import type { Database, DraftOrder, DraftOrderItem } from '@repo/db';
+import { draftOrderSchema, draftOrderListQuerySchema } from '@repo/shared/schemas';
+import { isDraftEditable } from '@repo/shared/draftOrders';
+import { requireAuth } from '../middleware/auth.js';
+import { resolveTenant } from '../middleware/tenant.js';
+import { requireRole } from '../middleware/rbac.js';
+import { idempotency } from '../middleware/idempotency.js';
+import {
+  priceDraft,
+  draftOrderColumns,
+  draftOrderItemRows,
+  draftPricing,
+  convertDraftToCod,
+  issueDraftPaymentLink,
+} from '../lib/draftOrders.js';
+import { deactivatePaymentLink } from '../lib/paymentLinks.js';
+import Stripe from 'stripe';
+import type { AppContext } from '../index.js';
+
+export const draftOrderRoutes = new Hono<AppContext>();
+
+// ─── GET /dashboard/draft-orders ──────────────────────────────
+draftOrderRoutes.get('/', requireAuth(), resolveTenant(), async (c) => {
+  const db = createDb(c.env.DB);
+  const tenantId = c.get('tenantId');
+
+  const parsed = draftOrderListQuerySchema.safeParse(c.req.query());
+  if (!parsed.success) {
+    return c.json({ error: 'Validation failed', issues: parsed.error.issues }, 400);
+  }
+  const query = parsed.data;
+
+  const conditions = [eq(draftOrders.tenantId, tenantId)];
+  if (query.status) conditions.push(eq(draftOrders.status, query.status));
+
+  const [list, countResult] = await Promise.all([
+    db.query.draftOrders.findMany({
+      where: and(...conditions),
+      columns: { pricingJson: false },
+      orderBy: [desc(draftOrders.createdAt), desc(draftOrders.id)],
+      limit: query.limit,
+      offset: (query.page - 1) * query.limit,
+    }),
+    db.select({ count: sql<number>`count(*)` })
+      .from(draftOrders)
+      .where(and(...conditions)),
+  ]);
+
+  return c.json({ data: list, total: countResult[0]?.count ?? 0, page: query.page, pageSize: query.limit });
+});
+
+// ─── GET /dashboard/draft-orders/:id ──────────────────────────
+draftOrderRoutes.get('/:id', requireAuth(), resolveTenant(), async (c) => {
+  const db = createDb(c.env.DB);
+  const draft = await findDraft(db, c.get('tenantId'), c.req.param('id'));
+  if (!draft) return c.json({ error: 'Draft order not found' }, 404);
+
+  return c.json(draftView(draft, await loadItems(db, draft.id)));
+});
+
+// ─── POST /dashboard/draft-orders ─────────────────────────────
+draftOrderRoutes.post('/', requireAuth(), resolveTenant(), requireRole(['owner', 'admin', 'staff']), idempotency(), async (c) => {
+  const db = createDb(c.env.DB);
+  const tenantId = c.get('tenantId');
+
+  const body = await c.req.json().catch(() => null);
+  const parsed = draftOrderSchema.safeParse(body);
+  if (!parsed.success) {
+    return c.json({ error: 'Validation failed', issues: parsed.error.issues }, 400);
+  }
+
+  const priced = await priceDraft(db, tenantId, parsed.data);
+  if (!priced.ok) return c.json(priced.body, priced.status);
+
+  const id = crypto.randomUUID();
+  const [draft] = await db.insert(draftOrders).values({
+    id,
+    tenantId,
+    ...draftOrderColumns(parsed.data, priced.draft),
+    actorUserId: c.get('userId'),
+  }).returning();
+  await db.insert(draftOrderItems).values(draftOrderItemRows(tenantId, id, priced.draft));
+
+  await db.insert(auditLogs).values({
+    id: crypto.randomUUID(),
+    tenantId,
+    actorUserId: c.get('userId'),
+    action: 'draft_order.created',
+    metaJson: JSON.stringify({ draftOrderId: id, customerEmail: draft!.customerEmail, total: draft!.total, currency: draft!.currency }),
+  });
+
+  return c.json(draftView(draft!, await loadItems(db, id)), 201);
+});
+
+// ─── PUT /dashboard/draft-orders/:id ──────────────────────────
+// The link charged the old total, so it is switched off; the next link is for the new one
+draftOrderRoutes.put('/:id', requireAuth(), resolveTenant(), requireRole(['owner', 'admin', 'staff']), async (c) => {
+  const db = createDb(c.env.DB);
+  const tenantId = c.get('tenantId');
+
+  const existing = await findDraft(db, tenantId, c.req.param('id'));
+  if (!existing) return c.json({ error: 'Draft order not found' }, 404);
+  if (!isDraftEditable(existing.status)) {
+    return c.json({ error: 'This draft is already an order', code: 'DRAFT_COMPLETED', orderId: existing.orderId }, 422);
+  }
+
+  const body = await c.req.json().catch(() => null);
+  const parsed = draftOrderSchema.safeParse(body);
+  if (!parsed.success) {
+    return c.json({ error: 'Validation failed', issues: parsed.error.issues }, 400);
+  }
+
+  const priced = await priceDraft(db, tenantId, parsed.data);
+  if (!priced.ok) return c.json(priced.body, priced.status);
+
+  // Guarded on the version that was read — a payment or a concurrent save wins
+  const [draft] = await db.update(draftOrders)
+    .set({
+      ...draftOrderColumns(parsed.data, priced.draft),
+      status: 'open',
+      stripePaymentLinkId: null,
+      paymentUrl: null,
+      updatedAt: sql`(datetime('now'))`,
+    })
+    .where(and(
+      eq(draftOrders.id, existing.id),
+      eq(draftOrders.status, existing.status),
+      eq(draftOrders.updatedAt, existing.updatedAt)
+    ))
+    .returning();
+  if (!draft) return c.json({ error: 'Draft changed concurrently, reload and retry', code: 'CONFLICT' }, 409);
+
+  await db.batch([
+    db.delete(draftOrderItems).where(eq(draftOrderItems.draftOrderId, draft.id)),
+    db.insert(draftOrderItems).values(draftOrderItemRows(tenantId, draft.id, priced.draft)),
+  ]);
+
+  if (existing.stripePaymentLinkId) {
+    await deactivatePaymentLink(new Stripe(c.env.STRIPE_SECRET_KEY), existing.stripePaymentLinkId)
+      .catch(() => { /* it only takes one payment anyway */ });
+  }
+
+  await db.insert(auditLogs).values({
+    id: crypto.randomUUID(),
+    tenantId,
+    actorUserId: c.get('userId'),
+    action: 'draft_order.updated',
+    metaJson: JSON.stringify({
+      draftOrderId: draft.id, previousTotal: existing.total, total: draft.total, currency: draft.currency,
+      paymentLinkDeactivated: !!existing.stripePaymentLinkId,
+    }),
+  });
+
+  return c.json(draftView(draft, await loadItems(db, draft.id)));
+});
+
+// ─── DELETE /dashboard/draft-orders/:id ───────────────────────
+draftOrderRoutes.delete('/:id', requireAuth(), resolveTenant(), requireRole(['owner', 'admin', 'staff']), async (c) => {
+  const db = createDb(c.env.DB);
+  const tenantId = c.get('tenantId');
+
+  const existing = await findDraft(db, tenantId, c.req.param('id'));
+  if (!existing) return c.json({ error: 'Draft order not found' }, 404);
+  if (!isDraftEditable(existing.status)) {
+    return c.json({ error: 'This draft is already an order', code: 'DRAFT_COMPLETED', orderId: existing.orderId }, 422);
+  }
+
+  const deleted = await db.delete(draftOrders)
+    .where(and(eq(draftOrders.id, existing.id), eq(draftOrders.status, existing.status)))
+    .returning({ id: draftOrders.id });
+  if (deleted.length === 0) return c.json({ error: 'Draft changed concurrently, reload and retry', code: 'CONFLICT' }, 409);
+
+  if (existing.stripePaymentLinkId) {
+    await deactivatePaymentLink(new Stripe(c.env.STRIPE_SECRET_KEY), existing.stripePaymentLinkId)
+      .catch(() => { /* it only takes one payment anyway */ });
+  }
+
+  await db.insert(auditLogs).values({
+    id: crypto.randomUUID(),
+    tenantId,
+    actorUserId: c.get('userId'),
+    action: 'draft_order.deleted',
+    metaJson: JSON.stringify({ draftOrderId: existing.id, customerEmail: existing.customerEmail, total: existing.total }),
+  });
+
+  return c.json({ success: true });
+});
+
+// ─── POST /dashboard/draft-orders/:id/cod ─────────────────────
+draftOrderRoutes.post(
+  '/:id/cod',
+  requireAuth(),
+  resolveTenant(),
+  requireRole(['owner', 'admin', 'staff']),
+  idempotency(),
+  async (c) => {
+    const db = createDb(c.env.DB);
+    const tenantId = c.get('tenantId');
+
+    const draft = await findDraft(db, tenantId, c.req.param('id'));
+    if (!draft) return c.json({ error: 'Draft order not found' }, 404);
+    if (!isDraftEditable(draft.status)) {
+      return c.json({ error: 'This draft is already an order', code: 'DRAFT_COMPLETED', orderId: draft.orderId }, 422);
+    }
+
+    const result = await convertDraftToCod(db, c.env.STRIPE_SECRET_KEY, { tenantId, userId: c.get('userId') }, draft);
+    if (!result.ok) return c.json(result.body, result.status);
+
+    return c.json({ orderId: result.order.id, orderNumber: result.order.orderNumber, order: result.order }, 201);
+  }
+);
+
+// ─── POST /dashboard/draft-orders/:id/payment-link ────────────
+// Returns the link already sent, if any — send it to the customer by SMS or WhatsApp
+draftOrderRoutes.post(
+  '/:id/payment-link',
+  requireAuth(),
+  resolveTenant(),
+  requireRole(['owner', 'admin', 'staff']),
+  idempotency(),
+  async (c) => {
+    const db = createDb(c.env.DB);
+    const tenantId = c.get('tenantId');
+
+    const draft = await findDraft(db, tenantId, c.req.param('id'));
+    if (!draft) return c.json({ error: 'Draft order not found' }, 404);
+    if (!isDraftEditable(draft.status)) {
+      return c.json({ error: 'This draft is already an order', code: 'DRAFT_COMPLETED', orderId: draft.orderId }, 422);
+    }
+
+    const result = await issueDraftPaymentLink(db, new Stripe(c.env.STRIPE_SECRET_KEY), draft);
+    if (!result.ok) return c.json(result.body, result.status);
+
+    if (!draft.paymentUrl) {
+      await db.insert(auditLogs).values({
+        id: crypto.randomUUID(),
+        tenantId,
+        actorUserId: c.get('userId'),
+        action: 'draft_order.payment_link_created',
+        metaJson: JSON.stringify({
+          draftOrderId: draft.id, orderNumber: result.draft.orderNumber, total: draft.total, currency: draft.currency,
+        }),
+      });
+    }
+
+    return c.json({
+      paymentUrl: result.url,
+      orderNumber: result.draft.orderNumber,
+      amount: result.draft.total,
+      currency: result.draft.currency,
+    });
+  }
+);
+
+// ─── Helpers ──────────────────────────────────────────────────
+
+async function findDraft(db: Database, tenantId: string, id: string): Promise<DraftOrder | undefined> {
+  return db.query.draftOrders.findFirst({
+    where: and(eq(draftOrders.id, id), eq(draftOrders.tenantId, tenantId)),
+  });
+}
+
+async function loadItems(db: Database, draftOrderId: string): Promise<DraftOrderItem[]> {
+  return db.query.draftOrderItems.findMany({ where: eq(draftOrderItems.draftOrderId, draftOrderId) });
+}
+
+function draftView(draft: DraftOrder, items: DraftOrderItem[]) {
+  const { pricingJson, ...rest } = draft;
+  return { ...rest, pricing: draftPricing(draft), items };
+}
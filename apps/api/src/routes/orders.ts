@@ -3,25 +3,118 @@
 // Endpoints:
 //   POST /store/checkout        — Stripe payment (unchanged)
 //   POST /store/checkout/cod    — Cash on Delivery (new)
-//   GET  /store/orders/:id      — Public order lookup
-//   GET  /dashboard/orders      — Dashboard orders list
-//   GET  /dashboard/orders/:id  — Dashboard order detail
-//   PATCH /dashboard/orders/:id/status — Update status (RBAC: owner|admin|staff)
+//     Both work for guests; a signed-in shopper's order joins their account (routes/customerAccounts.ts)
+//   POST /store/shipping/quote  — Delivery rates for a cart (routes/shipping.ts)
+//   GET  /store/orders/:id      — Order by id or number; full view with ?token=, redacted otherwise
+//   POST /store/orders/lookup   — Order number + email → full view + access token
+//   GET  /store/orders/:id/invoice.pdf — Invoice for the customer (?token= required)
+//   GET  /store/orders/:id/returns — Customer's return requests (?token= required)
+//   POST /store/orders/:id/returns — Open a return within the tenant's window (?token= required)
+//   GET  /dashboard/orders      — Dashboard orders list (search, date/total filters, sorting)
+//   GET  /dashboard/orders/confirmation-queue — COD orders awaiting a call, oldest first
+//   GET  /dashboard/orders/export — Streamed CSV/XLSX of all matching orders (RBAC: owner|admin)
+//   GET  /dashboard/orders/:id  — Dashboard order detail + status timeline and shipments
+//   GET  /dashboard/orders/:id/invoice.pdf — Invoice PDF (?lang=ar|en), numbered on first download
+//   POST /dashboard/orders/packing-slips — Pick list + packing slips for a batch (RBAC: owner|admin|staff)
+//   POST /dashboard/orders/bulk — Status / assign / note / print for many orders (RBAC: owner|admin|staff)
+//   PATCH /dashboard/orders/:id/status — Lifecycle transition (RBAC: owner|admin|staff)
+//   POST /dashboard/orders/:id/edits — Add/remove/change items before fulfillment (RBAC: owner|admin|staff)
+//   POST /dashboard/orders/:id/edits/:editId/payment-link — Retry the balance link of an edit (RBAC: owner|admin)
+//   POST /dashboard/orders/:id/confirmation-attempts — Log a COD confirmation call (RBAC: owner|admin|staff)
+//   POST /dashboard/orders/:id/refunds — Full/partial refund (RBAC: owner|admin)
 //   GET  /dashboard/analytics   — Revenue analytics (Pro+)
+//
+// POST/PATCH routes accept an Idempotency-Key header (middleware/idempotency.ts).
 
 import { Hono } from 'hono';
-import { eq, and, desc, sql } from 'drizzle-orm';
-import { createDb, orders, orderItems, products, subscriptions, auditLogs } from '@repo/db';
+import { eq, and, or, asc, desc, gte, lt, lte, inArray, isNull, sql } from 'drizzle-orm';
+import {
+  createDb,
+  tenants,
+  orders,
+  orderItems,
+  returns,
+  returnItems,
+  products,
+  subscriptions,
+  auditLogs,
+  refunds,
+  orderEdits,
+  shipments,
+  orderConfirmationAttempts,
+  memberships,
+} from '@repo/db';
 import {
   checkoutSchema,
   codCheckoutSchema,
   updateOrderStatusSchema,
+  createRefundSchema,
+  logConfirmationAttemptSchema,
+  orderLookupSchema,
+  createReturnSchema,
+  packingSlipsSchema,
+  orderExportSchema,
+  orderListQuerySchema,
+  bulkOrderActionSchema,
+  editOrderSchema,
 } from '@repo/shared/schemas';
-import { requireAuth } from '../middleware/auth.js';
+import {
+  allowedTransitions,
+  confirmationStatusAfter,
+  normalizeOrderNumber,
+  parseOrderSearch,
+} from '@repo/shared/orders';
+import { codLimitFor, normalizeEmail } from '@repo/shared/fraud';
+import { isInvoiceable } from '@repo/shared/invoices';
+import { buildPickList, MAX_FULFILLMENT_BATCH } from '@repo/shared/fulfillment';
+import { createdAtRange } from '@repo/shared/exports';
+import { sumMoney, formatMoney } from '@repo/shared/money';
+import { orderAmountInBase } from '@repo/shared/currencies';
+import type { InvoiceLocale } from '@repo/shared/invoices';
+import type { OrderSortField } from '@repo/shared/orders';
+import { requireAuth, optionalCustomer } from '../middleware/auth.js';
 import { resolveTenant } from '../middleware/tenant.js';
 import { requireRole } from '../middleware/rbac.js';
 import { publicApiRateLimit } from '../middleware/rateLimit.js';
+import { idempotency } from '../middleware/idempotency.js';
+import {
+  reserveStock,
+  commitReservations,
+  releaseReservations,
+  releaseExpiredHolds,
+  STRIPE_SESSION_TTL_MS,
+} from '../lib/stock.js';
+import { recordStatusEvent, getStatusTimeline } from '../lib/orderEvents.js';
+import { changeOrderStatus } from '../lib/orderStatus.js';
+import { redeemDiscount, releaseDiscount, DISCOUNT_ERRORS } from '../lib/discounts.js';
+import type { SelectedShipping } from '../lib/shipping.js';
+import { priceCheckout, orderPricingColumns, orderItemRows } from '../lib/checkout.js';
+import { loadCodSettings, assessCodRisk } from '../lib/fraud.js';
+import { allocateOrderNumber } from '../lib/orderNumbers.js';
+import { signOrderToken, verifyOrderToken, ownerOrderView, publicOrderView } from '../lib/orderAccess.js';
+import { issueInvoiceNumber, getInvoicePdf, loadArabicFont, loadLogo, ArabicFontError } from '../lib/invoices.js';
+import { renderPackingSlipsPdf } from '../lib/packingSlipPdf.js';
+import { orderExportStream, EXPORT_CONTENT_TYPES } from '../lib/orderExport.js';
+import { openReturn } from '../lib/returns.js';
+import { accountForCheckout } from '../lib/customerAccounts.js';
+import { refreshCustomer } from '../lib/customers.js';
+import {
+  checkoutCurrency,
+  loadExchangeRates,
+  loadPriceOverrides,
+  unitPrice,
+  orderCurrencyColumns,
+  CURRENCY_ERRORS,
+} from '../lib/currencies.js';
+import { editOrder, issueEditPaymentLink } from '../lib/orderEdits.js';
+import type { ProductCartLine, PricedCheckout } from '../lib/checkout.js';
+import {
+  refundableAmount,
+  createRefund,
+} from '../lib/refunds.js';
 import Stripe from 'stripe';
+import type { Context } from 'hono';
+import type { Order } from '@repo/db';
 import type { AppContext } from '../index.js';
 
 export const orderRoutes = new Hono<AppContext>();
@@ -31,7 +124,7 @@ export const orderRoutes = new Hono<AppContext>();
 // ════════════════════════════════════════════════════════════════
 
 // ─── POST /store/checkout (Stripe) ───────────────────────────
-orderRoutes.post('/checkout', publicApiRateLimit, resolveTenant(), async (c) => {
+orderRoutes.post('/checkout', publicApiRateLimit, resolveTenant(), optionalCustomer(), idempotency(), async (c) => {
   const db = createDb(c.env.DB);
   const tenantId = c.get('tenantId');
 
@@ -41,11 +134,18 @@ orderRoutes.post('/checkout', publicApiRateLimit, resolveTenant(), async (c) =>
     return c.json({ error: 'Validation failed', issues: parsed.error.issues }, 400);
   }
 
-  const { items, customerEmail, currency, successUrl, cancelUrl } = parsed.data;
+  const { items, customerEmail, discountCode, shipping: shippingSelection, successUrl, cancelUrl } = parsed.data;
 
-  // Validate products + build Stripe line items
-  const lineItems: Stripe.Checkout.SessionCreateParams.LineItem[] = [];
-  const snapshots: { productId: string; title: string; price: number; qty: number }[] = [];
+  const fx = await checkoutCurrency(db, tenantId, parsed.data.currency);
+  if (!fx.ok) return c.json({ error: fx.error, code: fx.code }, 422);
+  const { currency } = fx.context;
+
+  // Give back stock from abandoned checkouts before checking availability
+  await releaseExpiredHolds(db, tenantId).catch(() => { /* non-critical */ });
+
+  // Validate products
+  const snapshots: ProductCartLine[] = [];
+  const overrides = await loadPriceOverrides(db, tenantId, currency, items.map(i => i.productId));
 
   for (const item of items) {
     const product = await db.query.products.findFirst({
@@ -58,68 +158,162 @@ orderRoutes.post('/checkout', publicApiRateLimit, resolveTenant(), async (c) =>
     if (!product) {
       return c.json({ error: `Product ${item.productId} not found or unavailable` }, 400);
     }
-    if (product.stock < item.qty) {
+    if (product.stock - product.reservedStock < item.qty) {
       return c.json({ error: `المخزون غير كافٍ للمنتج: ${product.title}` }, 400);
     }
+    const price = unitPrice(product, overrides.get(product.id), fx.context);
+    if (price === null) {
+      return c.json({ error: `${CURRENCY_ERRORS.PRICE_UNAVAILABLE}: ${product.title}`, code: 'PRICE_UNAVAILABLE' }, 422);
+    }
+
+    snapshots.push({
+      productId: product.id,
+      title: product.title,
+      price,
+      qty: item.qty,
+      weightGrams: product.weightGrams,
+      taxClassId: product.taxClassId,
+    });
+  }
+
+  const priced = await priceCheckout(db, tenantId, {
+    lines: snapshots,
+    customerEmail,
+    paymentMethod: 'STRIPE',
+    discountCode,
+    shipping: shippingSelection,
+    exchangeRate: fx.context.exchangeRate,
+  });
+  if (!priced.ok) {
+    return c.json({ error: priced.error, code: priced.code, reason: priced.reason }, 422);
+  }
+  const pricing = priced.pricing;
+  const { discount, discountTotal, shipping } = pricing;
+
+  const stripe = new Stripe(c.env.STRIPE_SECRET_KEY);
+  const orderId = crypto.randomUUID();
+
+  // Hold stock while the customer is on Stripe — committed by the webhook on payment
+  const hold = await reserveStock(db, tenantId, orderId, snapshots);
+  if (!hold.ok) {
+    const title = snapshots.find(s => s.productId === hold.productId)?.title ?? hold.productId;
+    return c.json({ error: `المخزون غير كافٍ للمنتج: ${title}`, code: 'OUT_OF_STOCK' }, 409);
+  }
+
+  const redemptionLost = discount
+    ? await redeemDiscount(db, { tenantId, orderId, code: discount.code, customerEmail, amount: discountTotal })
+    : null;
+  if (redemptionLost) {
+    await releaseReservations(db, orderId);
+    return c.json({ error: DISCOUNT_ERRORS[redemptionLost], code: 'DISCOUNT_INVALID', reason: redemptionLost }, 422);
+  }
 
-    const price = product.salePrice ?? product.price;
+  const orderNumber = await allocateOrderNumber(db, tenantId);
+  const accessToken = await signOrderToken(c.env.ORDER_TOKEN_SECRET, tenantId, orderId);
+
+  const lineItems: Stripe.Checkout.SessionCreateParams.LineItem[] = pricing.lines.map(l => ({
+    quantity: l.qty,
+    price_data: {
+      currency: currency.toLowerCase(),
+      unit_amount: l.price,
+      product_data: { name: l.title },
+    },
+  }));
+  // Tax-exclusive stores charge TVA/VAT on top — one line so Stripe's total matches ours
+  if (!pricing.pricesIncludeTax && pricing.taxTotal > 0) {
     lineItems.push({
-      quantity: item.qty,
+      quantity: 1,
       price_data: {
         currency: currency.toLowerCase(),
-        unit_amount: Math.round(price * 100),
-        product_data: { name: product.title },
+        unit_amount: pricing.taxTotal,
+        product_data: { name: 'TVA / VAT' },
       },
     });
-    snapshots.push({ productId: product.id, title: product.title, price, qty: item.qty });
   }
 
-  const stripe = new Stripe(c.env.STRIPE_SECRET_KEY);
-  const subtotal = snapshots.reduce((acc, s) => acc + s.price * s.qty, 0);
-  const orderId = crypto.randomUUID();
+  let session: Stripe.Checkout.Session;
+  try {
+    // One-off coupon so the Stripe receipt shows the code next to the full-price items
+    const coupon = discountTotal > 0
+      ? await stripe.coupons.create({
+          amount_off: discountTotal,
+          currency: currency.toLowerCase(),
+          duration: 'once',
+          max_redemptions: 1,
+          name: discount!.code.code,
+          metadata: { tenantId, orderId },
+        })
+      : null;
 
-  const session = await stripe.checkout.sessions.create({
-    mode: 'payment',
-    line_items: lineItems,
-    customer_email: customerEmail,
-    success_url: `${successUrl}?session_id={CHECKOUT_SESSION_ID}&order_id=${orderId}`,
-    cancel_url: cancelUrl,
-    metadata: { tenantId, orderId, customerEmail },
-    payment_intent_data: { metadata: { tenantId, orderId } },
-  });
+    session = await stripe.checkout.sessions.create({
+      mode: 'payment',
+      line_items: lineItems,
+      discounts: coupon ? [{ coupon: coupon.id }] : undefined,
+      // Coupons only apply to line items, so shipping stays at the quoted price
+      shipping_options: shipping
+        ? [{
+            shipping_rate_data: {
+              type: 'fixed_amount',
+              display_name: shipping.name,
+              fixed_amount: { amount: shipping.amount, currency: currency.toLowerCase() },
+              delivery_estimate: deliveryEstimate(shipping),
+            },
+          }]
+        : undefined,
+      customer_email: customerEmail,
+      success_url: `${successUrl}?session_id={CHECKOUT_SESSION_ID}&order_id=${orderId}&token=${accessToken}`,
+      cancel_url: cancelUrl,
+      expires_at: Math.floor((Date.now() + STRIPE_SESSION_TTL_MS) / 1000),
+      metadata: { tenantId, orderId, orderNumber, customerEmail },
+      payment_intent_data: { description: orderNumber, metadata: { tenantId, orderId, orderNumber } },
+    });
+  } catch (err) {
+    await releaseReservations(db, orderId);
+    await releaseDiscount(db, orderId);
+    throw err;
+  }
 
-  // Create pending Stripe order
-  await db.insert(orders).values({
-    id: orderId,
-    tenantId,
-    customerEmail,
-    status: 'pending',
-    paymentMethod: 'STRIPE',
-    paymentStatus: 'PENDING',
-    subtotal,
-    total: subtotal,
-    currency,
-    stripeSessionId: session.id,
-  });
+  // Create pending Stripe order — order and items in one batch, so a failure leaves neither
+  try {
+    await db.batch([
+      db.insert(orders).values({
+        id: orderId,
+        tenantId,
+        orderNumber,
+        customerEmail,
+        customerAccountId: await accountForCheckout(db, tenantId, c.get('customerAccountId'), customerEmail),
+        status: 'pending',
+        paymentMethod: 'STRIPE',
+        paymentStatus: 'PENDING',
+        ...orderPricingColumns(pricing),
+        ...orderCurrencyColumns(fx.context),
+        stripeSessionId: session.id,
+      }),
+      db.insert(orderItems).values(orderItemRows(tenantId, orderId, pricing)),
+    ]);
+  } catch (err) {
+    // No order row for the sweep or a cancellation to find — give everything back now
+    await stripe.checkout.sessions.expire(session.id).catch(() => { /* expires on its own */ });
+    await releaseReservations(db, orderId);
+    await releaseDiscount(db, orderId);
+    throw err;
+  }
 
-  await db.insert(orderItems).values(
-    snapshots.map(s => ({
-      id: crypto.randomUUID(),
-      tenantId,
-      orderId,
-      productId: s.productId,
-      titleSnapshot: s.title,
-      priceSnapshot: s.price,
-      qty: s.qty,
-    }))
-  );
+  await recordStatusEvent(db, { tenantId, orderId, from: null, to: 'pending', source: 'checkout' });
 
-  return c.json({ checkoutUrl: session.url, orderId, sessionId: session.id });
+  return c.json({
+    checkoutUrl: session.url,
+    orderId,
+    orderNumber,
+    accessToken,
+    sessionId: session.id,
+    ...pricingSummary(pricing),
+  });
 });
 
 // ─── POST /store/checkout/cod ─────────────────────────────────
 // Cash on Delivery — no Stripe, creates order immediately as PLACED
-orderRoutes.post('/checkout/cod', publicApiRateLimit, resolveTenant(), async (c) => {
+orderRoutes.post('/checkout/cod', publicApiRateLimit, resolveTenant(), optionalCustomer(), idempotency(), async (c) => {
   const db = createDb(c.env.DB);
   const tenantId = c.get('tenantId');
 
@@ -132,14 +326,20 @@ orderRoutes.post('/checkout/cod', publicApiRateLimit, resolveTenant(), async (c)
     }, 400);
   }
 
-  const { items, customerEmail, customerName, customerPhone, customerAddress, currency } = parsed.data;
+  const {
+    items, customerEmail, customerName, customerPhone, customerAddress, discountCode,
+    shipping: shippingSelection,
+  } = parsed.data;
+
+  const fx = await checkoutCurrency(db, tenantId, parsed.data.currency);
+  if (!fx.ok) return c.json({ error: fx.error, code: fx.code }, 422);
+  const { currency } = fx.context;
 
-  // ── Fraud protection: COD max order total (configurable via env) ──
-  // Default: 2000 MAD max for COD orders
-  const COD_MAX_TOTAL = 2000;
+  await releaseExpiredHolds(db, tenantId).catch(() => { /* non-critical */ });
 
   // Validate products + compute total
-  const snapshots: { productId: string; title: string; price: number; qty: number }[] = [];
+  const snapshots: ProductCartLine[] = [];
+  const overrides = await loadPriceOverrides(db, tenantId, currency, items.map(i => i.productId));
 
   for (const item of items) {
     const product = await db.query.products.findFirst({
@@ -152,86 +352,300 @@ orderRoutes.post('/checkout/cod', publicApiRateLimit, resolveTenant(), async (c)
     if (!product) {
       return c.json({ error: `المنتج غير متاح: ${item.productId}` }, 400);
     }
-    if (product.stock < item.qty) {
+    if (product.stock - product.reservedStock < item.qty) {
       return c.json({ error: `المخزون غير كافٍ للمنتج: ${product.title}` }, 400);
     }
-    const price = product.salePrice ?? product.price;
-    snapshots.push({ productId: product.id, title: product.title, price, qty: item.qty });
+    const price = unitPrice(product, overrides.get(product.id), fx.context);
+    if (price === null) {
+      return c.json({ error: `${CURRENCY_ERRORS.PRICE_UNAVAILABLE}: ${product.title}`, code: 'PRICE_UNAVAILABLE' }, 422);
+    }
+    snapshots.push({
+      productId: product.id,
+      title: product.title,
+      price,
+      qty: item.qty,
+      weightGrams: product.weightGrams,
+      taxClassId: product.taxClassId,
+    });
   }
 
-  const subtotal = snapshots.reduce((acc, s) => acc + s.price * s.qty, 0);
+  const priced = await priceCheckout(db, tenantId, {
+    lines: snapshots,
+    customerEmail,
+    paymentMethod: 'COD',
+    discountCode,
+    shipping: shippingSelection,
+    exchangeRate: fx.context.exchangeRate,
+  });
+  if (!priced.ok) {
+    return c.json({ error: priced.error, code: priced.code, reason: priced.reason }, 422);
+  }
+  const pricing = priced.pricing;
+  const { discount, discountTotal, shipping, total } = pricing;
 
-  // Fraud check: reject COD if total exceeds limit
-  if (subtotal > COD_MAX_TOTAL && currency === 'MAD') {
+  // ── Fraud protection: per-tenant COD limit for this currency ──
+  const codSettings = await loadCodSettings(db, tenantId);
+  const codLimit = codLimitFor(codSettings.limits, currency);
+  if (total > codLimit) {
     return c.json({
-      error: `الحد الأقصى للدفع عند الاستلام هو ${COD_MAX_TOTAL} ${currency}. للطلبات الأكبر، يرجى الدفع ببطاقة.`,
+      error: `الحد الأقصى للدفع عند الاستلام هو ${formatMoney(codLimit, currency)}. للطلبات الأكبر، يرجى الدفع ببطاقة.`,
       code: 'COD_LIMIT_EXCEEDED',
     }, 422);
   }
 
+  // Blacklist + refusal history → risk score; high scores are refused outright
+  const risk = await assessCodRisk(db, tenantId, {
+    phone: customerPhone,
+    email: customerEmail,
+    address: customerAddress,
+    total,
+    limit: codLimit,
+  });
+  if (risk.score >= codSettings.blockScore) {
+    await db.insert(auditLogs).values({
+      id: crypto.randomUUID(),
+      tenantId,
+      action: 'order.cod_blocked',
+      metaJson: JSON.stringify({ customerEmail, customerPhone, total, currency, risk }),
+    });
+    return c.json({
+      error: 'الدفع عند الاستلام غير متاح لهذا الطلب. يرجى الدفع بالبطاقة.',
+      code: 'COD_BLOCKED',
+    }, 422);
+  }
+
   const orderId = crypto.randomUUID();
 
+  // COD has no payment step — hold and immediately convert into a decrement
+  const hold = await reserveStock(db, tenantId, orderId, snapshots);
+  if (!hold.ok) {
+    const title = snapshots.find(s => s.productId === hold.productId)?.title ?? hold.productId;
+    return c.json({ error: `المخزون غير كافٍ للمنتج: ${title}`, code: 'OUT_OF_STOCK' }, 409);
+  }
+
+  const redemptionLost = discount
+    ? await redeemDiscount(db, { tenantId, orderId, code: discount.code, customerEmail, amount: discountTotal })
+    : null;
+  if (redemptionLost) {
+    await releaseReservations(db, orderId);
+    return c.json({ error: DISCOUNT_ERRORS[redemptionLost], code: 'DISCOUNT_INVALID', reason: redemptionLost }, 422);
+  }
+
+  const orderNumber = await allocateOrderNumber(db, tenantId);
+
   // Create COD order — status=pending, paymentStatus=UNPAID
-  await db.insert(orders).values({
-    id: orderId,
-    tenantId,
-    customerEmail,
-    customerName,
-    customerPhone,
-    customerAddress,
-    status: 'pending',        // pending confirmation from merchant
-    paymentMethod: 'COD',
-    paymentStatus: 'UNPAID',  // payment collected on delivery
-    subtotal,
-    total: subtotal,
-    currency,
-  });
+  try {
+    await db.batch([
+      db.insert(orders).values({
+        id: orderId,
+        tenantId,
+        orderNumber,
+        customerEmail,
+        customerName,
+        customerPhone,
+        customerAddress,
+        customerAccountId: await accountForCheckout(db, tenantId, c.get('customerAccountId'), customerEmail),
+        status: 'pending',        // pending confirmation from merchant
+        paymentMethod: 'COD',
+        paymentStatus: 'UNPAID',  // payment collected on delivery
+        ...orderPricingColumns(pricing),
+        ...orderCurrencyColumns(fx.context),
+        riskScore: risk.score,
+        riskReasonsJson: JSON.stringify(risk.reasons),
+        requiresConfirmation: risk.score >= codSettings.reviewScore,
+        confirmationStatus: 'pending',
+      }),
+      db.insert(orderItems).values(orderItemRows(tenantId, orderId, pricing)),
+    ]);
+  } catch (err) {
+    // Still only held — releasing gives it back without a restock
+    await releaseReservations(db, orderId);
+    await releaseDiscount(db, orderId);
+    throw err;
+  }
+  // The order exists, so the stock it holds can be taken for good
+  await commitReservations(db, orderId);
 
-  await db.insert(orderItems).values(
-    snapshots.map(s => ({
-      id: crypto.randomUUID(),
-      tenantId,
-      orderId,
-      productId: s.productId,
-      titleSnapshot: s.title,
-      priceSnapshot: s.price,
-      qty: s.qty,
-    }))
-  );
+  await recordStatusEvent(db, { tenantId, orderId, from: null, to: 'pending', source: 'checkout' });
+
+  // CRM row — card orders join it once paid (webhook)
+  await refreshCustomer(db, tenantId, customerEmail);
 
   // Log COD order creation
   await db.insert(auditLogs).values({
     id: crypto.randomUUID(),
     tenantId,
     action: 'order.cod_created',
-    metaJson: JSON.stringify({ orderId, customerEmail, total: subtotal, currency }),
+    metaJson: JSON.stringify({
+      orderId, orderNumber, customerEmail, total, discountCode: discount?.code.code, shippingRateId: shipping?.rateId, currency,
+      exchangeRate: fx.context.exchangeRate, riskScore: risk.score,
+    }),
   });
 
+  const accessToken = await signOrderToken(c.env.ORDER_TOKEN_SECRET, tenantId, orderId);
+
   return c.json({
     success: true,
     orderId,
-    // Redirect URL for frontend
-    redirectUrl: `/success?order_id=${orderId}&method=cod`,
+    orderNumber,
+    accessToken,
+    ...pricingSummary(pricing),
+    // Redirect URL for frontend — the token lets the success page show the full order
+    redirectUrl: `/success?order_id=${orderId}&token=${accessToken}&method=cod`,
     message: 'تم استلام طلبك! سنتواصل معك لتأكيد الطلب وترتيب التوصيل.',
   }, 201);
 });
 
 // ─── GET /store/orders/:id ────────────────────────────────────
+// Anyone can poll the status of an order; customer details and contents
+// need the access token from checkout (?token=)
 orderRoutes.get('/orders/:id', publicApiRateLimit, resolveTenant(), async (c) => {
   const db = createDb(c.env.DB);
   const tenantId = c.get('tenantId');
   const { id } = c.req.param();
+  const token = c.req.query('token');
 
+  // Customers quote the order number; links carry the id
   const order = await db.query.orders.findFirst({
-    where: and(eq(orders.id, id), eq(orders.tenantId, tenantId)),
+    where: and(
+      eq(orders.tenantId, tenantId),
+      or(eq(orders.id, id), eq(orders.orderNumber, normalizeOrderNumber(id)))
+    ),
   });
   if (!order) return c.json({ error: 'Order not found' }, 404);
 
+  if (!token || !(await verifyOrderToken(c.env.ORDER_TOKEN_SECRET, tenantId, order.id, token))) {
+    return c.json(publicOrderView(order));
+  }
+
+  const items = await db.query.orderItems.findMany({
+    where: eq(orderItems.orderId, order.id),
+  });
+  return c.json(ownerOrderView(order, items));
+});
+
+// ─── POST /store/orders/lookup ────────────────────────────────
+// For customers who lost the link: order number + the email used at checkout.
+// Same 404 for a wrong number or a wrong email, so neither can be probed.
+orderRoutes.post('/orders/lookup', publicApiRateLimit, resolveTenant(), async (c) => {
+  const db = createDb(c.env.DB);
+  const tenantId = c.get('tenantId');
+
+  const body = await c.req.json().catch(() => null);
+  const parsed = orderLookupSchema.safeParse(body);
+  if (!parsed.success) {
+    return c.json({ error: 'Validation failed', issues: parsed.error.issues }, 400);
+  }
+
+  const order = await db.query.orders.findFirst({
+    where: and(
+      eq(orders.tenantId, tenantId),
+      eq(orders.orderNumber, normalizeOrderNumber(parsed.data.orderNumber))
+    ),
+  });
+  if (!order || normalizeEmail(order.customerEmail) !== normalizeEmail(parsed.data.email)) {
+    return c.json({ error: 'لم يتم العثور على الطلب. تحقق من رقم الطلب والبريد الإلكتروني.', code: 'ORDER_NOT_FOUND' }, 404);
+  }
+
   const items = await db.query.orderItems.findMany({
-    where: eq(orderItems.orderId, id),
+    where: eq(orderItems.orderId, order.id),
+  });
+  return c.json({
+    ...ownerOrderView(order, items),
+    accessToken: await signOrderToken(c.env.ORDER_TOKEN_SECRET, tenantId, order.id),
+  });
+});
+
+// ─── GET /store/orders/:id/invoice.pdf ────────────────────────
+orderRoutes.get('/orders/:id/invoice.pdf', publicApiRateLimit, resolveTenant(), async (c) => {
+  const db = createDb(c.env.DB);
+  const tenantId = c.get('tenantId');
+  const { id } = c.req.param();
+  const token = c.req.query('token');
+
+  const order = await db.query.orders.findFirst({
+    where: and(eq(orders.id, id), eq(orders.tenantId, tenantId)),
+  });
+  // Same answer for a missing order and a bad token
+  if (!order || !token || !(await verifyOrderToken(c.env.ORDER_TOKEN_SECRET, tenantId, order.id, token))) {
+    return c.json({ error: 'Order not found' }, 404);
+  }
+  if (!isInvoiceable(order)) {
+    return c.json({ error: 'الفاتورة متاحة بعد الدفع أو الشحن.', code: 'NOT_INVOICEABLE' }, 422);
+  }
+
+  return invoiceResponse(c, db, order, null);
+});
+
+// ─── GET /store/orders/:id/returns ────────────────────────────
+orderRoutes.get('/orders/:id/returns', publicApiRateLimit, resolveTenant(), async (c) => {
+  const db = createDb(c.env.DB);
+  const tenantId = c.get('tenantId');
+  const { id } = c.req.param();
+  const token = c.req.query('token');
+
+  const order = await db.query.orders.findFirst({
+    where: and(eq(orders.id, id), eq(orders.tenantId, tenantId)),
   });
+  if (!order || !token || !(await verifyOrderToken(c.env.ORDER_TOKEN_SECRET, tenantId, order.id, token))) {
+    return c.json({ error: 'Order not found' }, 404);
+  }
 
-  return c.json({ ...order, items });
+  const list = await db.query.returns.findMany({
+    where: eq(returns.orderId, order.id),
+    orderBy: [desc(returns.createdAt)],
+    columns: { actorUserId: false, merchantNote: false },
+  });
+  const items = list.length > 0
+    ? await db.query.returnItems.findMany({ where: inArray(returnItems.returnId, list.map(r => r.id)) })
+    : [];
+  return c.json({ data: list.map(r => ({ ...r, items: items.filter(i => i.returnId === r.id) })) });
+});
+
+// ─── POST /store/orders/:id/returns ───────────────────────────
+// Delivered orders only, within tenants.returnWindowDays of delivery.
+// The merchant approves or rejects it from the dashboard (routes/returns.ts).
+orderRoutes.post('/orders/:id/returns', publicApiRateLimit, resolveTenant(), idempotency(), async (c) => {
+  const db = createDb(c.env.DB);
+  const tenantId = c.get('tenantId');
+  const { id } = c.req.param();
+  const token = c.req.query('token');
+
+  const order = await db.query.orders.findFirst({
+    where: and(eq(orders.id, id), eq(orders.tenantId, tenantId)),
+  });
+  if (!order || !token || !(await verifyOrderToken(c.env.ORDER_TOKEN_SECRET, tenantId, order.id, token))) {
+    return c.json({ error: 'Order not found' }, 404);
+  }
+
+  const body = await c.req.json().catch(() => null);
+  const parsed = createReturnSchema.safeParse(body);
+  if (!parsed.success) {
+    return c.json({ error: 'Validation failed', issues: parsed.error.issues }, 400);
+  }
+
+  const opened = await openReturn(db, order, parsed.data, { source: 'storefront' });
+  if (!opened.ok) return c.json(opened.body, opened.status);
+
+  await db.insert(auditLogs).values({
+    id: crypto.randomUUID(),
+    tenantId,
+    action: 'return.requested',
+    metaJson: JSON.stringify({
+      returnId: opened.orderReturn.id,
+      rmaNumber: opened.orderReturn.rmaNumber,
+      orderId: order.id,
+      resolution: opened.orderReturn.resolution,
+      source: 'storefront',
+    }),
+  });
+
+  const { actorUserId, merchantNote, ...orderReturn } = opened.orderReturn;
+  return c.json({
+    ...orderReturn,
+    items: opened.items,
+    message: 'تم استلام طلب الإرجاع. سنراجعه ونتواصل معك قريباً.',
+  }, 201);
 });
 
 // ════════════════════════════════════════════════════════════════
@@ -239,31 +653,47 @@ orderRoutes.get('/orders/:id', publicApiRateLimit, resolveTenant(), async (c) =>
 // ════════════════════════════════════════════════════════════════
 
 // ─── GET /dashboard/orders ────────────────────────────────────
+// ?q= order number, customer name, email or phone · ?from/to=YYYY-MM-DD (inclusive)
+// · ?minTotal/maxTotal · ?assignedTo=<userId>|me|none
+// · ?sort=createdAt|total|orderNumber|customerName|status &dir=asc|desc
 orderRoutes.get('/dashboard/orders', requireAuth(), resolveTenant(), async (c) => {
   const db = createDb(c.env.DB);
   const tenantId = c.get('tenantId');
-  const {
-    page = '1',
-    limit = '20',
-    status,
-    paymentMethod,
-    paymentStatus,
-  } = c.req.query();
 
-  const pageNum = Math.max(1, parseInt(page));
-  const limitNum = Math.min(100, parseInt(limit));
-  const offset = (pageNum - 1) * limitNum;
+  const parsed = orderListQuerySchema.safeParse(c.req.query());
+  if (!parsed.success) {
+    return c.json({ error: 'Validation failed', issues: parsed.error.issues }, 400);
+  }
+  const query = parsed.data;
+  const offset = (query.page - 1) * query.limit;
 
   const conditions: any[] = [eq(orders.tenantId, tenantId)];
-  if (status) conditions.push(eq(orders.status, status as any));
-  if (paymentMethod) conditions.push(eq(orders.paymentMethod, paymentMethod as any));
-  if (paymentStatus) conditions.push(eq(orders.paymentStatus, paymentStatus as any));
+  if (query.status) conditions.push(eq(orders.status, query.status));
+  if (query.paymentMethod) conditions.push(eq(orders.paymentMethod, query.paymentMethod));
+  if (query.paymentStatus) conditions.push(eq(orders.paymentStatus, query.paymentStatus));
+  if (query.minRisk !== undefined) conditions.push(gte(orders.riskScore, query.minRisk));
+  if (query.requiresConfirmation !== undefined) conditions.push(eq(orders.requiresConfirmation, query.requiresConfirmation));
+  if (query.confirmationStatus) conditions.push(eq(orders.confirmationStatus, query.confirmationStatus));
+  if (query.assignedTo === 'none') conditions.push(isNull(orders.assignedUserId));
+  else if (query.assignedTo) {
+    conditions.push(eq(orders.assignedUserId, query.assignedTo === 'me' ? c.get('userId') : query.assignedTo));
+  }
+  const { since, before } = createdAtRange(query.from, query.to);
+  if (since) conditions.push(gte(orders.createdAt, since));
+  if (before) conditions.push(lt(orders.createdAt, before));
+  if (query.minTotal !== undefined) conditions.push(gte(orders.total, query.minTotal));
+  if (query.maxTotal !== undefined) conditions.push(lte(orders.total, query.maxTotal));
+  if (query.q) conditions.push(orderSearchCondition(query.q));
+
+  const sortColumn = ORDER_SORT_COLUMNS[query.sort];
+  const direction = query.dir === 'asc' ? asc : desc;
 
   const [orderList, countResult] = await Promise.all([
     db.query.orders.findMany({
       where: and(...conditions),
-      orderBy: [desc(orders.createdAt)],
-      limit: limitNum,
+      // id breaks ties so pages never overlap
+      orderBy: [direction(sortColumn), direction(orders.id)],
+      limit: query.limit,
       offset,
     }),
     db.select({ count: sql<number>`count(*)` })
@@ -274,11 +704,101 @@ orderRoutes.get('/dashboard/orders', requireAuth(), resolveTenant(), async (c) =
   return c.json({
     data: orderList,
     total: countResult[0]?.count ?? 0,
+    page: query.page,
+    pageSize: query.limit,
+  });
+});
+
+// ─── GET /dashboard/orders/confirmation-queue ────────────────
+// Pending COD orders not yet confirmed, oldest first. Orders with a callback
+// scheduled later are hidden until it is due (?includeScheduled=true shows them).
+// Registered before /dashboard/orders/:id so the path is not read as an id.
+orderRoutes.get('/dashboard/orders/confirmation-queue', requireAuth(), resolveTenant(), async (c) => {
+  const db = createDb(c.env.DB);
+  const tenantId = c.get('tenantId');
+  const { page = '1', limit = '20', includeScheduled } = c.req.query();
+
+  const pageNum = Math.max(1, parseInt(page));
+  const limitNum = Math.min(100, parseInt(limit));
+
+  const conditions: any[] = [
+    eq(orders.tenantId, tenantId),
+    eq(orders.paymentMethod, 'COD'),
+    eq(orders.status, 'pending'),
+    inArray(orders.confirmationStatus, ['pending', 'unreachable']),
+  ];
+  if (includeScheduled !== 'true') {
+    conditions.push(or(isNull(orders.callbackAt), lte(orders.callbackAt, new Date().toISOString())));
+  }
+
+  const [queue, countResult] = await Promise.all([
+    db.query.orders.findMany({
+      where: and(...conditions),
+      orderBy: [asc(orders.createdAt)],
+      limit: limitNum,
+      offset: (pageNum - 1) * limitNum,
+    }),
+    db.select({ count: sql<number>`count(*)` })
+      .from(orders)
+      .where(and(...conditions)),
+  ]);
+
+  return c.json({
+    data: queue.map(o => ({
+      ...o,
+      riskReasons: o.riskReasonsJson ? JSON.parse(o.riskReasonsJson) as string[] : [],
+    })),
+    total: countResult[0]?.count ?? 0,
     page: pageNum,
     pageSize: limitNum,
   });
 });
 
+// ─── GET /dashboard/orders/export ────────────────────────────
+// ?format=csv|xlsx &lines=true (one row per item) &status &paymentMethod &paymentStatus
+// &from=YYYY-MM-DD &to=YYYY-MM-DD (inclusive) &lang=ar|en (default: Accept-Language, else ar)
+// The body is streamed page by page — see lib/orderExport.ts.
+orderRoutes.get(
+  '/dashboard/orders/export',
+  requireAuth(),
+  resolveTenant(),
+  requireRole(['owner', 'admin']),
+  async (c) => {
+    const db = createDb(c.env.DB);
+    const tenantId = c.get('tenantId');
+
+    const parsed = orderExportSchema.safeParse(c.req.query());
+    if (!parsed.success) {
+      return c.json({ error: 'Validation failed', issues: parsed.error.issues }, 400);
+    }
+    const { format, lines, status, paymentMethod, paymentStatus, from, to } = parsed.data;
+    const locale = parsed.data.lang ?? (c.req.header('Accept-Language')?.toLowerCase().startsWith('en') ? 'en' : 'ar');
+
+    const conditions: any[] = [eq(orders.tenantId, tenantId)];
+    if (status) conditions.push(eq(orders.status, status));
+    if (paymentMethod) conditions.push(eq(orders.paymentMethod, paymentMethod));
+    if (paymentStatus) conditions.push(eq(orders.paymentStatus, paymentStatus));
+    const { since, before } = createdAtRange(from, to);
+    if (since) conditions.push(gte(orders.createdAt, since));
+    if (before) conditions.push(lt(orders.createdAt, before));
+
+    await db.insert(auditLogs).values({
+      id: crypto.randomUUID(),
+      tenantId,
+      actorUserId: c.get('userId'),
+      action: 'order.exported',
+      metaJson: JSON.stringify({ format, lines, locale, status, paymentMethod, paymentStatus, from, to }),
+    });
+
+    const filename = `${lines ? 'order-lines' : 'orders'}-${new Date().toISOString().slice(0, 10)}.${format}`;
+    return c.body(orderExportStream(db, { tenantId, where: and(...conditions)!, format, lines, locale }), 200, {
+      'Content-Type': EXPORT_CONTENT_TYPES[format],
+      'Content-Disposition': `attachment; filename="${filename}"`,
+      'Cache-Control': 'no-store',
+    });
+  }
+);
+
 // ─── GET /dashboard/orders/:id ───────────────────────────────
 orderRoutes.get('/dashboard/orders/:id', requireAuth(), resolveTenant(), async (c) => {
   const db = createDb(c.env.DB);
@@ -290,12 +810,281 @@ orderRoutes.get('/dashboard/orders/:id', requireAuth(), resolveTenant(), async (
   });
   if (!order) return c.json({ error: 'Order not found' }, 404);
 
-  const items = await db.query.orderItems.findMany({
-    where: eq(orderItems.orderId, id),
+  const [items, timeline, refundList, calls, edits, shipmentList] = await Promise.all([
+    db.query.orderItems.findMany({ where: eq(orderItems.orderId, id) }),
+    getStatusTimeline(db, id),
+    db.query.refunds.findMany({ where: eq(refunds.orderId, id), orderBy: [desc(refunds.createdAt)] }),
+    db.query.orderConfirmationAttempts.findMany({
+      where: eq(orderConfirmationAttempts.orderId, id),
+      orderBy: [desc(orderConfirmationAttempts.createdAt)],
+    }),
+    db.query.orderEdits.findMany({ where: eq(orderEdits.orderId, id), orderBy: [desc(orderEdits.createdAt)] }),
+    db.query.shipments.findMany({ where: eq(shipments.orderId, id), orderBy: [desc(shipments.createdAt)] }),
+  ]);
+  return c.json({
+    ...order,
+    items,
+    timeline,
+    refunds: refundList,
+    confirmationCalls: calls,
+    edits: edits.map(({ changesJson, ...e }) => ({ ...e, changes: JSON.parse(changesJson) })),
+    shipments: shipmentList,
+    refundable: refundableAmount(order),
+    riskReasons: order.riskReasonsJson ? JSON.parse(order.riskReasonsJson) as string[] : [],
+    nextStatuses: allowedTransitions(order.paymentMethod, order.status),
+  });
+});
+
+// ─── GET /dashboard/orders/:id/invoice.pdf ───────────────────
+orderRoutes.get('/dashboard/orders/:id/invoice.pdf', requireAuth(), resolveTenant(), async (c) => {
+  const db = createDb(c.env.DB);
+  const tenantId = c.get('tenantId');
+  const { id } = c.req.param();
+
+  const order = await db.query.orders.findFirst({
+    where: and(eq(orders.id, id), eq(orders.tenantId, tenantId)),
   });
-  return c.json({ ...order, items });
+  if (!order) return c.json({ error: 'Order not found' }, 404);
+  if (!isInvoiceable(order)) {
+    return c.json({
+      error: 'Invoices are available once the order is paid or shipped',
+      code: 'NOT_INVOICEABLE',
+    }, 422);
+  }
+
+  return invoiceResponse(c, db, order, c.get('userId'));
 });
 
+// ─── POST /dashboard/orders/packing-slips ────────────────────
+// Body: { orderIds: [...] } in print order, or { filter: { status, paymentMethod, paymentStatus } }
+// for the oldest matching orders; format 'pdf' (default) or 'json'.
+orderRoutes.post(
+  '/dashboard/orders/packing-slips',
+  requireAuth(),
+  resolveTenant(),
+  requireRole(['owner', 'admin', 'staff']),
+  async (c) => {
+    const db = createDb(c.env.DB);
+    const tenantId = c.get('tenantId');
+
+    const body = await c.req.json().catch(() => null);
+    const parsed = packingSlipsSchema.safeParse(body);
+    if (!parsed.success) {
+      return c.json({ error: 'Validation failed', issues: parsed.error.issues }, 400);
+    }
+    const { orderIds, filter, format, lang } = parsed.data;
+
+    let batch: Order[];
+    if (orderIds) {
+      const found = await db.query.orders.findMany({
+        where: and(eq(orders.tenantId, tenantId), inArray(orders.id, orderIds)),
+      });
+      const byId = new Map(found.map(o => [o.id, o]));
+      const missing = orderIds.filter(id => !byId.has(id));
+      if (missing.length > 0) return c.json({ error: 'Orders not found', missing }, 404);
+      batch = [...new Set(orderIds)].map(id => byId.get(id)!);
+    } else {
+      const conditions: any[] = [eq(orders.tenantId, tenantId)];
+      if (filter!.status) conditions.push(eq(orders.status, filter!.status));
+      if (filter!.paymentMethod) conditions.push(eq(orders.paymentMethod, filter!.paymentMethod));
+      if (filter!.paymentStatus) conditions.push(eq(orders.paymentStatus, filter!.paymentStatus));
+      batch = await db.query.orders.findMany({
+        where: and(...conditions),
+        orderBy: [asc(orders.createdAt)],
+        limit: MAX_FULFILLMENT_BATCH + 1,
+      });
+      if (batch.length > MAX_FULFILLMENT_BATCH) {
+        return c.json({
+          error: `More than ${MAX_FULFILLMENT_BATCH} orders match — narrow the filter or pass orderIds`,
+          code: 'BATCH_TOO_LARGE',
+        }, 422);
+      }
+    }
+    if (batch.length === 0) return c.json({ error: 'No orders match', code: 'EMPTY_BATCH' }, 404);
+
+    const items = await db.query.orderItems.findMany({
+      where: inArray(orderItems.orderId, batch.map(o => o.id)),
+    });
+    // SKU is read live — order items only snapshot title and price
+    const productIds = [...new Set(items.map(i => i.productId).filter((id): id is string => !!id))];
+    const skuRows = productIds.length > 0
+      ? await db.select({ id: products.id, sku: products.sku })
+          .from(products)
+          .where(and(eq(products.tenantId, tenantId), inArray(products.id, productIds)))
+      : [];
+    const skus = new Map(skuRows.map(p => [p.id, p.sku]));
+
+    const pickList = buildPickList(items.map(i => ({
+      productId: i.productId,
+      sku: i.productId ? skus.get(i.productId) ?? null : null,
+      title: i.titleSnapshot,
+      qty: i.qty,
+      orderId: i.orderId,
+    })));
+    const itemsByOrder = new Map<string, typeof items>();
+    for (const item of items) itemsByOrder.set(item.orderId, [...(itemsByOrder.get(item.orderId) ?? []), item]);
+
+    if (format === 'json') {
+      return c.json({
+        pickList,
+        orders: batch.map(o => ({
+          id: o.id,
+          orderNumber: o.orderNumber,
+          customerName: o.customerName,
+          items: (itemsByOrder.get(o.id) ?? []).map(i => ({
+            productId: i.productId,
+            sku: i.productId ? skus.get(i.productId) ?? null : null,
+            title: i.titleSnapshot,
+            qty: i.qty,
+          })),
+        })),
+      });
+    }
+
+    const tenant = await db.query.tenants.findFirst({ where: eq(tenants.id, tenantId) });
+    let pdf: Uint8Array;
+    try {
+      pdf = await renderPackingSlipsPdf(
+        {
+          locale: lang,
+          generatedAt: new Date().toISOString(),
+          tenant: { name: tenant?.name ?? '', primaryColor: tenant?.primaryColor ?? null },
+          logo: tenant?.logoR2Key ? await loadLogo(c.env, tenant.logoR2Key) : null,
+          pickList,
+          orders: batch.map(order => ({ order, items: itemsByOrder.get(order.id) ?? [], skus })),
+        },
+        () => loadArabicFont(c.env)
+      );
+    } catch (err) {
+      if (err instanceof ArabicFontError) {
+        return c.json({ error: 'Arabic font unavailable, try lang "en"', code: 'PDF_FONT_UNAVAILABLE' }, 503);
+      }
+      throw err;
+    }
+
+    return c.body(pdf.buffer.slice(pdf.byteOffset, pdf.byteOffset + pdf.byteLength) as ArrayBuffer, 200, {
+      'Content-Type': 'application/pdf',
+      'Content-Disposition': `inline; filename="packing-slips-${batch.length}.pdf"`,
+      'Cache-Control': 'no-store',
+    });
+  }
+);
+
+// ─── POST /dashboard/orders/bulk ─────────────────────────────
+// Body: { action: 'status', orderIds, status, paymentStatus?, note? }
+//     | { action: 'assign', orderIds, userId | null }
+//     | { action: 'note', orderIds, note }
+//     | { action: 'print', orderIds }
+// Each order is handled on its own — status changes follow the same rules as
+// PATCH /:id/status (lib/orderStatus.ts) — and gets its own result and audit entry.
+// One bad order never fails the batch; the response is 200 with per-order results.
+orderRoutes.post(
+  '/dashboard/orders/bulk',
+  requireAuth(),
+  resolveTenant(),
+  requireRole(['owner', 'admin', 'staff']),
+  idempotency(),
+  async (c) => {
+    const db = createDb(c.env.DB);
+    const tenantId = c.get('tenantId');
+    const userId = c.get('userId');
+    const role = c.get('role');
+
+    const body = await c.req.json().catch(() => null);
+    const parsed = bulkOrderActionSchema.safeParse(body);
+    if (!parsed.success) {
+      return c.json({ error: 'Validation failed', issues: parsed.error.issues }, 400);
+    }
+    const input = parsed.data;
+    const orderIds = [...new Set(input.orderIds)];
+
+    if (input.action === 'assign' && input.userId) {
+      const member = await db.query.memberships.findFirst({
+        where: and(eq(memberships.tenantId, tenantId), eq(memberships.userId, input.userId)),
+      });
+      if (!member) return c.json({ error: 'Assignee is not a member of this store', code: 'INVALID_ASSIGNEE' }, 422);
+    }
+
+    const found = await db.query.orders.findMany({
+      where: and(eq(orders.tenantId, tenantId), inArray(orders.id, orderIds)),
+    });
+    const byId = new Map(found.map(o => [o.id, o]));
+    const codConfirmationRequired = input.action === 'status'
+      ? (await loadCodSettings(db, tenantId)).confirmationRequired
+      : false;
+
+    const audit = (orderId: string, action: string, meta: Record<string, unknown>) =>
+      db.insert(auditLogs).values({
+        id: crypto.randomUUID(),
+        tenantId,
+        actorUserId: userId,
+        action,
+        metaJson: JSON.stringify({ orderId, bulk: true, ...meta }),
+      });
+
+    // Sequential on purpose: D1 has a single writer and each status change is several writes
+    const results: BulkOrderResult[] = [];
+    for (const orderId of orderIds) {
+      const order = byId.get(orderId);
+      if (!order) {
+        results.push({ orderId, ok: false, statusCode: 404, error: 'Order not found' });
+        continue;
+      }
+
+      switch (input.action) {
+        case 'status': {
+          const result = await changeOrderStatus(
+            db,
+            { tenantId, userId, role, stripeSecretKey: c.env.STRIPE_SECRET_KEY },
+            order,
+            { status: input.status, paymentStatus: input.paymentStatus, note: input.note },
+            codConfirmationRequired
+          );
+          results.push(result.ok
+            ? { orderId, ok: true, orderStatus: input.status, paymentStatus: result.paymentStatus }
+            : { orderId, ok: false, statusCode: result.status, ...result.body });
+          break;
+        }
+        case 'assign': {
+          await db.update(orders)
+            .set({ assignedUserId: input.userId })
+            .where(and(eq(orders.id, orderId), eq(orders.tenantId, tenantId)));
+          await audit(orderId, 'order.assigned', { from: order.assignedUserId, to: input.userId });
+          results.push({ orderId, ok: true });
+          break;
+        }
+        case 'note': {
+          // Appended in SQL so concurrent notes never overwrite each other
+          const line = `[${new Date().toISOString().slice(0, 16).replace('T', ' ')}] ${input.note}`;
+          await db.update(orders)
+            .set({ notes: sql`CASE WHEN ${orders.notes} IS NULL OR ${orders.notes} = '' THEN ${line} ELSE ${orders.notes} || char(10) || ${line} END` })
+            .where(and(eq(orders.id, orderId), eq(orders.tenantId, tenantId)));
+          await audit(orderId, 'order.note_added', { note: input.note });
+          results.push({ orderId, ok: true });
+          break;
+        }
+        case 'print': {
+          if (order.status === 'cancelled' || order.status === 'refunded') {
+            results.push({ orderId, ok: false, statusCode: 422, error: `Order is ${order.status}`, code: 'NOT_PRINTABLE' });
+            break;
+          }
+          await audit(orderId, 'order.printed', {});
+          results.push({ orderId, ok: true });
+          break;
+        }
+      }
+    }
+
+    const succeeded = results.filter(r => r.ok).length;
+    return c.json({
+      action: input.action,
+      succeeded,
+      failed: results.length - succeeded,
+      results,
+    });
+  }
+);
+
 // ─── PATCH /dashboard/orders/:id/status ──────────────────────
 // Roles: owner + admin can update any status
 //        staff can only move to shipped/delivered (cannot cancel)
@@ -304,6 +1093,7 @@ orderRoutes.patch(
   requireAuth(),
   resolveTenant(),
   requireRole(['owner', 'admin', 'staff']),
+  idempotency(),
   async (c) => {
     const db = createDb(c.env.DB);
     const tenantId = c.get('tenantId');
@@ -322,46 +1112,238 @@ orderRoutes.patch(
     });
     if (!order) return c.json({ error: 'Order not found' }, 404);
 
-    // Staff cannot cancel or refund — only owner/admin can
-    if (role === 'staff' && ['cancelled', 'refunded'].includes(parsed.data.status)) {
-      return c.json({ error: 'Staff cannot cancel or refund orders' }, 403);
+    // Rules + side effects shared with POST /dashboard/orders/bulk
+    const result = await changeOrderStatus(db, { tenantId, userId, role, stripeSecretKey: c.env.STRIPE_SECRET_KEY }, order, parsed.data);
+    if (!result.ok) return c.json(result.body, result.status);
+
+    return c.json({ success: true });
+  }
+);
+
+// ─── POST /dashboard/orders/:id/edits ────────────────────────
+// Body: { changes: [{ orderItemId, qty } | { productId, qty }], removeDiscount?, note? }
+// COD orders are re-priced and collected on delivery. Paid Stripe orders get a
+// payment link for a higher total or an automatic refund for a lower one —
+// staff can only edit COD orders, since that moves money.
+orderRoutes.post(
+  '/dashboard/orders/:id/edits',
+  requireAuth(),
+  resolveTenant(),
+  requireRole(['owner', 'admin', 'staff']),
+  idempotency(),
+  async (c) => {
+    const db = createDb(c.env.DB);
+    const tenantId = c.get('tenantId');
+    const userId = c.get('userId');
+    const { id } = c.req.param();
+
+    const body = await c.req.json().catch(() => null);
+    const parsed = editOrderSchema.safeParse(body);
+    if (!parsed.success) {
+      return c.json({ error: 'Validation failed', issues: parsed.error.issues }, 400);
+    }
+
+    const order = await db.query.orders.findFirst({
+      where: and(eq(orders.id, id), eq(orders.tenantId, tenantId)),
+    });
+    if (!order) return c.json({ error: 'Order not found' }, 404);
+
+    if (c.get('role') === 'staff' && order.paymentMethod === 'STRIPE') {
+      return c.json({ error: 'Staff cannot edit card-paid orders' }, 403);
+    }
+
+    const result = await editOrder(db, c.env.STRIPE_SECRET_KEY, { tenantId, userId }, order, parsed.data);
+    if (!result.ok) return c.json(result.body, result.status);
+
+    const items = await db.query.orderItems.findMany({ where: eq(orderItems.orderId, id) });
+    const { changesJson, ...edit } = result.edit;
+    return c.json({
+      order: { ...result.order, items },
+      edit: { ...edit, changes: JSON.parse(changesJson) },
+      settlementError: result.settlementError,
+    }, 201);
+  }
+);
+
+// ─── POST /dashboard/orders/:id/edits/:editId/payment-link ───
+// Returns the balance link of an edit awaiting payment, creating it if Stripe
+// failed during the edit
+orderRoutes.post(
+  '/dashboard/orders/:id/edits/:editId/payment-link',
+  requireAuth(),
+  resolveTenant(),
+  requireRole(['owner', 'admin']),
+  async (c) => {
+    const db = createDb(c.env.DB);
+    const tenantId = c.get('tenantId');
+    const { id, editId } = c.req.param();
+
+    const [order, edit] = await Promise.all([
+      db.query.orders.findFirst({ where: and(eq(orders.id, id), eq(orders.tenantId, tenantId)) }),
+      db.query.orderEdits.findFirst({ where: and(eq(orderEdits.id, editId), eq(orderEdits.orderId, id)) }),
+    ]);
+    if (!order || !edit) return c.json({ error: 'Order edit not found' }, 404);
+    if (edit.status !== 'awaiting_payment') {
+      return c.json({ error: `This edit is ${edit.status}, nothing to collect`, code: 'NOT_AWAITING_PAYMENT' }, 422);
     }
 
-    // Determine payment status update:
-    // When marking COD order as delivered → auto-mark as PAID
-    let newPaymentStatus = parsed.data.paymentStatus ?? order.paymentStatus;
-    if (parsed.data.status === 'delivered' && order.paymentMethod === 'COD') {
-      newPaymentStatus = 'PAID';
+    const link = await issueEditPaymentLink(db, new Stripe(c.env.STRIPE_SECRET_KEY), order, edit.id, edit.balance);
+    if (!link.ok) return c.json({ error: link.error }, 502);
+    return c.json({ paymentUrl: link.url, amount: edit.balance, currency: edit.currency });
+  }
+);
+
+// ─── POST /dashboard/orders/:id/confirmation-attempts ────────
+// Logs one call to a COD customer. Staff may log calls; a 'rejected' outcome
+// cancels the order since the customer, not the merchant, called it off.
+// Body: { outcome: confirmed|unreachable|rejected|callback, note?, callbackAt? }
+orderRoutes.post(
+  '/dashboard/orders/:id/confirmation-attempts',
+  requireAuth(),
+  resolveTenant(),
+  requireRole(['owner', 'admin', 'staff']),
+  idempotency(),
+  async (c) => {
+    const db = createDb(c.env.DB);
+    const tenantId = c.get('tenantId');
+    const userId = c.get('userId');
+    const { id } = c.req.param();
+
+    const body = await c.req.json().catch(() => null);
+    const parsed = logConfirmationAttemptSchema.safeParse(body);
+    if (!parsed.success) {
+      return c.json({ error: 'Validation failed', issues: parsed.error.issues }, 400);
     }
-    if (parsed.data.status === 'cancelled') {
-      newPaymentStatus = order.paymentMethod === 'STRIPE' ? order.paymentStatus : 'UNPAID';
+    const { outcome, note } = parsed.data;
+
+    const order = await db.query.orders.findFirst({
+      where: and(eq(orders.id, id), eq(orders.tenantId, tenantId)),
+    });
+    if (!order) return c.json({ error: 'Order not found' }, 404);
+    if (order.paymentMethod !== 'COD' || order.status !== 'pending') {
+      return c.json({ error: 'Only pending COD orders can be confirmed', code: 'NOT_CONFIRMABLE' }, 422);
     }
 
-    await db.update(orders)
+    const now = new Date().toISOString();
+    const confirmationStatus = confirmationStatusAfter(outcome, order.confirmationStatus ?? 'pending');
+    // Only unreachable/callback keep a scheduled call; a decision clears it
+    const callbackAt = outcome === 'callback' || outcome === 'unreachable' ? parsed.data.callbackAt ?? null : null;
+    const cancel = outcome === 'rejected';
+
+    // Guard on the attempt count we read — two agents logging the same call conflict
+    const updated = await db.update(orders)
       .set({
-        status: parsed.data.status,
-        paymentStatus: newPaymentStatus,
-        notes: parsed.data.note ?? order.notes,
+        confirmationStatus,
+        confirmationAttempts: order.confirmationAttempts + 1,
+        lastContactAt: now,
+        callbackAt,
+        ...(outcome === 'confirmed' ? { confirmedAt: now } : {}),
       })
-      .where(and(eq(orders.id, id), eq(orders.tenantId, tenantId)));
+      .where(and(
+        eq(orders.id, id),
+        eq(orders.tenantId, tenantId),
+        eq(orders.status, 'pending'),
+        eq(orders.confirmationAttempts, order.confirmationAttempts)
+      ))
+      .returning({ id: orders.id });
+    if (updated.length === 0) {
+      return c.json({ error: 'Order changed concurrently, reload and retry', code: 'CONFLICT' }, 409);
+    }
+
+    // Same rules and side effects as any cancellation. The customer called it
+    // off, not the merchant, so staff may record it (hence not their role).
+    if (cancel) {
+      const cancelled = await changeOrderStatus(db, { tenantId, userId, role: 'system' }, order, {
+        status: 'cancelled',
+        note: note ?? 'Rejected by customer on confirmation call',
+      });
+      if (!cancelled.ok) {
+        await db.update(orders)
+          .set({
+            confirmationStatus: order.confirmationStatus,
+            confirmationAttempts: order.confirmationAttempts,
+            lastContactAt: order.lastContactAt,
+            callbackAt: order.callbackAt,
+          })
+          .where(and(eq(orders.id, id), eq(orders.confirmationAttempts, order.confirmationAttempts + 1)));
+        return c.json(cancelled.body, cancelled.status);
+      }
+    }
+
+    const attemptId = crypto.randomUUID();
+    await db.insert(orderConfirmationAttempts).values({
+      id: attemptId,
+      tenantId,
+      orderId: id,
+      outcome,
+      note,
+      callbackAt,
+      actorUserId: userId,
+    });
 
-    // Audit log
     await db.insert(auditLogs).values({
       id: crypto.randomUUID(),
       tenantId,
       actorUserId: userId,
-      action: 'order.status_updated',
+      action: 'order.confirmation_attempt',
       metaJson: JSON.stringify({
         orderId: id,
-        from: order.status,
-        to: parsed.data.status,
-        paymentMethod: order.paymentMethod,
-        paymentStatusFrom: order.paymentStatus,
-        paymentStatusTo: newPaymentStatus,
+        outcome,
+        attempt: order.confirmationAttempts + 1,
+        confirmationStatusFrom: order.confirmationStatus,
+        confirmationStatusTo: confirmationStatus,
+        callbackAt,
       }),
     });
 
-    return c.json({ success: true });
+    return c.json({
+      id: attemptId,
+      outcome,
+      confirmationStatus,
+      confirmationAttempts: order.confirmationAttempts + 1,
+      callbackAt,
+      status: cancel ? 'cancelled' : order.status,
+    }, 201);
+  }
+);
+
+// ─── POST /dashboard/orders/:id/refunds ──────────────────────
+// STRIPE → refund through the Stripe API (webhook charge.refunded confirms)
+// COD    → records a manual cash refund
+// Body: {} = full refund | { amount } | { items: [{ orderItemId, qty }] }
+orderRoutes.post(
+  '/dashboard/orders/:id/refunds',
+  requireAuth(),
+  resolveTenant(),
+  requireRole(['owner', 'admin']),
+  idempotency(),
+  async (c) => {
+    const db = createDb(c.env.DB);
+    const tenantId = c.get('tenantId');
+    const userId = c.get('userId');
+    const { id } = c.req.param();
+
+    const body = await c.req.json().catch(() => ({}));
+    const parsed = createRefundSchema.safeParse(body ?? {});
+    if (!parsed.success) {
+      return c.json({ error: 'Validation failed', issues: parsed.error.flatten().fieldErrors }, 400);
+    }
+
+    const order = await db.query.orders.findFirst({
+      where: and(eq(orders.id, id), eq(orders.tenantId, tenantId)),
+    });
+    if (!order) return c.json({ error: 'Order not found' }, 404);
+
+    const result = await createRefund(db, c.env.STRIPE_SECRET_KEY, { tenantId, userId }, order, parsed.data);
+    if (!result.ok) return c.json(result.body, result.status);
+
+    return c.json({
+      refund: result.refund,
+      refunds: result.refunds,
+      refundedTotal: result.synced?.refundedTotal,
+      refundStatus: result.synced?.refundStatus,
+      status: result.synced?.status,
+    }, 201);
   }
 );
 
@@ -400,23 +1382,126 @@ orderRoutes.get('/dashboard/analytics', requireAuth(), resolveTenant(), async (c
   const codPending = allOrders.filter(o => o.paymentMethod === 'COD' && o.status === 'pending');
   const codShipped = allOrders.filter(o => o.paymentMethod === 'COD' && o.status === 'shipped');
 
+  // Orders are summed in the base currency; one with no rate back to it is left out and counted
+  const { baseCurrency, rates } = await loadExchangeRates(db, tenantId);
+  const inBase = (amount: number, order: Order) => orderAmountInBase(amount, order, baseCurrency, rates);
+  const convertible = (list: Order[]) => list.filter(o => inBase(o.total, o) !== null);
+
+  // Revenue is gross (what customers paid); tax is collected on behalf of the state
+  const summarize = (list: typeof paidOrders) => {
+    const counted = convertible(list);
+    const revenue = sumMoney(counted.map(o => inBase(o.total, o)!));
+    const tax = sumMoney(counted.map(o => inBase(o.taxTotal, o)!));
+    return { orders: list.length, revenue, tax, netRevenue: revenue - tax };
+  };
+
   return c.json({
-    today: {
-      orders: todayOrders.length,
-      revenue: todayOrders.reduce((acc, o) => acc + o.total, 0),
-    },
-    month: {
-      orders: monthOrders.length,
-      revenue: monthOrders.reduce((acc, o) => acc + o.total, 0),
-    },
-    total: {
-      orders: paidOrders.length,
-      revenue: paidOrders.reduce((acc, o) => acc + o.total, 0),
-    },
+    currency: baseCurrency,
+    today: summarize(todayOrders),
+    month: summarize(monthOrders),
+    total: summarize(paidOrders),
     cod: {
       pending: codPending.length,
       shipped: codShipped.length,
-      pendingValue: codPending.reduce((acc, o) => acc + o.total, 0),
+      pendingValue: sumMoney(convertible(codPending).map(o => inBase(o.total, o)!)),
     },
+    unconvertedOrders: [...paidOrders, ...codPending].filter(o => inBase(o.total, o) === null).length,
   });
 });
+
+// ─── Helpers ──────────────────────────────────────────────────
+
+/** Numbers the invoice if needed and streams the PDF (?lang=ar|en, Arabic by default) */
+async function invoiceResponse(
+  c: Context<AppContext>,
+  db: ReturnType<typeof createDb>,
+  order: Order,
+  actorUserId: string | null
+) {
+  const locale: InvoiceLocale = c.req.query('lang') === 'en' ? 'en' : 'ar';
+  const invoice = await issueInvoiceNumber(db, order.tenantId, order);
+  if (invoice.issued) {
+    await db.insert(auditLogs).values({
+      id: crypto.randomUUID(),
+      tenantId: order.tenantId,
+      actorUserId,
+      action: 'order.invoice_issued',
+      metaJson: JSON.stringify({ orderId: order.id, invoiceNumber: invoice.invoiceNumber }),
+    });
+  }
+
+  let pdf: Uint8Array;
+  try {
+    pdf = await getInvoicePdf(c.env, db, order, invoice, locale);
+  } catch (err) {
+    if (err instanceof ArabicFontError) {
+      return c.json({ error: 'Arabic invoice font unavailable, try ?lang=en', code: 'INVOICE_FONT_UNAVAILABLE' }, 503);
+    }
+    throw err;
+  }
+
+  const bytes = pdf.buffer.slice(pdf.byteOffset, pdf.byteOffset + pdf.byteLength) as ArrayBuffer;
+  return c.body(bytes, 200, {
+    'Content-Type': 'application/pdf',
+    'Content-Disposition': `inline; filename="${invoice.invoiceNumber}.pdf"`,
+    'Cache-Control': 'private, max-age=300',
+  });
+}
+
+type BulkOrderResult =
+  | { orderId: string; ok: true; orderStatus?: Order['status']; paymentStatus?: Order['paymentStatus'] }
+  | { orderId: string; ok: false; statusCode: number; error: string; code?: string; [key: string]: unknown };
+
+const ORDER_SORT_COLUMNS = {
+  createdAt: orders.createdAt,
+  total: orders.total,
+  orderNumber: orders.orderNumber,
+  customerName: orders.customerName,
+  status: orders.status,
+} satisfies Record<OrderSortField, unknown>;
+
+/**
+ * Dashboard search box. A full email is matched exactly (orders_email_idx);
+ * anything else is a substring match on order number, name, email and phone
+ * within the tenant. Phone-like input also matches the stored number with
+ * separators stripped, so "0612 34 56 78" finds "+212612345678".
+ */
+function orderSearchCondition(q: string) {
+  const search = parseOrderSearch(q);
+  if (search.email) return sql`lower(${orders.customerEmail}) = ${search.email}`;
+
+  const contains = (term: string) => `%${term.replace(/[\\%_]/g, '\\$&')}%`;
+  const matches = [
+    sql`${orders.orderNumber} LIKE ${contains(normalizeOrderNumber(search.text))} ESCAPE '\\'`,
+    sql`${orders.customerName} LIKE ${contains(search.text)} ESCAPE '\\'`,
+    sql`${orders.customerEmail} LIKE ${contains(search.text)} ESCAPE '\\'`,
+    sql`${orders.customerPhone} LIKE ${contains(search.text)} ESCAPE '\\'`,
+  ];
+  if (search.phoneDigits) {
+    const digitsOnly = sql`replace(replace(replace(replace(replace(replace(${orders.customerPhone}, ' ', ''), '-', ''), '.', ''), '(', ''), ')', ''), '+', '')`;
+    matches.push(sql`${digitsOnly} LIKE ${contains(search.phoneDigits)}`);
+  }
+  return or(...matches);
+}
+
+/** Totals echoed back to the storefront after checkout */
+function pricingSummary(p: PricedCheckout) {
+  return {
+    subtotal: p.subtotal,
+    discountTotal: p.discountTotal,
+    shippingTotal: p.shippingTotal,
+    taxTotal: p.taxTotal,
+    pricesIncludeTax: p.pricesIncludeTax,
+    total: p.total,
+  };
+}
+
+function deliveryEstimate(
+  shipping: SelectedShipping
+): Stripe.Checkout.SessionCreateParams.ShippingOption.ShippingRateData.DeliveryEstimate | undefined {
+  if (shipping.minDeliveryDays === null && shipping.maxDeliveryDays === null) return undefined;
+  return {
+    minimum: shipping.minDeliveryDays !== null ? { unit: 'business_day', value: shipping.minDeliveryDays } : undefined,
+    maximum: shipping.maxDeliveryDays !== null ? { unit: 'business_day', value: shipping.maxDeliveryDays } : undefined,
+  };
+}
@@ -1,8 +1,8 @@
 // apps/api/src/routes/products.ts
 import { Hono } from 'hono';
 import { eq, and, like, desc, sql } from 'drizzle-orm';
-import { createDb, products, productImages, productCategories, categories } from '@repo/db';
-import { createProductSchema, updateProductSchema } from '@repo/shared/schemas';
+import { createDb, products, productImages, productCategories, categories, productPrices } from '@repo/db';
+import { createProductSchema, updateProductSchema, productPricesSchema } from '@repo/shared/schemas';
 import { PLAN_LIMITS } from '@repo/shared/types';
 import { requireAuth } from '../middleware/auth.js';
 import { resolveTenant } from '../middleware/tenant.js';
@@ -251,3 +251,58 @@ productRoutes.delete('/dashboard/products/:id', requireAuth(), resolveTenant(),
 
   return c.json({ success: true });
 });
+
+// ─── Dashboard: GET /dashboard/products/:id/prices ───────────
+// Per-currency prices; currencies without one are converted from the product's price at checkout
+productRoutes.get('/dashboard/products/:id/prices', requireAuth(), resolveTenant(), async (c) => {
+  const db = createDb(c.env.DB);
+  const tenantId = c.get('tenantId');
+  const { id } = c.req.param();
+
+  const existing = await db.query.products.findFirst({
+    where: and(eq(products.id, id), eq(products.tenantId, tenantId)),
+  });
+  if (!existing) return c.json({ error: 'Product not found' }, 404);
+
+  const prices = await db.query.productPrices.findMany({
+    where: and(eq(productPrices.productId, id), eq(productPrices.tenantId, tenantId)),
+  });
+  return c.json({ currency: existing.currency, price: existing.price, salePrice: existing.salePrice, prices });
+});
+
+// ─── Dashboard: PUT /dashboard/products/:id/prices ───────────
+productRoutes.put('/dashboard/products/:id/prices', requireAuth(), resolveTenant(), requireRole(['owner', 'admin']), async (c) => {
+  const db = createDb(c.env.DB);
+  const tenantId = c.get('tenantId');
+  const { id } = c.req.param();
+
+  const existing = await db.query.products.findFirst({
+    where: and(eq(products.id, id), eq(products.tenantId, tenantId)),
+  });
+  if (!existing) return c.json({ error: 'Product not found' }, 404);
+
+  const body = await c.req.json().catch(() => null);
+  const parsed = productPricesSchema.safeParse(body);
+  if (!parsed.success) return c.json({ error: 'Validation failed', issues: parsed.error.issues }, 400);
+
+  // The product's own currency is priced by the product itself
+  if (parsed.data.prices.some(p => p.currency === existing.currency)) {
+    return c.json({ error: `Edit the product price to change its ${existing.currency} price` }, 422);
+  }
+
+  await db.delete(productPrices).where(and(eq(productPrices.productId, id), eq(productPrices.tenantId, tenantId)));
+  if (parsed.data.prices.length > 0) {
+    await db.insert(productPrices).values(
+      parsed.data.prices.map(p => ({
+        id: crypto.randomUUID(),
+        tenantId,
+        productId: id,
+        currency: p.currency,
+        price: p.price,
+        salePrice: p.salePrice ?? null,
+      }))
+    );
+  }
+
+  return c.json({ success: true });
+});
@@ -0,0 +1,393 @@
+// apps/api/src/routes/returns.ts
+//
+// Returns / RMA (mounted at /dashboard/returns):
+//   GET  /             — Return requests, newest first (?status=, ?orderId=)
+//   GET  /:id          — Return + items + order summary
+//   POST /             — Open a return for a customer; may bypass the window (RBAC: owner|admin|staff)
+//   POST /:id/approve  — requested → approved, optionally switching refund/exchange (RBAC: owner|admin)
+//   POST /:id/reject   — requested → rejected (RBAC: owner|admin)
+//   POST /:id/receive  — approved → received; restocks products.stock (RBAC: owner|admin|staff)
+//   POST /:id/resolve  — received → completed: issues the refund or the exchange order (RBAC: owner|admin)
+// Customers open returns from the storefront — POST /store/orders/:id/returns (routes/orders.ts).
+
+import { Hono } from 'hono';
+import { eq, and, desc, inArray, sql } from 'drizzle-orm';
+import { createDb, orders, orderItems, returns, returnItems, auditLogs } from '@repo/db';
+import type { Database, OrderReturn } from '@repo/db';
+import {
+  createDashboardReturnSchema,
+  reviewReturnSchema,
+  receiveReturnSchema,
+  returnListQuerySchema,
+} from '@repo/shared/schemas';
+import { canTransitionReturn, RETURN_TRANSITIONS } from '@repo/shared/returns';
+import type { ReturnStatus } from '@repo/shared/returns';
+import { requireAuth } from '../middleware/auth.js';
+import { resolveTenant } from '../middleware/tenant.js';
+import { requireRole } from '../middleware/rbac.js';
+import { idempotency } from '../middleware/idempotency.js';
+import { openReturn, createExchangeOrder } from '../lib/returns.js';
+import { settleReturnedStock } from '../lib/stock.js';
+import { createRefund } from '../lib/refunds.js';
+import type { AppContext } from '../index.js';
+
+export const returnRoutes = new Hono<AppContext>();
+
+// ─── GET /dashboard/returns ───────────────────────────────────
+returnRoutes.get('/', requireAuth(), resolveTenant(), async (c) => {
+  const db = createDb(c.env.DB);
+  const tenantId = c.get('tenantId');
+
+  const parsed = returnListQuerySchema.safeParse(c.req.query());
+  if (!parsed.success) {
+    return c.json({ error: 'Validation failed', issues: parsed.error.issues }, 400);
+  }
+  const query = parsed.data;
+
+  const conditions = [eq(returns.tenantId, tenantId)];
+  if (query.status) conditions.push(eq(returns.status, query.status));
+  if (query.orderId) conditions.push(eq(returns.orderId, query.orderId));
+
+  const [list, countResult] = await Promise.all([
+    db.query.returns.findMany({
+      where: and(...conditions),
+      orderBy: [desc(returns.createdAt), desc(returns.id)],
+      limit: query.limit,
+      offset: (query.page - 1) * query.limit,
+    }),
+    db.select({ count: sql<number>`count(*)` })
+      .from(returns)
+      .where(and(...conditions)),
+  ]);
+
+  const orderRows = list.length > 0
+    ? await db.select({ id: orders.id, orderNumber: orders.orderNumber, customerName: orders.customerName })
+        .from(orders)
+        .where(inArray(orders.id, [...new Set(list.map(r => r.orderId))]))
+    : [];
+  const orderById = new Map(orderRows.map(o => [o.id, o]));
+
+  return c.json({
+    data: list.map(r => ({
+      ...r,
+      orderNumber: orderById.get(r.orderId)?.orderNumber ?? null,
+      customerName: orderById.get(r.orderId)?.customerName ?? null,
+    })),
+    total: countResult[0]?.count ?? 0,
+    page: query.page,
+    pageSize: query.limit,
+  });
+});
+
+// ─── GET /dashboard/returns/:id ───────────────────────────────
+returnRoutes.get('/:id', requireAuth(), resolveTenant(), async (c) => {
+  const db = createDb(c.env.DB);
+  const tenantId = c.get('tenantId');
+  const { id } = c.req.param();
+
+  const orderReturn = await findReturn(db, tenantId, id);
+  if (!orderReturn) return c.json({ error: 'Return not found' }, 404);
+
+  const [items, order, lines] = await Promise.all([
+    db.query.returnItems.findMany({ where: eq(returnItems.returnId, id) }),
+    db.query.orders.findFirst({
+      where: eq(orders.id, orderReturn.orderId),
+      columns: {
+        id: true, orderNumber: true, status: true, paymentMethod: true, paymentStatus: true,
+        customerName: true, customerEmail: true, customerPhone: true, currency: true, total: true, refundedTotal: true,
+      },
+    }),
+    db.query.orderItems.findMany({ where: eq(orderItems.orderId, orderReturn.orderId) }),
+  ]);
+
+  return c.json({
+    ...orderReturn,
+    items: items.map(i => {
+      const line = lines.find(l => l.id === i.orderItemId);
+      return { ...i, title: line?.titleSnapshot ?? null, unitPrice: line?.priceSnapshot ?? null };
+    }),
+    order,
+    allowedTransitions: RETURN_TRANSITIONS[orderReturn.status],
+  });
+});
+
+// ─── POST /dashboard/returns ──────────────────────────────────
+returnRoutes.post(
+  '/',
+  requireAuth(),
+  resolveTenant(),
+  requireRole(['owner', 'admin', 'staff']),
+  idempotency(),
+  async (c) => {
+    const db = createDb(c.env.DB);
+    const tenantId = c.get('tenantId');
+    const userId = c.get('userId');
+
+    const body = await c.req.json().catch(() => null);
+    const parsed = createDashboardReturnSchema.safeParse(body);
+    if (!parsed.success) {
+      return c.json({ error: 'Validation failed', issues: parsed.error.issues }, 400);
+    }
+
+    const order = await db.query.orders.findFirst({
+      where: and(eq(orders.id, parsed.data.orderId), eq(orders.tenantId, tenantId)),
+    });
+    if (!order) return c.json({ error: 'Order not found' }, 404);
+
+    const opened = await openReturn(db, order, parsed.data, { source: 'dashboard', actorUserId: userId });
+    if (!opened.ok) return c.json(opened.body, opened.status);
+
+    await db.insert(auditLogs).values({
+      id: crypto.randomUUID(),
+      tenantId,
+      actorUserId: userId,
+      action: 'return.requested',
+      metaJson: JSON.stringify({
+        returnId: opened.orderReturn.id,
+        rmaNumber: opened.orderReturn.rmaNumber,
+        orderId: order.id,
+        resolution: opened.orderReturn.resolution,
+        source: 'dashboard',
+        outsideWindow: opened.outsideWindow,
+      }),
+    });
+
+    return c.json({ ...opened.orderReturn, items: opened.items, outsideWindow: opened.outsideWindow }, 201);
+  }
+);
+
+// ─── POST /dashboard/returns/:id/approve | reject ─────────────
+for (const decision of ['approve', 'reject'] as const) {
+  returnRoutes.post(
+    `/:id/${decision}`,
+    requireAuth(),
+    resolveTenant(),
+    requireRole(['owner', 'admin']),
+    idempotency(),
+    async (c) => {
+      const db = createDb(c.env.DB);
+      const tenantId = c.get('tenantId');
+      const userId = c.get('userId');
+      const { id } = c.req.param();
+
+      const body = await c.req.json().catch(() => ({}));
+      const parsed = reviewReturnSchema.safeParse(body ?? {});
+      if (!parsed.success) {
+        return c.json({ error: 'Validation failed', issues: parsed.error.issues }, 400);
+      }
+
+      const orderReturn = await findReturn(db, tenantId, id);
+      if (!orderReturn) return c.json({ error: 'Return not found' }, 404);
+
+      const to: ReturnStatus = decision === 'approve' ? 'approved' : 'rejected';
+      const invalid = checkTransition(orderReturn, to);
+      if (invalid) return c.json(invalid, 422);
+
+      const resolution = decision === 'approve' ? parsed.data.resolution ?? orderReturn.resolution : orderReturn.resolution;
+      const claimed = await claimReturn(db, orderReturn, to, {
+        resolution,
+        merchantNote: parsed.data.note ?? orderReturn.merchantNote,
+        ...(to === 'approved' ? { approvedAt: new Date().toISOString() } : {}),
+      });
+      if (!claimed) return c.json(CONFLICT, 409);
+
+      await db.insert(auditLogs).values({
+        id: crypto.randomUUID(),
+        tenantId,
+        actorUserId: userId,
+        action: `return.${to}`,
+        metaJson: JSON.stringify({ returnId: id, rmaNumber: orderReturn.rmaNumber, orderId: orderReturn.orderId, resolution }),
+      });
+
+      return c.json(claimed);
+    }
+  );
+}
+
+// ─── POST /dashboard/returns/:id/receive ──────────────────────
+// Body: {} = restock every unit | { restock: false } = write everything off |
+// { items: [{ returnItemId, restockQty }] } — lines not listed follow `restock`
+returnRoutes.post(
+  '/:id/receive',
+  requireAuth(),
+  resolveTenant(),
+  requireRole(['owner', 'admin', 'staff']),
+  idempotency(),
+  async (c) => {
+    const db = createDb(c.env.DB);
+    const tenantId = c.get('tenantId');
+    const userId = c.get('userId');
+    const { id } = c.req.param();
+
+    const body = await c.req.json().catch(() => ({}));
+    const parsed = receiveReturnSchema.safeParse(body ?? {});
+    if (!parsed.success) {
+      return c.json({ error: 'Validation failed', issues: parsed.error.issues }, 400);
+    }
+
+    const orderReturn = await findReturn(db, tenantId, id);
+    if (!orderReturn) return c.json({ error: 'Return not found' }, 404);
+
+    const invalid = checkTransition(orderReturn, 'received');
+    if (invalid) return c.json(invalid, 422);
+
+    const items = await db.query.returnItems.findMany({ where: eq(returnItems.returnId, id) });
+    const restockQty = new Map(items.map(i => [i.id, parsed.data.restock ? i.qty : 0]));
+    for (const line of parsed.data.items ?? []) {
+      const item = items.find(i => i.id === line.returnItemId);
+      if (!item) return c.json({ error: `Return item ${line.returnItemId} not found` }, 400);
+      if (line.restockQty > item.qty) {
+        return c.json({ error: `Cannot restock more than the ${item.qty} returned` }, 422);
+      }
+      restockQty.set(item.id, line.restockQty);
+    }
+
+    const claimed = await claimReturn(db, orderReturn, 'received', {
+      receivedAt: new Date().toISOString(),
+      merchantNote: parsed.data.note ?? orderReturn.merchantNote,
+    });
+    if (!claimed) return c.json(CONFLICT, 409);
+
+    // Restocked units go back on the shelf; the rest are written off. Either way
+    // they leave the order's committed stock so a later full refund skips them.
+    const restocked: Record<string, number> = {};
+    for (const item of items) {
+      if (!item.productId) continue;  // product deleted since the order
+      const qty = restockQty.get(item.id) ?? 0;
+      const settled = await settleReturnedStock(db, orderReturn.orderId, [
+        { productId: item.productId, qty, restock: true },
+        { productId: item.productId, qty: item.qty - qty, restock: false },
+      ].filter(l => l.qty > 0));
+      const back = settled.get(item.productId) ?? 0;
+      restocked[item.id] = back;
+      if (back > 0) {
+        await db.update(returnItems).set({ restockedQty: back }).where(eq(returnItems.id, item.id));
+      }
+    }
+
+    await db.insert(auditLogs).values({
+      id: crypto.randomUUID(),
+      tenantId,
+      actorUserId: userId,
+      action: 'return.received',
+      metaJson: JSON.stringify({ returnId: id, rmaNumber: orderReturn.rmaNumber, orderId: orderReturn.orderId, restocked }),
+    });
+
+    return c.json({ ...claimed, restocked });
+  }
+);
+
+// ─── POST /dashboard/returns/:id/resolve ──────────────────────
+// refund   → refunds the returned lines (lib/refunds.ts — Stripe or cash)
+// exchange → creates a no-charge COD order with the replacements
+// The return is claimed first, and put back to `received` if the refund or
+// exchange fails, so a double click never pays out twice.
+returnRoutes.post(
+  '/:id/resolve',
+  requireAuth(),
+  resolveTenant(),
+  requireRole(['owner', 'admin']),
+  idempotency(),
+  async (c) => {
+    const db = createDb(c.env.DB);
+    const tenantId = c.get('tenantId');
+    const userId = c.get('userId');
+    const { id } = c.req.param();
+
+    const orderReturn = await findReturn(db, tenantId, id);
+    if (!orderReturn) return c.json({ error: 'Return not found' }, 404);
+
+    const invalid = checkTransition(orderReturn, 'completed');
+    if (invalid) return c.json(invalid, 422);
+
+    const [order, items] = await Promise.all([
+      db.query.orders.findFirst({ where: and(eq(orders.id, orderReturn.orderId), eq(orders.tenantId, tenantId)) }),
+      db.query.returnItems.findMany({ where: eq(returnItems.returnId, id) }),
+    ]);
+    if (!order) return c.json({ error: 'Order not found' }, 404);
+
+    const claimed = await claimReturn(db, orderReturn, 'completed', { completedAt: new Date().toISOString() });
+    if (!claimed) return c.json(CONFLICT, 409);
+
+    let outcome: { refundId: string } | { exchangeOrderId: string; exchangeOrderNumber: string };
+    if (orderReturn.resolution === 'refund') {
+      const refunded = await createRefund(db, c.env.STRIPE_SECRET_KEY, { tenantId, userId }, order, {
+        items: items.map(i => ({ orderItemId: i.orderItemId, qty: i.qty })),
+        reason: 'requested_by_customer',
+        note: `Return ${orderReturn.rmaNumber}`,
+      });
+      if (!refunded.ok) {
+        await reopen(db, orderReturn);
+        return c.json(refunded.body, refunded.status);
+      }
+      outcome = { refundId: refunded.refund.id };
+    } else {
+      const exchange = await createExchangeOrder(db, order, orderReturn, items, userId);
+      if (!exchange.ok) {
+        await reopen(db, orderReturn);
+        return c.json(exchange.body, exchange.status);
+      }
+      outcome = { exchangeOrderId: exchange.orderId, exchangeOrderNumber: exchange.orderNumber };
+    }
+
+    await db.update(returns)
+      .set('refundId' in outcome ? { refundId: outcome.refundId } : { exchangeOrderId: outcome.exchangeOrderId })
+      .where(eq(returns.id, id));
+
+    await db.insert(auditLogs).values({
+      id: crypto.randomUUID(),
+      tenantId,
+      actorUserId: userId,
+      action: 'return.completed',
+      metaJson: JSON.stringify({
+        returnId: id,
+        rmaNumber: orderReturn.rmaNumber,
+        orderId: order.id,
+        resolution: orderReturn.resolution,
+        ...outcome,
+      }),
+    });
+
+    const completed = await findReturn(db, tenantId, id);
+    return c.json({ ...completed, ...outcome });
+  }
+);
+
+// ─── Helpers ──────────────────────────────────────────────────
+
+const CONFLICT = { error: 'Return changed concurrently, reload and retry', code: 'CONFLICT' };
+
+function findReturn(db: Database, tenantId: string, id: string) {
+  return db.query.returns.findFirst({
+    where: and(eq(returns.id, id), eq(returns.tenantId, tenantId)),
+  });
+}
+
+function checkTransition(orderReturn: OrderReturn, to: ReturnStatus) {
+  if (canTransitionReturn(orderReturn.status, to)) return null;
+  return {
+    error: `Cannot move a ${orderReturn.status} return to ${to}`,
+    code: 'INVALID_TRANSITION',
+    allowed: RETURN_TRANSITIONS[orderReturn.status],
+  };
+}
+
+/** Status-guarded update — null when another request moved the return first */
+async function claimReturn(
+  db: Database,
+  orderReturn: OrderReturn,
+  to: ReturnStatus,
+  set: Partial<Omit<OrderReturn, 'id' | 'tenantId' | 'status'>>
+): Promise<OrderReturn | null> {
+  const [updated] = await db.update(returns)
+    .set({ ...set, status: to })
+    .where(and(eq(returns.id, orderReturn.id), eq(returns.status, orderReturn.status)))
+    .returning();
+  return updated ?? null;
+}
+
+function reopen(db: Database, orderReturn: OrderReturn) {
+  return db.update(returns)
+    .set({ status: orderReturn.status, completedAt: null })
+    .where(eq(returns.id, orderReturn.id));
+}
@@ -0,0 +1,199 @@
+// apps/api/src/routes/shipments.ts
+//
+// Shipments (mounted at /dashboard/shipments):
+//   GET  /             — Shipments, newest first (?status=, ?orderId=, ?carrier=)
+//   GET  /carriers     — Carriers available to book with (plus `manual`)
+//   POST /             — Book a parcel with a carrier, or record a manual tracking number;
+//                        moves the order to shipped (RBAC: owner|admin|staff)
+//   POST /sync         — Poll carriers for the open shipments checked longest ago (RBAC: owner|admin|staff)
+//   GET  /:id          — Shipment + tracking events, oldest first
+//   GET  /:id/label    — Carrier label (PDF)
+//   POST /:id/refresh  — Poll the carrier for this shipment now
+// Carriers push tracking to POST /carriers/:carrier/webhook (routes/carrierWebhooks.ts).
+
+import { Hono } from 'hono';
+import { eq, and, asc, desc, sql } from 'drizzle-orm';
+import { createDb, orders, shipments, shipmentEvents } from '@repo/db';
+import { createShipmentSchema, shipmentListQuerySchema } from '@repo/shared/schemas';
+import { MANUAL_CARRIER } from '@repo/shared/shipments';
+import { requireAuth } from '../middleware/auth.js';
+import { resolveTenant } from '../middleware/tenant.js';
+import { requireRole } from '../middleware/rbac.js';
+import { idempotency } from '../middleware/idempotency.js';
+import { availableCarriers, getCarrier } from '../lib/carriers.js';
+import { createOrderShipment, pollShipment, pollOpenShipments } from '../lib/shipments.js';
+import type { AppContext } from '../index.js';
+
+export const shipmentRoutes = new Hono<AppContext>();
+
+/** Shipments polled per sync request — keeps the Worker within its subrequest budget */
+const SYNC_BATCH = 20;
+
+// ─── GET /dashboard/shipments ─────────────────────────────────
+shipmentRoutes.get('/', requireAuth(), resolveTenant(), async (c) => {
+  const db = createDb(c.env.DB);
+  const tenantId = c.get('tenantId');
+
+  const parsed = shipmentListQuerySchema.safeParse(c.req.query());
+  if (!parsed.success) {
+    return c.json({ error: 'Validation failed', issues: parsed.error.issues }, 400);
+  }
+  const query = parsed.data;
+
+  const conditions = [eq(shipments.tenantId, tenantId)];
+  if (query.status) conditions.push(eq(shipments.status, query.status));
+  if (query.orderId) conditions.push(eq(shipments.orderId, query.orderId));
+  if (query.carrier) conditions.push(eq(shipments.carrier, query.carrier));
+
+  const [list, countResult] = await Promise.all([
+    db.select({ shipment: shipments, orderNumber: orders.orderNumber })
+      .from(shipments)
+      .innerJoin(orders, eq(orders.id, shipments.orderId))
+      .where(and(...conditions))
+      .orderBy(desc(shipments.createdAt), desc(shipments.id))
+      .limit(query.limit)
+      .offset((query.page - 1) * query.limit),
+    db.select({ count: sql<number>`count(*)` })
+      .from(shipments)
+      .where(and(...conditions)),
+  ]);
+
+  return c.json({
+    data: list.map(({ shipment, orderNumber }) => ({ ...shipment, orderNumber })),
+    total: countResult[0]?.count ?? 0,
+    page: query.page,
+    pageSize: query.limit,
+  });
+});
+
+// ─── GET /dashboard/shipments/carriers ────────────────────────
+// Registered before /:id so the path is not read as an id.
+shipmentRoutes.get('/carriers', requireAuth(), resolveTenant(), (c) => {
+  return c.json({
+    data: [
+      ...availableCarriers(c.env),
+      { id: MANUAL_CARRIER, name: 'Other carrier (tracking number entered by hand)' },
+    ],
+  });
+});
+
+// ─── POST /dashboard/shipments ────────────────────────────────
+shipmentRoutes.post(
+  '/',
+  requireAuth(),
+  resolveTenant(),
+  requireRole(['owner', 'admin', 'staff']),
+  idempotency(),
+  async (c) => {
+    const db = createDb(c.env.DB);
+    const tenantId = c.get('tenantId');
+
+    const body = await c.req.json().catch(() => null);
+    const parsed = createShipmentSchema.safeParse(body);
+    if (!parsed.success) {
+      return c.json({ error: 'Validation failed', issues: parsed.error.issues }, 400);
+    }
+
+    const result = await createOrderShipment(
+      db,
+      c.env,
+      { tenantId, userId: c.get('userId'), role: c.get('role') },
+      parsed.data
+    );
+    if (!result.ok) return c.json(result.body, result.status);
+
+    return c.json({ ...result.shipment, orderUpdated: result.orderUpdated }, 201);
+  }
+);
+
+// ─── POST /dashboard/shipments/sync ───────────────────────────
+// Call again while `checked` equals the batch size to work through a backlog.
+shipmentRoutes.post(
+  '/sync',
+  requireAuth(),
+  resolveTenant(),
+  requireRole(['owner', 'admin', 'staff']),
+  async (c) => {
+    const db = createDb(c.env.DB);
+    const tenantId = c.get('tenantId');
+
+    const result = await pollOpenShipments(db, c.env, tenantId, SYNC_BATCH);
+    return c.json(result);
+  }
+);
+
+// ─── GET /dashboard/shipments/:id ─────────────────────────────
+shipmentRoutes.get('/:id', requireAuth(), resolveTenant(), async (c) => {
+  const db = createDb(c.env.DB);
+  const tenantId = c.get('tenantId');
+  const { id } = c.req.param();
+
+  const shipment = await db.query.shipments.findFirst({
+    where: and(eq(shipments.id, id), eq(shipments.tenantId, tenantId)),
+  });
+  if (!shipment) return c.json({ error: 'Shipment not found' }, 404);
+
+  const events = await db.query.shipmentEvents.findMany({
+    where: eq(shipmentEvents.shipmentId, id),
+    orderBy: [asc(shipmentEvents.occurredAt)],
+  });
+  return c.json({ ...shipment, events });
+});
+
+// ─── GET /dashboard/shipments/:id/label ───────────────────────
+shipmentRoutes.get('/:id/label', requireAuth(), resolveTenant(), async (c) => {
+  const db = createDb(c.env.DB);
+  const tenantId = c.get('tenantId');
+  const { id } = c.req.param();
+
+  const shipment = await db.query.shipments.findFirst({
+    where: and(eq(shipments.id, id), eq(shipments.tenantId, tenantId)),
+  });
+  if (!shipment) return c.json({ error: 'Shipment not found' }, 404);
+
+  const adapter = getCarrier(shipment.carrier, c.env);
+  if (!adapter) {
+    return c.json({ error: 'This carrier provides no label', code: 'NO_LABEL' }, 422);
+  }
+
+  const order = await db.query.orders.findFirst({
+    where: and(eq(orders.id, shipment.orderId), eq(orders.tenantId, tenantId)),
+  });
+  if (!order) return c.json({ error: 'Order not found' }, 404);
+
+  const label = await adapter.getLabel(shipment, order);
+  const bytes = label.body.buffer.slice(label.body.byteOffset, label.body.byteOffset + label.body.byteLength) as ArrayBuffer;
+  return c.body(bytes, 200, {
+    'Content-Type': label.contentType,
+    'Content-Disposition': `inline; filename="label-${shipment.trackingNumber}.pdf"`,
+    'Cache-Control': 'no-store',
+  });
+});
+
+// ─── POST /dashboard/shipments/:id/refresh ────────────────────
+shipmentRoutes.post(
+  '/:id/refresh',
+  requireAuth(),
+  resolveTenant(),
+  requireRole(['owner', 'admin', 'staff']),
+  async (c) => {
+    const db = createDb(c.env.DB);
+    const tenantId = c.get('tenantId');
+    const { id } = c.req.param();
+
+    const shipment = await db.query.shipments.findFirst({
+      where: and(eq(shipments.id, id), eq(shipments.tenantId, tenantId)),
+    });
+    if (!shipment) return c.json({ error: 'Shipment not found' }, 404);
+    if (shipment.carrier === MANUAL_CARRIER) {
+      return c.json({ error: 'Manual shipments have no carrier to ask', code: 'MANUAL_SHIPMENT' }, 422);
+    }
+
+    try {
+      const updated = await pollShipment(db, c.env, shipment);
+      return c.json(updated);
+    } catch (err) {
+      return c.json({ error: 'The carrier could not be reached', code: 'CARRIER_ERROR', detail: String(err) }, 502);
+    }
+  }
+);
@@ -0,0 +1,263 @@
+// apps/api/src/routes/shipping.ts
+//
+// Mounted at /store/shipping (quote) and /dashboard/shipping (zone/rate CRUD).
+// The rate picked from a quote is sent back as `shipping` at checkout and
+// re-priced there — see routes/orders.ts.
+
+import { Hono } from 'hono';
+import { eq, and, desc, inArray } from 'drizzle-orm';
+import { createDb, shippingZones, shippingRates, products } from '@repo/db';
+import type { NewShippingZone, NewShippingRate } from '@repo/db';
+import {
+  createShippingZoneSchema,
+  updateShippingZoneSchema,
+  createShippingRateSchema,
+  updateShippingRateSchema,
+  shippingQuoteSchema,
+} from '@repo/shared/schemas';
+import type { UpdateShippingZoneInput, UpdateShippingRateInput } from '@repo/shared/schemas';
+import { matchShippingZone } from '@repo/shared/shipping';
+import type { ShippingRateType } from '@repo/shared/shipping';
+import { sumMoney, toMinor } from '@repo/shared/money';
+import { requireAuth } from '../middleware/auth.js';
+import { resolveTenant } from '../middleware/tenant.js';
+import { requireRole } from '../middleware/rbac.js';
+import { publicApiRateLimit } from '../middleware/rateLimit.js';
+import { loadShippingZones, priceZoneRates, cartWeight, toZoneRule, toRateRule, SHIPPING_ERRORS } from '../lib/shipping.js';
+import { checkoutCurrency, loadPriceOverrides, unitPrice, CURRENCY_ERRORS } from '../lib/currencies.js';
+import type { AppContext } from '../index.js';
+
+export const shippingRoutes = new Hono<AppContext>();
+
+// ─── POST /store/shipping/quote ───────────────────────────────
+// Public — rates available for a cart + destination, cheapest first.
+// Discount codes are not applied here; a free-shipping code zeroes the rate at checkout.
+// Amounts are in ?currency (default: the store's base currency), as checkout will charge them.
+shippingRoutes.post('/quote', publicApiRateLimit, resolveTenant(), async (c) => {
+  const db = createDb(c.env.DB);
+  const tenantId = c.get('tenantId');
+  const body = await c.req.json().catch(() => null);
+  const parsed = shippingQuoteSchema.safeParse(body);
+  if (!parsed.success) return c.json({ error: 'Validation failed', issues: parsed.error.issues }, 400);
+
+  const { items, country, region, city, paymentMethod } = parsed.data;
+
+  const fx = await checkoutCurrency(db, tenantId, parsed.data.currency);
+  if (!fx.ok) return c.json({ error: fx.error, code: fx.code }, 422);
+  const overrides = await loadPriceOverrides(db, tenantId, fx.context.currency, items.map(i => i.productId));
+
+  const found = await db.query.products.findMany({
+    where: and(
+      eq(products.tenantId, tenantId),
+      eq(products.status, 'active'),
+      inArray(products.id, items.map(i => i.productId))
+    ),
+  });
+  const byId = new Map(found.map(p => [p.id, p]));
+
+  const lines: { price: number; qty: number; weightGrams: number | null }[] = [];
+  for (const item of items) {
+    const product = byId.get(item.productId);
+    if (!product) return c.json({ error: `المنتج غير متاح: ${item.productId}` }, 400);
+    const price = unitPrice(product, overrides.get(product.id), fx.context);
+    if (price === null) {
+      return c.json({ error: `${CURRENCY_ERRORS.PRICE_UNAVAILABLE}: ${product.title}`, code: 'PRICE_UNAVAILABLE' }, 422);
+    }
+    lines.push({ price, qty: item.qty, weightGrams: product.weightGrams });
+  }
+
+  const zones = await loadShippingZones(db, tenantId);
+  if (zones.length === 0) return c.json({ zone: null, rates: [], currency: fx.context.currency });
+
+  const zone = matchShippingZone(zones, { country, region, city });
+  if (!zone) return c.json({ error: SHIPPING_ERRORS.NO_ZONE, code: 'NO_ZONE' }, 422);
+
+  const rates = priceZoneRates(zone, {
+    subtotal: sumMoney(lines.map(l => l.price * l.qty)),
+    weightGrams: cartWeight(lines),
+    paymentMethod,
+    exchangeRate: fx.context.exchangeRate,
+  });
+
+  return c.json({ zone: { id: zone.id, name: zone.name }, rates, currency: fx.context.currency });
+});
+
+// ─── GET /dashboard/shipping/zones ────────────────────────────
+shippingRoutes.get('/zones', requireAuth(), resolveTenant(), async (c) => {
+  const db = createDb(c.env.DB);
+  const tenantId = c.get('tenantId');
+
+  const [zones, rates] = await Promise.all([
+    db.query.shippingZones.findMany({
+      where: eq(shippingZones.tenantId, tenantId),
+      orderBy: [desc(shippingZones.createdAt)],
+    }),
+    db.query.shippingRates.findMany({ where: eq(shippingRates.tenantId, tenantId) }),
+  ]);
+
+  return c.json({
+    data: zones.map(z => ({
+      ...serializeZone(z),
+      rates: rates.filter(r => r.zoneId === z.id).map(serializeRate),
+    })),
+  });
+});
+
+// ─── POST /dashboard/shipping/zones ───────────────────────────
+shippingRoutes.post('/zones', requireAuth(), resolveTenant(), requireRole(['owner', 'admin']), async (c) => {
+  const db = createDb(c.env.DB);
+  const tenantId = c.get('tenantId');
+  const body = await c.req.json().catch(() => null);
+  const parsed = createShippingZoneSchema.safeParse(body);
+  if (!parsed.success) return c.json({ error: 'Validation failed', issues: parsed.error.issues }, 400);
+
+  const id = crypto.randomUUID();
+  await db.insert(shippingZones).values({
+    ...zoneColumns(parsed.data),
+    id,
+    tenantId,
+    name: parsed.data.name,
+    countriesJson: JSON.stringify(parsed.data.countries),
+  });
+
+  const created = await db.query.shippingZones.findFirst({ where: eq(shippingZones.id, id) });
+  return c.json({ ...serializeZone(created!), rates: [] }, 201);
+});
+
+// ─── PATCH /dashboard/shipping/zones/:id ──────────────────────
+shippingRoutes.patch('/zones/:id', requireAuth(), resolveTenant(), requireRole(['owner', 'admin']), async (c) => {
+  const db = createDb(c.env.DB);
+  const tenantId = c.get('tenantId');
+  const { id } = c.req.param();
+
+  const body = await c.req.json().catch(() => null);
+  const parsed = updateShippingZoneSchema.safeParse(body);
+  if (!parsed.success) return c.json({ error: 'Validation failed', issues: parsed.error.issues }, 400);
+
+  const updates = zoneColumns(parsed.data);
+  if (Object.keys(updates).length > 0) {
+    const updated = await db.update(shippingZones)
+      .set(updates)
+      .where(and(eq(shippingZones.id, id), eq(shippingZones.tenantId, tenantId)))
+      .returning({ id: shippingZones.id });
+    if (updated.length === 0) return c.json({ error: 'Shipping zone not found' }, 404);
+  }
+  return c.json({ success: true });
+});
+
+// ─── DELETE /dashboard/shipping/zones/:id ─────────────────────
+// Rates cascade; past orders keep their shipping snapshot
+shippingRoutes.delete('/zones/:id', requireAuth(), resolveTenant(), requireRole(['owner', 'admin']), async (c) => {
+  const db = createDb(c.env.DB);
+  const tenantId = c.get('tenantId');
+  const { id } = c.req.param();
+  await db.delete(shippingZones).where(and(eq(shippingZones.id, id), eq(shippingZones.tenantId, tenantId)));
+  return c.json({ success: true });
+});
+
+// ─── POST /dashboard/shipping/zones/:id/rates ─────────────────
+shippingRoutes.post('/zones/:id/rates', requireAuth(), resolveTenant(), requireRole(['owner', 'admin']), async (c) => {
+  const db = createDb(c.env.DB);
+  const tenantId = c.get('tenantId');
+  const { id: zoneId } = c.req.param();
+
+  const zone = await db.query.shippingZones.findFirst({
+    where: and(eq(shippingZones.id, zoneId), eq(shippingZones.tenantId, tenantId)),
+  });
+  if (!zone) return c.json({ error: 'Shipping zone not found' }, 404);
+
+  const body = await c.req.json().catch(() => null);
+  const parsed = createShippingRateSchema.safeParse(body);
+  if (!parsed.success) return c.json({ error: 'Validation failed', issues: parsed.error.issues }, 400);
+
+  const id = crypto.randomUUID();
+  await db.insert(shippingRates).values({
+    ...rateColumns(parsed.data, parsed.data.type),
+    id,
+    tenantId,
+    zoneId,
+    name: parsed.data.name,
+  });
+
+  const created = await db.query.shippingRates.findFirst({ where: eq(shippingRates.id, id) });
+  return c.json(serializeRate(created!), 201);
+});
+
+// ─── PATCH /dashboard/shipping/rates/:id ──────────────────────
+shippingRoutes.patch('/rates/:id', requireAuth(), resolveTenant(), requireRole(['owner', 'admin']), async (c) => {
+  const db = createDb(c.env.DB);
+  const tenantId = c.get('tenantId');
+  const { id } = c.req.param();
+
+  const existing = await db.query.shippingRates.findFirst({
+    where: and(eq(shippingRates.id, id), eq(shippingRates.tenantId, tenantId)),
+  });
+  if (!existing) return c.json({ error: 'Shipping rate not found' }, 404);
+
+  const body = await c.req.json().catch(() => null);
+  const parsed = updateShippingRateSchema.safeParse(body);
+  if (!parsed.success) return c.json({ error: 'Validation failed', issues: parsed.error.issues }, 400);
+
+  // Re-check tier rules on the merged result
+  const merged = createShippingRateSchema.safeParse({ ...serializeRate(existing), ...parsed.data });
+  if (!merged.success) return c.json({ error: 'Validation failed', issues: merged.error.issues }, 400);
+
+  const updates = rateColumns(parsed.data, parsed.data.type ?? existing.type);
+  if (Object.keys(updates).length > 0) {
+    await db.update(shippingRates)
+      .set(updates)
+      .where(and(eq(shippingRates.id, id), eq(shippingRates.tenantId, tenantId)));
+  }
+  return c.json({ success: true });
+});
+
+// ─── DELETE /dashboard/shipping/rates/:id ─────────────────────
+shippingRoutes.delete('/rates/:id', requireAuth(), resolveTenant(), requireRole(['owner', 'admin']), async (c) => {
+  const db = createDb(c.env.DB);
+  const tenantId = c.get('tenantId');
+  const { id } = c.req.param();
+  await db.delete(shippingRates).where(and(eq(shippingRates.id, id), eq(shippingRates.tenantId, tenantId)));
+  return c.json({ success: true });
+});
+
+// ─── Helpers ──────────────────────────────────────────────────
+
+/** API shape → columns (lists are stored as JSON) */
+function zoneColumns(input: UpdateShippingZoneInput): Partial<NewShippingZone> {
+  const { countries, regions, ...rest } = input;
+  const columns: Partial<NewShippingZone> = { ...rest };
+  if (countries !== undefined) columns.countriesJson = JSON.stringify(countries);
+  if (regions !== undefined) columns.regionsJson = regions?.length ? JSON.stringify(regions) : null;
+  return columns;
+}
+
+/** Price tier bounds are order amounts and go to minor units like the rest; weight bounds stay grams */
+function rateColumns(input: UpdateShippingRateInput, type: ShippingRateType): Partial<NewShippingRate> {
+  const { tiers, ...rest } = input;
+  const columns: Partial<NewShippingRate> = { ...rest };
+  if (tiers !== undefined) {
+    const stored = type === 'price'
+      ? tiers?.map(t => ({ ...t, min: toMinor(t.min), max: t.max === null ? null : toMinor(t.max) }))
+      : tiers;
+    columns.tiersJson = stored?.length ? JSON.stringify(stored) : null;
+  }
+  return columns;
+}
+
+function serializeZone(row: typeof shippingZones.$inferSelect) {
+  const { countries, regions } = toZoneRule(row);
+  return {
+    id: row.id,
+    name: row.name,
+    countries,
+    regions,
+    freeShippingThreshold: row.freeShippingThreshold,
+    codSurcharge: row.codSurcharge,
+    isActive: row.isActive,
+    createdAt: row.createdAt,
+  };
+}
+
+function serializeRate(row: typeof shippingRates.$inferSelect) {
+  return { ...toRateRule(row), isActive: row.isActive, createdAt: row.createdAt };
+}
@@ -0,0 +1,86 @@
+// apps/api/src/routes/taxes.ts
+//
+// Dashboard CRUD for tax classes (mounted at /dashboard/tax-classes).
+// Tax itself is switched on per tenant via PATCH /tenants/:id/settings
+// (taxEnabled, pricesIncludeTax, taxShipping) and applied at checkout.
+
+import { Hono } from 'hono';
+import { eq, and, ne, desc } from 'drizzle-orm';
+import { createDb, taxClasses, products } from '@repo/db';
+import { createTaxClassSchema, updateTaxClassSchema } from '@repo/shared/schemas';
+import { requireAuth } from '../middleware/auth.js';
+import { resolveTenant } from '../middleware/tenant.js';
+import { requireRole } from '../middleware/rbac.js';
+import type { AppContext } from '../index.js';
+
+export const taxRoutes = new Hono<AppContext>();
+
+// ─── GET /dashboard/tax-classes ───────────────────────────────
+taxRoutes.get('/', requireAuth(), resolveTenant(), async (c) => {
+  const db = createDb(c.env.DB);
+  const tenantId = c.get('tenantId');
+  const list = await db.query.taxClasses.findMany({
+    where: eq(taxClasses.tenantId, tenantId),
+    orderBy: [desc(taxClasses.isDefault), desc(taxClasses.rate)],
+  });
+  return c.json({ data: list });
+});
+
+// ─── POST /dashboard/tax-classes ──────────────────────────────
+taxRoutes.post('/', requireAuth(), resolveTenant(), requireRole(['owner', 'admin']), async (c) => {
+  const db = createDb(c.env.DB);
+  const tenantId = c.get('tenantId');
+  const body = await c.req.json().catch(() => null);
+  const parsed = createTaxClassSchema.safeParse(body);
+  if (!parsed.success) return c.json({ error: 'Validation failed', issues: parsed.error.issues }, 400);
+
+  const id = crypto.randomUUID();
+  await db.insert(taxClasses).values({ id, tenantId, ...parsed.data });
+  if (parsed.data.isDefault) await clearOtherDefaults(db, tenantId, id);
+
+  return c.json({ id, tenantId, ...parsed.data }, 201);
+});
+
+// ─── PATCH /dashboard/tax-classes/:id ─────────────────────────
+taxRoutes.patch('/:id', requireAuth(), resolveTenant(), requireRole(['owner', 'admin']), async (c) => {
+  const db = createDb(c.env.DB);
+  const tenantId = c.get('tenantId');
+  const { id } = c.req.param();
+  const body = await c.req.json().catch(() => null);
+  const parsed = updateTaxClassSchema.safeParse(body);
+  if (!parsed.success) return c.json({ error: 'Validation failed', issues: parsed.error.issues }, 400);
+
+  if (Object.keys(parsed.data).length > 0) {
+    const updated = await db.update(taxClasses)
+      .set(parsed.data)
+      .where(and(eq(taxClasses.id, id), eq(taxClasses.tenantId, tenantId)))
+      .returning({ id: taxClasses.id });
+    if (updated.length === 0) return c.json({ error: 'Tax class not found' }, 404);
+  }
+  if (parsed.data.isDefault) await clearOtherDefaults(db, tenantId, id);
+
+  return c.json({ success: true });
+});
+
+// ─── DELETE /dashboard/tax-classes/:id ────────────────────────
+// Products using the class fall back to the default class
+taxRoutes.delete('/:id', requireAuth(), resolveTenant(), requireRole(['owner', 'admin']), async (c) => {
+  const db = createDb(c.env.DB);
+  const tenantId = c.get('tenantId');
+  const { id } = c.req.param();
+
+  await db.update(products)
+    .set({ taxClassId: null })
+    .where(and(eq(products.tenantId, tenantId), eq(products.taxClassId, id)));
+  await db.delete(taxClasses).where(and(eq(taxClasses.id, id), eq(taxClasses.tenantId, tenantId)));
+  return c.json({ success: true });
+});
+
+// ─── Helpers ──────────────────────────────────────────────────
+
+/** Only one default class per tenant */
+async function clearOtherDefaults(db: ReturnType<typeof createDb>, tenantId: string, keepId: string) {
+  await db.update(taxClasses)
+    .set({ isDefault: false })
+    .where(and(eq(taxClasses.tenantId, tenantId), ne(taxClasses.id, keepId)));
+}
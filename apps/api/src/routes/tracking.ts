@@ -0,0 +1,91 @@
+// apps/api/src/routes/tracking.ts
+//
+// Public shipment tracking (mounted at /store/track):
+//   GET / — ?orderNumber= plus ?email= or ?phone= used at checkout →
+//           order timeline, carrier, tracking number and expected delivery
+// Returns codes and timestamps only; the storefront localizes them
+// (apps/web/src/pages/store/track.astro). No customer details or amounts.
+
+import { Hono } from 'hono';
+import { eq, and, asc, desc, inArray, ne } from 'drizzle-orm';
+import { createDb, tenants, orders, shipments, shipmentEvents } from '@repo/db';
+import type { ShipmentEvent } from '@repo/db';
+import { trackOrderQuerySchema } from '@repo/shared/schemas';
+import { normalizeOrderNumber } from '@repo/shared/orders';
+import { normalizeEmail, normalizePhone } from '@repo/shared/fraud';
+import { resolveTenant } from '../middleware/tenant.js';
+import { publicApiRateLimit } from '../middleware/rateLimit.js';
+import { getStatusTimeline } from '../lib/orderEvents.js';
+import { carrierDisplayName } from '../lib/shipments.js';
+import type { AppContext } from '../index.js';
+
+export const trackingRoutes = new Hono<AppContext>();
+
+// ─── GET /store/track ─────────────────────────────────────────
+// Same 404 for a wrong number or wrong contact details, so neither can be probed.
+trackingRoutes.get('/', publicApiRateLimit, resolveTenant(), async (c) => {
+  const db = createDb(c.env.DB);
+  const tenantId = c.get('tenantId');
+
+  const parsed = trackOrderQuerySchema.safeParse(c.req.query());
+  if (!parsed.success) {
+    return c.json({ error: 'Validation failed', issues: parsed.error.issues }, 400);
+  }
+  const query = parsed.data;
+
+  const order = await db.query.orders.findFirst({
+    where: and(eq(orders.tenantId, tenantId), eq(orders.orderNumber, normalizeOrderNumber(query.orderNumber))),
+  });
+  const matches = order && (
+    (query.email !== undefined && normalizeEmail(order.customerEmail) === normalizeEmail(query.email)) ||
+    (query.phone !== undefined && order.customerPhone !== null &&
+      normalizePhone(order.customerPhone) === normalizePhone(query.phone))
+  );
+  if (!order || !matches) {
+    return c.json({ error: 'لم يتم العثور على الطلب. تحقق من رقم الطلب ومعلومات الاتصال.', code: 'ORDER_NOT_FOUND' }, 404);
+  }
+
+  const [tenant, timeline, shipmentList] = await Promise.all([
+    db.query.tenants.findFirst({ where: eq(tenants.id, tenantId) }),
+    getStatusTimeline(db, order.id),
+    db.query.shipments.findMany({
+      where: and(eq(shipments.orderId, order.id), ne(shipments.status, 'cancelled')),
+      orderBy: [desc(shipments.createdAt)],
+    }),
+  ]);
+
+  const events = shipmentList.length > 0
+    ? await db.query.shipmentEvents.findMany({
+        where: inArray(shipmentEvents.shipmentId, shipmentList.map(s => s.id)),
+        orderBy: [asc(shipmentEvents.occurredAt)],
+      })
+    : [];
+  const eventsByShipment = new Map<string, ShipmentEvent[]>();
+  for (const event of events) {
+    eventsByShipment.set(event.shipmentId, [...(eventsByShipment.get(event.shipmentId) ?? []), event]);
+  }
+
+  return c.json({
+    store: { name: tenant?.name ?? '', primaryColor: tenant?.primaryColor ?? null },
+    orderNumber: order.orderNumber,
+    status: order.status,
+    paymentMethod: order.paymentMethod,
+    createdAt: order.createdAt,
+    // Notes and actors stay internal
+    timeline: timeline.map(e => ({ status: e.toStatus, at: e.createdAt })),
+    shipments: shipmentList.map(s => ({
+      carrier: carrierDisplayName(s, c.env),
+      trackingNumber: s.trackingNumber,
+      trackingUrl: s.trackingUrl,
+      status: s.status,
+      estimatedDeliveryAt: s.estimatedDeliveryAt,
+      deliveredAt: s.deliveredAt,
+      events: (eventsByShipment.get(s.id) ?? []).map(e => ({
+        status: e.status,
+        description: e.description,
+        location: e.location,
+        occurredAt: e.occurredAt,
+      })),
+    })),
+  });
+});
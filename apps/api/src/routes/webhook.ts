@@ -9,9 +9,16 @@
 //   - Structured logging لكل event
 
 import { Hono } from 'hono';
-import { eq } from 'drizzle-orm';
-import { createDb, subscriptions, tenants, orders, auditLogs } from '@repo/db';
+import { eq, and } from 'drizzle-orm';
+import { createDb, subscriptions, tenants, orders, orderEdits, auditLogs } from '@repo/db';
 import Stripe from 'stripe';
+import { commitReservations, releaseReservations } from '../lib/stock.js';
+import { recordStatusEvent } from '../lib/orderEvents.js';
+import { releaseDiscount } from '../lib/discounts.js';
+import { getPaymentIntentId, upsertStripeRefunds, syncOrderRefunds } from '../lib/refunds.js';
+import { markEditPaid } from '../lib/orderEdits.js';
+import { completePaidDraft } from '../lib/draftOrders.js';
+import { refreshCustomer } from '../lib/customers.js';
 import type { AppContext } from '../index.js';
 
 export const webhookRoutes = new Hono<AppContext>();
@@ -74,16 +81,75 @@ async function handleEvent(
     case 'checkout.session.completed': {
       const session = event.data.object as Stripe.Checkout.Session;
 
+      // Balance owed after an order edit (payment link — lib/orderEdits.ts)
+      if (session.mode === 'payment' && session.metadata?.orderEditId) {
+        const edit = await markEditPaid(db, session.metadata.orderEditId, getPaymentIntentId(session.payment_intent));
+        if (edit) {
+          log('info', 'Order edit balance paid', { orderId: edit.orderId, editId: edit.id, amount: edit.balance });
+        } else {
+          // Superseded by a later edit while the customer was paying — reconcile by hand
+          log('warn', 'Payment for an order edit that is no longer awaiting payment', {
+            editId: session.metadata.orderEditId,
+            sessionId: session.id,
+          });
+        }
+        break;
+      }
+
+      // Draft order paid through its payment link (lib/draftOrders.ts) → create the order
+      if (session.mode === 'payment' && session.metadata?.draftOrderId) {
+        const completed = await completePaidDraft(db, session.metadata.draftOrderId, {
+          sessionId: session.id,
+          paymentIntentId: getPaymentIntentId(session.payment_intent),
+        });
+        if (!completed) {
+          // Deleted or converted to COD while the customer was paying — reconcile by hand
+          log('warn', 'Payment for a draft order that is no longer open', {
+            draftOrderId: session.metadata.draftOrderId,
+            sessionId: session.id,
+          });
+        } else if (completed.stockShortProductId) {
+          log('warn', 'Draft order paid but stock ran out since the link was sent', {
+            orderId: completed.order.id,
+            productId: completed.stockShortProductId,
+          });
+        } else {
+          log('info', 'Draft order paid', { orderId: completed.order.id, orderNumber: completed.order.orderNumber });
+        }
+        break;
+      }
+
       if (session.mode === 'payment') {
         // One-time product purchase → mark order paid
         if (session.id) {
+          // Only pending orders can become paid — webhook retries are no-ops
           const updated = await db.update(orders)
-            .set({ status: 'paid' })
-            .where(eq(orders.stripeSessionId, session.id))
+            .set({
+              status: 'paid',
+              paymentStatus: 'PAID',
+              stripePaymentIntentId: getPaymentIntentId(session.payment_intent),
+            })
+            .where(and(eq(orders.stripeSessionId, session.id), eq(orders.status, 'pending')))
             .returning();
 
           if (updated.length > 0) {
-            log('info', 'Order marked as paid', { sessionId: session.id, orderId: updated[0].id });
+            await recordStatusEvent(db, {
+              tenantId: updated[0].tenantId,
+              orderId: updated[0].id,
+              from: 'pending',
+              to: 'paid',
+              source: 'webhook',
+              note: `Stripe event ${event.id}`,
+            });
+
+            // Turn the checkout hold into a real stock decrement
+            const committed = await commitReservations(db, updated[0].id);
+            await refreshCustomer(db, updated[0].tenantId, updated[0].customerEmail);
+            log('info', 'Order marked as paid', {
+              sessionId: session.id,
+              orderId: updated[0].id,
+              reservationsCommitted: committed,
+            });
           }
         }
       }
@@ -101,6 +167,71 @@ async function handleEvent(
       break;
     }
 
+    // ── Checkout abandoned → give the held stock back ─────
+    case 'checkout.session.expired': {
+      const session = event.data.object as Stripe.Checkout.Session;
+      if (session.mode !== 'payment' || !session.id) break;
+
+      const updated = await db.update(orders)
+        .set({ status: 'cancelled', paymentStatus: 'FAILED' })
+        .where(and(eq(orders.stripeSessionId, session.id), eq(orders.status, 'pending')))
+        .returning();
+
+      if (updated.length > 0) {
+        await recordStatusEvent(db, {
+          tenantId: updated[0].tenantId,
+          orderId: updated[0].id,
+          from: 'pending',
+          to: 'cancelled',
+          source: 'webhook',
+          note: 'Stripe checkout session expired',
+        });
+        const released = await releaseReservations(db, updated[0].id);
+        await releaseDiscount(db, updated[0].id);
+        log('info', 'Checkout expired — order cancelled', {
+          sessionId: session.id,
+          orderId: updated[0].id,
+          reservationsReleased: released,
+        });
+      }
+      break;
+    }
+
+    // ── Refunds (ours or issued from the Stripe dashboard) ─
+    case 'charge.refunded':
+    case 'charge.refund.updated': {
+      const obj = event.data.object as Stripe.Charge | Stripe.Refund;
+      const paymentIntentId = getPaymentIntentId(obj.payment_intent);
+      if (!paymentIntentId) break;
+
+      // The checkout payment, or a paid edit balance charged on its own
+      let order = await db.query.orders.findFirst({
+        where: eq(orders.stripePaymentIntentId, paymentIntentId),
+      });
+      if (!order) {
+        const edit = await db.query.orderEdits.findFirst({
+          where: eq(orderEdits.stripePaymentIntentId, paymentIntentId),
+        });
+        if (edit) order = await db.query.orders.findFirst({ where: eq(orders.id, edit.orderId) });
+      }
+      if (!order) {
+        log('warn', `${event.type}: no order for payment intent`, { paymentIntentId });
+        break;
+      }
+
+      // List from Stripe — charge.refunds is not expanded in webhook payloads
+      const list = await stripe.refunds.list({ payment_intent: paymentIntentId, limit: 100 });
+      await upsertStripeRefunds(db, order, list.data);
+      const synced = await syncOrderRefunds(db, order.id, { source: 'webhook' });
+
+      log('info', 'Order refunds synced', {
+        orderId: order.id,
+        refundedTotal: synced?.refundedTotal,
+        refundStatus: synced?.refundStatus,
+      });
+      break;
+    }
+
     // ── Subscription created ───────────────────────────────
     case 'customer.subscription.created': {
       const sub = event.data.object as Stripe.Subscription;
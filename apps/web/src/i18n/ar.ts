@@ -3,6 +3,7 @@ export const ar = {
   // Navigation
   'nav.home': 'الرئيسية',
   'nav.catalog': 'المنتجات',
+  'nav.track': 'تتبع الطلب',
   'nav.cart': 'السلة',
   'nav.search': 'بحث',
   'nav.dashboard': 'لوحة التحكم',
@@ -132,7 +133,7 @@ export const ar = {
   'checkout.pay_online': 'الدفع بالبطاقة',
   'checkout.pay_cod': 'الدفع عند الاستلام',
   'checkout.cod_label': 'الدفع عند الاستلام (COD)',
-  'checkout.cod_note': 'ادفع نقداً عند استلام طلبك. الحد الأقصى 2000 درهم.',
+  'checkout.cod_note': 'ادفع نقداً عند استلام طلبك.',
   'checkout.customer_name': 'الاسم الكامل',
   'checkout.customer_phone': 'رقم الهاتف',
   'checkout.customer_address': 'عنوان التوصيل',
@@ -140,6 +141,11 @@ export const ar = {
   'checkout.placing_order': 'جاري إرسال الطلب...',
   'checkout.cod_success': 'تم استلام طلبك! سنتواصل معك لتأكيد التوصيل.',
   'checkout.cod_limit_error': 'الحد الأقصى للدفع عند الاستلام هو 2000 درهم.',
+  'checkout.shipping': 'التوصيل',
+  'checkout.shipping_city': 'المدينة',
+  'checkout.shipping_rates': 'عرض طرق التوصيل',
+  'checkout.shipping_free': 'مجاني',
+  'checkout.shipping_days': 'أيام',
 
   // Orders — extended statuses
   'orders.status.delivered': 'تم التوصيل',
@@ -164,6 +170,41 @@ export const ar = {
   'onboarding.store_slug': 'رابط المتجر',
   'onboarding.create': 'إنشاء المتجر',
   'onboarding.slug_hint': 'سيكون رابط متجرك: {slug}.yourdomain.com',
+
+  // Shipment tracking (store/track)
+  'track.title': 'تتبع طلبك',
+  'track.subtitle': 'أدخل رقم الطلب والبريد الإلكتروني أو رقم الهاتف المستعمل عند الطلب.',
+  'track.order_number': 'رقم الطلب',
+  'track.contact': 'البريد الإلكتروني أو الهاتف',
+  'track.submit': 'تتبع',
+  'track.not_found': 'لم يتم العثور على الطلب. تحقق من رقم الطلب ومعلومات الاتصال.',
+  'track.order_status': 'حالة الطلب',
+  'track.placed_on': 'تاريخ الطلب',
+  'track.timeline': 'مراحل الطلب',
+  'track.carrier': 'شركة التوصيل',
+  'track.tracking_number': 'رقم التتبع',
+  'track.eta': 'التوصيل المتوقع',
+  'track.delivered_at': 'تم التسليم في',
+  'track.no_shipment': 'لم يتم شحن طلبك بعد. سنرسله في أقرب وقت.',
+  'track.open_carrier': 'التتبع على موقع شركة التوصيل',
+  'shipment.status.created': 'تم تسجيل الشحنة',
+  'shipment.status.in_transit': 'في الطريق',
+  'shipment.status.out_for_delivery': 'خرج للتوصيل',
+  'shipment.status.failed_attempt': 'تعذر التوصيل',
+  'shipment.status.delivered': 'تم التسليم',
+  'shipment.status.returned': 'أعيد إلى المتجر',
+  'shipment.status.cancelled': 'ألغيت الشحنة',
+
+  // Customer account links from emails (store/account/verify, store/account/reset)
+  'account.verify_title': 'تفعيل البريد الإلكتروني',
+  'account.verify_done': 'تم تفعيل بريدك الإلكتروني. شكراً لك!',
+  'account.verify_failed': 'رابط التفعيل غير صالح أو منتهي الصلاحية. سجّل دخولك لإعادة إرسال رابط جديد.',
+  'account.reset_title': 'تعيين كلمة مرور جديدة',
+  'account.reset_password': 'كلمة المرور الجديدة (8 أحرف على الأقل)',
+  'account.reset_submit': 'حفظ كلمة المرور',
+  'account.reset_done': 'تم تغيير كلمة المرور بنجاح. يمكنك تسجيل الدخول الآن.',
+  'account.reset_failed': 'الرابط منتهي الصلاحية أو غير صالح. اطلب رابطاً جديداً.',
+  'account.back_to_store': 'العودة إلى المتجر',
 } as const;
 
 export type TranslationKey = keyof typeof ar;
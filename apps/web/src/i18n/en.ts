@@ -2,6 +2,7 @@
 export const en = {
   'nav.home': 'Home',
   'nav.catalog': 'Products',
+  'nav.track': 'Track Order',
   'nav.cart': 'Cart',
   'nav.search': 'Search',
   'nav.dashboard': 'Dashboard',
@@ -123,7 +124,7 @@ export const en = {
   'checkout.pay_online': 'Pay by Card',
   'checkout.pay_cod': 'Cash on Delivery',
   'checkout.cod_label': 'Cash on Delivery (COD)',
-  'checkout.cod_note': 'Pay cash when your order arrives. Max 2000 MAD.',
+  'checkout.cod_note': 'Pay cash when your order arrives.',
   'checkout.customer_name': 'Full Name',
   'checkout.customer_phone': 'Phone Number',
   'checkout.customer_address': 'Delivery Address',
@@ -131,6 +132,11 @@ export const en = {
   'checkout.placing_order': 'Placing order...',
   'checkout.cod_success': 'Order received! We will contact you to confirm delivery.',
   'checkout.cod_limit_error': 'COD limit is 2000 MAD. Please pay by card for larger orders.',
+  'checkout.shipping': 'Shipping',
+  'checkout.shipping_city': 'City',
+  'checkout.shipping_rates': 'Show delivery options',
+  'checkout.shipping_free': 'Free',
+  'checkout.shipping_days': 'days',
 
   // Orders — extended statuses
   'orders.status.delivered': 'Delivered',
@@ -154,4 +160,39 @@ export const en = {
   'onboarding.store_slug': 'Store URL',
   'onboarding.create': 'Create Store',
   'onboarding.slug_hint': 'Your store URL will be: {slug}.yourdomain.com',
+
+  // Shipment tracking (store/track)
+  'track.title': 'Track Your Order',
+  'track.subtitle': 'Enter your order number and the email or phone number used when ordering.',
+  'track.order_number': 'Order number',
+  'track.contact': 'Email or phone',
+  'track.submit': 'Track',
+  'track.not_found': 'Order not found. Check the order number and contact details.',
+  'track.order_status': 'Order status',
+  'track.placed_on': 'Placed on',
+  'track.timeline': 'Order progress',
+  'track.carrier': 'Carrier',
+  'track.tracking_number': 'Tracking number',
+  'track.eta': 'Expected delivery',
+  'track.delivered_at': 'Delivered on',
+  'track.no_shipment': 'Your order has not shipped yet. We will send it soon.',
+  'track.open_carrier': 'Track on the carrier website',
+  'shipment.status.created': 'Shipment registered',
+  'shipment.status.in_transit': 'In transit',
+  'shipment.status.out_for_delivery': 'Out for delivery',
+  'shipment.status.failed_attempt': 'Delivery attempt failed',
+  'shipment.status.delivered': 'Delivered',
+  'shipment.status.returned': 'Returned to store',
+  'shipment.status.cancelled': 'Shipment cancelled',
+
+  // Customer account links from emails (store/account/verify, store/account/reset)
+  'account.verify_title': 'Email verification',
+  'account.verify_done': 'Your email address is verified. Thank you!',
+  'account.verify_failed': 'This verification link is invalid or has expired. Sign in to get a new one.',
+  'account.reset_title': 'Set a new password',
+  'account.reset_password': 'New password (at least 8 characters)',
+  'account.reset_submit': 'Save password',
+  'account.reset_done': 'Your password has been changed. You can sign in now.',
+  'account.reset_failed': 'This link is invalid or has expired. Request a new one.',
+  'account.back_to_store': 'Back to the store',
 } as const;
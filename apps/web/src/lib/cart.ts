@@ -1,17 +1,20 @@
 // apps/web/src/lib/cart.ts
 import { atom, computed } from 'nanostores';
+import type { Money } from '@repo/shared/money';
 
 export interface CartItem {
   productId: string;
   title: string;
-  price: number;
-  salePrice: number | null;
+  // Minor units, as the API returns them
+  price: Money;
+  salePrice: Money | null;
   imageUrl: string | null;
   qty: number;
   stock: number;
 }
 
-const CART_KEY = 'saas_cart';
+// v2: prices in minor units — carts saved with decimal prices are dropped
+const CART_KEY = 'saas_cart_v2';
 
 function loadCart(): CartItem[] {
   if (typeof localStorage === 'undefined') return [];
@@ -0,0 +1,20 @@
+-- Migration: 0004_stock_reservations.sql
+-- Atomic stock holds for checkout (prevents overselling the last unit)
+-- Run: wrangler d1 migrations apply saas-ecommerce-db --remote
+
+-- Units currently held by in-flight checkouts (available = stock - reserved_stock)
+ALTER TABLE products ADD COLUMN reserved_stock INTEGER NOT NULL DEFAULT 0;
+
+-- One row per product line held for an order
+CREATE TABLE IF NOT EXISTS stock_reservations (
+  id TEXT PRIMARY KEY,
+  tenant_id TEXT NOT NULL,
+  order_id TEXT NOT NULL,
+  product_id TEXT NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+  qty INTEGER NOT NULL,
+  status TEXT NOT NULL DEFAULT 'held' CHECK(status IN ('held','committed','released')),
+  expires_at TEXT NOT NULL,
+  created_at TEXT NOT NULL DEFAULT (datetime('now'))
+);
+CREATE INDEX IF NOT EXISTS stock_reservations_order_idx ON stock_reservations(order_id);
+CREATE INDEX IF NOT EXISTS stock_reservations_expiry_idx ON stock_reservations(tenant_id, status, expires_at);
@@ -0,0 +1,21 @@
+-- Migration: 0005_order_status_events.sql
+-- Order lifecycle history (replaces overwriting orders.notes on each update)
+-- Run: wrangler d1 migrations apply saas-ecommerce-db --remote
+
+CREATE TABLE IF NOT EXISTS order_status_events (
+  id TEXT PRIMARY KEY,
+  tenant_id TEXT NOT NULL,
+  order_id TEXT NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+  from_status TEXT,
+  to_status TEXT NOT NULL,
+  actor_user_id TEXT,
+  source TEXT NOT NULL DEFAULT 'dashboard' CHECK(source IN ('dashboard','checkout','webhook')),
+  note TEXT,
+  created_at TEXT NOT NULL DEFAULT (datetime('now'))
+);
+CREATE INDEX IF NOT EXISTS order_status_events_order_idx ON order_status_events(order_id, created_at);
+
+-- Seed the timeline of existing orders with their current status
+INSERT INTO order_status_events (id, tenant_id, order_id, from_status, to_status, source, note, created_at)
+SELECT lower(hex(randomblob(16))), tenant_id, id, NULL, status, 'checkout', notes, created_at
+FROM orders;
@@ -0,0 +1,28 @@
+-- Migration: 0006_refunds.sql
+-- Full / partial refunds (Stripe API or manual cash for COD)
+-- Run: wrangler d1 migrations apply saas-ecommerce-db --remote
+
+-- Payment intent is needed to refund; filled by the webhook on payment
+ALTER TABLE orders ADD COLUMN stripe_payment_intent_id TEXT;
+ALTER TABLE orders ADD COLUMN refunded_total REAL NOT NULL DEFAULT 0;
+ALTER TABLE orders ADD COLUMN refund_status TEXT NOT NULL DEFAULT 'NONE'
+  CHECK(refund_status IN ('NONE', 'PARTIAL', 'FULL'));
+CREATE INDEX IF NOT EXISTS orders_payment_intent_idx ON orders(stripe_payment_intent_id);
+
+CREATE TABLE IF NOT EXISTS refunds (
+  id TEXT PRIMARY KEY,
+  tenant_id TEXT NOT NULL,
+  order_id TEXT NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+  method TEXT NOT NULL CHECK(method IN ('STRIPE','CASH')),
+  amount REAL NOT NULL,
+  currency TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK(status IN ('pending','succeeded','failed','canceled')),
+  stripe_refund_id TEXT UNIQUE,
+  reason TEXT,
+  items_json TEXT,
+  note TEXT,
+  actor_user_id TEXT,
+  created_at TEXT NOT NULL DEFAULT (datetime('now'))
+);
+CREATE INDEX IF NOT EXISTS refunds_order_idx ON refunds(order_id);
+CREATE INDEX IF NOT EXISTS refunds_tenant_idx ON refunds(tenant_id);
@@ -0,0 +1,36 @@
+-- Migration: 0007_discount_codes.sql
+-- Tenant-scoped promo codes + applied discount on orders
+-- Run: wrangler d1 migrations apply saas-ecommerce-db --remote
+
+ALTER TABLE orders ADD COLUMN discount_code TEXT;
+ALTER TABLE orders ADD COLUMN discount_total REAL NOT NULL DEFAULT 0;
+
+CREATE TABLE IF NOT EXISTS discount_codes (
+  id TEXT PRIMARY KEY,
+  tenant_id TEXT NOT NULL,
+  code TEXT NOT NULL,
+  type TEXT NOT NULL CHECK(type IN ('percentage','fixed','free_shipping')),
+  value REAL NOT NULL DEFAULT 0,
+  min_subtotal REAL,
+  usage_limit INTEGER,
+  usage_count INTEGER NOT NULL DEFAULT 0,
+  per_customer_limit INTEGER,
+  starts_at TEXT,
+  ends_at TEXT,
+  product_ids_json TEXT,
+  category_ids_json TEXT,
+  is_active INTEGER NOT NULL DEFAULT 1,
+  created_at TEXT NOT NULL DEFAULT (datetime('now')),
+  UNIQUE(tenant_id, code)
+);
+
+CREATE TABLE IF NOT EXISTS discount_redemptions (
+  id TEXT PRIMARY KEY,
+  tenant_id TEXT NOT NULL,
+  discount_code_id TEXT NOT NULL REFERENCES discount_codes(id) ON DELETE CASCADE,
+  order_id TEXT NOT NULL UNIQUE,
+  customer_email TEXT NOT NULL,
+  amount REAL NOT NULL,
+  created_at TEXT NOT NULL DEFAULT (datetime('now'))
+);
+CREATE INDEX IF NOT EXISTS discount_redemptions_customer_idx ON discount_redemptions(discount_code_id, customer_email);
@@ -0,0 +1,40 @@
+-- Migration: 0008_shipping.sql
+-- Shipping zones/rates + chosen delivery rate on orders, product weights
+-- Run: wrangler d1 migrations apply saas-ecommerce-db --remote
+
+ALTER TABLE products ADD COLUMN weight_grams INTEGER;
+
+ALTER TABLE orders ADD COLUMN shipping_total REAL NOT NULL DEFAULT 0;
+ALTER TABLE orders ADD COLUMN shipping_rate_id TEXT;
+ALTER TABLE orders ADD COLUMN shipping_method TEXT;
+ALTER TABLE orders ADD COLUMN shipping_country TEXT;
+ALTER TABLE orders ADD COLUMN shipping_region TEXT;
+ALTER TABLE orders ADD COLUMN shipping_city TEXT;
+
+CREATE TABLE IF NOT EXISTS shipping_zones (
+  id TEXT PRIMARY KEY,
+  tenant_id TEXT NOT NULL,
+  name TEXT NOT NULL,
+  countries_json TEXT NOT NULL,
+  regions_json TEXT,
+  free_shipping_threshold REAL,
+  cod_surcharge REAL NOT NULL DEFAULT 0,
+  is_active INTEGER NOT NULL DEFAULT 1,
+  created_at TEXT NOT NULL DEFAULT (datetime('now'))
+);
+CREATE INDEX IF NOT EXISTS shipping_zones_tenant_idx ON shipping_zones(tenant_id);
+
+CREATE TABLE IF NOT EXISTS shipping_rates (
+  id TEXT PRIMARY KEY,
+  tenant_id TEXT NOT NULL,
+  zone_id TEXT NOT NULL REFERENCES shipping_zones(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  type TEXT NOT NULL DEFAULT 'flat' CHECK(type IN ('flat','weight','price')),
+  amount REAL NOT NULL DEFAULT 0,
+  tiers_json TEXT,
+  min_delivery_days INTEGER,
+  max_delivery_days INTEGER,
+  is_active INTEGER NOT NULL DEFAULT 1,
+  created_at TEXT NOT NULL DEFAULT (datetime('now'))
+);
+CREATE INDEX IF NOT EXISTS shipping_rates_zone_idx ON shipping_rates(zone_id);
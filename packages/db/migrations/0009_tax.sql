@@ -0,0 +1,26 @@
+-- Migration: 0009_tax.sql
+-- TVA/VAT: tenant tax settings, tax classes, tax snapshot on orders + items
+-- Run: wrangler d1 migrations apply saas-ecommerce-db --remote
+
+ALTER TABLE tenants ADD COLUMN tax_enabled INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE tenants ADD COLUMN prices_include_tax INTEGER NOT NULL DEFAULT 1;
+ALTER TABLE tenants ADD COLUMN tax_shipping INTEGER NOT NULL DEFAULT 1;
+
+ALTER TABLE products ADD COLUMN tax_class_id TEXT;
+
+ALTER TABLE orders ADD COLUMN tax_total REAL NOT NULL DEFAULT 0;
+ALTER TABLE orders ADD COLUMN shipping_tax REAL NOT NULL DEFAULT 0;
+ALTER TABLE orders ADD COLUMN prices_include_tax INTEGER NOT NULL DEFAULT 1;
+
+ALTER TABLE order_items ADD COLUMN tax_rate REAL NOT NULL DEFAULT 0;
+ALTER TABLE order_items ADD COLUMN tax_amount REAL NOT NULL DEFAULT 0;
+
+CREATE TABLE IF NOT EXISTS tax_classes (
+  id TEXT PRIMARY KEY,
+  tenant_id TEXT NOT NULL,
+  name TEXT NOT NULL,
+  rate REAL NOT NULL,
+  is_default INTEGER NOT NULL DEFAULT 0,
+  created_at TEXT NOT NULL DEFAULT (datetime('now'))
+);
+CREATE INDEX IF NOT EXISTS tax_classes_tenant_idx ON tax_classes(tenant_id);
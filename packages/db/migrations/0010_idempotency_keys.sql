@@ -0,0 +1,17 @@
+-- Migration: 0010_idempotency_keys.sql
+-- Stored responses for Idempotency-Key retries (checkout + order mutations)
+-- Run: wrangler d1 migrations apply saas-ecommerce-db --remote
+
+CREATE TABLE IF NOT EXISTS idempotency_keys (
+  id TEXT PRIMARY KEY,
+  tenant_id TEXT NOT NULL,
+  key TEXT NOT NULL,
+  request_hash TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'processing' CHECK(status IN ('processing','completed')),
+  response_status INTEGER,
+  response_body TEXT,
+  expires_at TEXT NOT NULL,
+  created_at TEXT NOT NULL DEFAULT (datetime('now')),
+  UNIQUE(tenant_id, key)
+);
+CREATE INDEX IF NOT EXISTS idempotency_expires_idx ON idempotency_keys(tenant_id, expires_at);
@@ -0,0 +1,53 @@
+-- Migration: 0011_cod_fraud.sql
+-- COD fraud controls: per-tenant limits, blacklist, refusal history, order risk score
+-- Run: wrangler d1 migrations apply saas-ecommerce-db --remote
+
+ALTER TABLE tenants ADD COLUMN cod_limits_json TEXT;
+ALTER TABLE tenants ADD COLUMN cod_block_score INTEGER NOT NULL DEFAULT 80;
+ALTER TABLE tenants ADD COLUMN cod_review_score INTEGER NOT NULL DEFAULT 50;
+
+ALTER TABLE orders ADD COLUMN risk_score INTEGER;
+ALTER TABLE orders ADD COLUMN risk_reasons_json TEXT;
+ALTER TABLE orders ADD COLUMN requires_confirmation INTEGER NOT NULL DEFAULT 0;
+CREATE INDEX IF NOT EXISTS orders_risk_idx ON orders(tenant_id, risk_score);
+
+CREATE TABLE IF NOT EXISTS cod_blacklist (
+  id TEXT PRIMARY KEY,
+  tenant_id TEXT NOT NULL,
+  type TEXT NOT NULL CHECK(type IN ('phone','email','address')),
+  value TEXT NOT NULL,
+  reason TEXT,
+  actor_user_id TEXT,
+  created_at TEXT NOT NULL DEFAULT (datetime('now')),
+  UNIQUE(tenant_id, type, value)
+);
+
+CREATE TABLE IF NOT EXISTS cod_refusals (
+  id TEXT PRIMARY KEY,
+  tenant_id TEXT NOT NULL,
+  order_id TEXT NOT NULL UNIQUE,
+  phone TEXT,
+  email TEXT NOT NULL,
+  amount REAL NOT NULL,
+  created_at TEXT NOT NULL DEFAULT (datetime('now'))
+);
+CREATE INDEX IF NOT EXISTS cod_refusals_phone_idx ON cod_refusals(tenant_id, phone);
+CREATE INDEX IF NOT EXISTS cod_refusals_email_idx ON cod_refusals(tenant_id, email);
+
+-- Backfill refusals from the status timeline (shipped → cancelled).
+-- Phones get the common separators stripped; new rows use normalizePhone().
+INSERT OR IGNORE INTO cod_refusals (id, tenant_id, order_id, phone, email, amount, created_at)
+SELECT
+  lower(hex(randomblob(16))),
+  o.tenant_id,
+  o.id,
+  CASE
+    WHEN o.customer_phone IS NULL THEN NULL
+    ELSE replace(replace(replace(replace(o.customer_phone, ' ', ''), '-', ''), '.', ''), '+212', '0')
+  END,
+  lower(o.customer_email),
+  o.total,
+  e.created_at
+FROM orders o
+JOIN order_status_events e ON e.order_id = o.id AND e.from_status = 'shipped' AND e.to_status = 'cancelled'
+WHERE o.payment_method = 'COD';
@@ -0,0 +1,34 @@
+-- Migration: 0012_cod_confirmation.sql
+-- COD phone confirmation: status, attempt count and callback time on orders, plus a call log.
+-- Tracked in its own column rather than a new orders.status value — status has a CHECK
+-- constraint (0002) and rebuilding orders on D1 would cascade into its child tables.
+-- Run: wrangler d1 migrations apply saas-ecommerce-db --remote
+
+ALTER TABLE tenants ADD COLUMN cod_confirmation_required INTEGER NOT NULL DEFAULT 0;
+
+ALTER TABLE orders ADD COLUMN confirmation_status TEXT
+  CHECK(confirmation_status IN ('pending','confirmed','unreachable','rejected'));
+ALTER TABLE orders ADD COLUMN confirmation_attempts INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE orders ADD COLUMN last_contact_at TEXT;
+ALTER TABLE orders ADD COLUMN callback_at TEXT;
+ALTER TABLE orders ADD COLUMN confirmed_at TEXT;
+CREATE INDEX IF NOT EXISTS orders_confirmation_idx ON orders(tenant_id, confirmation_status, created_at);
+
+-- Existing COD orders: still pending → awaiting a call; already shipped → treated as confirmed
+UPDATE orders SET confirmation_status = 'pending'
+  WHERE payment_method = 'COD' AND status = 'pending';
+UPDATE orders SET confirmation_status = 'confirmed'
+  WHERE payment_method = 'COD' AND status IN ('shipped','delivered','refunded');
+
+CREATE TABLE IF NOT EXISTS order_confirmation_attempts (
+  id TEXT PRIMARY KEY,
+  tenant_id TEXT NOT NULL,
+  order_id TEXT NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+  outcome TEXT NOT NULL CHECK(outcome IN ('confirmed','unreachable','rejected','callback')),
+  note TEXT,
+  callback_at TEXT,
+  actor_user_id TEXT,
+  created_at TEXT NOT NULL DEFAULT (datetime('now'))
+);
+CREATE INDEX IF NOT EXISTS order_confirmation_attempts_order_idx
+  ON order_confirmation_attempts(order_id, created_at);
@@ -0,0 +1,23 @@
+-- Migration: 0013_order_numbers.sql
+-- Human-readable per-tenant order numbers (prefix + zero-padded sequence, e.g. SHOP-001042)
+-- Run: wrangler d1 migrations apply saas-ecommerce-db --remote
+
+ALTER TABLE tenants ADD COLUMN order_number_prefix TEXT NOT NULL DEFAULT 'ORD';
+ALTER TABLE tenants ADD COLUMN order_number_seq INTEGER NOT NULL DEFAULT 0;
+
+-- ADD COLUMN cannot be NOT NULL without a default; every row is backfilled below
+-- and the API always sets it on insert
+ALTER TABLE orders ADD COLUMN order_number TEXT NOT NULL DEFAULT '';
+
+-- Number existing orders per tenant in creation order
+UPDATE orders SET order_number = (
+  SELECT t.order_number_prefix || '-' || printf('%06d', (
+    SELECT COUNT(*) FROM orders o2
+    WHERE o2.tenant_id = orders.tenant_id
+      AND (o2.created_at < orders.created_at OR (o2.created_at = orders.created_at AND o2.id <= orders.id))
+  ))
+  FROM tenants t WHERE t.id = orders.tenant_id
+);
+UPDATE tenants SET order_number_seq = (SELECT COUNT(*) FROM orders WHERE orders.tenant_id = tenants.id);
+
+CREATE UNIQUE INDEX IF NOT EXISTS orders_number_tenant_idx ON orders(tenant_id, order_number);
@@ -0,0 +1,10 @@
+-- Migration: 0014_invoices.sql
+-- Invoice numbers: per-tenant prefix + gapless sequence, allocated on first download
+-- Run: wrangler d1 migrations apply saas-ecommerce-db --remote
+
+ALTER TABLE tenants ADD COLUMN invoice_prefix TEXT NOT NULL DEFAULT 'INV';
+ALTER TABLE tenants ADD COLUMN invoice_seq INTEGER NOT NULL DEFAULT 0;
+
+ALTER TABLE orders ADD COLUMN invoice_number TEXT;
+ALTER TABLE orders ADD COLUMN invoiced_at TEXT;
+CREATE UNIQUE INDEX IF NOT EXISTS orders_invoice_tenant_idx ON orders(tenant_id, invoice_number);
@@ -0,0 +1,6 @@
+-- Migration: 0015_order_export_index.sql
+-- Order exports page through orders oldest-first with a (created_at, id) cursor;
+-- this index keeps every page an index range scan instead of a sort per page.
+-- Run: wrangler d1 migrations apply saas-ecommerce-db --remote
+
+CREATE INDEX IF NOT EXISTS orders_created_idx ON orders(tenant_id, created_at, id);
@@ -0,0 +1,8 @@
+-- Migration: 0016_order_search_indexes.sql
+-- Dashboard orders list: sortable columns and exact-email search.
+-- created_at (0015), order_number (0013) and status (0001) already have tenant-scoped indexes.
+-- Run: wrangler d1 migrations apply saas-ecommerce-db --remote
+
+CREATE INDEX IF NOT EXISTS orders_total_idx ON orders(tenant_id, total);
+CREATE INDEX IF NOT EXISTS orders_customer_name_idx ON orders(tenant_id, customer_name);
+CREATE INDEX IF NOT EXISTS orders_email_idx ON orders(tenant_id, lower(customer_email));
@@ -0,0 +1,6 @@
+-- Migration: 0017_order_assignment.sql
+-- Staff assignment for orders (set in bulk from the dashboard)
+-- Run: wrangler d1 migrations apply saas-ecommerce-db --remote
+
+ALTER TABLE orders ADD COLUMN assigned_user_id TEXT REFERENCES users(id) ON DELETE SET NULL;
+CREATE INDEX IF NOT EXISTS orders_assignee_idx ON orders(tenant_id, assigned_user_id);
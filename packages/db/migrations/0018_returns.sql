@@ -0,0 +1,41 @@
+-- Migration: 0018_returns.sql
+-- Returns (RMA): return requests per order, the items sent back, and the tenant return window
+-- Run: wrangler d1 migrations apply saas-ecommerce-db --remote
+
+ALTER TABLE tenants ADD COLUMN return_window_days INTEGER NOT NULL DEFAULT 14;
+
+CREATE TABLE IF NOT EXISTS returns (
+  id TEXT PRIMARY KEY,
+  tenant_id TEXT NOT NULL,
+  order_id TEXT NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+  rma_number TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'requested' CHECK(status IN ('requested','approved','rejected','received','completed')),
+  resolution TEXT NOT NULL DEFAULT 'refund' CHECK(resolution IN ('refund','exchange')),
+  source TEXT NOT NULL CHECK(source IN ('storefront','dashboard')),
+  customer_note TEXT,
+  merchant_note TEXT,
+  refund_id TEXT,
+  exchange_order_id TEXT,
+  actor_user_id TEXT,
+  approved_at TEXT,
+  received_at TEXT,
+  completed_at TEXT,
+  created_at TEXT NOT NULL DEFAULT (datetime('now'))
+);
+CREATE UNIQUE INDEX IF NOT EXISTS returns_rma_tenant_idx ON returns(tenant_id, rma_number);
+CREATE INDEX IF NOT EXISTS returns_order_idx ON returns(order_id);
+CREATE INDEX IF NOT EXISTS returns_status_idx ON returns(tenant_id, status, created_at);
+
+CREATE TABLE IF NOT EXISTS return_items (
+  id TEXT PRIMARY KEY,
+  tenant_id TEXT NOT NULL,
+  return_id TEXT NOT NULL REFERENCES returns(id) ON DELETE CASCADE,
+  order_item_id TEXT NOT NULL,
+  product_id TEXT,
+  qty INTEGER NOT NULL,
+  reason TEXT NOT NULL CHECK(reason IN ('damaged','defective','wrong_item','not_as_described','size_fit','changed_mind','other')),
+  restocked_qty INTEGER NOT NULL DEFAULT 0,
+  exchange_product_id TEXT
+);
+CREATE INDEX IF NOT EXISTS return_items_return_idx ON return_items(return_id);
+CREATE INDEX IF NOT EXISTS return_items_order_item_idx ON return_items(order_item_id);
@@ -0,0 +1,26 @@
+-- Migration: 0019_order_edits.sql
+-- Order edits before fulfillment; refunds of an edit's difference are kept out of refunded_total
+-- Run: wrangler d1 migrations apply saas-ecommerce-db --remote
+
+ALTER TABLE refunds ADD COLUMN kind TEXT NOT NULL DEFAULT 'refund' CHECK(kind IN ('refund','edit'));
+
+CREATE TABLE IF NOT EXISTS order_edits (
+  id TEXT PRIMARY KEY,
+  tenant_id TEXT NOT NULL,
+  order_id TEXT NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+  actor_user_id TEXT,
+  changes_json TEXT NOT NULL,
+  previous_total REAL NOT NULL,
+  new_total REAL NOT NULL,
+  balance REAL NOT NULL DEFAULT 0,
+  currency TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'settled' CHECK(status IN ('settled','awaiting_payment','paid','refunded','refund_failed','superseded')),
+  stripe_payment_link_id TEXT,
+  payment_url TEXT,
+  stripe_payment_intent_id TEXT,
+  refund_id TEXT,
+  note TEXT,
+  paid_at TEXT,
+  created_at TEXT NOT NULL DEFAULT (datetime('now'))
+);
+CREATE INDEX IF NOT EXISTS order_edits_order_idx ON order_edits(order_id, created_at);
@@ -0,0 +1,46 @@
+-- Migration: 0020_customer_accounts.sql
+-- Storefront customer accounts (per tenant), their sessions and saved addresses; orders link to an account
+-- Run: wrangler d1 migrations apply saas-ecommerce-db --remote
+
+CREATE TABLE IF NOT EXISTS customer_accounts (
+  id TEXT PRIMARY KEY,
+  tenant_id TEXT NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  email TEXT NOT NULL,
+  password_hash TEXT NOT NULL,
+  name TEXT NOT NULL,
+  phone TEXT,
+  email_verified INTEGER NOT NULL DEFAULT 0,
+  email_verify_token TEXT,
+  email_verify_expires_at TEXT,
+  reset_token TEXT,
+  reset_token_expires_at TEXT,
+  created_at TEXT NOT NULL DEFAULT (datetime('now'))
+);
+CREATE UNIQUE INDEX IF NOT EXISTS customer_accounts_email_idx ON customer_accounts(tenant_id, email);
+
+CREATE TABLE IF NOT EXISTS customer_sessions (
+  id TEXT PRIMARY KEY,
+  customer_account_id TEXT NOT NULL REFERENCES customer_accounts(id) ON DELETE CASCADE,
+  token_hash TEXT NOT NULL UNIQUE,
+  expires_at TEXT NOT NULL,
+  created_at TEXT NOT NULL DEFAULT (datetime('now'))
+);
+
+CREATE TABLE IF NOT EXISTS customer_addresses (
+  id TEXT PRIMARY KEY,
+  tenant_id TEXT NOT NULL,
+  customer_account_id TEXT NOT NULL REFERENCES customer_accounts(id) ON DELETE CASCADE,
+  label TEXT,
+  name TEXT NOT NULL,
+  phone TEXT NOT NULL,
+  address TEXT NOT NULL,
+  country TEXT,
+  region TEXT,
+  city TEXT,
+  is_default INTEGER NOT NULL DEFAULT 0,
+  created_at TEXT NOT NULL DEFAULT (datetime('now'))
+);
+CREATE INDEX IF NOT EXISTS customer_addresses_account_idx ON customer_addresses(customer_account_id);
+
+ALTER TABLE orders ADD COLUMN customer_account_id TEXT REFERENCES customer_accounts(id) ON DELETE SET NULL;
+CREATE INDEX IF NOT EXISTS orders_customer_account_idx ON orders(customer_account_id, created_at);
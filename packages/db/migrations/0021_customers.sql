@@ -0,0 +1,29 @@
+-- Migration: 0021_customers.sql
+-- Customer CRM: one row per buyer email per tenant, figures derived from orders.
+-- Existing orders are not copied here — the stats rules live in code
+-- (@repo/shared/customers), so run POST /dashboard/customers/backfill per store.
+-- Run: wrangler d1 migrations apply saas-ecommerce-db --remote
+
+CREATE TABLE IF NOT EXISTS customers (
+  id TEXT PRIMARY KEY,
+  tenant_id TEXT NOT NULL,
+  email TEXT NOT NULL,
+  name TEXT,
+  phone TEXT,
+  customer_account_id TEXT REFERENCES customer_accounts(id) ON DELETE SET NULL,
+  order_count INTEGER NOT NULL DEFAULT 0,
+  lifetime_spend REAL NOT NULL DEFAULT 0,
+  currency TEXT NOT NULL DEFAULT 'MAD',
+  first_order_at TEXT,
+  last_order_at TEXT,
+  cod_refusal_count INTEGER NOT NULL DEFAULT 0,
+  tags_json TEXT NOT NULL DEFAULT '[]',
+  notes TEXT,
+  created_at TEXT NOT NULL DEFAULT (datetime('now')),
+  updated_at TEXT NOT NULL DEFAULT (datetime('now'))
+);
+CREATE UNIQUE INDEX IF NOT EXISTS customers_email_idx ON customers(tenant_id, email);
+CREATE INDEX IF NOT EXISTS customers_last_order_idx ON customers(tenant_id, last_order_at);
+CREATE INDEX IF NOT EXISTS customers_spend_idx ON customers(tenant_id, lifetime_spend);
+CREATE INDEX IF NOT EXISTS customers_order_count_idx ON customers(tenant_id, order_count);
+CREATE INDEX IF NOT EXISTS customers_name_idx ON customers(tenant_id, name);
@@ -0,0 +1,37 @@
+-- Migration: 0022_shipments.sql
+-- Carrier shipments linked to orders, with their tracking history
+-- Run: wrangler d1 migrations apply saas-ecommerce-db --remote
+
+CREATE TABLE IF NOT EXISTS shipments (
+  id TEXT PRIMARY KEY,
+  tenant_id TEXT NOT NULL,
+  order_id TEXT NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+  carrier TEXT NOT NULL,
+  carrier_name TEXT,
+  carrier_shipment_id TEXT,
+  tracking_number TEXT NOT NULL,
+  tracking_url TEXT,
+  status TEXT NOT NULL DEFAULT 'created' CHECK(status IN ('created','in_transit','out_for_delivery','failed_attempt','delivered','returned','cancelled')),
+  estimated_delivery_at TEXT,
+  last_event_at TEXT,
+  last_checked_at TEXT,
+  delivered_at TEXT,
+  actor_user_id TEXT,
+  created_at TEXT NOT NULL DEFAULT (datetime('now'))
+);
+CREATE INDEX IF NOT EXISTS shipments_order_idx ON shipments(order_id);
+CREATE UNIQUE INDEX IF NOT EXISTS shipments_tracking_idx ON shipments(tenant_id, carrier, tracking_number);
+CREATE INDEX IF NOT EXISTS shipments_carrier_tracking_idx ON shipments(carrier, tracking_number);
+CREATE INDEX IF NOT EXISTS shipments_poll_idx ON shipments(tenant_id, status, last_checked_at);
+
+CREATE TABLE IF NOT EXISTS shipment_events (
+  id TEXT PRIMARY KEY,
+  tenant_id TEXT NOT NULL,
+  shipment_id TEXT NOT NULL REFERENCES shipments(id) ON DELETE CASCADE,
+  status TEXT NOT NULL CHECK(status IN ('created','in_transit','out_for_delivery','failed_attempt','delivered','returned','cancelled')),
+  description TEXT,
+  location TEXT,
+  occurred_at TEXT NOT NULL,
+  created_at TEXT NOT NULL DEFAULT (datetime('now'))
+);
+CREATE UNIQUE INDEX IF NOT EXISTS shipment_events_unique_idx ON shipment_events(shipment_id, status, occurred_at);
@@ -0,0 +1,36 @@
+-- Migration: 0023_multi_currency.sql
+-- Multi-currency: tenant base currency, exchange rates, per-currency product
+-- prices, and the rate each order was priced at.
+-- Orders placed before this charged product prices without conversion, so
+-- they are recorded as priced in their own currency at rate 1.
+-- Run: wrangler d1 migrations apply saas-ecommerce-db --remote
+
+ALTER TABLE tenants ADD COLUMN base_currency TEXT NOT NULL DEFAULT 'MAD'
+  CHECK (base_currency IN ('MAD', 'EUR', 'USD'));
+
+ALTER TABLE orders ADD COLUMN base_currency TEXT NOT NULL DEFAULT 'MAD';
+ALTER TABLE orders ADD COLUMN exchange_rate REAL NOT NULL DEFAULT 1;
+UPDATE orders SET base_currency = currency;
+
+CREATE TABLE IF NOT EXISTS exchange_rates (
+  id TEXT PRIMARY KEY,
+  tenant_id TEXT NOT NULL,
+  currency TEXT NOT NULL CHECK (currency IN ('MAD', 'EUR', 'USD')),
+  rate REAL NOT NULL CHECK (rate > 0),
+  source TEXT NOT NULL DEFAULT 'manual' CHECK (source IN ('manual', 'import')),
+  actor_user_id TEXT,
+  updated_at TEXT NOT NULL DEFAULT (datetime('now')),
+  created_at TEXT NOT NULL DEFAULT (datetime('now'))
+);
+CREATE UNIQUE INDEX IF NOT EXISTS exchange_rates_tenant_currency_idx ON exchange_rates(tenant_id, currency);
+
+CREATE TABLE IF NOT EXISTS product_prices (
+  id TEXT PRIMARY KEY,
+  tenant_id TEXT NOT NULL,
+  product_id TEXT NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+  currency TEXT NOT NULL CHECK (currency IN ('MAD', 'EUR', 'USD')),
+  price REAL NOT NULL CHECK (price >= 0),
+  sale_price REAL CHECK (sale_price IS NULL OR sale_price >= 0),
+  created_at TEXT NOT NULL DEFAULT (datetime('now'))
+);
+CREATE UNIQUE INDEX IF NOT EXISTS product_prices_product_currency_idx ON product_prices(product_id, currency);
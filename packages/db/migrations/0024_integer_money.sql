@@ -0,0 +1,72 @@
+-- Migration: 0024_integer_money.sql
+-- Money as integer minor units (199.99 MAD → 19999) — see @repo/shared/money.
+-- Every supported currency has 2 decimals, so existing amounts are ×100.
+-- SQLite can't change a declared column type in place; the columns keep
+-- their REAL affinity but only ever hold whole numbers from here on.
+-- Exchange rates, tax rates and percentage discounts are not money and stay as they are.
+-- Run: wrangler d1 migrations apply saas-ecommerce-db --remote
+
+UPDATE customers SET lifetime_spend = CAST(ROUND(lifetime_spend * 100) AS INTEGER);
+
+UPDATE products SET
+  price = CAST(ROUND(price * 100) AS INTEGER),
+  sale_price = CAST(ROUND(sale_price * 100) AS INTEGER);
+
+UPDATE product_prices SET
+  price = CAST(ROUND(price * 100) AS INTEGER),
+  sale_price = CAST(ROUND(sale_price * 100) AS INTEGER);
+
+UPDATE orders SET
+  subtotal = CAST(ROUND(subtotal * 100) AS INTEGER),
+  discount_total = CAST(ROUND(discount_total * 100) AS INTEGER),
+  shipping_total = CAST(ROUND(shipping_total * 100) AS INTEGER),
+  tax_total = CAST(ROUND(tax_total * 100) AS INTEGER),
+  shipping_tax = CAST(ROUND(shipping_tax * 100) AS INTEGER),
+  total = CAST(ROUND(total * 100) AS INTEGER),
+  refunded_total = CAST(ROUND(refunded_total * 100) AS INTEGER);
+
+UPDATE order_items SET
+  price_snapshot = CAST(ROUND(price_snapshot * 100) AS INTEGER),
+  tax_amount = CAST(ROUND(tax_amount * 100) AS INTEGER);
+
+UPDATE refunds SET amount = CAST(ROUND(amount * 100) AS INTEGER);
+
+UPDATE order_edits SET
+  previous_total = CAST(ROUND(previous_total * 100) AS INTEGER),
+  new_total = CAST(ROUND(new_total * 100) AS INTEGER),
+  balance = CAST(ROUND(balance * 100) AS INTEGER);
+
+UPDATE discount_codes SET min_subtotal = CAST(ROUND(min_subtotal * 100) AS INTEGER);
+-- Percentages stay whole percents
+UPDATE discount_codes SET value = CAST(ROUND(value * 100) AS INTEGER) WHERE type = 'fixed';
+
+UPDATE discount_redemptions SET amount = CAST(ROUND(amount * 100) AS INTEGER);
+
+UPDATE shipping_zones SET
+  free_shipping_threshold = CAST(ROUND(free_shipping_threshold * 100) AS INTEGER),
+  cod_surcharge = CAST(ROUND(cod_surcharge * 100) AS INTEGER);
+
+UPDATE shipping_rates SET amount = CAST(ROUND(amount * 100) AS INTEGER);
+
+-- Tier amounts always; bounds only for price tiers (weight bounds are grams)
+UPDATE shipping_rates SET tiers_json = (
+  SELECT json_group_array(json_object(
+    'min', CASE WHEN shipping_rates.type = 'price'
+      THEN CAST(ROUND(json_extract(tier.value, '$.min') * 100) AS INTEGER)
+      ELSE json_extract(tier.value, '$.min') END,
+    'max', CASE WHEN shipping_rates.type = 'price'
+      THEN CAST(ROUND(json_extract(tier.value, '$.max') * 100) AS INTEGER)
+      ELSE json_extract(tier.value, '$.max') END,
+    'amount', CAST(ROUND(json_extract(tier.value, '$.amount') * 100) AS INTEGER)
+  ))
+  FROM (SELECT value FROM json_each(shipping_rates.tiers_json) ORDER BY key) AS tier
+)
+WHERE tiers_json IS NOT NULL;
+
+UPDATE tenants SET cod_limits_json = (
+  SELECT json_group_object(limit_entry.key, CAST(ROUND(limit_entry.value * 100) AS INTEGER))
+  FROM json_each(tenants.cod_limits_json) AS limit_entry
+)
+WHERE cod_limits_json IS NOT NULL;
+
+UPDATE cod_refusals SET amount = CAST(ROUND(amount * 100) AS INTEGER);
@@ -0,0 +1,43 @@
+-- Migration: 0025_draft_orders.sql
+-- Staff-created draft orders (products, custom lines, custom prices) that become
+-- normal orders when converted to COD or when their Stripe payment link is paid
+-- Run: wrangler d1 migrations apply saas-ecommerce-db --remote
+
+CREATE TABLE IF NOT EXISTS draft_orders (
+  id TEXT PRIMARY KEY,
+  tenant_id TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'open' CHECK(status IN ('open','invoice_sent','completed')),
+  customer_email TEXT NOT NULL,
+  customer_name TEXT,
+  customer_phone TEXT,
+  customer_address TEXT,
+  currency TEXT NOT NULL,
+  base_currency TEXT NOT NULL,
+  exchange_rate REAL NOT NULL DEFAULT 1,
+  pricing_json TEXT NOT NULL,
+  total INTEGER NOT NULL,
+  note TEXT,
+  order_number TEXT,
+  stripe_payment_link_id TEXT,
+  payment_url TEXT,
+  order_id TEXT REFERENCES orders(id) ON DELETE SET NULL,
+  actor_user_id TEXT,
+  completed_at TEXT,
+  updated_at TEXT NOT NULL DEFAULT (datetime('now')),
+  created_at TEXT NOT NULL DEFAULT (datetime('now'))
+);
+CREATE INDEX IF NOT EXISTS draft_orders_status_idx ON draft_orders(tenant_id, status, created_at);
+
+CREATE TABLE IF NOT EXISTS draft_order_items (
+  id TEXT PRIMARY KEY,
+  tenant_id TEXT NOT NULL,
+  draft_order_id TEXT NOT NULL REFERENCES draft_orders(id) ON DELETE CASCADE,
+  product_id TEXT,
+  title TEXT NOT NULL,
+  price INTEGER NOT NULL,
+  custom_price INTEGER NOT NULL DEFAULT 0,
+  qty INTEGER NOT NULL,
+  tax_rate REAL NOT NULL DEFAULT 0,
+  tax_amount INTEGER NOT NULL DEFAULT 0
+);
+CREATE INDEX IF NOT EXISTS draft_order_items_draft_idx ON draft_order_items(draft_order_id);
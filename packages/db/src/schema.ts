@@ -16,6 +16,8 @@ const createdAt = () =>
   text('created_at')
     .notNull()
     .default(sql`(datetime('now'))`);
+// Integer minor units (19999 = 199.99) — see @repo/shared/money
+const money = (name: string) => integer(name);
 
 // ─── Tenants ────────────────────────────────────────────────
 export const tenants = sqliteTable('tenants', {
@@ -27,6 +29,26 @@ export const tenants = sqliteTable('tenants', {
   primaryColor: text('primary_color').default('#6366f1'),
   shippingPolicy: text('shipping_policy'),
   returnPolicy: text('return_policy'),
+  // Storefront returns accepted for this many days after delivery; 0 = staff only
+  returnWindowDays: integer('return_window_days').notNull().default(14),
+  // Order numbers: prefix + last allocated sequence (SHOP-001042)
+  orderNumberPrefix: text('order_number_prefix').notNull().default('ORD'),
+  orderNumberSeq: integer('order_number_seq').notNull().default(0),
+  // Invoices are numbered separately and without gaps (INV-000001)
+  invoicePrefix: text('invoice_prefix').notNull().default('INV'),
+  invoiceSeq: integer('invoice_seq').notNull().default(0),
+  // TVA/VAT — off by default; Moroccan catalogues are priced TTC (tax included)
+  taxEnabled: integer('tax_enabled', { mode: 'boolean' }).notNull().default(false),
+  pricesIncludeTax: integer('prices_include_tax', { mode: 'boolean' }).notNull().default(true),
+  taxShipping: integer('tax_shipping', { mode: 'boolean' }).notNull().default(true),
+  // Prices, shipping rates and fixed discounts are entered in this currency; others use exchange_rates
+  baseCurrency: text('base_currency', { enum: ['MAD', 'EUR', 'USD'] }).notNull().default('MAD'),
+  // COD fraud controls — limits per currency in minor units as JSON ({"MAD":200000}); unset currencies use defaults
+  codLimitsJson: text('cod_limits_json'),
+  codBlockScore: integer('cod_block_score').notNull().default(80),
+  codReviewScore: integer('cod_review_score').notNull().default(50),
+  // When false only risky orders (requiresConfirmation) must be confirmed before shipping
+  codConfirmationRequired: integer('cod_confirmation_required', { mode: 'boolean' }).notNull().default(false),
   isActive: integer('is_active', { mode: 'boolean' }).notNull().default(true),
   ownerUserId: text('owner_user_id').notNull(),
   createdAt: createdAt(),
@@ -73,6 +95,96 @@ export const memberships = sqliteTable(
   })
 );
 
+// ─── Customer Accounts ──────────────────────────────────────
+// Storefront shoppers — one account per tenant and email, apart from merchant users
+export const customerAccounts = sqliteTable(
+  'customer_accounts',
+  {
+    id: id(),
+    tenantId: text('tenant_id').notNull().references(() => tenants.id, { onDelete: 'cascade' }),
+    email: text('email').notNull(),
+    passwordHash: text('password_hash').notNull(),
+    name: text('name').notNull(),
+    phone: text('phone'),
+    // Guest orders are linked to the account only once the email is verified
+    emailVerified: integer('email_verified', { mode: 'boolean' }).notNull().default(false),
+    emailVerifyToken: text('email_verify_token'),
+    emailVerifyExpiresAt: text('email_verify_expires_at'),
+    resetToken: text('reset_token'),
+    resetTokenExpiresAt: text('reset_token_expires_at'),
+    createdAt: createdAt(),
+  },
+  (t) => ({
+    emailIdx: uniqueIndex('customer_accounts_email_idx').on(t.tenantId, t.email),
+  })
+);
+
+// ─── Customer Sessions ──────────────────────────────────────
+export const customerSessions = sqliteTable('customer_sessions', {
+  id: id(),
+  customerAccountId: text('customer_account_id').notNull().references(() => customerAccounts.id, { onDelete: 'cascade' }),
+  tokenHash: text('token_hash').notNull().unique(),
+  expiresAt: text('expires_at').notNull(),
+  createdAt: createdAt(),
+});
+
+// ─── Customer Addresses ─────────────────────────────────────
+export const customerAddresses = sqliteTable(
+  'customer_addresses',
+  {
+    id: id(),
+    tenantId: tenantId(),
+    customerAccountId: text('customer_account_id').notNull().references(() => customerAccounts.id, { onDelete: 'cascade' }),
+    label: text('label'),
+    name: text('name').notNull(),
+    phone: text('phone').notNull(),
+    address: text('address').notNull(),
+    country: text('country'),
+    region: text('region'),
+    city: text('city'),
+    isDefault: integer('is_default', { mode: 'boolean' }).notNull().default(false),
+    createdAt: createdAt(),
+  },
+  (t) => ({
+    accountIdx: index('customer_addresses_account_idx').on(t.customerAccountId),
+  })
+);
+
+// ─── Customers (CRM) ────────────────────────────────────────
+// One row per distinct buyer email per tenant. Figures are recomputed from the
+// buyer's orders (lib/customers.ts); tags and notes belong to the merchant.
+export const customers = sqliteTable(
+  'customers',
+  {
+    id: id(),
+    tenantId: tenantId(),
+    // normalizeEmail()
+    email: text('email').notNull(),
+    // Contact details from the latest order
+    name: text('name'),
+    phone: text('phone'),
+    customerAccountId: text('customer_account_id').references(() => customerAccounts.id, { onDelete: 'set null' }),
+    orderCount: integer('order_count').notNull().default(0),
+    lifetimeSpend: money('lifetime_spend').notNull().default(0),
+    // Tenant's base currency — each order's spend is converted to it before summing
+    currency: text('currency').notNull().default('MAD'),
+    firstOrderAt: text('first_order_at'),
+    lastOrderAt: text('last_order_at'),
+    codRefusalCount: integer('cod_refusal_count').notNull().default(0),
+    tagsJson: text('tags_json').notNull().default('[]'),
+    notes: text('notes'),
+    createdAt: createdAt(),
+    updatedAt: text('updated_at').notNull().default(sql`(datetime('now'))`),
+  },
+  (t) => ({
+    emailIdx: uniqueIndex('customers_email_idx').on(t.tenantId, t.email),
+    lastOrderIdx: index('customers_last_order_idx').on(t.tenantId, t.lastOrderAt),
+    spendIdx: index('customers_spend_idx').on(t.tenantId, t.lifetimeSpend),
+    orderCountIdx: index('customers_order_count_idx').on(t.tenantId, t.orderCount),
+    nameIdx: index('customers_name_idx').on(t.tenantId, t.name),
+  })
+);
+
 // ─── Products ───────────────────────────────────────────────
 export const products = sqliteTable(
   'products',
@@ -81,11 +193,17 @@ export const products = sqliteTable(
     tenantId: tenantId(),
     title: text('title').notNull(),
     description: text('description'),
-    price: real('price').notNull(),
-    salePrice: real('sale_price'),
+    price: money('price').notNull(),
+    salePrice: money('sale_price'),
     currency: text('currency', { enum: ['MAD', 'EUR', 'USD'] }).notNull().default('MAD'),
     sku: text('sku'),
     stock: integer('stock').notNull().default(0),
+    // Units held by in-flight checkouts — available = stock - reservedStock
+    reservedStock: integer('reserved_stock').notNull().default(0),
+    // Used by weight-tiered shipping rates — null counts as 0
+    weightGrams: integer('weight_grams'),
+    // null = tenant's default tax class
+    taxClassId: text('tax_class_id'),
     status: text('status', { enum: ['active', 'draft', 'archived'] }).notNull().default('draft'),
     createdAt: createdAt(),
   },
@@ -111,6 +229,24 @@ export const productImages = sqliteTable(
   })
 );
 
+// ─── Product Prices ─────────────────────────────────────────
+// Optional fixed price in another currency — used instead of converting products.price
+export const productPrices = sqliteTable(
+  'product_prices',
+  {
+    id: id(),
+    tenantId: tenantId(),
+    productId: text('product_id').notNull().references(() => products.id, { onDelete: 'cascade' }),
+    currency: text('currency', { enum: ['MAD', 'EUR', 'USD'] }).notNull(),
+    price: money('price').notNull(),
+    salePrice: money('sale_price'),
+    createdAt: createdAt(),
+  },
+  (t) => ({
+    productCurrencyIdx: uniqueIndex('product_prices_product_currency_idx').on(t.productId, t.currency),
+  })
+);
+
 // ─── Categories ─────────────────────────────────────────────
 export const categories = sqliteTable(
   'categories',
@@ -147,10 +283,14 @@ export const orders = sqliteTable(
   {
     id: id(),
     tenantId: tenantId(),
+    // Human-readable, per tenant — see lib/orderNumbers.ts
+    orderNumber: text('order_number').notNull(),
     customerEmail: text('customer_email').notNull(),
     customerName: text('customer_name'),
     customerPhone: text('customer_phone'),
     customerAddress: text('customer_address'),
+    // Storefront account — set at checkout, or when a guest's email is verified later
+    customerAccountId: text('customer_account_id').references(() => customerAccounts.id, { onDelete: 'set null' }),
     status: text('status', {
       enum: ['pending', 'paid', 'shipped', 'delivered', 'cancelled', 'refunded'],
     }).notNull().default('pending'),
@@ -162,19 +302,68 @@ export const orders = sqliteTable(
     paymentStatus: text('payment_status', {
       enum: ['PAID', 'UNPAID', 'PENDING', 'FAILED'],
     }).notNull().default('PENDING'),
-    subtotal: real('subtotal').notNull(),
-    total: real('total').notNull(),
+    subtotal: money('subtotal').notNull(),
+    discountCode: text('discount_code'),
+    discountTotal: money('discount_total').notNull().default(0),
+    // Chosen delivery rate (snapshot — rates can be edited or removed later)
+    shippingTotal: money('shipping_total').notNull().default(0),
+    shippingRateId: text('shipping_rate_id'),
+    shippingMethod: text('shipping_method'),
+    shippingCountry: text('shipping_country'),
+    shippingRegion: text('shipping_region'),
+    shippingCity: text('shipping_city'),
+    // Tax snapshot — taxTotal includes shippingTax; added to total only when prices exclude tax
+    taxTotal: money('tax_total').notNull().default(0),
+    shippingTax: money('shipping_tax').notNull().default(0),
+    pricesIncludeTax: integer('prices_include_tax', { mode: 'boolean' }).notNull().default(true),
+    total: money('total').notNull(),
     currency: text('currency').notNull().default('MAD'),
+    // Rate used at checkout: units of `currency` per 1 `baseCurrency` (1 when they match)
+    baseCurrency: text('base_currency').notNull().default('MAD'),
+    exchangeRate: real('exchange_rate').notNull().default(1),
     stripeSessionId: text('stripe_session_id').unique(),
+    stripePaymentIntentId: text('stripe_payment_intent_id'),
+    // Refunds are tracked apart from paymentStatus (which records capture)
+    refundedTotal: money('refunded_total').notNull().default(0),
+    refundStatus: text('refund_status', { enum: ['NONE', 'PARTIAL', 'FULL'] }).notNull().default('NONE'),
+    // COD risk assessment at checkout (null for Stripe orders)
+    riskScore: integer('risk_score'),
+    riskReasonsJson: text('risk_reasons_json'),
+    requiresConfirmation: integer('requires_confirmation', { mode: 'boolean' }).notNull().default(false),
+    // COD phone confirmation — kept beside status, which stays 'pending' until shipped (null for Stripe)
+    confirmationStatus: text('confirmation_status', {
+      enum: ['pending', 'confirmed', 'unreachable', 'rejected'],
+    }),
+    confirmationAttempts: integer('confirmation_attempts').notNull().default(0),
+    lastContactAt: text('last_contact_at'),
+    callbackAt: text('callback_at'),
+    confirmedAt: text('confirmed_at'),
+    // Staff member handling the order (bulk assign); cleared if the user is deleted
+    assignedUserId: text('assigned_user_id').references(() => users.id, { onDelete: 'set null' }),
+    // Allocated on first invoice download — see lib/invoices.ts
+    invoiceNumber: text('invoice_number'),
+    invoicedAt: text('invoiced_at'),
     notes: text('notes'),
     createdAt: createdAt(),
   },
   (t) => ({
     tenantIdx: index('orders_tenant_idx').on(t.tenantId),
+    orderNumberIdx: uniqueIndex('orders_number_tenant_idx').on(t.tenantId, t.orderNumber),
+    invoiceNumberIdx: uniqueIndex('orders_invoice_tenant_idx').on(t.tenantId, t.invoiceNumber),
     statusIdx: index('orders_status_idx').on(t.tenantId, t.status),
     stripeIdx: index('orders_stripe_idx').on(t.stripeSessionId),
+    paymentIntentIdx: index('orders_payment_intent_idx').on(t.stripePaymentIntentId),
     paymentMethodIdx: index('orders_payment_method_idx').on(t.tenantId, t.paymentMethod),
     paymentStatusIdx: index('orders_payment_status_idx').on(t.tenantId, t.paymentStatus),
+    riskIdx: index('orders_risk_idx').on(t.tenantId, t.riskScore),
+    confirmationIdx: index('orders_confirmation_idx').on(t.tenantId, t.confirmationStatus, t.createdAt),
+    createdIdx: index('orders_created_idx').on(t.tenantId, t.createdAt, t.id),
+    // Dashboard sort + search (0016)
+    totalIdx: index('orders_total_idx').on(t.tenantId, t.total),
+    customerNameIdx: index('orders_customer_name_idx').on(t.tenantId, t.customerName),
+    emailIdx: index('orders_email_idx').on(t.tenantId, sql`lower(${t.customerEmail})`),
+    assigneeIdx: index('orders_assignee_idx').on(t.tenantId, t.assignedUserId),
+    customerAccountIdx: index('orders_customer_account_idx').on(t.customerAccountId, t.createdAt),
   })
 );
 
@@ -187,14 +376,494 @@ export const orderItems = sqliteTable(
     orderId: text('order_id').notNull().references(() => orders.id, { onDelete: 'cascade' }),
     productId: text('product_id'),
     titleSnapshot: text('title_snapshot').notNull(),
-    priceSnapshot: real('price_snapshot').notNull(),
+    priceSnapshot: money('price_snapshot').notNull(),
     qty: integer('qty').notNull(),
+    taxRate: real('tax_rate').notNull().default(0),
+    taxAmount: money('tax_amount').notNull().default(0),
   },
   (t) => ({
     orderIdx: index('order_items_order_idx').on(t.orderId),
   })
 );
 
+// ─── Refunds ────────────────────────────────────────────────
+// STRIPE refunds go through the Stripe API; CASH records a manual COD refund.
+export const refunds = sqliteTable(
+  'refunds',
+  {
+    id: id(),
+    tenantId: tenantId(),
+    orderId: text('order_id').notNull().references(() => orders.id, { onDelete: 'cascade' }),
+    method: text('method', { enum: ['STRIPE', 'CASH'] }).notNull(),
+    amount: money('amount').notNull(),
+    currency: text('currency').notNull(),
+    status: text('status', { enum: ['pending', 'succeeded', 'failed', 'canceled'] }).notNull().default('pending'),
+    stripeRefundId: text('stripe_refund_id').unique(),
+    reason: text('reason'),
+    // [{ orderItemId, qty }] for line-item refunds, null for amount-based ones
+    itemsJson: text('items_json'),
+    // edit = difference paid back after an order edit lowered the total; not part of refundedTotal
+    kind: text('kind', { enum: ['refund', 'edit'] }).notNull().default('refund'),
+    note: text('note'),
+    actorUserId: text('actor_user_id'),
+    createdAt: createdAt(),
+  },
+  (t) => ({
+    orderIdx: index('refunds_order_idx').on(t.orderId),
+    tenantIdx: index('refunds_tenant_idx').on(t.tenantId),
+  })
+);
+
+// ─── Order Edits ────────────────────────────────────────────
+// One row per edit of a pending order (see lib/orderEdits.ts). For paid Stripe
+// orders the balance is collected with a payment link or refunded.
+export const orderEdits = sqliteTable(
+  'order_edits',
+  {
+    id: id(),
+    tenantId: tenantId(),
+    orderId: text('order_id').notNull().references(() => orders.id, { onDelete: 'cascade' }),
+    actorUserId: text('actor_user_id'),
+    // [{ orderItemId, productId, title, fromQty, toQty }]
+    changesJson: text('changes_json').notNull(),
+    previousTotal: money('previous_total').notNull(),
+    newTotal: money('new_total').notNull(),
+    // Positive = owed by the customer, negative = paid back; 0 for COD (collected on delivery)
+    balance: money('balance').notNull().default(0),
+    currency: text('currency').notNull(),
+    status: text('status', {
+      enum: ['settled', 'awaiting_payment', 'paid', 'refunded', 'refund_failed', 'superseded'],
+    }).notNull().default('settled'),
+    stripePaymentLinkId: text('stripe_payment_link_id'),
+    paymentUrl: text('payment_url'),
+    stripePaymentIntentId: text('stripe_payment_intent_id'),
+    refundId: text('refund_id'),
+    note: text('note'),
+    paidAt: text('paid_at'),
+    createdAt: createdAt(),
+  },
+  (t) => ({
+    orderIdx: index('order_edits_order_idx').on(t.orderId, t.createdAt),
+  })
+);
+
+// ─── Draft Orders ───────────────────────────────────────────
+// Built by staff for sales closed in DMs (see lib/draftOrders.ts). Converting
+// to COD or paying the payment link creates a normal orders row (orderId).
+export const draftOrders = sqliteTable(
+  'draft_orders',
+  {
+    id: id(),
+    tenantId: tenantId(),
+    status: text('status', { enum: ['open', 'invoice_sent', 'completed'] }).notNull().default('open'),
+    customerEmail: text('customer_email').notNull(),
+    customerName: text('customer_name'),
+    customerPhone: text('customer_phone'),
+    customerAddress: text('customer_address'),
+    currency: text('currency').notNull(),
+    baseCurrency: text('base_currency').notNull(),
+    exchangeRate: real('exchange_rate').notNull().default(1),
+    // orderPricingColumns() of the last save, priced as a card payment — the
+    // payment link charges `total` and the paid order copies it as is
+    pricingJson: text('pricing_json').notNull(),
+    total: money('total').notNull(),
+    note: text('note'),
+    // Taken when the payment link is created so the customer sees it on the Stripe page
+    orderNumber: text('order_number'),
+    stripePaymentLinkId: text('stripe_payment_link_id'),
+    paymentUrl: text('payment_url'),
+    orderId: text('order_id').references(() => orders.id, { onDelete: 'set null' }),
+    actorUserId: text('actor_user_id'),
+    completedAt: text('completed_at'),
+    updatedAt: text('updated_at').notNull().default(sql`(datetime('now'))`),
+    createdAt: createdAt(),
+  },
+  (t) => ({
+    statusIdx: index('draft_orders_status_idx').on(t.tenantId, t.status, t.createdAt),
+  })
+);
+
+export const draftOrderItems = sqliteTable(
+  'draft_order_items',
+  {
+    id: id(),
+    tenantId: tenantId(),
+    draftOrderId: text('draft_order_id').notNull().references(() => draftOrders.id, { onDelete: 'cascade' }),
+    // Null for a custom line
+    productId: text('product_id'),
+    title: text('title').notNull(),
+    price: money('price').notNull(),
+    // Set by hand rather than taken from the catalogue
+    customPrice: integer('custom_price', { mode: 'boolean' }).notNull().default(false),
+    qty: integer('qty').notNull(),
+    taxRate: real('tax_rate').notNull().default(0),
+    taxAmount: money('tax_amount').notNull().default(0),
+  },
+  (t) => ({
+    draftIdx: index('draft_order_items_draft_idx').on(t.draftOrderId),
+  })
+);
+
+// ─── Returns (RMA) ──────────────────────────────────────────
+// requested → approved | rejected → received → completed (see @repo/shared/returns).
+// Completing issues a refund (refundId) or creates a no-charge exchange order.
+export const returns = sqliteTable(
+  'returns',
+  {
+    id: id(),
+    tenantId: tenantId(),
+    orderId: text('order_id').notNull().references(() => orders.id, { onDelete: 'cascade' }),
+    // Order number + sequence (SHOP-001042-R1)
+    rmaNumber: text('rma_number').notNull(),
+    status: text('status', {
+      enum: ['requested', 'approved', 'rejected', 'received', 'completed'],
+    }).notNull().default('requested'),
+    resolution: text('resolution', { enum: ['refund', 'exchange'] }).notNull().default('refund'),
+    source: text('source', { enum: ['storefront', 'dashboard'] }).notNull(),
+    customerNote: text('customer_note'),
+    merchantNote: text('merchant_note'),
+    refundId: text('refund_id'),
+    exchangeOrderId: text('exchange_order_id'),
+    // Staff member who opened it (null for storefront requests)
+    actorUserId: text('actor_user_id'),
+    approvedAt: text('approved_at'),
+    receivedAt: text('received_at'),
+    completedAt: text('completed_at'),
+    createdAt: createdAt(),
+  },
+  (t) => ({
+    rmaNumberIdx: uniqueIndex('returns_rma_tenant_idx').on(t.tenantId, t.rmaNumber),
+    orderIdx: index('returns_order_idx').on(t.orderId),
+    statusIdx: index('returns_status_idx').on(t.tenantId, t.status, t.createdAt),
+  })
+);
+
+export const returnItems = sqliteTable(
+  'return_items',
+  {
+    id: id(),
+    tenantId: tenantId(),
+    returnId: text('return_id').notNull().references(() => returns.id, { onDelete: 'cascade' }),
+    orderItemId: text('order_item_id').notNull(),
+    productId: text('product_id'),
+    qty: integer('qty').notNull(),
+    reason: text('reason', {
+      enum: ['damaged', 'defective', 'wrong_item', 'not_as_described', 'size_fit', 'changed_mind', 'other'],
+    }).notNull(),
+    // Units put back into products.stock when the parcel was received
+    restockedQty: integer('restocked_qty').notNull().default(0),
+    // Exchanges only — null sends the same product again
+    exchangeProductId: text('exchange_product_id'),
+  },
+  (t) => ({
+    returnIdx: index('return_items_return_idx').on(t.returnId),
+    orderItemIdx: index('return_items_order_item_idx').on(t.orderItemId),
+  })
+);
+
+// ─── Order Status Events ────────────────────────────────────
+// Append-only timeline — one row per lifecycle transition.
+// actorUserId is null for system transitions (checkout, Stripe webhook).
+export const orderStatusEvents = sqliteTable(
+  'order_status_events',
+  {
+    id: id(),
+    tenantId: tenantId(),
+    orderId: text('order_id').notNull().references(() => orders.id, { onDelete: 'cascade' }),
+    fromStatus: text('from_status'),
+    toStatus: text('to_status').notNull(),
+    actorUserId: text('actor_user_id'),
+    source: text('source', { enum: ['dashboard', 'checkout', 'webhook'] }).notNull().default('dashboard'),
+    note: text('note'),
+    createdAt: createdAt(),
+  },
+  (t) => ({
+    orderIdx: index('order_status_events_order_idx').on(t.orderId, t.createdAt),
+  })
+);
+
+// ─── Shipments ──────────────────────────────────────────────
+// Parcels handed to a carrier (lib/carriers.ts). `manual` rows only hold a
+// tracking number typed in by staff and are never polled.
+export const shipments = sqliteTable(
+  'shipments',
+  {
+    id: id(),
+    tenantId: tenantId(),
+    orderId: text('order_id').notNull().references(() => orders.id, { onDelete: 'cascade' }),
+    carrier: text('carrier').notNull(),
+    // Display name for manual shipments (adapters have their own)
+    carrierName: text('carrier_name'),
+    carrierShipmentId: text('carrier_shipment_id'),
+    trackingNumber: text('tracking_number').notNull(),
+    trackingUrl: text('tracking_url'),
+    status: text('status', {
+      enum: ['created', 'in_transit', 'out_for_delivery', 'failed_attempt', 'delivered', 'returned', 'cancelled'],
+    }).notNull().default('created'),
+    estimatedDeliveryAt: text('estimated_delivery_at'),
+    lastEventAt: text('last_event_at'),
+    lastCheckedAt: text('last_checked_at'),
+    deliveredAt: text('delivered_at'),
+    actorUserId: text('actor_user_id'),
+    createdAt: createdAt(),
+  },
+  (t) => ({
+    orderIdx: index('shipments_order_idx').on(t.orderId),
+    trackingIdx: uniqueIndex('shipments_tracking_idx').on(t.tenantId, t.carrier, t.trackingNumber),
+    // Carrier webhooks only know the tracking number
+    carrierTrackingIdx: index('shipments_carrier_tracking_idx').on(t.carrier, t.trackingNumber),
+    // Polling picks the open shipments checked longest ago
+    pollIdx: index('shipments_poll_idx').on(t.tenantId, t.status, t.lastCheckedAt),
+  })
+);
+
+// ─── Shipment Events ────────────────────────────────────────
+// Tracking history as reported by the carrier; duplicates from retries are ignored
+export const shipmentEvents = sqliteTable(
+  'shipment_events',
+  {
+    id: id(),
+    tenantId: tenantId(),
+    shipmentId: text('shipment_id').notNull().references(() => shipments.id, { onDelete: 'cascade' }),
+    status: text('status', {
+      enum: ['created', 'in_transit', 'out_for_delivery', 'failed_attempt', 'delivered', 'returned', 'cancelled'],
+    }).notNull(),
+    description: text('description'),
+    location: text('location'),
+    occurredAt: text('occurred_at').notNull(),
+    createdAt: createdAt(),
+  },
+  (t) => ({
+    uniqueIdx: uniqueIndex('shipment_events_unique_idx').on(t.shipmentId, t.status, t.occurredAt),
+  })
+);
+
+// ─── Stock Reservations ─────────────────────────────────────
+// held      → units counted in products.reservedStock (checkout in progress)
+// committed → hold converted into a real products.stock decrement
+// released  → hold dropped (expired/cancelled) or committed units restocked
+export const stockReservations = sqliteTable(
+  'stock_reservations',
+  {
+    id: id(),
+    tenantId: tenantId(),
+    orderId: text('order_id').notNull(),
+    productId: text('product_id').notNull().references(() => products.id, { onDelete: 'cascade' }),
+    qty: integer('qty').notNull(),
+    status: text('status', { enum: ['held', 'committed', 'released'] }).notNull().default('held'),
+    expiresAt: text('expires_at').notNull(),
+    createdAt: createdAt(),
+  },
+  (t) => ({
+    orderIdx: index('stock_reservations_order_idx').on(t.orderId),
+    expiryIdx: index('stock_reservations_expiry_idx').on(t.tenantId, t.status, t.expiresAt),
+  })
+);
+
+// ─── Discount Codes ─────────────────────────────────────────
+export const discountCodes = sqliteTable(
+  'discount_codes',
+  {
+    id: id(),
+    tenantId: tenantId(),
+    code: text('code').notNull(),   // stored uppercase
+    type: text('type', { enum: ['percentage', 'fixed', 'free_shipping'] }).notNull(),
+    // Percent for `percentage`, minor units for `fixed`
+    value: real('value').notNull().default(0),
+    minSubtotal: money('min_subtotal'),
+    usageLimit: integer('usage_limit'),
+    usageCount: integer('usage_count').notNull().default(0),
+    perCustomerLimit: integer('per_customer_limit'),
+    startsAt: text('starts_at'),
+    endsAt: text('ends_at'),
+    // JSON string[] — null = no restriction
+    productIdsJson: text('product_ids_json'),
+    categoryIdsJson: text('category_ids_json'),
+    isActive: integer('is_active', { mode: 'boolean' }).notNull().default(true),
+    createdAt: createdAt(),
+  },
+  (t) => ({
+    codeIdx: uniqueIndex('discount_codes_tenant_code_idx').on(t.tenantId, t.code),
+  })
+);
+
+// ─── Discount Redemptions ───────────────────────────────────
+// One row per order using a code — drives per-customer limits and is
+// removed again when the order is cancelled or its checkout expires.
+export const discountRedemptions = sqliteTable(
+  'discount_redemptions',
+  {
+    id: id(),
+    tenantId: tenantId(),
+    discountCodeId: text('discount_code_id').notNull().references(() => discountCodes.id, { onDelete: 'cascade' }),
+    orderId: text('order_id').notNull().unique(),
+    customerEmail: text('customer_email').notNull(),
+    amount: money('amount').notNull(),
+    createdAt: createdAt(),
+  },
+  (t) => ({
+    customerIdx: index('discount_redemptions_customer_idx').on(t.discountCodeId, t.customerEmail),
+  })
+);
+
+// ─── Exchange Rates ─────────────────────────────────────────
+// Units of `currency` per 1 unit of the tenant's base currency (no row for the base itself)
+export const exchangeRates = sqliteTable(
+  'exchange_rates',
+  {
+    id: id(),
+    tenantId: tenantId(),
+    currency: text('currency', { enum: ['MAD', 'EUR', 'USD'] }).notNull(),
+    rate: real('rate').notNull(),
+    source: text('source', { enum: ['manual', 'import'] }).notNull().default('manual'),
+    actorUserId: text('actor_user_id'),
+    updatedAt: text('updated_at').notNull().default(sql`(datetime('now'))`),
+    createdAt: createdAt(),
+  },
+  (t) => ({
+    tenantCurrencyIdx: uniqueIndex('exchange_rates_tenant_currency_idx').on(t.tenantId, t.currency),
+  })
+);
+
+// ─── Tax Classes ────────────────────────────────────────────
+// Per-tenant rates (e.g. "TVA 20%", "TVA réduite 10%") — products point at one,
+// the default class covers products without one and shipping
+export const taxClasses = sqliteTable(
+  'tax_classes',
+  {
+    id: id(),
+    tenantId: tenantId(),
+    name: text('name').notNull(),
+    rate: real('rate').notNull(),
+    isDefault: integer('is_default', { mode: 'boolean' }).notNull().default(false),
+    createdAt: createdAt(),
+  },
+  (t) => ({
+    tenantIdx: index('tax_classes_tenant_idx').on(t.tenantId),
+  })
+);
+
+// ─── Shipping Zones ─────────────────────────────────────────
+// Destinations a tenant delivers to — a whole country or a list of
+// cities/regions within it (regional zones win over country-wide ones)
+export const shippingZones = sqliteTable(
+  'shipping_zones',
+  {
+    id: id(),
+    tenantId: tenantId(),
+    name: text('name').notNull(),
+    countriesJson: text('countries_json').notNull(),
+    regionsJson: text('regions_json'),
+    freeShippingThreshold: money('free_shipping_threshold'),
+    codSurcharge: money('cod_surcharge').notNull().default(0),
+    isActive: integer('is_active', { mode: 'boolean' }).notNull().default(true),
+    createdAt: createdAt(),
+  },
+  (t) => ({
+    tenantIdx: index('shipping_zones_tenant_idx').on(t.tenantId),
+  })
+);
+
+// ─── Shipping Rates ─────────────────────────────────────────
+export const shippingRates = sqliteTable(
+  'shipping_rates',
+  {
+    id: id(),
+    tenantId: tenantId(),
+    zoneId: text('zone_id').notNull().references(() => shippingZones.id, { onDelete: 'cascade' }),
+    name: text('name').notNull(),
+    type: text('type', { enum: ['flat', 'weight', 'price'] }).notNull().default('flat'),
+    amount: money('amount').notNull().default(0),
+    // [{ min, max, amount }] for weight/price tiers — amounts and price bounds in minor units
+    tiersJson: text('tiers_json'),
+    minDeliveryDays: integer('min_delivery_days'),
+    maxDeliveryDays: integer('max_delivery_days'),
+    isActive: integer('is_active', { mode: 'boolean' }).notNull().default(true),
+    createdAt: createdAt(),
+  },
+  (t) => ({
+    zoneIdx: index('shipping_rates_zone_idx').on(t.zoneId),
+  })
+);
+
+// ─── COD Blacklist ──────────────────────────────────────────
+// Values are stored normalized (see normalizePhone/Email/Address in @repo/shared/fraud)
+export const codBlacklist = sqliteTable(
+  'cod_blacklist',
+  {
+    id: id(),
+    tenantId: tenantId(),
+    type: text('type', { enum: ['phone', 'email', 'address'] }).notNull(),
+    value: text('value').notNull(),
+    reason: text('reason'),
+    actorUserId: text('actor_user_id'),
+    createdAt: createdAt(),
+  },
+  (t) => ({
+    uniqueIdx: uniqueIndex('cod_blacklist_unique_idx').on(t.tenantId, t.type, t.value),
+  })
+);
+
+// ─── COD Refusals ───────────────────────────────────────────
+// COD orders cancelled after shipping — the customer refused the parcel
+export const codRefusals = sqliteTable(
+  'cod_refusals',
+  {
+    id: id(),
+    tenantId: tenantId(),
+    orderId: text('order_id').notNull().unique(),
+    phone: text('phone'),
+    email: text('email').notNull(),
+    amount: money('amount').notNull(),
+    createdAt: createdAt(),
+  },
+  (t) => ({
+    phoneIdx: index('cod_refusals_phone_idx').on(t.tenantId, t.phone),
+    emailIdx: index('cod_refusals_email_idx').on(t.tenantId, t.email),
+  })
+);
+
+// ─── Order Confirmation Attempts ────────────────────────────
+// One row per call made to confirm a COD order
+export const orderConfirmationAttempts = sqliteTable(
+  'order_confirmation_attempts',
+  {
+    id: id(),
+    tenantId: tenantId(),
+    orderId: text('order_id').notNull().references(() => orders.id, { onDelete: 'cascade' }),
+    outcome: text('outcome', { enum: ['confirmed', 'unreachable', 'rejected', 'callback'] }).notNull(),
+    note: text('note'),
+    callbackAt: text('callback_at'),
+    actorUserId: text('actor_user_id'),
+    createdAt: createdAt(),
+  },
+  (t) => ({
+    orderIdx: index('order_confirmation_attempts_order_idx').on(t.orderId, t.createdAt),
+  })
+);
+
+// ─── Idempotency Keys ───────────────────────────────────────
+// First response for an Idempotency-Key, replayed on client retries
+export const idempotencyKeys = sqliteTable(
+  'idempotency_keys',
+  {
+    id: id(),
+    tenantId: tenantId(),
+    key: text('key').notNull(),
+    // SHA-256 of method + path + body — a reused key with another body is rejected
+    requestHash: text('request_hash').notNull(),
+    status: text('status', { enum: ['processing', 'completed'] }).notNull().default('processing'),
+    responseStatus: integer('response_status'),
+    responseBody: text('response_body'),
+    expiresAt: text('expires_at').notNull(),
+    createdAt: createdAt(),
+  },
+  (t) => ({
+    tenantKeyIdx: uniqueIndex('idempotency_tenant_key_idx').on(t.tenantId, t.key),
+    expiresIdx: index('idempotency_expires_idx').on(t.tenantId, t.expiresAt),
+  })
+);
+
 // ─── Subscriptions ──────────────────────────────────────────
 export const subscriptions = sqliteTable(
   'subscriptions',
@@ -236,9 +905,14 @@ export type User = typeof users.$inferSelect;
 export type NewUser = typeof users.$inferInsert;
 export type Session = typeof sessions.$inferSelect;
 export type Membership = typeof memberships.$inferSelect;
+export type CustomerAccount = typeof customerAccounts.$inferSelect;
+export type CustomerSession = typeof customerSessions.$inferSelect;
+export type CustomerAddress = typeof customerAddresses.$inferSelect;
+export type Customer = typeof customers.$inferSelect;
 export type Product = typeof products.$inferSelect;
 export type NewProduct = typeof products.$inferInsert;
 export type ProductImage = typeof productImages.$inferSelect;
+export type ProductPrice = typeof productPrices.$inferSelect;
 export type Category = typeof categories.$inferSelect;
 export type NewCategory = typeof categories.$inferInsert;
 export type Order = typeof orders.$inferSelect;
@@ -246,5 +920,28 @@ export type PaymentMethod = 'STRIPE' | 'COD';
 export type PaymentStatus = 'PAID' | 'UNPAID' | 'PENDING' | 'FAILED';
 export type NewOrder = typeof orders.$inferInsert;
 export type OrderItem = typeof orderItems.$inferSelect;
+export type Refund = typeof refunds.$inferSelect;
+export type OrderEdit = typeof orderEdits.$inferSelect;
+export type DraftOrder = typeof draftOrders.$inferSelect;
+export type DraftOrderItem = typeof draftOrderItems.$inferSelect;
+export type OrderReturn = typeof returns.$inferSelect;
+export type ReturnItem = typeof returnItems.$inferSelect;
+export type OrderStatusEvent = typeof orderStatusEvents.$inferSelect;
+export type StockReservation = typeof stockReservations.$inferSelect;
+export type Shipment = typeof shipments.$inferSelect;
+export type ShipmentEvent = typeof shipmentEvents.$inferSelect;
+export type DiscountCode = typeof discountCodes.$inferSelect;
+export type NewDiscountCode = typeof discountCodes.$inferInsert;
+export type ExchangeRate = typeof exchangeRates.$inferSelect;
+export type TaxClass = typeof taxClasses.$inferSelect;
+export type NewTaxClass = typeof taxClasses.$inferInsert;
+export type ShippingZone = typeof shippingZones.$inferSelect;
+export type NewShippingZone = typeof shippingZones.$inferInsert;
+export type ShippingRate = typeof shippingRates.$inferSelect;
+export type NewShippingRate = typeof shippingRates.$inferInsert;
+export type CodBlacklistEntry = typeof codBlacklist.$inferSelect;
+export type CodRefusal = typeof codRefusals.$inferSelect;
+export type OrderConfirmationAttempt = typeof orderConfirmationAttempts.$inferSelect;
+export type IdempotencyKey = typeof idempotencyKeys.$inferSelect;
 export type Subscription = typeof subscriptions.$inferSelect;
 export type AuditLog = typeof auditLogs.$inferSelect;
@@ -0,0 +1,84 @@
+// packages/shared/src/__tests__/currencies.test.ts
+// Unit tests for exchange rates, rate files and checkout conversion
+
+import { describe, it, expect } from 'vitest';
+import {
+  crossRate,
+  convertMoney,
+  rebaseRates,
+  parseExchangeRateFile,
+  convertShippingRate,
+  convertDiscountRule,
+  orderAmountInBase,
+} from '../currencies.js';
+import type { DiscountRule } from '../discounts.js';
+
+describe('crossRate', () => {
+  const rates = { EUR: 0.092, USD: 0.1 };
+
+  it('converts from the base and between two quoted currencies', () => {
+    expect(crossRate('MAD', 'EUR', 'MAD', rates)).toBe(0.092);
+    expect(convertMoney(10_00, crossRate('EUR', 'USD', 'MAD', rates)!)).toBe(10_87);
+  });
+
+  it('is null without a rate', () => {
+    expect(crossRate('MAD', 'USD', 'MAD', { EUR: 0.092 })).toBeNull();
+  });
+});
+
+describe('orderAmountInBase', () => {
+  const rates = { EUR: 0.092, USD: 0.1 };
+
+  it('takes the amount back at the rate the order was charged', () => {
+    expect(orderAmountInBase(9_20, { currency: 'EUR', baseCurrency: 'MAD', exchangeRate: 0.092 }, 'MAD', rates)).toBe(100_00);
+    expect(orderAmountInBase(100_00, { currency: 'MAD', baseCurrency: 'MAD', exchangeRate: 1 }, 'MAD', rates)).toBe(100_00);
+  });
+
+  it('uses today\'s rates for orders placed under an earlier base currency', () => {
+    expect(orderAmountInBase(10_00, { currency: 'USD', baseCurrency: 'USD', exchangeRate: 1 }, 'MAD', rates)).toBe(100_00);
+    expect(orderAmountInBase(10_00, { currency: 'USD', baseCurrency: 'USD', exchangeRate: 1 }, 'MAD', { EUR: 0.092 })).toBeNull();
+  });
+});
+
+describe('rebaseRates', () => {
+  it('re-expresses rates against the new base', () => {
+    expect(rebaseRates({ EUR: 0.1, USD: 0.11 }, 'MAD', 'EUR')).toEqual({ MAD: 10, USD: 1.1 });
+  });
+
+  it('needs a rate for the new base', () => {
+    expect(rebaseRates({ EUR: 0.1 }, 'MAD', 'USD')).toBeNull();
+  });
+});
+
+describe('parseExchangeRateFile', () => {
+  it('reads comma, semicolon and tab files with a header', () => {
+    expect(parseExchangeRateFile('currency,rate\nEUR,0.092\n# note\n\nusd;0,1\n')).toEqual({
+      rates: [{ currency: 'EUR', rate: 0.092 }, { currency: 'USD', rate: 0.1 }],
+      errors: [],
+    });
+  });
+
+  it('reports unknown currencies, bad rates and duplicates by line', () => {
+    const { rates, errors } = parseExchangeRateFile('GBP,0.08\nEUR,-1\nUSD,0.1\nUSD,0.2');
+    expect(rates).toEqual([{ currency: 'USD', rate: 0.1 }]);
+    expect(errors.map(e => e.line)).toEqual([1, 2, 4]);
+  });
+});
+
+describe('checkout conversion', () => {
+  it('converts price tiers but not weight tiers', () => {
+    const tiers = [{ min: 0, max: 500_00, amount: 30_00 }];
+    const base = { id: 'r', zoneId: 'z', name: 'Std', amount: 0, tiers, minDeliveryDays: null, maxDeliveryDays: null };
+    expect(convertShippingRate({ ...base, type: 'price' }, 0.1).tiers).toEqual([{ min: 0, max: 50_00, amount: 3_00 }]);
+    expect(convertShippingRate({ ...base, type: 'weight' }, 0.1).tiers).toEqual([{ min: 0, max: 500_00, amount: 3_00 }]);
+  });
+
+  it('converts fixed discounts and minimums, not percentages', () => {
+    const rule: DiscountRule = {
+      type: 'percentage', value: 10, minSubtotal: 200_00, usageLimit: null, usageCount: 0, perCustomerLimit: null,
+      startsAt: null, endsAt: null, isActive: true, productIds: null, categoryIds: null,
+    };
+    expect(convertDiscountRule(rule, 0.1)).toMatchObject({ value: 10, minSubtotal: 20_00 });
+    expect(convertDiscountRule({ ...rule, type: 'fixed', value: 50_00 }, 0.1)).toMatchObject({ value: 5_00 });
+  });
+});
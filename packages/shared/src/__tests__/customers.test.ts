@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'vitest';
+import { countsAsOrder, customerStats, normalizeTags } from '../customers.js';
+import type { CustomerOrderFigures } from '../customers.js';
+
+const order = (o: Partial<CustomerOrderFigures>): CustomerOrderFigures => ({
+  status: 'delivered',
+  paymentMethod: 'COD',
+  paymentStatus: 'PAID',
+  total: 100,
+  refundedTotal: 0,
+  createdAt: '2024-03-01 10:00:00',
+  ...o,
+});
+
+describe('countsAsOrder', () => {
+  it('skips cancelled orders and unpaid card checkouts', () => {
+    expect(countsAsOrder({ status: 'cancelled', paymentMethod: 'COD' })).toBe(false);
+    expect(countsAsOrder({ status: 'pending', paymentMethod: 'STRIPE' })).toBe(false);
+    expect(countsAsOrder({ status: 'pending', paymentMethod: 'COD' })).toBe(true);
+    expect(countsAsOrder({ status: 'refunded', paymentMethod: 'STRIPE' })).toBe(true);
+  });
+});
+
+describe('customerStats', () => {
+  it('counts collected money net of refunds', () => {
+    const stats = customerStats([
+      order({ total: 250_50, refundedTotal: 50_00, createdAt: '2024-01-10 09:00:00' }),
+      order({ paymentMethod: 'STRIPE', status: 'paid', total: 80_00 }),
+      // COD not delivered yet: an order, but no money collected
+      order({ status: 'pending', paymentStatus: 'UNPAID', total: 300_00, createdAt: '2024-05-02 18:30:00' }),
+      order({ status: 'cancelled', paymentStatus: 'UNPAID', total: 999_00, createdAt: '2024-06-01 00:00:00' }),
+    ]);
+    expect(stats).toEqual({
+      orderCount: 3,
+      lifetimeSpend: 280_50,
+      firstOrderAt: '2024-01-10 09:00:00',
+      lastOrderAt: '2024-05-02 18:30:00',
+    });
+  });
+
+  it('is empty for a buyer with no placed orders', () => {
+    expect(customerStats([order({ paymentMethod: 'STRIPE', status: 'pending', paymentStatus: 'PENDING' })]))
+      .toEqual({ orderCount: 0, lifetimeSpend: 0, firstOrderAt: null, lastOrderAt: null });
+  });
+});
+
+describe('normalizeTags', () => {
+  it('trims, lower-cases and de-duplicates', () => {
+    expect(normalizeTags([' VIP', 'vip', '', 'Wholesale '])).toEqual(['vip', 'wholesale']);
+  });
+});
@@ -0,0 +1,144 @@
+// packages/shared/src/__tests__/discounts.test.ts
+// Unit tests for the coupon engine
+
+import { describe, it, expect } from 'vitest';
+import {
+  computeDiscount,
+  checkDiscountAvailability,
+  isLineEligible,
+  normalizeDiscountCode,
+  type DiscountRule,
+} from '../discounts.js';
+import { createDiscountCodeSchema } from '../schemas.js';
+
+const baseRule: DiscountRule = {
+  type: 'percentage',
+  value: 10,
+  minSubtotal: null,
+  usageLimit: null,
+  usageCount: 0,
+  perCustomerLimit: null,
+  startsAt: null,
+  endsAt: null,
+  isActive: true,
+  productIds: null,
+  categoryIds: null,
+};
+
+const cart = [
+  { productId: 'p1', price: 100_00, qty: 2, categoryIds: ['shoes'] },
+  { productId: 'p2', price: 49_99, qty: 1, categoryIds: ['bags'] },
+];
+
+// ─── computeDiscount ──────────────────────────────────────────
+describe('computeDiscount', () => {
+  it('applies a percentage to the whole cart', () => {
+    const result = computeDiscount(baseRule, cart);
+    expect(result.eligibleSubtotal).toBe(249_99);
+    expect(result.amount).toBe(25_00);
+  });
+
+  it('caps a fixed amount at the eligible subtotal', () => {
+    const result = computeDiscount({ ...baseRule, type: 'fixed', value: 500_00 }, cart);
+    expect(result.amount).toBe(249_99);
+  });
+
+  it('only discounts restricted products', () => {
+    const result = computeDiscount({ ...baseRule, productIds: ['p2'] }, cart);
+    expect(result.eligibleSubtotal).toBe(49_99);
+    expect(result.amount).toBe(5_00);
+  });
+
+  it('matches category restrictions', () => {
+    const result = computeDiscount({ ...baseRule, type: 'fixed', value: 20_00, categoryIds: ['shoes'] }, cart);
+    expect(result.eligibleSubtotal).toBe(200_00);
+    expect(result.amount).toBe(20_00);
+  });
+
+  it('free shipping takes nothing off the items', () => {
+    const result = computeDiscount({ ...baseRule, type: 'free_shipping', value: 0 }, cart);
+    expect(result.amount).toBe(0);
+    expect(result.freeShipping).toBe(true);
+  });
+
+  it('gives nothing when no line is eligible', () => {
+    const result = computeDiscount({ ...baseRule, productIds: ['other'] }, cart);
+    expect(result.amount).toBe(0);
+    expect(result.eligibleSubtotal).toBe(0);
+  });
+});
+
+// ─── isLineEligible ───────────────────────────────────────────
+describe('isLineEligible', () => {
+  it('accepts every line without restrictions', () => {
+    expect(isLineEligible(baseRule, cart[0])).toBe(true);
+  });
+
+  it('treats empty restriction lists as no restriction', () => {
+    expect(isLineEligible({ productIds: [], categoryIds: [] }, cart[1])).toBe(true);
+  });
+
+  it('leaves custom lines out of product-restricted codes', () => {
+    const custom = { productId: null, price: 5000, qty: 1 };
+    expect(isLineEligible(baseRule, custom)).toBe(true);
+    expect(isLineEligible({ productIds: ['p1'], categoryIds: null }, custom)).toBe(false);
+  });
+});
+
+// ─── checkDiscountAvailability ────────────────────────────────
+describe('checkDiscountAvailability', () => {
+  const ctx = { now: new Date('2026-06-15T12:00:00Z'), subtotal: 300, customerUses: 0 };
+
+  it('accepts an active, unrestricted code', () => {
+    expect(checkDiscountAvailability(baseRule, ctx)).toBeNull();
+  });
+
+  it('rejects inactive codes', () => {
+    expect(checkDiscountAvailability({ ...baseRule, isActive: false }, ctx)).toBe('INACTIVE');
+  });
+
+  it('rejects codes outside their date window', () => {
+    expect(checkDiscountAvailability({ ...baseRule, startsAt: '2026-07-01T00:00:00Z' }, ctx)).toBe('NOT_STARTED');
+    expect(checkDiscountAvailability({ ...baseRule, endsAt: '2026-06-01T00:00:00Z' }, ctx)).toBe('EXPIRED');
+  });
+
+  it('enforces global and per-customer limits', () => {
+    expect(checkDiscountAvailability({ ...baseRule, usageLimit: 5, usageCount: 5 }, ctx)).toBe('USAGE_LIMIT_REACHED');
+    expect(checkDiscountAvailability({ ...baseRule, perCustomerLimit: 1 }, { ...ctx, customerUses: 1 }))
+      .toBe('CUSTOMER_LIMIT_REACHED');
+  });
+
+  it('enforces the minimum subtotal', () => {
+    expect(checkDiscountAvailability({ ...baseRule, minSubtotal: 500 }, ctx)).toBe('MIN_SUBTOTAL_NOT_MET');
+  });
+});
+
+// ─── createDiscountCodeSchema ─────────────────────────────────
+describe('createDiscountCodeSchema', () => {
+  it('uppercases the code', () => {
+    const result = createDiscountCodeSchema.safeParse({ code: 'summer10', type: 'percentage', value: 10 });
+    expect(result.success).toBe(true);
+    if (result.success) expect(result.data.code).toBe('SUMMER10');
+  });
+
+  it('rejects percentages above 100', () => {
+    expect(createDiscountCodeSchema.safeParse({ code: 'BIG', type: 'percentage', value: 150 }).success).toBe(false);
+  });
+
+  it('rejects an end date before the start date', () => {
+    const result = createDiscountCodeSchema.safeParse({
+      code: 'WINDOW',
+      type: 'fixed',
+      value: 20,
+      startsAt: '2026-07-01T00:00:00Z',
+      endsAt: '2026-06-01T00:00:00Z',
+    });
+    expect(result.success).toBe(false);
+  });
+});
+
+describe('normalizeDiscountCode', () => {
+  it('trims and uppercases', () => {
+    expect(normalizeDiscountCode('  summer10 ')).toBe('SUMMER10');
+  });
+});
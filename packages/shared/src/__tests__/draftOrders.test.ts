@@ -0,0 +1,28 @@
+import { describe, it, expect } from 'vitest';
+import { draftStockLines, isDraftEditable } from '../draftOrders.js';
+
+describe('isDraftEditable', () => {
+  it('locks a draft once it became an order', () => {
+    expect(isDraftEditable('open')).toBe(true);
+    expect(isDraftEditable('invoice_sent')).toBe(true);
+    expect(isDraftEditable('completed')).toBe(false);
+  });
+});
+
+describe('draftStockLines', () => {
+  it('adds up repeated products and skips custom lines', () => {
+    expect(draftStockLines([
+      { productId: 'p1', qty: 2 },
+      { productId: null, qty: 1 },
+      { productId: 'p2', qty: 1 },
+      { productId: 'p1', qty: 3 },
+    ])).toEqual([
+      { productId: 'p1', qty: 5 },
+      { productId: 'p2', qty: 1 },
+    ]);
+  });
+
+  it('is empty for a draft of custom lines only', () => {
+    expect(draftStockLines([{ productId: null, qty: 4 }])).toEqual([]);
+  });
+});
@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+import {
+  csvCell,
+  csvRow,
+  createdAtRange,
+  exportHeaders,
+  ORDER_EXPORT_COLUMNS,
+  LINE_EXPORT_COLUMNS,
+} from '../exports.js';
+
+describe('csvCell', () => {
+  it('leaves plain values unquoted', () => {
+    expect(csvCell('SHOP-001042')).toBe('SHOP-001042');
+    expect(csvCell(12.5)).toBe('12.5');
+    expect(csvCell(null)).toBe('');
+  });
+
+  it('quotes commas, quotes and newlines', () => {
+    expect(csvCell('Casablanca, Maarif')).toBe('"Casablanca, Maarif"');
+    expect(csvCell('12" frame')).toBe('"12"" frame"');
+    expect(csvCell('line 1\nline 2')).toBe('"line 1\nline 2"');
+  });
+
+  it('neutralises text a spreadsheet would evaluate', () => {
+    expect(csvCell('=HYPERLINK("x")')).toBe(`"'=HYPERLINK(""x"")"`);
+    expect(csvCell('+212600000000')).toBe("'+212600000000");
+    expect(csvCell('@SUM(A1)')).toBe("'@SUM(A1)");
+  });
+
+  it('keeps negative numbers numeric', () => {
+    expect(csvCell(-5)).toBe('-5');
+  });
+});
+
+describe('csvRow', () => {
+  it('joins cells and ends with CRLF', () => {
+    expect(csvRow(['a', 1, null, 'b,c'])).toBe('a,1,,"b,c"\r\n');
+  });
+});
+
+describe('exportHeaders', () => {
+  it('follows the locale', () => {
+    expect(exportHeaders(ORDER_EXPORT_COLUMNS, 'en')[0]).toBe('Order number');
+    expect(exportHeaders(ORDER_EXPORT_COLUMNS, 'ar')[0]).toBe('رقم الطلب');
+  });
+
+  it('has a header per column in both locales', () => {
+    for (const columns of [ORDER_EXPORT_COLUMNS, LINE_EXPORT_COLUMNS]) {
+      expect(exportHeaders(columns, 'ar')).toHaveLength(columns.length);
+      expect(new Set(columns.map(c => c.key)).size).toBe(columns.length);
+    }
+  });
+});
+
+describe('createdAtRange', () => {
+  it('makes the end day inclusive', () => {
+    expect(createdAtRange('2026-01-01', '2026-01-31')).toEqual({
+      since: '2026-01-01 00:00:00',
+      before: '2026-02-01 00:00:00',
+    });
+  });
+
+  it('rolls over the year', () => {
+    expect(createdAtRange(undefined, '2025-12-31')).toEqual({ before: '2026-01-01 00:00:00' });
+  });
+
+  it('is open-ended without bounds', () => {
+    expect(createdAtRange()).toEqual({});
+  });
+});
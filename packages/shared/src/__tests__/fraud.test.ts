@@ -0,0 +1,81 @@
+// packages/shared/src/__tests__/fraud.test.ts
+// Unit tests for COD limits, identity normalization and risk scoring
+
+import { describe, it, expect } from 'vitest';
+import {
+  scoreCodRisk,
+  codLimitFor,
+  normalizePhone,
+  normalizeAddress,
+  type CodRiskSignals,
+} from '../fraud.js';
+
+const clean: CodRiskSignals = {
+  blacklisted: { phone: false, email: false, address: false },
+  refusals: 0,
+  deliveredOrders: 0,
+  total: 300,
+  limit: 2000,
+};
+
+// ─── scoreCodRisk ─────────────────────────────────────────────
+describe('scoreCodRisk', () => {
+  it('flags first-time customers lightly', () => {
+    expect(scoreCodRisk(clean)).toEqual({ score: 10, reasons: ['FIRST_ORDER'] });
+  });
+
+  it('scores blacklisted customers at 100', () => {
+    const risk = scoreCodRisk({ ...clean, blacklisted: { phone: true, email: false, address: false } });
+    expect(risk.score).toBe(100);
+    expect(risk.reasons).toEqual(['BLACKLISTED_PHONE']);
+  });
+
+  it('grows with refusals', () => {
+    expect(scoreCodRisk({ ...clean, refusals: 1, deliveredOrders: 2 }).score).toBe(40);
+    expect(scoreCodRisk({ ...clean, refusals: 2 }).score).toBe(90);
+  });
+
+  it('trusts customers with deliveries and no refusals', () => {
+    expect(scoreCodRisk({ ...clean, deliveredOrders: 3 })).toEqual({ score: 0, reasons: ['TRUSTED_CUSTOMER'] });
+  });
+
+  it('adds risk for orders close to the limit', () => {
+    const risk = scoreCodRisk({ ...clean, total: 1800 });
+    expect(risk.score).toBe(25);
+    expect(risk.reasons).toContain('HIGH_VALUE');
+  });
+});
+
+// ─── codLimitFor ──────────────────────────────────────────────
+describe('codLimitFor', () => {
+  it('uses the tenant limit when set', () => {
+    expect(codLimitFor({ EUR: 500_00 }, 'EUR')).toBe(500_00);
+  });
+
+  it('falls back to defaults for every currency', () => {
+    expect(codLimitFor(null, 'MAD')).toBe(2000_00);
+    expect(codLimitFor({ MAD: 3000_00 }, 'USD')).toBe(200_00);
+  });
+});
+
+// ─── normalizePhone / normalizeAddress ────────────────────────
+describe('normalizePhone', () => {
+  it.each([
+    ['+212 6 12-34-56-78', '0612345678'],
+    ['00212612345678', '0612345678'],
+    ['212612345678', '0612345678'],
+    ['06 12 34 56 78', '0612345678'],
+  ])('%s → %s', (input, expected) => {
+    expect(normalizePhone(input)).toBe(expected);
+  });
+
+  it('keeps foreign numbers as digits', () => {
+    expect(normalizePhone('+33 6 12 34 56 78')).toBe('0033612345678');
+  });
+});
+
+describe('normalizeAddress', () => {
+  it('ignores case, accents and punctuation', () => {
+    expect(normalizeAddress('12, Rue  Hassan-II, Fès')).toBe(normalizeAddress('12 rue hassan ii fes'));
+  });
+});
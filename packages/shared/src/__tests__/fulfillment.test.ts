@@ -0,0 +1,41 @@
+import { describe, it, expect } from 'vitest';
+import { buildPickList } from '../fulfillment.js';
+
+describe('buildPickList', () => {
+  it('sums quantities per product across orders', () => {
+    const list = buildPickList([
+      { productId: 'p1', sku: 'A-01', title: 'Mug', qty: 2, orderId: 'o1' },
+      { productId: 'p1', sku: 'A-01', title: 'Mug', qty: 1, orderId: 'o2' },
+      { productId: 'p2', sku: 'A-02', title: 'Tea', qty: 5, orderId: 'o2' },
+    ]);
+    expect(list).toEqual([
+      { productId: 'p1', sku: 'A-01', title: 'Mug', qty: 3, orders: 2 },
+      { productId: 'p2', sku: 'A-02', title: 'Tea', qty: 5, orders: 1 },
+    ]);
+  });
+
+  it('counts an order once even with repeated lines', () => {
+    const [row] = buildPickList([
+      { productId: 'p1', sku: null, title: 'Mug', qty: 1, orderId: 'o1' },
+      { productId: 'p1', sku: null, title: 'Mug', qty: 1, orderId: 'o1' },
+    ]);
+    expect(row).toMatchObject({ qty: 2, orders: 1 });
+  });
+
+  it('sorts by SKU with SKU-less products last', () => {
+    const list = buildPickList([
+      { productId: 'p3', sku: null, title: 'Apron', qty: 1, orderId: 'o1' },
+      { productId: 'p2', sku: 'B-10', title: 'Tea', qty: 1, orderId: 'o1' },
+      { productId: 'p1', sku: 'A-05', title: 'Mug', qty: 1, orderId: 'o1' },
+    ]);
+    expect(list.map(r => r.productId)).toEqual(['p1', 'p2', 'p3']);
+  });
+
+  it('groups lines of deleted products by title snapshot', () => {
+    const list = buildPickList([
+      { productId: null, sku: null, title: 'Old mug', qty: 1, orderId: 'o1' },
+      { productId: null, sku: null, title: 'Old mug', qty: 2, orderId: 'o2' },
+    ]);
+    expect(list).toEqual([{ productId: null, sku: null, title: 'Old mug', qty: 3, orders: 2 }]);
+  });
+});
@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest';
+import { isInvoiceable, taxBreakdown, hasArabic, isRtlText, visualRuns } from '../invoices.js';
+
+describe('isInvoiceable', () => {
+  it('invoices paid and fulfilled orders', () => {
+    expect(isInvoiceable({ status: 'paid', paymentStatus: 'PAID' })).toBe(true);
+    expect(isInvoiceable({ status: 'shipped', paymentStatus: 'UNPAID' })).toBe(true);
+    expect(isInvoiceable({ status: 'delivered', paymentStatus: 'PAID' })).toBe(true);
+  });
+
+  it('refuses unpaid pending and cancelled orders', () => {
+    expect(isInvoiceable({ status: 'pending', paymentStatus: 'UNPAID' })).toBe(false);
+    expect(isInvoiceable({ status: 'pending', paymentStatus: 'PENDING' })).toBe(false);
+    expect(isInvoiceable({ status: 'cancelled', paymentStatus: 'PAID' })).toBe(false);
+  });
+});
+
+describe('taxBreakdown', () => {
+  it('groups tax by rate, highest first, skipping zero-rated lines', () => {
+    expect(taxBreakdown([
+      { taxRate: 10, taxAmount: 1_10 },
+      { taxRate: 20, taxAmount: 5_00 },
+      { taxRate: 10, taxAmount: 2_20 },
+      { taxRate: 0, taxAmount: 0 },
+    ])).toEqual([
+      { rate: 20, amount: 5_00 },
+      { rate: 10, amount: 3_30 },
+    ]);
+  });
+});
+
+// ─── Bidirectional text ───────────────────────────────────────
+describe('isRtlText', () => {
+  it('follows the first strong character', () => {
+    expect(hasArabic('Order طلب')).toBe(true);
+    expect(isRtlText('Order طلب')).toBe(false);
+    expect(isRtlText('123 طلب')).toBe(true);
+    expect(isRtlText('SHOP-001')).toBe(false);
+  });
+});
+
+describe('visualRuns', () => {
+  it('keeps Latin-only text as one run', () => {
+    expect(visualRuns('Invoice INV-000001')).toEqual([{ text: 'Invoice INV-000001', rtl: false }]);
+  });
+
+  it('keeps spaced Arabic words in a single run', () => {
+    expect(visualRuns('رقم الطلب')).toEqual([{ text: 'رقم الطلب', rtl: true }]);
+  });
+
+  it('puts runs of an Arabic line in right-to-left order, digits intact', () => {
+    expect(visualRuns('فاتورة INV-000012')).toEqual([
+      { text: 'INV-000012', rtl: false },
+      { text: ' ', rtl: false },
+      { text: 'فاتورة', rtl: true },
+    ]);
+  });
+
+  it('leaves Arabic names inside English lines in logical order', () => {
+    expect(visualRuns('Customer: سعيد')).toEqual([
+      { text: 'Customer:', rtl: false },
+      { text: ' ', rtl: false },
+      { text: 'سعيد', rtl: true },
+    ]);
+  });
+});
@@ -0,0 +1,66 @@
+// packages/shared/src/__tests__/money.test.ts
+// Unit tests for integer minor-unit money
+
+import { describe, it, expect } from 'vitest';
+import {
+  toMinor,
+  fromMinor,
+  hasMoneyPrecision,
+  sumMoney,
+  multiplyMoney,
+  percentOf,
+  formatAmount,
+  formatMoney,
+  CURRENCY_DECIMALS,
+  DEFAULT_MONEY_DECIMALS,
+} from '../money.js';
+import { CURRENCIES } from '../types.js';
+
+// ─── toMinor / fromMinor ──────────────────────────────────────
+describe('toMinor', () => {
+  it('converts decimals without floating-point drift', () => {
+    expect(toMinor(199.99, 'MAD')).toBe(19999);
+    expect(toMinor(0.29, 'EUR')).toBe(29);
+    expect(fromMinor(19999, 'MAD')).toBe(199.99);
+  });
+
+  it('uses the default precision for unknown currencies', () => {
+    expect(toMinor(12.5, 'XXX')).toBe(1250);
+  });
+});
+
+describe('hasMoneyPrecision', () => {
+  it('rejects more decimals than the currency has', () => {
+    expect(hasMoneyPrecision(199.99, 'MAD')).toBe(true);
+    expect(hasMoneyPrecision(19.999, 'MAD')).toBe(false);
+    expect(hasMoneyPrecision(20)).toBe(true);
+  });
+
+  it('matches the default for every supported currency', () => {
+    // Amounts without a currency in the payload are checked with the default
+    for (const currency of CURRENCIES) expect(CURRENCY_DECIMALS[currency]).toBe(DEFAULT_MONEY_DECIMALS);
+  });
+});
+
+// ─── Arithmetic ───────────────────────────────────────────────
+describe('arithmetic', () => {
+  it('sums exactly where floats drift', () => {
+    // 0.1 + 0.2 in decimals is 0.30000000000000004
+    expect(sumMoney([10, 20])).toBe(30);
+    expect(sumMoney([])).toBe(0);
+  });
+
+  it('rounds products and percentages to a whole minor unit', () => {
+    expect(multiplyMoney(10_00, 0.092)).toBe(92);
+    expect(percentOf(249_99, 10)).toBe(25_00);
+  });
+});
+
+// ─── Formatting ───────────────────────────────────────────────
+describe('formatMoney', () => {
+  it('prints the currency precision', () => {
+    expect(formatAmount(19999, 'MAD')).toBe('199.99');
+    expect(formatAmount(5000)).toBe('50.00');
+    expect(formatMoney(-1050, 'EUR')).toBe('-10.50 EUR');
+  });
+});
@@ -0,0 +1,100 @@
+import { describe, it, expect } from 'vitest';
+import { applyOrderEdit, isOrderEditable, splitRefund, stockDeltas } from '../orderEdits.js';
+
+const items = [
+  { orderItemId: 'i1', productId: 'p1', qty: 2 },
+  { orderItemId: 'i2', productId: 'p2', qty: 1 },
+];
+
+describe('isOrderEditable', () => {
+  it('allows COD until shipping', () => {
+    expect(isOrderEditable({ paymentMethod: 'COD', status: 'pending' })).toBe(true);
+    expect(isOrderEditable({ paymentMethod: 'COD', status: 'shipped' })).toBe(false);
+  });
+
+  it('allows Stripe once paid and until shipping', () => {
+    expect(isOrderEditable({ paymentMethod: 'STRIPE', status: 'pending' })).toBe(false);
+    expect(isOrderEditable({ paymentMethod: 'STRIPE', status: 'paid' })).toBe(true);
+    expect(isOrderEditable({ paymentMethod: 'STRIPE', status: 'shipped' })).toBe(false);
+  });
+});
+
+describe('applyOrderEdit', () => {
+  it('changes, removes and adds lines', () => {
+    const result = applyOrderEdit(items, [
+      { orderItemId: 'i1', qty: 3 },
+      { orderItemId: 'i2', qty: 0 },
+      { productId: 'p3', qty: 1 },
+    ]);
+    expect(result).toEqual({
+      ok: true,
+      lines: [
+        { orderItemId: 'i1', productId: 'p1', qty: 3 },
+        { orderItemId: null, productId: 'p3', qty: 1 },
+      ],
+      removed: ['i2'],
+      diff: [
+        { orderItemId: 'i1', productId: 'p1', fromQty: 2, toQty: 3 },
+        { orderItemId: 'i2', productId: 'p2', fromQty: 1, toQty: 0 },
+        { orderItemId: null, productId: 'p3', fromQty: 0, toQty: 1 },
+      ],
+    });
+  });
+
+  it('adds to the existing line of a product already ordered', () => {
+    const result = applyOrderEdit(items, [{ productId: 'p2', qty: 2 }]);
+    expect(result.ok && result.lines[1]).toEqual({ orderItemId: 'i2', productId: 'p2', qty: 3 });
+  });
+
+  it('refuses to empty the order', () => {
+    expect(applyOrderEdit(items, [{ orderItemId: 'i1', qty: 0 }, { orderItemId: 'i2', qty: 0 }]))
+      .toEqual({ ok: false, code: 'EMPTY_ORDER' });
+  });
+
+  it('reports edits that change nothing', () => {
+    expect(applyOrderEdit(items, [{ orderItemId: 'i1', qty: 2 }])).toEqual({ ok: false, code: 'NO_CHANGES' });
+  });
+
+  it('rejects lines from another order', () => {
+    expect(applyOrderEdit(items, [{ orderItemId: 'x', qty: 1 }]))
+      .toEqual({ ok: false, code: 'UNKNOWN_ITEM', orderItemId: 'x' });
+  });
+});
+
+describe('stockDeltas', () => {
+  it('nets changes per product', () => {
+    const deltas = stockDeltas([
+      { orderItemId: 'i1', productId: 'p1', fromQty: 2, toQty: 3 },
+      { orderItemId: 'i2', productId: 'p2', fromQty: 1, toQty: 0 },
+      { orderItemId: 'i3', productId: null, fromQty: 1, toQty: 2 },
+    ]);
+    expect([...deltas]).toEqual([['p1', 1], ['p2', -1]]);
+  });
+});
+
+describe('splitRefund', () => {
+  const charges = [
+    { paymentIntentId: 'pi_order', refundable: 5000 },
+    { paymentIntentId: 'pi_edit', refundable: 1500 },
+  ];
+
+  it('takes from the original charge first', () => {
+    expect(splitRefund(charges, 3000)).toEqual([{ paymentIntentId: 'pi_order', amount: 3000 }]);
+  });
+
+  it('spills over to edit charges', () => {
+    expect(splitRefund(charges, 6000)).toEqual([
+      { paymentIntentId: 'pi_order', amount: 5000 },
+      { paymentIntentId: 'pi_edit', amount: 1000 },
+    ]);
+  });
+
+  it('skips charges already refunded', () => {
+    expect(splitRefund([{ paymentIntentId: 'pi_order', refundable: 0 }, charges[1]!], 1500))
+      .toEqual([{ paymentIntentId: 'pi_edit', amount: 1500 }]);
+  });
+
+  it('returns null when the charges cannot cover the amount', () => {
+    expect(splitRefund(charges, 6501)).toBeNull();
+  });
+});
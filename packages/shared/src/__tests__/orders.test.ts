@@ -0,0 +1,148 @@
+// packages/shared/src/__tests__/orders.test.ts
+// Unit tests for the order lifecycle transition graph
+
+import { describe, it, expect } from 'vitest';
+import {
+  canTransition,
+  allowedTransitions,
+  isTerminalStatus,
+  confirmationStatusAfter,
+  canShipCod,
+  formatOrderNumber,
+  normalizeOrderNumber,
+  parseOrderSearch,
+} from '../orders.js';
+
+// ─── STRIPE ───────────────────────────────────────────────────
+describe('STRIPE transitions', () => {
+  it('leaves pending → paid to the webhook', () => {
+    expect(canTransition('STRIPE', 'pending', 'paid')).toBe(false);
+    expect(allowedTransitions('STRIPE', 'pending')).toEqual(['cancelled']);
+  });
+
+  it('allows paid → shipped → delivered', () => {
+    expect(canTransition('STRIPE', 'paid', 'shipped')).toBe(true);
+    expect(canTransition('STRIPE', 'shipped', 'delivered')).toBe(true);
+  });
+
+  it('rejects shipping an unpaid order', () => {
+    expect(canTransition('STRIPE', 'pending', 'shipped')).toBe(false);
+  });
+
+  it('rejects delivered → pending', () => {
+    expect(canTransition('STRIPE', 'delivered', 'pending')).toBe(false);
+  });
+
+  it('allows refund after payment', () => {
+    expect(canTransition('STRIPE', 'paid', 'refunded')).toBe(true);
+    expect(canTransition('STRIPE', 'delivered', 'refunded')).toBe(true);
+  });
+});
+
+// ─── COD ──────────────────────────────────────────────────────
+describe('COD transitions', () => {
+  it('allows pending → shipped → delivered', () => {
+    expect(canTransition('COD', 'pending', 'shipped')).toBe(true);
+    expect(canTransition('COD', 'shipped', 'delivered')).toBe(true);
+  });
+
+  it('never uses the paid fulfillment status', () => {
+    expect(canTransition('COD', 'pending', 'paid')).toBe(false);
+    expect(allowedTransitions('COD', 'paid')).toEqual([]);
+  });
+
+  it('allows refusal at the door (shipped → cancelled)', () => {
+    expect(canTransition('COD', 'shipped', 'cancelled')).toBe(true);
+  });
+
+  it('rejects refunded → shipped', () => {
+    expect(canTransition('COD', 'refunded', 'shipped')).toBe(false);
+  });
+
+  it('rejects refunding an undelivered order', () => {
+    expect(canTransition('COD', 'pending', 'refunded')).toBe(false);
+  });
+});
+
+// ─── Terminal statuses ────────────────────────────────────────
+describe('isTerminalStatus', () => {
+  it('treats cancelled and refunded as terminal', () => {
+    for (const method of ['STRIPE', 'COD'] as const) {
+      expect(isTerminalStatus(method, 'cancelled')).toBe(true);
+      expect(isTerminalStatus(method, 'refunded')).toBe(true);
+    }
+  });
+
+  it('rejects same-status transitions', () => {
+    expect(canTransition('STRIPE', 'paid', 'paid')).toBe(false);
+    expect(canTransition('COD', 'shipped', 'shipped')).toBe(false);
+  });
+});
+
+// ─── COD confirmation ─────────────────────────────────────────
+describe('confirmationStatusAfter', () => {
+  it('maps call outcomes to confirmation statuses', () => {
+    expect(confirmationStatusAfter('confirmed', 'pending')).toBe('confirmed');
+    expect(confirmationStatusAfter('unreachable', 'pending')).toBe('unreachable');
+    expect(confirmationStatusAfter('rejected', 'unreachable')).toBe('rejected');
+  });
+
+  it('keeps a reached customer undecided on callback', () => {
+    expect(confirmationStatusAfter('callback', 'unreachable')).toBe('pending');
+    expect(confirmationStatusAfter('callback', 'pending')).toBe('pending');
+  });
+});
+
+describe('canShipCod', () => {
+  it('ships unconfirmed orders when confirmation is optional', () => {
+    expect(canShipCod({ confirmationStatus: 'pending', requiresConfirmation: false }, false)).toBe(true);
+  });
+
+  it('requires confirmation for risky orders', () => {
+    expect(canShipCod({ confirmationStatus: 'pending', requiresConfirmation: true }, false)).toBe(false);
+    expect(canShipCod({ confirmationStatus: 'confirmed', requiresConfirmation: true }, false)).toBe(true);
+  });
+
+  it('requires confirmation for every order when the tenant says so', () => {
+    expect(canShipCod({ confirmationStatus: 'unreachable', requiresConfirmation: false }, true)).toBe(false);
+  });
+});
+
+// ─── Order numbers ────────────────────────────────────────────
+describe('formatOrderNumber', () => {
+  it('zero-pads the sequence after the prefix', () => {
+    expect(formatOrderNumber('SHOP', 1042)).toBe('SHOP-001042');
+  });
+
+  it('keeps sequences longer than the padding', () => {
+    expect(formatOrderNumber('ORD', 1234567)).toBe('ORD-1234567');
+  });
+});
+
+describe('normalizeOrderNumber', () => {
+  it('trims and uppercases typed order numbers', () => {
+    expect(normalizeOrderNumber('  shop-001042 ')).toBe('SHOP-001042');
+  });
+});
+
+describe('parseOrderSearch', () => {
+  it('keeps free text for substring matching', () => {
+    expect(parseOrderSearch('  Fatima ')).toEqual({ text: 'Fatima', email: null, phoneDigits: null });
+  });
+
+  it('recognises a full email address', () => {
+    expect(parseOrderSearch('Sara@Example.com').email).toBe('sara@example.com');
+    expect(parseOrderSearch('sara@').email).toBeNull();
+  });
+
+  it('reduces national and international phone spellings to the same digits', () => {
+    expect(parseOrderSearch('0612345678').phoneDigits).toBe('612345678');
+    expect(parseOrderSearch('+212 6 12 34 56 78').phoneDigits).toBe('612345678');
+    expect(parseOrderSearch('00212-612-345678').phoneDigits).toBe('612345678');
+  });
+
+  it('ignores inputs too short or not phone-like', () => {
+    expect(parseOrderSearch('06').phoneDigits).toBeNull();
+    expect(parseOrderSearch('SHOP-001042').phoneDigits).toBeNull();
+  });
+});
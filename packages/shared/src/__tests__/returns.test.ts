@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest';
+import {
+  canTransitionReturn,
+  checkReturnLines,
+  formatRmaNumber,
+  isWithinReturnWindow,
+  returnWindowEndsAt,
+  returnedQtyByItem,
+} from '../returns.js';
+
+describe('canTransitionReturn', () => {
+  it('follows requested → approved → received → completed', () => {
+    expect(canTransitionReturn('requested', 'approved')).toBe(true);
+    expect(canTransitionReturn('approved', 'received')).toBe(true);
+    expect(canTransitionReturn('received', 'completed')).toBe(true);
+  });
+
+  it('cannot skip receiving or reopen a closed return', () => {
+    expect(canTransitionReturn('approved', 'completed')).toBe(false);
+    expect(canTransitionReturn('requested', 'received')).toBe(false);
+    expect(canTransitionReturn('rejected', 'approved')).toBe(false);
+    expect(canTransitionReturn('completed', 'received')).toBe(false);
+  });
+});
+
+describe('return window', () => {
+  const delivered = new Date('2026-03-01T10:00:00Z');
+
+  it('counts days from delivery', () => {
+    expect(returnWindowEndsAt(delivered, 14)?.toISOString()).toBe('2026-03-15T10:00:00.000Z');
+    expect(isWithinReturnWindow(delivered, 14, new Date('2026-03-15T09:59:00Z'))).toBe(true);
+    expect(isWithinReturnWindow(delivered, 14, new Date('2026-03-15T10:01:00Z'))).toBe(false);
+  });
+
+  it('is closed when the window is 0', () => {
+    expect(returnWindowEndsAt(delivered, 0)).toBeNull();
+    expect(isWithinReturnWindow(delivered, 0, delivered)).toBe(false);
+  });
+});
+
+describe('returnedQtyByItem', () => {
+  it('ignores rejected returns', () => {
+    const map = returnedQtyByItem([
+      { orderItemId: 'i1', qty: 1, status: 'requested' },
+      { orderItemId: 'i1', qty: 2, status: 'completed' },
+      { orderItemId: 'i2', qty: 1, status: 'rejected' },
+    ]);
+    expect(map.get('i1')).toBe(3);
+    expect(map.has('i2')).toBe(false);
+  });
+});
+
+describe('checkReturnLines', () => {
+  const items = [{ id: 'i1', qty: 3 }, { id: 'i2', qty: 1 }];
+
+  it('accepts what is left to return', () => {
+    expect(checkReturnLines(items, new Map([['i1', 1]]), [{ orderItemId: 'i1', qty: 2 }])).toEqual({ ok: true });
+  });
+
+  it('adds up repeated lines before checking', () => {
+    expect(checkReturnLines(items, new Map([['i1', 1]]), [
+      { orderItemId: 'i1', qty: 1 },
+      { orderItemId: 'i1', qty: 2 },
+    ])).toEqual({ ok: false, code: 'QTY_EXCEEDED', orderItemId: 'i1', available: 2 });
+  });
+
+  it('rejects items from another order', () => {
+    expect(checkReturnLines(items, new Map(), [{ orderItemId: 'x', qty: 1 }]))
+      .toEqual({ ok: false, code: 'UNKNOWN_ITEM', orderItemId: 'x' });
+  });
+});
+
+describe('formatRmaNumber', () => {
+  it('suffixes the order number', () => {
+    expect(formatRmaNumber('SHOP-001042', 2)).toBe('SHOP-001042-R2');
+  });
+});
@@ -6,7 +6,18 @@ import {
   codCheckoutSchema,
   checkoutSchema,
   updateOrderStatusSchema,
+  bulkOrderActionSchema,
+  createReturnSchema,
   registerSchema,
+  customerAddressSchema,
+  updateCustomerAddressSchema,
+  createShipmentSchema,
+  trackOrderQuerySchema,
+  productPricesSchema,
+  createProductSchema,
+  createShippingRateSchema,
+  createRefundSchema,
+  draftOrderSchema,
 } from '../schemas.js';
 
 // ─── codCheckoutSchema ────────────────────────────────────────
@@ -83,11 +94,11 @@ describe('codCheckoutSchema', () => {
     expect(result.success).toBe(true);
   });
 
-  it('defaults currency to MAD when omitted', () => {
+  it('leaves currency unset when omitted — checkout uses the store base currency', () => {
     const { currency, ...rest } = validCod;
     const result = codCheckoutSchema.safeParse(rest);
     expect(result.success).toBe(true);
-    if (result.success) expect(result.data.currency).toBe('MAD');
+    if (result.success) expect(result.data.currency).toBeUndefined();
   });
 });
 
@@ -165,6 +176,54 @@ describe('updateOrderStatusSchema', () => {
   });
 });
 
+// ─── bulkOrderActionSchema ────────────────────────────────────
+describe('bulkOrderActionSchema', () => {
+  const orderIds = ['5f0c6a4e-8f3e-4d0e-9d5a-2b8f6c1e7a10', '0b7e2f9c-3a41-4c8e-bb6d-91e5f0a2c3d4'];
+
+  it('accepts a status change with the PATCH fields', () => {
+    const result = bulkOrderActionSchema.safeParse({ action: 'status', orderIds, status: 'shipped', note: 'Batch 12' });
+    expect(result.success).toBe(true);
+  });
+
+  it('accepts unassigning with a null userId', () => {
+    expect(bulkOrderActionSchema.safeParse({ action: 'assign', orderIds, userId: null }).success).toBe(true);
+  });
+
+  it('rejects an empty note', () => {
+    expect(bulkOrderActionSchema.safeParse({ action: 'note', orderIds, note: '   ' }).success).toBe(false);
+  });
+
+  it('rejects unknown actions and empty batches', () => {
+    expect(bulkOrderActionSchema.safeParse({ action: 'delete', orderIds }).success).toBe(false);
+    expect(bulkOrderActionSchema.safeParse({ action: 'print', orderIds: [] }).success).toBe(false);
+  });
+
+  it('caps the batch size', () => {
+    const many = Array.from({ length: 201 }, () => orderIds[0]);
+    expect(bulkOrderActionSchema.safeParse({ action: 'print', orderIds: many }).success).toBe(false);
+  });
+});
+
+// ─── createReturnSchema ───────────────────────────────────────
+describe('createReturnSchema', () => {
+  const line = { orderItemId: 'item-1', qty: 1, reason: 'size_fit' };
+
+  it('defaults to a refund', () => {
+    const result = createReturnSchema.safeParse({ items: [line] });
+    expect(result.success && result.data.resolution).toBe('refund');
+  });
+
+  it('rejects unknown reason codes', () => {
+    expect(createReturnSchema.safeParse({ items: [{ ...line, reason: 'bored' }] }).success).toBe(false);
+  });
+
+  it('only takes an exchange product for exchanges', () => {
+    const items = [{ ...line, exchangeProductId: '550e8400-e29b-41d4-a716-446655440000' }];
+    expect(createReturnSchema.safeParse({ items, resolution: 'exchange' }).success).toBe(true);
+    expect(createReturnSchema.safeParse({ items, resolution: 'refund' }).success).toBe(false);
+  });
+});
+
 // ─── registerSchema ───────────────────────────────────────────
 describe('registerSchema', () => {
   it('accepts valid registration', () => {
@@ -194,3 +253,107 @@ describe('registerSchema', () => {
     expect(result.success).toBe(false);
   });
 });
+
+// ─── customerAddressSchema ────────────────────────────────────
+describe('customerAddressSchema', () => {
+  const address = {
+    name: 'محمد أمين',
+    phone: '0612345678',
+    address: '12 شارع الحسن الثاني، الدار البيضاء',
+  };
+
+  it('is not the default address unless asked', () => {
+    const result = customerAddressSchema.safeParse({ ...address, country: 'ma' });
+    expect(result.success && result.data).toMatchObject({ isDefault: false, country: 'MA' });
+  });
+
+  it('rejects a short address', () => {
+    expect(customerAddressSchema.safeParse({ ...address, address: 'Casa' }).success).toBe(false);
+  });
+
+  it('leaves isDefault untouched on partial updates', () => {
+    const result = updateCustomerAddressSchema.safeParse({ city: 'Rabat' });
+    expect(result.success && result.data).toEqual({ city: 'Rabat' });
+  });
+});
+
+// ─── createShipmentSchema ─────────────────────────────────────
+describe('createShipmentSchema', () => {
+  const orderId = '550e8400-e29b-41d4-a716-446655440000';
+
+  it('books through an adapter with just the carrier', () => {
+    expect(createShipmentSchema.safeParse({ orderId, carrier: 'mock' }).success).toBe(true);
+  });
+
+  it('needs a carrier name and tracking number for manual shipments', () => {
+    expect(createShipmentSchema.safeParse({ orderId, carrier: 'manual', trackingNumber: 'CX123456789MA' }).success).toBe(false);
+    expect(createShipmentSchema.safeParse({
+      orderId, carrier: 'manual', carrierName: 'Amana', trackingNumber: 'CX123456789MA',
+    }).success).toBe(true);
+  });
+});
+
+describe('trackOrderQuerySchema', () => {
+  it('accepts the order number with an email or a phone', () => {
+    expect(trackOrderQuerySchema.safeParse({ orderNumber: 'ORD-1001', email: 'a@b.ma' }).success).toBe(true);
+    expect(trackOrderQuerySchema.safeParse({ orderNumber: 'ORD-1001', phone: '0612345678' }).success).toBe(true);
+  });
+
+  it('rejects an order number alone', () => {
+    expect(trackOrderQuerySchema.safeParse({ orderNumber: 'ORD-1001' }).success).toBe(false);
+  });
+});
+
+describe('productPricesSchema', () => {
+  it('accepts one price per currency', () => {
+    expect(productPricesSchema.safeParse({ prices: [{ currency: 'EUR', price: 9.9 }] }).success).toBe(true);
+    expect(productPricesSchema.safeParse({
+      prices: [{ currency: 'EUR', price: 9.9 }, { currency: 'EUR', price: 8 }],
+    }).success).toBe(false);
+  });
+});
+
+describe('money amounts', () => {
+  it('converts decimal prices to minor units', () => {
+    const result = createProductSchema.safeParse({ title: 'Tee', price: 199.99, salePrice: 149.5, currency: 'EUR' });
+    expect(result.success).toBe(true);
+    if (result.success) expect(result.data).toMatchObject({ price: 19999, salePrice: 14950 });
+  });
+
+  it('rejects more decimals than the currency has', () => {
+    const result = createProductSchema.safeParse({ title: 'Tee', price: 199.999 });
+    expect(result.success).toBe(false);
+    if (!result.success) expect(result.error.issues[0]?.path).toEqual(['price']);
+    expect(productPricesSchema.safeParse({ prices: [{ currency: 'USD', price: 9.999 }] }).success).toBe(false);
+  });
+
+  it('converts amounts whose currency is not in the payload', () => {
+    const rate = createShippingRateSchema.safeParse({ name: 'Std', amount: 30, tiers: null });
+    expect(rate.success && rate.data.amount).toBe(3000);
+    expect(createRefundSchema.safeParse({ amount: 0.005 }).success).toBe(false);
+  });
+});
+
+describe('draftOrderSchema', () => {
+  const productId = '7f1c2a8e-4b5d-4e6f-9a0b-1c2d3e4f5a6b';
+
+  it('accepts product lines, custom prices and custom lines', () => {
+    const result = draftOrderSchema.safeParse({
+      customerEmail: 'sara@example.ma',
+      lines: [
+        { productId, qty: 2 },
+        { productId, qty: 1, price: 99.5 },
+        { title: 'Gift wrapping', price: 15, qty: 1 },
+      ],
+    });
+    expect(result.success).toBe(true);
+    if (result.success) expect(result.data.lines.map(l => l.price)).toEqual([undefined, 9950, 1500]);
+  });
+
+  it('needs a title and a price for custom lines', () => {
+    expect(draftOrderSchema.safeParse({
+      customerEmail: 'sara@example.ma',
+      lines: [{ title: 'Gift wrapping', qty: 1 }],
+    }).success).toBe(false);
+  });
+});
@@ -0,0 +1,38 @@
+import { describe, it, expect } from 'vitest';
+import { latestTrackingEvent, orderStatusForShipment, shouldApplyTrackingStatus } from '../shipments.js';
+
+describe('shouldApplyTrackingStatus', () => {
+  it('moves forward only', () => {
+    expect(shouldApplyTrackingStatus('created', 'in_transit')).toBe(true);
+    expect(shouldApplyTrackingStatus('out_for_delivery', 'in_transit')).toBe(false);
+    expect(shouldApplyTrackingStatus('in_transit', 'in_transit')).toBe(false);
+  });
+
+  it('allows another delivery round after a failed attempt', () => {
+    expect(shouldApplyTrackingStatus('out_for_delivery', 'failed_attempt')).toBe(true);
+    expect(shouldApplyTrackingStatus('failed_attempt', 'out_for_delivery')).toBe(true);
+  });
+
+  it('never leaves a final status', () => {
+    expect(shouldApplyTrackingStatus('delivered', 'returned')).toBe(false);
+    expect(shouldApplyTrackingStatus('returned', 'delivered')).toBe(false);
+  });
+});
+
+describe('orderStatusForShipment', () => {
+  it('only delivery moves the order', () => {
+    expect(orderStatusForShipment('delivered')).toBe('delivered');
+    expect(orderStatusForShipment('returned')).toBeNull();
+  });
+});
+
+describe('latestTrackingEvent', () => {
+  it('picks the latest by occurrence, not arrival', () => {
+    const latest = latestTrackingEvent([
+      { status: 'delivered', occurredAt: '2024-05-03T10:00:00Z' },
+      { status: 'out_for_delivery', occurredAt: '2024-05-03T08:00:00Z' },
+    ]);
+    expect(latest?.status).toBe('delivered');
+    expect(latestTrackingEvent([])).toBeNull();
+  });
+});
@@ -0,0 +1,104 @@
+// packages/shared/src/__tests__/shipping.test.ts
+// Unit tests for shipping zone matching and rate pricing
+
+import { describe, it, expect } from 'vitest';
+import {
+  matchShippingZone,
+  computeShippingCharge,
+  type ShippingZoneRule,
+  type ShippingRateRule,
+} from '../shipping.js';
+
+const morocco: ShippingZoneRule = {
+  id: 'ma',
+  name: 'Morocco',
+  countries: ['MA'],
+  regions: null,
+  freeShippingThreshold: 500,
+  codSurcharge: 10,
+};
+
+const casablanca: ShippingZoneRule = {
+  ...morocco,
+  id: 'casa',
+  name: 'Casablanca',
+  regions: ['Casablanca', 'Mohammedia'],
+  freeShippingThreshold: null,
+};
+
+const flat: ShippingRateRule = {
+  id: 'flat',
+  zoneId: 'ma',
+  name: 'Standard',
+  type: 'flat',
+  amount: 35,
+  tiers: null,
+  minDeliveryDays: 2,
+  maxDeliveryDays: 4,
+};
+
+const byWeight: ShippingRateRule = {
+  ...flat,
+  id: 'weight',
+  type: 'weight',
+  amount: 0,
+  tiers: [
+    { min: 0, max: 1000, amount: 25 },
+    { min: 1000, max: 5000, amount: 45 },
+  ],
+};
+
+// ─── matchShippingZone ────────────────────────────────────────
+describe('matchShippingZone', () => {
+  const zones = [morocco, casablanca];
+
+  it('prefers a regional zone over the whole country', () => {
+    expect(matchShippingZone(zones, { country: 'MA', city: 'casablanca' })?.id).toBe('casa');
+  });
+
+  it('falls back to the country zone', () => {
+    expect(matchShippingZone(zones, { country: 'ma', city: 'Fès' })?.id).toBe('ma');
+  });
+
+  it('returns null for countries without a zone', () => {
+    expect(matchShippingZone(zones, { country: 'FR' })).toBeNull();
+  });
+
+  it('ignores accents and case in region names', () => {
+    const zone = { ...casablanca, regions: ['Fès'] };
+    expect(matchShippingZone([zone], { country: 'MA', region: 'fes' })?.id).toBe('casa');
+  });
+});
+
+// ─── computeShippingCharge ────────────────────────────────────
+describe('computeShippingCharge', () => {
+  const cart = { subtotal: 200, weightGrams: 800, paymentMethod: 'STRIPE' as const };
+
+  it('charges a flat rate', () => {
+    expect(computeShippingCharge(flat, morocco, cart)?.amount).toBe(35);
+  });
+
+  it('adds the COD surcharge', () => {
+    const charge = computeShippingCharge(flat, morocco, { ...cart, paymentMethod: 'COD' });
+    expect(charge?.amount).toBe(45);
+    expect(charge?.codSurcharge).toBe(10);
+  });
+
+  it('picks the matching weight tier', () => {
+    expect(computeShippingCharge(byWeight, morocco, { ...cart, weightGrams: 1000 })?.amount).toBe(45);
+  });
+
+  it('returns null when no tier covers the cart', () => {
+    expect(computeShippingCharge(byWeight, morocco, { ...cart, weightGrams: 9000 })).toBeNull();
+  });
+
+  it('waives the rate above the free-shipping threshold but keeps the COD surcharge', () => {
+    const charge = computeShippingCharge(flat, morocco, { ...cart, subtotal: 600, paymentMethod: 'COD' });
+    expect(charge?.free).toBe(true);
+    expect(charge?.amount).toBe(10);
+  });
+
+  it('waives the rate for free-shipping discount codes', () => {
+    expect(computeShippingCharge(flat, casablanca, { ...cart, freeShipping: true })?.amount).toBe(0);
+  });
+});
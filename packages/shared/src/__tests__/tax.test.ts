@@ -0,0 +1,98 @@
+// packages/shared/src/__tests__/tax.test.ts
+// Unit tests for TVA/VAT computation and discount allocation
+
+import { describe, it, expect } from 'vitest';
+import { computeLineTax, allocateDiscount, computeTaxes, chargedLineTotals, lineRefundAmount } from '../tax.js';
+
+// ─── computeLineTax ───────────────────────────────────────────
+describe('computeLineTax', () => {
+  it('extracts tax from inclusive prices', () => {
+    expect(computeLineTax(120, 20, true)).toBe(20);
+  });
+
+  it('adds tax on exclusive prices', () => {
+    expect(computeLineTax(100, 20, false)).toBe(20);
+  });
+
+  it('rounds to a whole minor unit', () => {
+    expect(computeLineTax(99_99, 20, true)).toBe(16_67);
+    expect(computeLineTax(99_99, 20, false)).toBe(20_00);
+  });
+
+  it('is zero for exempt lines', () => {
+    expect(computeLineTax(100, 0, false)).toBe(0);
+  });
+});
+
+// ─── allocateDiscount ─────────────────────────────────────────
+describe('allocateDiscount', () => {
+  it('splits proportionally', () => {
+    expect(allocateDiscount([300, 100], 40)).toEqual([30, 10]);
+  });
+
+  it('always sums to the discount', () => {
+    const shares = allocateDiscount([10_00, 10_00, 10_00], 10_00);
+    expect(shares).toEqual([3_33, 3_33, 3_34]);
+  });
+
+  it('never allocates more than the lines are worth', () => {
+    expect(allocateDiscount([20], 50)).toEqual([20]);
+  });
+});
+
+// ─── computeTaxes ─────────────────────────────────────────────
+describe('computeTaxes', () => {
+  it('groups taxes by rate and includes shipping', () => {
+    const result = computeTaxes({
+      lines: [{ amount: 120, rate: 20 }, { amount: 110, rate: 10 }, { amount: 60, rate: 20 }],
+      shipping: { amount: 36, rate: 20 },
+      inclusive: true,
+    });
+    expect(result.lineTaxes).toEqual([20, 10, 10]);
+    expect(result.shippingTax).toBe(6);
+    expect(result.taxTotal).toBe(46);
+    expect(result.byRate).toEqual([
+      { rate: 20, taxable: 180, tax: 36 },
+      { rate: 10, taxable: 100, tax: 10 },
+    ]);
+  });
+
+  it('reports the net taxable base for exclusive pricing', () => {
+    const result = computeTaxes({ lines: [{ amount: 100, rate: 20 }], shipping: null, inclusive: false });
+    expect(result.byRate).toEqual([{ rate: 20, taxable: 100, tax: 20 }]);
+  });
+});
+
+// ─── Refunds ──────────────────────────────────────────────────
+describe('chargedLineTotals', () => {
+  it('adds the tax paid on top when prices exclude tax', () => {
+    expect(chargedLineTotals([{ price: 100_00, qty: 2, taxAmount: 40_00 }], 0, false)).toEqual([240_00]);
+  });
+
+  it('leaves inclusive line amounts as they are', () => {
+    expect(chargedLineTotals([{ price: 120_00, qty: 2, taxAmount: 40_00 }], 0, true)).toEqual([240_00]);
+  });
+
+  it('takes off each line\'s share of the discount', () => {
+    const charged = chargedLineTotals(
+      [{ price: 300_00, qty: 1, taxAmount: 45_00 }, { price: 50_00, qty: 2, taxAmount: 15_00 }],
+      100_00,
+      false
+    );
+    expect(charged).toEqual([270_00, 90_00]);
+  });
+});
+
+describe('lineRefundAmount', () => {
+  it('refunds units at their share of the charged total', () => {
+    expect(lineRefundAmount(240_00, 2, 0, 1)).toBe(120_00);
+  });
+
+  it('adds up to the charged total when refunded piece by piece', () => {
+    const first = lineRefundAmount(100_00, 3, 0, 1);
+    const second = lineRefundAmount(100_00, 3, 1, 1);
+    const third = lineRefundAmount(100_00, 3, 2, 1);
+    expect([first, second, third]).toEqual([33_33, 33_34, 33_33]);
+    expect(first + second + third).toBe(100_00);
+  });
+});
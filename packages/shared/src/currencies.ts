@@ -0,0 +1,171 @@
+// packages/shared/src/currencies.ts
+// Multi-currency: each tenant prices in a base currency and keeps one rate
+// per other currency it sells in, as "units of that currency per 1 base unit"
+// (base MAD, EUR 0.092 → 100 MAD = 9.20 EUR). Shipping rates, fixed discounts
+// and thresholds are entered in the base currency and converted at checkout;
+// products may carry their own price per currency instead (API: lib/currencies.ts).
+
+import { CURRENCIES } from './types.js';
+import type { Currency } from './types.js';
+import { multiplyMoney } from './money.js';
+import type { Money } from './money.js';
+import type { DiscountRule } from './discounts.js';
+import type { ShippingRateRule, ShippingZoneRule } from './shipping.js';
+
+export type ExchangeRates = Partial<Record<Currency, number>>;
+
+/** Upper bound for a stored rate — catches "0,092" typed as 92000 */
+export const MAX_EXCHANGE_RATE = 100_000;
+/** Rates are stored to 6 decimal places */
+export const EXCHANGE_RATE_DECIMALS = 6;
+
+/** Units of `currency` per 1 unit of `base`; null when the tenant has no rate for it */
+export function exchangeRateFor(currency: Currency, base: Currency, rates: ExchangeRates): number | null {
+  if (currency === base) return 1;
+  return rates[currency] ?? null;
+}
+
+/** Multiplier from `from` to `to`, going through the base currency */
+export function crossRate(from: Currency, to: Currency, base: Currency, rates: ExchangeRates): number | null {
+  if (from === to) return 1;
+  const fromRate = exchangeRateFor(from, base, rates);
+  const toRate = exchangeRateFor(to, base, rates);
+  if (fromRate === null || toRate === null) return null;
+  return toRate / fromRate;
+}
+
+/** Rounded to a whole minor unit of the target currency */
+export function convertMoney(amount: Money, rate: number): Money {
+  return multiplyMoney(amount, rate);
+}
+
+export interface OrderCurrency {
+  currency: string;
+  /** Base currency when the order was placed */
+  baseCurrency: string;
+  /** Units of `currency` per 1 `baseCurrency`, as charged */
+  exchangeRate: number;
+}
+
+/**
+ * An order amount in the tenant's base currency — what reports and customer
+ * spend add up. Taken back at the order's own rate; orders placed before the
+ * base currency changed go on to the new base at today's rates. Null when
+ * there is no rate for that.
+ */
+export function orderAmountInBase(amount: Money, order: OrderCurrency, base: Currency, rates: ExchangeRates): Money | null {
+  if (order.currency === base) return amount;
+  if (order.baseCurrency === base) return convertMoney(amount, 1 / order.exchangeRate);
+  const rate = crossRate(order.currency as Currency, base, base, rates);
+  return rate === null ? null : convertMoney(amount, rate);
+}
+
+export function roundRate(rate: number): number {
+  const factor = 10 ** EXCHANGE_RATE_DECIMALS;
+  return Math.round(rate * factor) / factor;
+}
+
+/**
+ * Re-expresses rates against a new base currency, which must have a rate
+ * itself. The old base joins the table; the new one leaves it.
+ */
+export function rebaseRates(rates: ExchangeRates, oldBase: Currency, newBase: Currency): ExchangeRates | null {
+  if (oldBase === newBase) return { ...rates };
+  const pivot = rates[newBase];
+  if (!pivot) return null;
+
+  const rebased: ExchangeRates = { [oldBase]: roundRate(1 / pivot) };
+  for (const currency of CURRENCIES) {
+    const rate = rates[currency];
+    if (currency === oldBase || currency === newBase || rate === undefined) continue;
+    rebased[currency] = roundRate(rate / pivot);
+  }
+  return rebased;
+}
+
+export interface ParsedExchangeRate {
+  currency: Currency;
+  rate: number;
+}
+
+/**
+ * Reads an imported rate file: one `CURRENCY,rate` per line (`;` or tab also
+ * accepted, decimal comma allowed with those), optional header, `#` comments.
+ */
+export function parseExchangeRateFile(text: string): {
+  rates: ParsedExchangeRate[];
+  errors: Array<{ line: number; message: string }>;
+} {
+  const rates: ParsedExchangeRate[] = [];
+  const errors: Array<{ line: number; message: string }> = [];
+  const seen = new Set<Currency>();
+
+  text.split(/\r?\n/).forEach((raw, index) => {
+    const line = index + 1;
+    const content = raw.trim();
+    if (!content || content.startsWith('#')) return;
+
+    // Semicolon/tab files may use a decimal comma ("EUR;0,092")
+    const delimiter = /[;\t]/.test(content) ? /[;\t]/ : ',';
+    const [code = '', value = '', ...rest] = content.split(delimiter).map(s => s.trim());
+    if (rest.some(Boolean)) {
+      errors.push({ line, message: 'Expected two columns: currency and rate' });
+      return;
+    }
+    const currency = code.toUpperCase();
+    if (!(CURRENCIES as readonly string[]).includes(currency)) {
+      // A header row ("currency,rate") is skipped, anything else is reported
+      if (line === 1 && !/\d/.test(value)) return;
+      errors.push({ line, message: `Unknown currency: ${code}` });
+      return;
+    }
+
+    const rate = Number(value.replace(',', '.'));
+    if (!Number.isFinite(rate) || rate <= 0 || rate > MAX_EXCHANGE_RATE) {
+      errors.push({ line, message: `Invalid rate for ${currency}: ${value}` });
+      return;
+    }
+    if (seen.has(currency as Currency)) {
+      errors.push({ line, message: `${currency} appears more than once` });
+      return;
+    }
+    seen.add(currency as Currency);
+    rates.push({ currency: currency as Currency, rate: roundRate(rate) });
+  });
+
+  return { rates, errors };
+}
+
+/** Zone amounts (free-shipping threshold, COD surcharge) in the checkout currency */
+export function convertShippingZone<Z extends ShippingZoneRule>(zone: Z, rate: number): Z {
+  if (rate === 1) return zone;
+  return {
+    ...zone,
+    freeShippingThreshold: zone.freeShippingThreshold === null ? null : convertMoney(zone.freeShippingThreshold, rate),
+    codSurcharge: convertMoney(zone.codSurcharge, rate),
+  };
+}
+
+/** Rate prices in the checkout currency — weight tier bounds are grams and stay as they are */
+export function convertShippingRate(rateRule: ShippingRateRule, rate: number): ShippingRateRule {
+  if (rate === 1) return rateRule;
+  return {
+    ...rateRule,
+    amount: convertMoney(rateRule.amount, rate),
+    tiers: rateRule.tiers?.map(tier => ({
+      min: rateRule.type === 'price' ? convertMoney(tier.min, rate) : tier.min,
+      max: rateRule.type === 'price' && tier.max !== null ? convertMoney(tier.max, rate) : tier.max,
+      amount: convertMoney(tier.amount, rate),
+    })) ?? null,
+  };
+}
+
+/** Fixed amounts and the minimum subtotal in the checkout currency; percentages need nothing */
+export function convertDiscountRule(rule: DiscountRule, rate: number): DiscountRule {
+  if (rate === 1) return rule;
+  return {
+    ...rule,
+    value: rule.type === 'fixed' ? convertMoney(rule.value, rate) : rule.value,
+    minSubtotal: rule.minSubtotal === null ? null : convertMoney(rule.minSubtotal, rate),
+  };
+}
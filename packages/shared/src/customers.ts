@@ -0,0 +1,67 @@
+// packages/shared/src/customers.ts
+// Customer CRM: one row per distinct buyer email per tenant, with figures
+// recomputed from that buyer's orders (API: lib/customers.ts). Recomputing
+// instead of incrementing keeps the row right after cancellations, refunds
+// and edits, whichever code path caused them.
+
+import type { OrderStatus, PaymentMethod, PaymentStatus } from './types.js';
+import type { Money } from './money.js';
+
+export const CUSTOMER_SORT_FIELDS = ['lastOrderAt', 'firstOrderAt', 'lifetimeSpend', 'orderCount', 'codRefusalCount', 'name'] as const;
+export type CustomerSortField = (typeof CUSTOMER_SORT_FIELDS)[number];
+
+export const MAX_CUSTOMER_TAGS = 20;
+export const MAX_CUSTOMER_TAG_LENGTH = 30;
+
+export interface CustomerOrderFigures {
+  status: OrderStatus;
+  paymentMethod: PaymentMethod;
+  paymentStatus: PaymentStatus;
+  total: Money;
+  refundedTotal: Money;
+  createdAt: string;
+}
+
+export interface CustomerStats {
+  orderCount: number;
+  /** Money kept: paid orders net of refunds */
+  lifetimeSpend: Money;
+  firstOrderAt: string | null;
+  lastOrderAt: string | null;
+}
+
+/**
+ * A placed order: not cancelled, and — for card orders — paid at some point.
+ * Abandoned Stripe checkouts stay `pending` and are not orders yet.
+ */
+export function countsAsOrder(order: Pick<CustomerOrderFigures, 'status' | 'paymentMethod'>): boolean {
+  if (order.status === 'cancelled') return false;
+  return order.paymentMethod === 'COD' || order.status !== 'pending';
+}
+
+/** COD money counts once collected (delivered); card money once captured */
+function isCollected(order: CustomerOrderFigures): boolean {
+  return order.paymentMethod === 'STRIPE' || order.paymentStatus === 'PAID';
+}
+
+export function customerStats(orders: CustomerOrderFigures[]): CustomerStats {
+  let orderCount = 0;
+  let spend = 0;
+  let firstOrderAt: string | null = null;
+  let lastOrderAt: string | null = null;
+
+  for (const order of orders) {
+    if (!countsAsOrder(order)) continue;
+    orderCount++;
+    if (isCollected(order)) spend += order.total - order.refundedTotal;
+    if (firstOrderAt === null || order.createdAt < firstOrderAt) firstOrderAt = order.createdAt;
+    if (lastOrderAt === null || order.createdAt > lastOrderAt) lastOrderAt = order.createdAt;
+  }
+
+  return { orderCount, lifetimeSpend: spend, firstOrderAt, lastOrderAt };
+}
+
+/** Trimmed, lower-cased, de-duplicated; empty tags are dropped */
+export function normalizeTags(tags: string[]): string[] {
+  return [...new Set(tags.map(t => t.trim().toLowerCase()).filter(Boolean))];
+}
@@ -0,0 +1,101 @@
+// packages/shared/src/discounts.ts
+// Coupon engine — pure functions so the API (checkout) and the dashboard
+// (preview) compute exactly the same discount. Amounts are minor units.
+
+import { sumMoney, percentOf } from './money.js';
+import type { Money } from './money.js';
+
+export type DiscountType = 'percentage' | 'fixed' | 'free_shipping';
+
+export interface DiscountRule {
+  type: DiscountType;
+  /** Percent (0–100) for `percentage`, amount (minor units) for `fixed`, ignored for `free_shipping` */
+  value: number;
+  minSubtotal: Money | null;
+  usageLimit: number | null;
+  usageCount: number;
+  perCustomerLimit: number | null;
+  startsAt: string | null;
+  endsAt: string | null;
+  isActive: boolean;
+  /** Restrict to these products / categories — null or empty = whole cart */
+  productIds: string[] | null;
+  categoryIds: string[] | null;
+}
+
+export interface DiscountLine {
+  /** Null for custom lines (draft orders) — only unrestricted codes cover them */
+  productId: string | null;
+  price: Money;
+  qty: number;
+  categoryIds?: string[];
+}
+
+export interface DiscountResult {
+  /** Subtotal of the lines the code applies to */
+  eligibleSubtotal: Money;
+  /** Amount taken off the order (never more than eligibleSubtotal) */
+  amount: Money;
+  freeShipping: boolean;
+}
+
+export type DiscountRejection =
+  | 'INACTIVE'
+  | 'NOT_STARTED'
+  | 'EXPIRED'
+  | 'USAGE_LIMIT_REACHED'
+  | 'CUSTOMER_LIMIT_REACHED'
+  | 'MIN_SUBTOTAL_NOT_MET'
+  | 'NO_ELIGIBLE_ITEMS';
+
+/**
+ * Checks everything except cart contents.
+ * Returns null when the code may be used, otherwise why not.
+ */
+export function checkDiscountAvailability(
+  rule: DiscountRule,
+  ctx: { now: Date; subtotal: Money; customerUses: number }
+): DiscountRejection | null {
+  if (!rule.isActive) return 'INACTIVE';
+  if (rule.startsAt && new Date(rule.startsAt) > ctx.now) return 'NOT_STARTED';
+  if (rule.endsAt && new Date(rule.endsAt) <= ctx.now) return 'EXPIRED';
+  if (rule.usageLimit !== null && rule.usageCount >= rule.usageLimit) return 'USAGE_LIMIT_REACHED';
+  if (rule.perCustomerLimit !== null && ctx.customerUses >= rule.perCustomerLimit) return 'CUSTOMER_LIMIT_REACHED';
+  if (rule.minSubtotal !== null && ctx.subtotal < rule.minSubtotal) return 'MIN_SUBTOTAL_NOT_MET';
+  return null;
+}
+
+export function isLineEligible(rule: Pick<DiscountRule, 'productIds' | 'categoryIds'>, line: DiscountLine): boolean {
+  const byProduct = rule.productIds?.length ? line.productId !== null && rule.productIds.includes(line.productId) : null;
+  const byCategory = rule.categoryIds?.length
+    ? (line.categoryIds ?? []).some(id => rule.categoryIds!.includes(id))
+    : null;
+
+  // No restriction at all → whole cart; otherwise matching either list is enough
+  if (byProduct === null && byCategory === null) return true;
+  return byProduct === true || byCategory === true;
+}
+
+export function computeDiscount(rule: DiscountRule, lines: DiscountLine[]): DiscountResult {
+  const eligibleSubtotal = sumMoney(
+    lines.filter(l => isLineEligible(rule, l)).map(l => l.price * l.qty)
+  );
+
+  let amount = 0;
+  if (rule.type === 'percentage') {
+    amount = percentOf(eligibleSubtotal, Math.min(100, Math.max(0, rule.value)));
+  } else if (rule.type === 'fixed') {
+    amount = rule.value;
+  }
+
+  return {
+    eligibleSubtotal,
+    amount: Math.min(amount, eligibleSubtotal),
+    freeShipping: rule.type === 'free_shipping' && eligibleSubtotal > 0,
+  };
+}
+
+/** Normalizes what customers type ("  summer10 " → "SUMMER10") */
+export function normalizeDiscountCode(code: string): string {
+  return code.trim().toUpperCase();
+}
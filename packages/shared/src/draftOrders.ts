@@ -0,0 +1,31 @@
+// packages/shared/src/draftOrders.ts
+// Draft orders are built by staff for sales closed outside the storefront
+// (Instagram, WhatsApp): catalogue products, custom lines and hand-set prices.
+// A draft becomes a normal order when it is converted to COD or when its
+// Stripe payment link is paid (API: lib/draftOrders.ts).
+
+export const DRAFT_ORDER_STATUSES = ['open', 'invoice_sent', 'completed'] as const;
+export type DraftOrderStatus = (typeof DRAFT_ORDER_STATUSES)[number];
+
+export const MAX_DRAFT_LINES = 50;
+
+/** Completed drafts are kept as a record of the order they became */
+export function isDraftEditable(status: DraftOrderStatus): boolean {
+  return status !== 'completed';
+}
+
+export interface DraftLine {
+  /** Null for a custom line — nothing to take from stock */
+  productId: string | null;
+  qty: number;
+}
+
+/** Units to take per product; a product may appear on several lines (e.g. one at a custom price) */
+export function draftStockLines(lines: DraftLine[]): { productId: string; qty: number }[] {
+  const totals = new Map<string, number>();
+  for (const line of lines) {
+    if (!line.productId) continue;
+    totals.set(line.productId, (totals.get(line.productId) ?? 0) + line.qty);
+  }
+  return [...totals].map(([productId, qty]) => ({ productId, qty }));
+}
@@ -0,0 +1,93 @@
+// packages/shared/src/exports.ts
+// Order exports for accountants: column sets (one row per order, or one per
+// line item), localized headers and the CSV encoding. The Worker streams the
+// rows (apps/api/src/lib/orderExport.ts); nothing here touches the database.
+
+export type ExportLocale = 'ar' | 'en';
+export type ExportFormat = 'csv' | 'xlsx';
+export type ExportCell = string | number | null;
+
+export interface ExportColumn {
+  key: string;
+  en: string;
+  ar: string;
+}
+
+export const ORDER_EXPORT_COLUMNS = [
+  { key: 'orderNumber', en: 'Order number', ar: 'رقم الطلب' },
+  { key: 'createdAt', en: 'Date', ar: 'التاريخ' },
+  { key: 'status', en: 'Status', ar: 'الحالة' },
+  { key: 'paymentMethod', en: 'Payment method', ar: 'طريقة الدفع' },
+  { key: 'paymentStatus', en: 'Payment status', ar: 'حالة الدفع' },
+  { key: 'customerName', en: 'Customer', ar: 'العميل' },
+  { key: 'customerEmail', en: 'Email', ar: 'البريد الإلكتروني' },
+  { key: 'customerPhone', en: 'Phone', ar: 'الهاتف' },
+  { key: 'shippingCity', en: 'City', ar: 'المدينة' },
+  { key: 'shippingRegion', en: 'Region', ar: 'الجهة' },
+  { key: 'shippingMethod', en: 'Delivery', ar: 'التوصيل' },
+  { key: 'currency', en: 'Currency', ar: 'العملة' },
+  { key: 'subtotal', en: 'Subtotal', ar: 'المجموع الفرعي' },
+  { key: 'discountCode', en: 'Discount code', ar: 'رمز الخصم' },
+  { key: 'discountTotal', en: 'Discount', ar: 'الخصم' },
+  { key: 'shippingTotal', en: 'Shipping', ar: 'الشحن' },
+  { key: 'taxTotal', en: 'VAT', ar: 'الضريبة' },
+  { key: 'total', en: 'Total', ar: 'الإجمالي' },
+  { key: 'refundedTotal', en: 'Refunded', ar: 'المبلغ المسترد' },
+  { key: 'invoiceNumber', en: 'Invoice number', ar: 'رقم الفاتورة' },
+] as const satisfies readonly ExportColumn[];
+
+/** Line-item rows repeat the order's identity but not its totals, so sums stay correct */
+export const LINE_EXPORT_COLUMNS = [
+  { key: 'orderNumber', en: 'Order number', ar: 'رقم الطلب' },
+  { key: 'createdAt', en: 'Date', ar: 'التاريخ' },
+  { key: 'status', en: 'Status', ar: 'الحالة' },
+  { key: 'paymentMethod', en: 'Payment method', ar: 'طريقة الدفع' },
+  { key: 'paymentStatus', en: 'Payment status', ar: 'حالة الدفع' },
+  { key: 'customerName', en: 'Customer', ar: 'العميل' },
+  { key: 'customerEmail', en: 'Email', ar: 'البريد الإلكتروني' },
+  { key: 'sku', en: 'SKU', ar: 'SKU' },
+  { key: 'product', en: 'Product', ar: 'المنتج' },
+  { key: 'qty', en: 'Qty', ar: 'الكمية' },
+  { key: 'unitPrice', en: 'Unit price', ar: 'سعر الوحدة' },
+  { key: 'taxRate', en: 'VAT rate %', ar: 'نسبة الضريبة %' },
+  { key: 'taxAmount', en: 'VAT', ar: 'الضريبة' },
+  { key: 'lineTotal', en: 'Line total', ar: 'مجموع السطر' },
+  { key: 'currency', en: 'Currency', ar: 'العملة' },
+] as const satisfies readonly ExportColumn[];
+
+export type OrderExportKey = (typeof ORDER_EXPORT_COLUMNS)[number]['key'];
+export type LineExportKey = (typeof LINE_EXPORT_COLUMNS)[number]['key'];
+
+export function exportHeaders(columns: readonly ExportColumn[], locale: ExportLocale): string[] {
+  return columns.map(c => c[locale]);
+}
+
+/**
+ * One CSV field (RFC 4180). Text that a spreadsheet would run as a formula
+ * (=, +, -, @ — e.g. a customer named "=HYPERLINK(…)") is prefixed with a quote.
+ */
+export function csvCell(value: ExportCell): string {
+  if (value === null) return '';
+  if (typeof value === 'number') return String(value);
+  const text = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function csvRow(values: ExportCell[]): string {
+  return `${values.map(csvCell).join(',')}\r\n`;
+}
+
+/**
+ * `from`/`to` are inclusive calendar days (YYYY-MM-DD, UTC). Returns bounds
+ * comparable with created_at ("YYYY-MM-DD HH:MM:SS"); `before` is exclusive.
+ */
+export function createdAtRange(from?: string, to?: string): { since?: string; before?: string } {
+  const range: { since?: string; before?: string } = {};
+  if (from) range.since = `${from} 00:00:00`;
+  if (to) {
+    const next = new Date(`${to}T00:00:00Z`);
+    next.setUTCDate(next.getUTCDate() + 1);
+    range.before = `${next.toISOString().slice(0, 10)} 00:00:00`;
+  }
+  return range;
+}
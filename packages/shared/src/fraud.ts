@@ -0,0 +1,102 @@
+// packages/shared/src/fraud.ts
+// COD fraud controls — limits, identity normalization and the risk score
+// stored on every COD order. Pure so the dashboard can explain a score.
+
+import type { Currency } from './types.js';
+import type { Money } from './money.js';
+
+/** Used for currencies a tenant has not configured (minor units) */
+export const DEFAULT_COD_LIMITS: Record<Currency, Money> = {
+  MAD: 2000_00,
+  EUR: 200_00,
+  USD: 200_00,
+};
+
+/** Score at or above which COD is refused at checkout */
+export const DEFAULT_COD_BLOCK_SCORE = 80;
+/** Score at or above which the order waits for phone confirmation */
+export const DEFAULT_COD_REVIEW_SCORE = 50;
+
+export type CodRiskReason =
+  | 'BLACKLISTED_PHONE'
+  | 'BLACKLISTED_EMAIL'
+  | 'BLACKLISTED_ADDRESS'
+  | 'PRIOR_REFUSALS'
+  | 'FIRST_ORDER'
+  | 'HIGH_VALUE'
+  | 'TRUSTED_CUSTOMER';
+
+export interface CodRiskSignals {
+  blacklisted: { phone: boolean; email: boolean; address: boolean };
+  /** COD orders this customer refused (cancelled after shipping) */
+  refusals: number;
+  /** COD orders this customer received and paid */
+  deliveredOrders: number;
+  total: Money;
+  limit: Money;
+}
+
+export interface CodRisk {
+  /** 0 (safe) – 100 (certain fraud) */
+  score: number;
+  reasons: CodRiskReason[];
+}
+
+export function scoreCodRisk(signals: CodRiskSignals): CodRisk {
+  const reasons: CodRiskReason[] = [];
+  let score = 0;
+
+  if (signals.blacklisted.phone) reasons.push('BLACKLISTED_PHONE');
+  if (signals.blacklisted.email) reasons.push('BLACKLISTED_EMAIL');
+  if (signals.blacklisted.address) reasons.push('BLACKLISTED_ADDRESS');
+  if (reasons.length > 0) return { score: 100, reasons };
+
+  if (signals.refusals > 0) {
+    score += Math.min(80, signals.refusals * 40);
+    reasons.push('PRIOR_REFUSALS');
+  }
+
+  if (signals.deliveredOrders === 0) {
+    score += 10;
+    reasons.push('FIRST_ORDER');
+  } else if (signals.refusals === 0) {
+    score -= 10;
+    reasons.push('TRUSTED_CUSTOMER');
+  }
+
+  if (signals.limit > 0 && signals.total >= signals.limit * 0.75) {
+    score += 15;
+    reasons.push('HIGH_VALUE');
+  }
+
+  return { score: Math.max(0, Math.min(100, score)), reasons };
+}
+
+export function codLimitFor(limits: Partial<Record<Currency, Money>> | null, currency: Currency): Money {
+  return limits?.[currency] ?? DEFAULT_COD_LIMITS[currency];
+}
+
+/**
+ * Moroccan numbers are written many ways: "+212 6 12-34-56-78",
+ * "00212612345678", "0612345678" → "0612345678". Others keep their digits.
+ */
+export function normalizePhone(phone: string): string {
+  let digits = phone.replace(/[^\d+]/g, '');
+  if (digits.startsWith('+')) digits = `00${digits.slice(1)}`;
+  if (digits.startsWith('00212')) return `0${digits.slice(5)}`;
+  if (digits.startsWith('212') && digits.length === 12) return `0${digits.slice(3)}`;
+  return digits;
+}
+
+export function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+export function normalizeAddress(address: string): string {
+  return address
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[̀-ͯ]/g, '')
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim();
+}
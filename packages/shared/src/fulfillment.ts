@@ -0,0 +1,53 @@
+// packages/shared/src/fulfillment.ts
+// Warehouse batches: packing slips per order plus one pick list that tells
+// the picker how many of each product to pull for the whole batch.
+
+/** Most orders printed in one batch — keeps the Worker within its CPU budget */
+export const MAX_FULFILLMENT_BATCH = 200;
+
+export interface PickLine {
+  productId: string | null;
+  /** Current products.sku — null once a product is deleted or has none */
+  sku: string | null;
+  /** order_items.titleSnapshot */
+  title: string;
+  qty: number;
+  orderId: string;
+}
+
+export interface PickListRow {
+  productId: string | null;
+  sku: string | null;
+  title: string;
+  qty: number;
+  /** Orders in the batch containing this product */
+  orders: number;
+}
+
+/**
+ * Totals per product across the batch, sorted by SKU (then title) so the list
+ * follows shelf order where SKUs encode location. Lines whose product was
+ * deleted are grouped by their title snapshot.
+ */
+export function buildPickList(lines: PickLine[]): PickListRow[] {
+  const rows = new Map<string, PickListRow & { orderIds: Set<string> }>();
+  for (const line of lines) {
+    const key = line.productId ?? `title:${line.title}`;
+    const row = rows.get(key);
+    if (row) {
+      row.qty += line.qty;
+      row.orderIds.add(line.orderId);
+    } else {
+      rows.set(key, { productId: line.productId, sku: line.sku, title: line.title, qty: line.qty, orders: 0, orderIds: new Set([line.orderId]) });
+    }
+  }
+
+  return [...rows.values()]
+    .map(({ orderIds, ...row }) => ({ ...row, orders: orderIds.size }))
+    .sort((a, b) => {
+      if (a.sku && b.sku) return a.sku.localeCompare(b.sku) || a.title.localeCompare(b.title);
+      if (a.sku) return -1;
+      if (b.sku) return 1;
+      return a.title.localeCompare(b.title);
+    });
+}
@@ -1,2 +1,17 @@
 export * from './types.js';
 export * from './schemas.js';
+export * from './orders.js';
+export * from './discounts.js';
+export * from './shipping.js';
+export * from './tax.js';
+export * from './fraud.js';
+export * from './invoices.js';
+export * from './fulfillment.js';
+export * from './exports.js';
+export * from './returns.js';
+export * from './orderEdits.js';
+export * from './customers.js';
+export * from './shipments.js';
+export * from './currencies.js';
+export * from './money.js';
+export * from './draftOrders.js';
\ No newline at end of file
@@ -0,0 +1,91 @@
+// packages/shared/src/invoices.ts
+// Invoice rules and text layout helpers shared by the PDF renderer (API)
+// and the dashboard. Invoice numbers are allocated once, on first download.
+
+import type { OrderStatus, PaymentStatus } from './types.js';
+import type { Money } from './money.js';
+
+export const DEFAULT_INVOICE_PREFIX = 'INV';
+
+export type InvoiceLocale = 'ar' | 'en';
+
+/** Unpaid pending orders get no invoice yet; cancelled ones never do */
+export function isInvoiceable(order: { status: OrderStatus; paymentStatus: PaymentStatus }): boolean {
+  if (order.status === 'cancelled') return false;
+  if (order.status === 'pending') return order.paymentStatus === 'PAID';
+  return true;
+}
+
+export interface InvoiceTaxRow {
+  rate: number;
+  amount: Money;
+}
+
+/** Item tax grouped by rate, highest rate first; zero-rate lines are left out */
+export function taxBreakdown(items: Array<{ taxRate: number; taxAmount: Money }>): InvoiceTaxRow[] {
+  const byRate = new Map<number, Money>();
+  for (const item of items) {
+    if (item.taxRate <= 0) continue;
+    byRate.set(item.taxRate, (byRate.get(item.taxRate) ?? 0) + item.taxAmount);
+  }
+  return [...byRate.entries()]
+    .map(([rate, amount]) => ({ rate, amount }))
+    .sort((a, b) => b.rate - a.rate);
+}
+
+// ─── Bidirectional text ───────────────────────────────────────
+// PDF has no text layout engine. The font shaper joins Arabic letters and
+// reverses each Arabic run; this splits mixed lines ("طلب ORD-000012") into
+// runs and puts them in drawing order. Digits stay left-to-right.
+
+export interface TextRun {
+  text: string;
+  rtl: boolean;
+}
+
+const ARABIC_LETTER = /[\u0600-\u065F\u066A-\u06EF\u06FA-\u06FF\u0750-\u077F\u08A0-\u08FF\uFB50-\uFDFF\uFE70-\uFEFF]/;
+
+export function hasArabic(text: string): boolean {
+  return ARABIC_LETTER.test(text);
+}
+
+/** A line is right-to-left when its first letter is Arabic (digits are weak) */
+export function isRtlText(text: string): boolean {
+  for (const ch of text) {
+    if (ARABIC_LETTER.test(ch)) return true;
+    if (/\p{L}/u.test(ch)) return false;
+  }
+  return false;
+}
+
+/** Runs of `text` in left-to-right drawing order */
+export function visualRuns(text: string): TextRun[] {
+  if (!hasArabic(text)) return text ? [{ text, rtl: false }] : [];
+
+  type Kind = 'R' | 'L' | 'N';
+  const runs: Array<{ text: string; kind: Kind }> = [];
+  for (const ch of text) {
+    const kind: Kind = ARABIC_LETTER.test(ch) ? 'R' : /\s/.test(ch) ? 'N' : 'L';
+    const last = runs[runs.length - 1];
+    if (last && last.kind === kind) last.text += ch;
+    else runs.push({ text: ch, kind });
+  }
+
+  // Spaces between two Arabic runs belong to Arabic; anywhere else they stand alone
+  const merged: Array<{ text: string; kind: Kind }> = [];
+  for (let i = 0; i < runs.length; i++) {
+    const run = runs[i]!;
+    const prev = merged[merged.length - 1];
+    if (run.kind === 'N' && prev?.kind === 'R' && runs[i + 1]?.kind === 'R') {
+      prev.text += run.text + runs[i + 1]!.text;
+      i++;
+    } else if (run.kind === 'R' && prev?.kind === 'R') {
+      prev.text += run.text;
+    } else {
+      merged.push({ ...run });
+    }
+  }
+
+  const ordered = isRtlText(text) ? merged.reverse() : merged;
+  return ordered.map(r => ({ text: r.text, rtl: r.kind === 'R' }));
+}
@@ -0,0 +1,74 @@
+// packages/shared/src/money.ts
+// Money is stored, summed and sent to Stripe as integer minor units (centimes,
+// cents): 199.99 MAD is 19999. Decimals only exist at the edges — request
+// bodies (converted by the Zod schemas) and what people read (formatMoney).
+
+import type { Currency } from './types.js';
+
+/** Whole number of the currency's minor unit */
+export type Money = number;
+
+/** Decimal places of each currency's minor unit (ISO 4217) */
+export const CURRENCY_DECIMALS: Record<Currency, number> = {
+  MAD: 2,
+  EUR: 2,
+  USD: 2,
+};
+
+/** For amounts whose currency isn't known where they are read — every supported currency has 2 */
+export const DEFAULT_MONEY_DECIMALS = 2;
+
+/** Orders keep their currency as free text; unknown codes fall back to the default */
+export function currencyDecimals(currency?: string): number {
+  return CURRENCY_DECIMALS[currency as Currency] ?? DEFAULT_MONEY_DECIMALS;
+}
+
+/** 199.99 → 19999 */
+export function toMinor(amount: number, currency?: string): Money {
+  return Math.round(amount * 10 ** currencyDecimals(currency));
+}
+
+/** 19999 → 199.99 */
+export function fromMinor(amount: Money, currency?: string): number {
+  return amount / 10 ** currencyDecimals(currency);
+}
+
+/** False for 19.999 in a 2-decimal currency — what the schemas reject */
+export function hasMoneyPrecision(amount: number, currency?: string): boolean {
+  const scaled = amount * 10 ** currencyDecimals(currency);
+  // 199.99 * 100 is 19998.999999999996 in floating point
+  return Math.abs(scaled - Math.round(scaled)) < 1e-6;
+}
+
+export function isMoney(value: unknown): value is Money {
+  return Number.isSafeInteger(value);
+}
+
+// ─── Arithmetic ───────────────────────────────────────────────
+// Sums stay exact; anything that multiplies rounds back to a whole minor unit.
+
+export function sumMoney(amounts: Money[]): Money {
+  return amounts.reduce((acc, a) => acc + a, 0);
+}
+
+/** Unit price × quantity, amount × exchange rate, … rounded half up */
+export function multiplyMoney(amount: Money, factor: number): Money {
+  return Math.round(amount * factor);
+}
+
+/** `percent` of `amount`, e.g. percentOf(19999, 10) → 2000 */
+export function percentOf(amount: Money, percent: number): Money {
+  return Math.round(amount * percent / 100);
+}
+
+// ─── Formatting ───────────────────────────────────────────────
+
+/** 19999 → "199.99" — invoice columns, CSV cells */
+export function formatAmount(amount: Money, currency?: string): string {
+  return fromMinor(amount, currency).toFixed(currencyDecimals(currency));
+}
+
+/** 19999, 'MAD' → "199.99 MAD" */
+export function formatMoney(amount: Money, currency: string): string {
+  return `${formatAmount(amount, currency)} ${currency}`;
+}
@@ -0,0 +1,114 @@
+// packages/shared/src/orderEdits.ts
+// Editing an order before fulfillment: which orders may change, and what a
+// list of changes does to their lines. Pricing, stock and payment happen in
+// the API (lib/orderEdits.ts).
+
+import type { OrderStatus, PaymentMethod } from './types.js';
+
+/**
+ * COD orders until they ship; Stripe orders once paid and until they ship.
+ * An unpaid Stripe order still has a checkout session open at the old total.
+ */
+export function isOrderEditable(order: { status: OrderStatus; paymentMethod: PaymentMethod }): boolean {
+  return order.paymentMethod === 'COD' ? order.status === 'pending' : order.status === 'paid';
+}
+
+/** `{ orderItemId, qty }` sets a line (0 removes it); `{ productId, qty }` adds units */
+export type OrderEditChange =
+  | { orderItemId: string; qty: number }
+  | { productId: string; qty: number };
+
+export interface EditableLine {
+  orderItemId: string;
+  productId: string | null;
+  qty: number;
+}
+
+export interface EditedLine {
+  /** null for products added by this edit */
+  orderItemId: string | null;
+  productId: string | null;
+  qty: number;
+}
+
+export interface OrderEditDiff {
+  orderItemId: string | null;
+  productId: string | null;
+  fromQty: number;
+  toQty: number;
+}
+
+export type OrderEditResult =
+  | { ok: true; lines: EditedLine[]; removed: string[]; diff: OrderEditDiff[] }
+  | { ok: false; code: 'UNKNOWN_ITEM'; orderItemId: string }
+  | { ok: false; code: 'EMPTY_ORDER' | 'NO_CHANGES' };
+
+/**
+ * Applies changes in order. Adding a product already on the order adds to
+ * that line, so each product keeps a single line and its original price.
+ */
+export function applyOrderEdit(items: EditableLine[], changes: OrderEditChange[]): OrderEditResult {
+  const lines: EditedLine[] = items.map(i => ({ ...i }));
+
+  for (const change of changes) {
+    if ('orderItemId' in change) {
+      const line = lines.find(l => l.orderItemId === change.orderItemId);
+      if (!line) return { ok: false, code: 'UNKNOWN_ITEM', orderItemId: change.orderItemId };
+      line.qty = change.qty;
+    } else {
+      const line = lines.find(l => l.productId === change.productId);
+      if (line) line.qty += change.qty;
+      else lines.push({ orderItemId: null, productId: change.productId, qty: change.qty });
+    }
+  }
+
+  const kept = lines.filter(l => l.qty > 0);
+  if (kept.length === 0) return { ok: false, code: 'EMPTY_ORDER' };
+
+  const diff: OrderEditDiff[] = [];
+  for (const line of lines) {
+    const fromQty = items.find(i => i.orderItemId !== null && i.orderItemId === line.orderItemId)?.qty ?? 0;
+    if (fromQty !== line.qty) diff.push({ orderItemId: line.orderItemId, productId: line.productId, fromQty, toQty: line.qty });
+  }
+  if (diff.length === 0) return { ok: false, code: 'NO_CHANGES' };
+
+  const removed = lines.filter(l => l.qty <= 0 && l.orderItemId !== null).map(l => l.orderItemId!);
+  return { ok: true, lines: kept, removed, diff };
+}
+
+/** Units to take (+) or give back (−) per product */
+export function stockDeltas(diff: OrderEditDiff[]): Map<string, number> {
+  const deltas = new Map<string, number>();
+  for (const d of diff) {
+    if (!d.productId) continue;
+    deltas.set(d.productId, (deltas.get(d.productId) ?? 0) + d.toQty - d.fromQty);
+  }
+  for (const [productId, delta] of deltas) if (delta === 0) deltas.delete(productId);
+  return deltas;
+}
+
+export interface RefundableCharge {
+  paymentIntentId: string;
+  /** Captured minus already refunded */
+  refundable: number;
+}
+
+/**
+ * A paid edit balance is a charge of its own, so a refund may have to come
+ * from several. Takes from the original charge first, then the edits in the
+ * order they were paid. Null when the charges cannot cover the amount.
+ */
+export function splitRefund(
+  charges: RefundableCharge[],
+  amount: number
+): { paymentIntentId: string; amount: number }[] | null {
+  const parts: { paymentIntentId: string; amount: number }[] = [];
+  let left = amount;
+  for (const charge of charges) {
+    if (left <= 0) break;
+    const take = Math.min(left, Math.max(0, charge.refundable));
+    if (take > 0) parts.push({ paymentIntentId: charge.paymentIntentId, amount: take });
+    left -= take;
+  }
+  return left > 0 ? null : parts;
+}
@@ -0,0 +1,126 @@
+// packages/shared/src/orders.ts
+// Order lifecycle — the single declared transition graph, enforced by the API
+// and read by the dashboard to offer only valid next statuses.
+
+import type { OrderStatus, PaymentMethod, ConfirmationStatus, ConfirmationOutcome } from './types.js';
+import { normalizeEmail, normalizePhone } from './fraud.js';
+
+/**
+ * Allowed next statuses per payment method.
+ *
+ * STRIPE: pending → paid → shipped → delivered, refunds after payment. Only
+ *         the Stripe webhook marks an order paid — once the money is captured —
+ *         so pending → paid is not a move anyone else can make
+ * COD:    pending → shipped → delivered (cash collected); cancelled covers
+ *         both merchant cancellation and refusal at the door
+ */
+export const ORDER_TRANSITIONS: Record<PaymentMethod, Record<OrderStatus, readonly OrderStatus[]>> = {
+  STRIPE: {
+    pending: ['cancelled'],
+    paid: ['shipped', 'refunded'],
+    shipped: ['delivered', 'refunded'],
+    delivered: ['refunded'],
+    cancelled: [],
+    refunded: [],
+  },
+  COD: {
+    pending: ['shipped', 'cancelled'],
+    paid: [],
+    shipped: ['delivered', 'cancelled'],
+    delivered: ['refunded'],
+    cancelled: [],
+    refunded: [],
+  },
+};
+
+export function allowedTransitions(method: PaymentMethod, from: OrderStatus): readonly OrderStatus[] {
+  return ORDER_TRANSITIONS[method]?.[from] ?? [];
+}
+
+export function canTransition(method: PaymentMethod, from: OrderStatus, to: OrderStatus): boolean {
+  return allowedTransitions(method, from).includes(to);
+}
+
+/** No further transitions possible (cancelled, refunded) */
+export function isTerminalStatus(method: PaymentMethod, status: OrderStatus): boolean {
+  return allowedTransitions(method, status).length === 0;
+}
+
+// ─── COD confirmation ─────────────────────────────────────────
+// Merchants call COD customers before shipping. Confirmation is tracked
+// beside `status` (which stays `pending` until the parcel leaves).
+
+/** Confirmation status after logging a call with this outcome */
+export function confirmationStatusAfter(outcome: ConfirmationOutcome, current: ConfirmationStatus): ConfirmationStatus {
+  switch (outcome) {
+    case 'confirmed': return 'confirmed';
+    case 'unreachable': return 'unreachable';
+    case 'rejected': return 'rejected';
+    // Customer picked up and asked to be called later — still undecided
+    case 'callback': return current === 'unreachable' ? 'pending' : current;
+  }
+}
+
+/** Whether a COD order may ship given its confirmation state */
+export function canShipCod(
+  order: { confirmationStatus: ConfirmationStatus | null; requiresConfirmation: boolean },
+  tenantRequiresConfirmation: boolean
+): boolean {
+  if (!tenantRequiresConfirmation && !order.requiresConfirmation) return true;
+  return order.confirmationStatus === 'confirmed';
+}
+
+// ─── Order numbers ────────────────────────────────────────────
+// Customers read these over the phone — UUIDs are for the API only.
+
+export const DEFAULT_ORDER_NUMBER_PREFIX = 'ORD';
+const ORDER_NUMBER_DIGITS = 6;
+
+/** formatOrderNumber('SHOP', 1042) → 'SHOP-001042' */
+export function formatOrderNumber(prefix: string, seq: number): string {
+  return `${prefix}-${String(seq).padStart(ORDER_NUMBER_DIGITS, '0')}`;
+}
+
+/** Normalizes what a customer types: ' shop-001042 ' → 'SHOP-001042' */
+export function normalizeOrderNumber(input: string): string {
+  return input.trim().toUpperCase();
+}
+
+// ─── Bulk actions ─────────────────────────────────────────────
+
+/** Most orders one POST /dashboard/orders/bulk may touch — a day of COD orders fits */
+export const MAX_BULK_ORDERS = 200;
+
+// ─── Dashboard search + sorting ───────────────────────────────
+
+/** Columns the dashboard list can sort by — each backed by a (tenant_id, column) index */
+export const ORDER_SORT_FIELDS = ['createdAt', 'total', 'orderNumber', 'customerName', 'status'] as const;
+export type OrderSortField = (typeof ORDER_SORT_FIELDS)[number];
+
+export interface OrderSearch {
+  /** Trimmed input, matched as a substring of order number, name, email and phone */
+  text: string;
+  /** A complete email address — matched exactly instead */
+  email: string | null;
+  /**
+   * Significant digits of a phone-like input: '+212 6 12-34' → '61234'.
+   * Matched against the stored phone with separators removed, so any
+   * national/international spelling of the same number finds it.
+   */
+  phoneDigits: string | null;
+}
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const PHONE_PATTERN = /^\+?[\d\s().-]+$/;
+const MIN_PHONE_DIGITS = 4;
+
+export function parseOrderSearch(q: string): OrderSearch {
+  const text = q.trim();
+  const email = EMAIL_PATTERN.test(text) ? normalizeEmail(text) : null;
+  let phoneDigits: string | null = null;
+  if (PHONE_PATTERN.test(text)) {
+    const digits = normalizePhone(text).replace(/^0+/, '');
+    if (digits.length >= MIN_PHONE_DIGITS) phoneDigits = digits;
+  }
+  return { text, email, phoneDigits };
+}
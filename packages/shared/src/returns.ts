@@ -0,0 +1,107 @@
+// packages/shared/src/returns.ts
+// Returns (RMA): a customer sends back some units of a delivered order and
+// gets a refund or an exchange. Lifecycle and policy rules, shared by the API
+// (enforcement) and the storefront (whether to offer a return at all).
+
+export const RETURN_REASONS = [
+  'damaged',
+  'defective',
+  'wrong_item',
+  'not_as_described',
+  'size_fit',
+  'changed_mind',
+  'other',
+] as const;
+export type ReturnReason = (typeof RETURN_REASONS)[number];
+
+export const RETURN_STATUSES = ['requested', 'approved', 'rejected', 'received', 'completed'] as const;
+export type ReturnStatus = (typeof RETURN_STATUSES)[number];
+
+export const RETURN_RESOLUTIONS = ['refund', 'exchange'] as const;
+export type ReturnResolution = (typeof RETURN_RESOLUTIONS)[number];
+
+/** tenants.returnWindowDays default; 0 turns storefront returns off */
+export const DEFAULT_RETURN_WINDOW_DAYS = 14;
+export const MAX_RETURN_WINDOW_DAYS = 365;
+
+/**
+ * requested → approved | rejected (merchant decision)
+ * approved  → received (parcel back in the warehouse)
+ * received  → completed (refund issued or exchange order created)
+ */
+export const RETURN_TRANSITIONS: Record<ReturnStatus, readonly ReturnStatus[]> = {
+  requested: ['approved', 'rejected'],
+  approved: ['received'],
+  rejected: [],
+  received: ['completed'],
+  completed: [],
+};
+
+export function canTransitionReturn(from: ReturnStatus, to: ReturnStatus): boolean {
+  return RETURN_TRANSITIONS[from]?.includes(to) ?? false;
+}
+
+/** Rejected returns give their units back to what can still be returned */
+export function countsAgainstReturnable(status: ReturnStatus): boolean {
+  return status !== 'rejected';
+}
+
+/**
+ * Last moment a return may be opened from the storefront, counted from
+ * delivery. Null when the window is 0 (returns handled by staff only).
+ */
+export function returnWindowEndsAt(deliveredAt: Date, windowDays: number): Date | null {
+  if (windowDays <= 0) return null;
+  return new Date(deliveredAt.getTime() + windowDays * 24 * 60 * 60 * 1000);
+}
+
+export function isWithinReturnWindow(deliveredAt: Date, windowDays: number, now = new Date()): boolean {
+  const endsAt = returnWindowEndsAt(deliveredAt, windowDays);
+  return endsAt !== null && now.getTime() <= endsAt.getTime();
+}
+
+export interface ReturnLine {
+  orderItemId: string;
+  qty: number;
+}
+
+/** Qty already in a return per order item, ignoring rejected returns */
+export function returnedQtyByItem(lines: Array<ReturnLine & { status: ReturnStatus }>): Map<string, number> {
+  const map = new Map<string, number>();
+  for (const line of lines) {
+    if (!countsAgainstReturnable(line.status)) continue;
+    map.set(line.orderItemId, (map.get(line.orderItemId) ?? 0) + line.qty);
+  }
+  return map;
+}
+
+export type ReturnLinesCheck =
+  | { ok: true }
+  | { ok: false; code: 'UNKNOWN_ITEM'; orderItemId: string }
+  | { ok: false; code: 'QTY_EXCEEDED'; orderItemId: string; available: number };
+
+/**
+ * Checks requested lines against the order's items minus what earlier returns
+ * already claim. Repeated lines for the same item are added up first.
+ */
+export function checkReturnLines(
+  items: Array<{ id: string; qty: number }>,
+  alreadyReturned: Map<string, number>,
+  lines: ReturnLine[]
+): ReturnLinesCheck {
+  const requested = new Map<string, number>();
+  for (const line of lines) requested.set(line.orderItemId, (requested.get(line.orderItemId) ?? 0) + line.qty);
+
+  for (const [orderItemId, qty] of requested) {
+    const item = items.find(i => i.id === orderItemId);
+    if (!item) return { ok: false, code: 'UNKNOWN_ITEM', orderItemId };
+    const available = Math.max(0, item.qty - (alreadyReturned.get(orderItemId) ?? 0));
+    if (qty > available) return { ok: false, code: 'QTY_EXCEEDED', orderItemId, available };
+  }
+  return { ok: true };
+}
+
+/** `${orderNumber}-R1`, `-R2`, … — one sequence per order */
+export function formatRmaNumber(orderNumber: string, seq: number): string {
+  return `${orderNumber}-R${seq}`;
+}
@@ -1,5 +1,54 @@
 // packages/shared/src/schemas.ts
 import { z } from 'zod';
+import { MAX_FULFILLMENT_BATCH } from './fulfillment.js';
+import { ORDER_SORT_FIELDS, MAX_BULK_ORDERS } from './orders.js';
+import { RETURN_REASONS, RETURN_RESOLUTIONS, RETURN_STATUSES, MAX_RETURN_WINDOW_DAYS } from './returns.js';
+import { CUSTOMER_SORT_FIELDS, MAX_CUSTOMER_TAGS, MAX_CUSTOMER_TAG_LENGTH } from './customers.js';
+import { SHIPMENT_STATUSES, MANUAL_CARRIER } from './shipments.js';
+import { MAX_EXCHANGE_RATE } from './currencies.js';
+import { DRAFT_ORDER_STATUSES, MAX_DRAFT_LINES } from './draftOrders.js';
+import { hasMoneyPrecision, toMinor, currencyDecimals } from './money.js';
+import { CURRENCIES } from './types.js';
+import type { Currency } from './types.js';
+
+// ─── Money ────────────────────────────────────────────────────
+// Amounts arrive as decimals (199.99) and leave these schemas as integer minor
+// units (19999, see ./money.ts). Precision is checked against the currency when
+// the payload names it; other amounts are in the store's base currency or the
+// order's, checked with the default (every supported currency has 2 decimals).
+
+function money(schema: z.ZodNumber, currency?: Currency) {
+  return schema
+    .refine(v => hasMoneyPrecision(v, currency), {
+      message: `At most ${currencyDecimals(currency)} decimal places`,
+    })
+    .transform(v => toMinor(v, currency));
+}
+
+/** Product prices are in the product's own currency, which is part of the payload */
+function priceFields<T extends { currency?: Currency; price?: number; salePrice?: number | null }>() {
+  return {
+    refine(d: T, ctx: z.RefinementCtx) {
+      for (const field of ['price', 'salePrice'] as const) {
+        const value = d[field];
+        if (typeof value === 'number' && !hasMoneyPrecision(value, d.currency)) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            path: [field],
+            message: `At most ${currencyDecimals(d.currency)} decimal places for ${d.currency ?? 'this currency'}`,
+          });
+        }
+      }
+    },
+    toMinor(d: T): T {
+      return {
+        ...d,
+        ...(typeof d.price === 'number' ? { price: toMinor(d.price, d.currency) } : {}),
+        ...(typeof d.salePrice === 'number' ? { salePrice: toMinor(d.salePrice, d.currency) } : {}),
+      };
+    },
+  };
+}
 
 export const registerSchema = z.object({
   email: z.string().email('البريد الإلكتروني غير صالح'),
@@ -23,9 +72,17 @@ export const updateTenantSchema = z.object({
   primaryColor: z.string().regex(/^#[0-9a-fA-F]{6}$/).optional(),
   shippingPolicy: z.string().max(5000).optional(),
   returnPolicy: z.string().max(5000).optional(),
+  // Days after delivery a customer may open a return; 0 = staff only
+  returnWindowDays: z.number().int().min(0).max(MAX_RETURN_WINDOW_DAYS).optional(),
+  taxEnabled: z.boolean().optional(),
+  pricesIncludeTax: z.boolean().optional(),
+  taxShipping: z.boolean().optional(),
+  // Applies to new orders only — existing numbers keep their prefix
+  orderNumberPrefix: z.string().regex(/^[A-Z0-9]{1,10}$/, 'Uppercase letters and digits only').optional(),
+  invoicePrefix: z.string().regex(/^[A-Z0-9]{1,10}$/, 'Uppercase letters and digits only').optional(),
 });
 
-export const createProductSchema = z.object({
+const productBaseSchema = z.object({
   title: z.string().min(1).max(200),
   description: z.string().max(5000).optional(),
   price: z.number().positive(),
@@ -33,17 +90,187 @@ export const createProductSchema = z.object({
   currency: z.enum(['MAD', 'EUR', 'USD']).default('MAD'),
   sku: z.string().max(100).optional().nullable(),
   stock: z.number().int().min(0).default(0),
+  weightGrams: z.number().int().min(0).optional().nullable(),
+  taxClassId: z.string().optional().nullable(),
   status: z.enum(['active', 'draft', 'archived']).default('draft'),
   categoryIds: z.array(z.string()).optional(),
 });
 
-export const updateProductSchema = createProductSchema.partial();
+const createProductPrices = priceFields<z.infer<typeof productBaseSchema>>();
+export const createProductSchema = productBaseSchema
+  .superRefine(createProductPrices.refine)
+  .transform(createProductPrices.toMinor);
+
+// Without `currency`, prices are checked with the default precision
+const updateProductPrices = priceFields<Partial<z.infer<typeof productBaseSchema>>>();
+export const updateProductSchema = productBaseSchema.partial()
+  .superRefine(updateProductPrices.refine)
+  .transform(updateProductPrices.toMinor);
 
 export const createCategorySchema = z.object({
   name: z.string().min(1).max(100),
   slug: z.string().min(1).max(100).regex(/^[a-z0-9-]+$/),
 });
 
+// ─── Tax class schemas ────────────────────────────────────────
+
+export const createTaxClassSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  rate: z.number().min(0).max(100),
+  isDefault: z.boolean().default(false),
+});
+
+export const updateTaxClassSchema = createTaxClassSchema.partial();
+
+// ─── Currency schemas ─────────────────────────────────────────
+
+// Changing the base currency re-expresses every rate against it
+export const updateBaseCurrencySchema = z.object({
+  baseCurrency: z.enum(CURRENCIES),
+});
+
+// Units of the currency per 1 unit of the base currency
+export const exchangeRateSchema = z.object({
+  rate: z.number().positive().max(MAX_EXCHANGE_RATE),
+});
+
+// Replaces the product's per-currency prices; currencies left out convert again
+const currencyPriceSchema = z.object({
+  currency: z.enum(CURRENCIES),
+  price: z.number().positive(),
+  salePrice: z.number().positive().nullable().optional(),
+});
+const currencyPrices = priceFields<z.infer<typeof currencyPriceSchema>>();
+
+export const productPricesSchema = z.object({
+  prices: z.array(
+    currencyPriceSchema.superRefine(currencyPrices.refine).transform(currencyPrices.toMinor)
+  ).max(CURRENCIES.length),
+}).refine(d => new Set(d.prices.map(p => p.currency)).size === d.prices.length, {
+  message: 'Each currency can only appear once',
+  path: ['prices'],
+});
+
+// ─── Discount code schemas ────────────────────────────────────
+
+const discountCodeBaseSchema = z.object({
+  code: z.string().trim().min(3).max(40).regex(/^[A-Za-z0-9_-]+$/, 'الرمز يجب أن يحتوي على أحرف إنجليزية وأرقام فقط')
+    .transform(s => s.toUpperCase()),
+  type: z.enum(['percentage', 'fixed', 'free_shipping']),
+  // Percent, or a decimal amount for `fixed` — converted to minor units where the type is known (API)
+  value: z.number().min(0).default(0),
+  minSubtotal: money(z.number().positive()).optional().nullable(),
+  usageLimit: z.number().int().positive().optional().nullable(),
+  perCustomerLimit: z.number().int().positive().optional().nullable(),
+  startsAt: z.string().datetime().optional().nullable(),
+  endsAt: z.string().datetime().optional().nullable(),
+  productIds: z.array(z.string()).max(200).optional().nullable(),
+  categoryIds: z.array(z.string()).max(200).optional().nullable(),
+  isActive: z.boolean().default(true),
+});
+
+export const createDiscountCodeSchema = discountCodeBaseSchema.superRefine((d, ctx) => {
+  if (d.type === 'percentage' && (d.value <= 0 || d.value > 100)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['value'], message: 'Percentage must be between 0 and 100' });
+  }
+  if (d.type === 'fixed' && d.value <= 0) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['value'], message: 'Fixed amount must be positive' });
+  }
+  if (d.type === 'fixed' && !hasMoneyPrecision(d.value)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['value'], message: `At most ${currencyDecimals()} decimal places` });
+  }
+  if (d.startsAt && d.endsAt && d.endsAt <= d.startsAt) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['endsAt'], message: 'endsAt must be after startsAt' });
+  }
+});
+
+export const updateDiscountCodeSchema = discountCodeBaseSchema.partial();
+
+// ─── Shipping schemas ─────────────────────────────────────────
+
+// Bounds stay as entered — grams for weight tiers, a decimal order amount for
+// price tiers, converted where the rate type is known (API)
+const shippingTierSchema = z.object({
+  min: z.number().min(0),
+  max: z.number().positive().nullable(),
+  amount: money(z.number().min(0)),
+});
+
+export const createShippingZoneSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  countries: z.array(z.string().length(2).transform(s => s.toUpperCase())).min(1).max(50),
+  regions: z.array(z.string().trim().min(1).max(100)).max(200).optional().nullable(),
+  freeShippingThreshold: money(z.number().positive()).optional().nullable(),
+  codSurcharge: money(z.number().min(0)).default(0),
+  isActive: z.boolean().default(true),
+});
+
+export const updateShippingZoneSchema = createShippingZoneSchema.partial();
+
+const shippingRateBaseSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  type: z.enum(['flat', 'weight', 'price']).default('flat'),
+  amount: money(z.number().min(0)).default(0),
+  tiers: z.array(shippingTierSchema).max(50).optional().nullable(),
+  minDeliveryDays: z.number().int().min(0).optional().nullable(),
+  maxDeliveryDays: z.number().int().min(0).optional().nullable(),
+  isActive: z.boolean().default(true),
+});
+
+export const createShippingRateSchema = shippingRateBaseSchema.superRefine((d, ctx) => {
+  if (d.type !== 'flat' && !d.tiers?.length) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['tiers'], message: 'Tiered rates need at least one tier' });
+  }
+  if (d.tiers?.some(t => t.max !== null && t.max <= t.min)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['tiers'], message: 'Tier max must be greater than min' });
+  }
+  if (d.minDeliveryDays != null && d.maxDeliveryDays != null && d.maxDeliveryDays < d.minDeliveryDays) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['maxDeliveryDays'], message: 'maxDeliveryDays must be >= minDeliveryDays' });
+  }
+});
+
+export const updateShippingRateSchema = shippingRateBaseSchema.partial();
+
+// Where the order goes + which quoted rate the customer picked
+const shippingSelectionSchema = z.object({
+  rateId: z.string(),
+  country: z.string().length(2).transform(s => s.toUpperCase()).default('MA'),
+  region: z.string().trim().max(100).optional(),
+  city: z.string().trim().max(100).optional(),
+});
+
+export const shippingQuoteSchema = z.object({
+  items: z.array(z.object({
+    productId: z.string(),
+    qty: z.number().int().positive(),
+  })).min(1).max(50),
+  country: z.string().length(2).transform(s => s.toUpperCase()).default('MA'),
+  region: z.string().trim().max(100).optional(),
+  city: z.string().trim().max(100).optional(),
+  paymentMethod: z.enum(['STRIPE', 'COD']).default('COD'),
+  // Defaults to the store's base currency
+  currency: z.enum(CURRENCIES).optional(),
+});
+
+// ─── COD fraud schemas ────────────────────────────────────────
+
+export const updateCodSettingsSchema = z.object({
+  limits: z.object({
+    MAD: money(z.number().positive(), 'MAD'),
+    EUR: money(z.number().positive(), 'EUR'),
+    USD: money(z.number().positive(), 'USD'),
+  }).partial().optional(),
+  blockScore: z.number().int().min(1).max(100).optional(),
+  reviewScore: z.number().int().min(0).max(100).optional(),
+  confirmationRequired: z.boolean().optional(),
+});
+
+export const createCodBlacklistSchema = z.object({
+  type: z.enum(['phone', 'email', 'address']),
+  value: z.string().trim().min(3).max(500),
+  reason: z.string().max(500).optional(),
+});
+
 // ─── Order schemas ────────────────────────────────────────────
 
 export const updateOrderStatusSchema = z.object({
@@ -52,6 +279,244 @@ export const updateOrderStatusSchema = z.object({
   note: z.string().max(500).optional(),
 });
 
+// Shipment — booked through a carrier adapter, or a tracking number typed in
+// for a carrier without one (`manual`). Moves the order to shipped unless it already is.
+export const createShipmentSchema = z.object({
+  orderId: z.string().uuid(),
+  carrier: z.string().trim().min(1).max(40),
+  // manual only
+  carrierName: z.string().trim().max(100).optional(),
+  trackingNumber: z.string().trim().min(3).max(100).optional(),
+  trackingUrl: z.string().url().max(500).optional(),
+  weightGrams: z.number().int().positive().max(100_000).optional(),
+  note: z.string().max(500).optional(),
+}).refine(d => d.carrier !== MANUAL_CARRIER || (d.trackingNumber !== undefined && d.carrierName !== undefined), {
+  message: 'carrierName and trackingNumber are required for manual shipments',
+  path: ['trackingNumber'],
+});
+
+export const shipmentListQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).default(20).transform(n => Math.min(100, n)),
+  status: z.enum(SHIPMENT_STATUSES).optional(),
+  orderId: z.string().uuid().optional(),
+  carrier: z.string().max(40).optional(),
+});
+
+// Bulk actions — one action for many orders; each order is checked on its own
+const bulkOrderIds = z.array(z.string().uuid()).min(1).max(MAX_BULK_ORDERS);
+export const bulkOrderActionSchema = z.discriminatedUnion('action', [
+  z.object({
+    action: z.literal('status'),
+    orderIds: bulkOrderIds,
+    status: z.enum(['pending', 'paid', 'shipped', 'delivered', 'cancelled', 'refunded']),
+    paymentStatus: z.enum(['PAID', 'UNPAID', 'PENDING', 'FAILED']).optional(),
+    note: z.string().max(500).optional(),
+  }),
+  // userId null unassigns
+  z.object({ action: z.literal('assign'), orderIds: bulkOrderIds, userId: z.string().uuid().nullable() }),
+  z.object({ action: z.literal('note'), orderIds: bulkOrderIds, note: z.string().trim().min(1).max(500) }),
+  // Checks the orders can be printed; the PDF comes from POST /dashboard/orders/packing-slips
+  z.object({ action: z.literal('print'), orderIds: bulkOrderIds }),
+]);
+
+// Packing slips + pick list — explicit orders or a filter, not both
+export const packingSlipsSchema = z.object({
+  orderIds: z.array(z.string().uuid()).min(1).max(MAX_FULFILLMENT_BATCH).optional(),
+  filter: z.object({
+    status: z.enum(['pending', 'paid', 'shipped', 'delivered', 'cancelled', 'refunded']).optional(),
+    paymentMethod: z.enum(['STRIPE', 'COD']).optional(),
+    paymentStatus: z.enum(['PAID', 'UNPAID', 'PENDING', 'FAILED']).optional(),
+  }).optional(),
+  format: z.enum(['pdf', 'json']).default('pdf'),
+  lang: z.enum(['ar', 'en']).default('ar'),
+}).refine(d => (d.orderIds === undefined) !== (d.filter === undefined), {
+  message: 'Provide either orderIds or filter',
+  path: ['orderIds'],
+});
+
+// Calendar day in query strings (from/to filters on createdAt)
+const isoDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Expected YYYY-MM-DD');
+
+// Dashboard orders list (query string) — filters, search, total range, sorting
+export const orderListQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).default(20).transform(n => Math.min(100, n)),
+  status: z.enum(['pending', 'paid', 'shipped', 'delivered', 'cancelled', 'refunded']).optional(),
+  paymentMethod: z.enum(['STRIPE', 'COD']).optional(),
+  paymentStatus: z.enum(['PAID', 'UNPAID', 'PENDING', 'FAILED']).optional(),
+  confirmationStatus: z.enum(['pending', 'confirmed', 'unreachable', 'rejected']).optional(),
+  // A user id, 'me' or 'none' (unassigned)
+  assignedTo: z.union([z.literal('me'), z.literal('none'), z.string().uuid()]).optional(),
+  minRisk: z.coerce.number().int().min(0).optional(),
+  requiresConfirmation: z.enum(['true', 'false']).transform(v => v === 'true').optional(),
+  // Order number, customer name, email or phone
+  q: z.string().trim().max(100).optional(),
+  from: isoDate.optional(),
+  to: isoDate.optional(),
+  minTotal: money(z.coerce.number().min(0)).optional(),
+  maxTotal: money(z.coerce.number().min(0)).optional(),
+  sort: z.enum(ORDER_SORT_FIELDS).default('createdAt'),
+  dir: z.enum(['asc', 'desc']).default('desc'),
+}).refine(d => !d.from || !d.to || d.from <= d.to, {
+  message: 'from must not be after to',
+  path: ['to'],
+}).refine(d => d.minTotal === undefined || d.maxTotal === undefined || d.minTotal <= d.maxTotal, {
+  message: 'minTotal must not exceed maxTotal',
+  path: ['maxTotal'],
+});
+
+// Dashboard customers list (query string)
+export const customerListQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).default(20).transform(n => Math.min(100, n)),
+  // Name, email or phone
+  q: z.string().trim().max(100).optional(),
+  tag: z.string().trim().toLowerCase().max(MAX_CUSTOMER_TAG_LENGTH).optional(),
+  minOrders: z.coerce.number().int().min(0).optional(),
+  sort: z.enum(CUSTOMER_SORT_FIELDS).default('lastOrderAt'),
+  dir: z.enum(['asc', 'desc']).default('desc'),
+});
+
+// Merchant-owned fields — the figures are derived from orders
+export const updateCustomerSchema = z.object({
+  tags: z.array(z.string().max(MAX_CUSTOMER_TAG_LENGTH)).max(MAX_CUSTOMER_TAGS).optional(),
+  notes: z.string().max(5000).nullable().optional(),
+});
+
+// Cursor from the previous batch (nextCursor); omit to start
+export const customerBackfillSchema = z.object({
+  after: z.string().max(320).nullable().optional(),
+});
+
+// Order export (query string) — same filters as the orders list plus a date range
+export const orderExportSchema = z.object({
+  format: z.enum(['csv', 'xlsx']).default('csv'),
+  lines: z.enum(['true', 'false']).default('false').transform(v => v === 'true'),
+  lang: z.enum(['ar', 'en']).optional(),
+  status: z.enum(['pending', 'paid', 'shipped', 'delivered', 'cancelled', 'refunded']).optional(),
+  paymentMethod: z.enum(['STRIPE', 'COD']).optional(),
+  paymentStatus: z.enum(['PAID', 'UNPAID', 'PENDING', 'FAILED']).optional(),
+  from: isoDate.optional(),
+  to: isoDate.optional(),
+}).refine(d => !d.from || !d.to || d.from <= d.to, {
+  message: 'from must not be after to',
+  path: ['to'],
+});
+
+// COD confirmation call — `callback` needs a time to call back
+export const logConfirmationAttemptSchema = z.object({
+  outcome: z.enum(['confirmed', 'unreachable', 'rejected', 'callback']),
+  note: z.string().max(500).optional(),
+  callbackAt: z.string().datetime().optional(),
+}).refine(d => d.outcome !== 'callback' || d.callbackAt !== undefined, {
+  message: 'callbackAt is required for callback',
+  path: ['callbackAt'],
+});
+
+// Refund — full when neither amount nor items are given
+export const createRefundSchema = z.object({
+  amount: money(z.number().positive()).optional(),
+  items: z.array(z.object({
+    orderItemId: z.string(),
+    qty: z.number().int().positive(),
+  })).min(1).optional(),
+  reason: z.enum(['requested_by_customer', 'duplicate', 'fraudulent', 'other']).default('requested_by_customer'),
+  note: z.string().max(500).optional(),
+}).refine(d => d.amount === undefined || d.items === undefined, {
+  message: 'Provide either amount or items, not both',
+});
+
+// Order edit — applied in order; see @repo/shared/orderEdits
+export const editOrderSchema = z.object({
+  changes: z.array(z.union([
+    z.object({ orderItemId: z.string(), qty: z.number().int().min(0).max(100) }).strict(),
+    z.object({ productId: z.string().uuid(), qty: z.number().int().min(1).max(100) }).strict(),
+  ])).min(1).max(50),
+  // Drop the promo code when the edited cart no longer qualifies
+  removeDiscount: z.boolean().default(false),
+  note: z.string().trim().max(500).optional(),
+});
+
+// Draft order — created and replaced whole (PUT). Product lines take the
+// catalogue price unless `price` is set; custom lines have no productId and
+// need a title and a price. Amounts are in the draft's currency.
+const draftLineSchema = z.object({
+  productId: z.string().uuid().optional(),
+  title: z.string().trim().min(1).max(200).optional(),
+  price: money(z.number().min(0)).optional(),
+  qty: z.number().int().min(1).max(100),
+}).refine(l => l.productId !== undefined || (l.title !== undefined && l.price !== undefined), {
+  message: 'Custom lines need a title and a price',
+  path: ['title'],
+});
+
+export const draftOrderSchema = z.object({
+  customerEmail: z.string().email(),
+  // Required by the time the draft is converted to COD, not before
+  customerName: z.string().trim().min(2).max(100).optional(),
+  customerPhone: z.string().min(8).max(20).optional(),
+  customerAddress: z.string().min(10).max(500).optional(),
+  // Defaults to the store's base currency
+  currency: z.enum(CURRENCIES).optional(),
+  lines: z.array(draftLineSchema).min(1).max(MAX_DRAFT_LINES),
+  shipping: shippingSelectionSchema.optional(),
+  note: z.string().trim().max(1000).optional(),
+});
+
+export const draftOrderListQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).default(20).transform(n => Math.min(100, n)),
+  status: z.enum(DRAFT_ORDER_STATUSES).optional(),
+});
+
+// Return request — exchangeProductId picks a different product to send back
+// (e.g. another size); omitted = the same product again
+const returnRequestFields = {
+  items: z.array(z.object({
+    orderItemId: z.string(),
+    qty: z.number().int().min(1).max(100),
+    reason: z.enum(RETURN_REASONS),
+    exchangeProductId: z.string().uuid().optional(),
+  })).min(1).max(50),
+  resolution: z.enum(RETURN_RESOLUTIONS).default('refund'),
+  note: z.string().trim().max(1000).optional(),
+};
+
+function exchangeProductsOnlyForExchanges(d: { resolution: string; items: { exchangeProductId?: string }[] }): boolean {
+  return d.resolution === 'exchange' || d.items.every(i => i.exchangeProductId === undefined);
+}
+
+export const createReturnSchema = z.object(returnRequestFields)
+  .refine(exchangeProductsOnlyForExchanges, { message: 'exchangeProductId is only allowed for exchanges', path: ['items'] });
+
+// Staff open returns on behalf of the customer (phone, in store)
+export const createDashboardReturnSchema = z.object({ ...returnRequestFields, orderId: z.string().uuid() })
+  .refine(exchangeProductsOnlyForExchanges, { message: 'exchangeProductId is only allowed for exchanges', path: ['items'] });
+
+// Approve may switch the resolution the customer asked for
+export const reviewReturnSchema = z.object({
+  resolution: z.enum(RETURN_RESOLUTIONS).optional(),
+  note: z.string().trim().max(1000).optional(),
+});
+
+// Received parcel — restock everything, or per line (damaged units stay out)
+export const receiveReturnSchema = z.object({
+  restock: z.boolean().default(true),
+  items: z.array(z.object({
+    returnItemId: z.string(),
+    restockQty: z.number().int().min(0),
+  })).min(1).optional(),
+  note: z.string().trim().max(1000).optional(),
+});
+
+export const returnListQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).default(20).transform(n => Math.min(100, n)),
+  status: z.enum(RETURN_STATUSES).optional(),
+  orderId: z.string().optional(),
+});
+
 // Stripe checkout — requires successUrl + cancelUrl for redirect
 export const checkoutSchema = z.object({
   items: z.array(z.object({
@@ -59,11 +524,30 @@ export const checkoutSchema = z.object({
     qty: z.number().int().positive(),
   })).min(1),
   customerEmail: z.string().email(),
-  currency: z.enum(['MAD', 'EUR', 'USD']).default('MAD'),
+  // Defaults to the store's base currency; prices are converted at its exchange rate
+  currency: z.enum(CURRENCIES).optional(),
+  discountCode: z.string().trim().max(40).optional(),
+  shipping: shippingSelectionSchema.optional(),
   successUrl: z.string().url(),
   cancelUrl: z.string().url(),
 });
 
+// Storefront order lookup without the access link — proves ownership by email
+export const orderLookupSchema = z.object({
+  orderNumber: z.string().min(1).max(30),
+  email: z.string().email(),
+});
+
+// Public shipment tracking — order number plus the email or phone used at checkout
+export const trackOrderQuerySchema = z.object({
+  orderNumber: z.string().trim().min(1).max(30),
+  email: z.string().trim().email().optional(),
+  phone: z.string().trim().min(6).max(20).optional(),
+}).refine(d => d.email !== undefined || d.phone !== undefined, {
+  message: 'email or phone is required',
+  path: ['email'],
+});
+
 // COD checkout — no Stripe, customer delivery info required
 export const codCheckoutSchema = z.object({
   items: z.array(z.object({
@@ -74,7 +558,10 @@ export const codCheckoutSchema = z.object({
   customerName: z.string().min(2).max(100),
   customerPhone: z.string().min(8).max(20),
   customerAddress: z.string().min(10).max(500),
-  currency: z.enum(['MAD', 'EUR', 'USD']).default('MAD'),
+  // Defaults to the store's base currency; prices are converted at its exchange rate
+  currency: z.enum(CURRENCIES).optional(),
+  discountCode: z.string().trim().max(40).optional(),
+  shipping: shippingSelectionSchema.optional(),
 });
 
 export const forgotPasswordSchema = z.object({
@@ -86,14 +573,86 @@ export const resetPasswordSchema = z.object({
   password: z.string().min(8),
 });
 
+// ─── Storefront customer accounts ─────────────────────────────
+// Login, forgot and reset reuse loginSchema / forgotPasswordSchema / resetPasswordSchema
+export const customerRegisterSchema = registerSchema.extend({
+  phone: z.string().min(8).max(20).optional(),
+});
+
+export const updateCustomerAccountSchema = z.object({
+  name: z.string().min(2).max(100).optional(),
+  phone: z.string().min(8).max(20).nullable().optional(),
+});
+
+export const customerAddressSchema = z.object({
+  label: z.string().trim().max(40).optional(),
+  name: z.string().min(2).max(100),
+  phone: z.string().min(8).max(20),
+  address: z.string().min(10).max(500),
+  country: z.string().length(2).transform(s => s.toUpperCase()).optional(),
+  region: z.string().max(100).optional(),
+  city: z.string().max(100).optional(),
+  isDefault: z.boolean().default(false),
+});
+
+export const updateCustomerAddressSchema = customerAddressSchema.partial().extend({
+  isDefault: z.boolean().optional(),
+});
+
+// A shopper's order history (storefront) and a buyer's orders (dashboard CRM)
+export const customerOrdersQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).default(20).transform(n => Math.min(50, n)),
+});
+
 // ─── Type exports (each exported exactly once) ────────────────
 export type RegisterInput = z.infer<typeof registerSchema>;
 export type LoginInput = z.infer<typeof loginSchema>;
+export type CustomerRegisterInput = z.infer<typeof customerRegisterSchema>;
+export type UpdateCustomerAccountInput = z.infer<typeof updateCustomerAccountSchema>;
+export type CustomerAddressInput = z.infer<typeof customerAddressSchema>;
+export type UpdateCustomerAddressInput = z.infer<typeof updateCustomerAddressSchema>;
+export type CustomerOrdersQuery = z.infer<typeof customerOrdersQuerySchema>;
 export type CreateTenantInput = z.infer<typeof createTenantSchema>;
 export type UpdateTenantInput = z.infer<typeof updateTenantSchema>;
 export type CreateProductInput = z.infer<typeof createProductSchema>;
 export type UpdateProductInput = z.infer<typeof updateProductSchema>;
 export type CreateCategoryInput = z.infer<typeof createCategorySchema>;
+export type UpdateBaseCurrencyInput = z.infer<typeof updateBaseCurrencySchema>;
+export type ExchangeRateInput = z.infer<typeof exchangeRateSchema>;
+export type ProductPricesInput = z.infer<typeof productPricesSchema>;
+export type CreateTaxClassInput = z.infer<typeof createTaxClassSchema>;
+export type UpdateTaxClassInput = z.infer<typeof updateTaxClassSchema>;
+export type CreateDiscountCodeInput = z.infer<typeof createDiscountCodeSchema>;
+export type UpdateDiscountCodeInput = z.infer<typeof updateDiscountCodeSchema>;
+export type CreateShippingZoneInput = z.infer<typeof createShippingZoneSchema>;
+export type UpdateShippingZoneInput = z.infer<typeof updateShippingZoneSchema>;
+export type CreateShippingRateInput = z.infer<typeof createShippingRateSchema>;
+export type UpdateShippingRateInput = z.infer<typeof updateShippingRateSchema>;
+export type ShippingQuoteInput = z.infer<typeof shippingQuoteSchema>;
+export type UpdateCodSettingsInput = z.infer<typeof updateCodSettingsSchema>;
+export type CreateCodBlacklistInput = z.infer<typeof createCodBlacklistSchema>;
 export type UpdateOrderStatusInput = z.infer<typeof updateOrderStatusSchema>;
+export type BulkOrderActionInput = z.infer<typeof bulkOrderActionSchema>;
+export type CreateShipmentInput = z.infer<typeof createShipmentSchema>;
+export type ShipmentListQuery = z.infer<typeof shipmentListQuerySchema>;
+export type PackingSlipsInput = z.infer<typeof packingSlipsSchema>;
+export type OrderListQuery = z.infer<typeof orderListQuerySchema>;
+export type OrderExportQuery = z.infer<typeof orderExportSchema>;
+export type CustomerListQuery = z.infer<typeof customerListQuerySchema>;
+export type UpdateCustomerInput = z.infer<typeof updateCustomerSchema>;
+export type CustomerBackfillInput = z.infer<typeof customerBackfillSchema>;
+export type LogConfirmationAttemptInput = z.infer<typeof logConfirmationAttemptSchema>;
+export type CreateRefundInput = z.infer<typeof createRefundSchema>;
+export type EditOrderInput = z.infer<typeof editOrderSchema>;
+export type DraftOrderInput = z.infer<typeof draftOrderSchema>;
+export type DraftOrderListQuery = z.infer<typeof draftOrderListQuerySchema>;
+export type CreateReturnInput = z.infer<typeof createReturnSchema>;
+export type CreateDashboardReturnInput = z.infer<typeof createDashboardReturnSchema>;
+export type ReviewReturnInput = z.infer<typeof reviewReturnSchema>;
+export type ReceiveReturnInput = z.infer<typeof receiveReturnSchema>;
+export type ReturnListQuery = z.infer<typeof returnListQuerySchema>;
 export type CheckoutInput = z.infer<typeof checkoutSchema>;
 export type CodCheckoutInput = z.infer<typeof codCheckoutSchema>;
+export type OrderLookupInput = z.infer<typeof orderLookupSchema>;
+export type TrackOrderQuery = z.infer<typeof trackOrderQuerySchema>;
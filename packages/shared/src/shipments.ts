@@ -0,0 +1,68 @@
+// packages/shared/src/shipments.ts
+// Parcels handed to a carrier. Carriers resend and reorder tracking events,
+// so a shipment only ever moves forward; `delivered` then moves the order
+// (API: lib/shipments.ts, adapters in lib/carriers.ts).
+
+import type { OrderStatus } from './types.js';
+
+export const SHIPMENT_STATUSES = [
+  'created',
+  'in_transit',
+  'out_for_delivery',
+  'failed_attempt',
+  'delivered',
+  'returned',
+  'cancelled',
+] as const;
+export type ShipmentStatus = (typeof SHIPMENT_STATUSES)[number];
+
+/** Tracking numbers entered by hand for carriers without an integration */
+export const MANUAL_CARRIER = 'manual';
+
+const FINAL: ReadonlySet<ShipmentStatus> = new Set(['delivered', 'returned', 'cancelled']);
+
+// A failed attempt is usually followed by another delivery round, so it ranks with out_for_delivery
+const PROGRESS: Record<ShipmentStatus, number> = {
+  created: 0,
+  in_transit: 1,
+  out_for_delivery: 2,
+  failed_attempt: 2,
+  delivered: 3,
+  returned: 3,
+  cancelled: 3,
+};
+
+export interface TrackingEvent {
+  status: ShipmentStatus;
+  /** ISO 8601 */
+  occurredAt: string;
+  description?: string | null;
+  location?: string | null;
+}
+
+export function isShipmentFinal(status: ShipmentStatus): boolean {
+  return FINAL.has(status);
+}
+
+/** Whether `next` may replace `current` — never backwards, never out of a final status */
+export function shouldApplyTrackingStatus(current: ShipmentStatus, next: ShipmentStatus): boolean {
+  if (isShipmentFinal(current) || next === current) return false;
+  return PROGRESS[next] >= PROGRESS[current];
+}
+
+/**
+ * Order status a shipment status leads to. Only delivery is automatic: a
+ * returned parcel may be a COD refusal or a wrong address, which staff decide.
+ */
+export function orderStatusForShipment(status: ShipmentStatus): OrderStatus | null {
+  return status === 'delivered' ? 'delivered' : null;
+}
+
+/** Latest event by occurrence time — the order carriers send them in means nothing */
+export function latestTrackingEvent(events: TrackingEvent[]): TrackingEvent | null {
+  let latest: TrackingEvent | null = null;
+  for (const event of events) {
+    if (!latest || event.occurredAt > latest.occurredAt) latest = event;
+  }
+  return latest;
+}
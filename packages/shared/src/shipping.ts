@@ -0,0 +1,109 @@
+// packages/shared/src/shipping.ts
+// Shipping zones + rates — pure matching/pricing used by the quote endpoint
+// and both checkout handlers, so the customer is charged what they were quoted.
+// Amounts are minor units.
+
+import type { PaymentMethod } from './types.js';
+import type { Money } from './money.js';
+
+export type ShippingRateType = 'flat' | 'weight' | 'price';
+
+export interface ShippingTier {
+  /** Inclusive lower bound (grams for `weight`, order amount in minor units for `price`) */
+  min: number;
+  /** Exclusive upper bound — null = no upper bound */
+  max: number | null;
+  amount: Money;
+}
+
+export interface ShippingZoneRule {
+  id: string;
+  name: string;
+  /** ISO 3166-1 alpha-2 codes, e.g. ['MA'] */
+  countries: string[];
+  /** Cities/regions within those countries — null or empty = whole country */
+  regions: string[] | null;
+  freeShippingThreshold: Money | null;
+  codSurcharge: Money;
+}
+
+export interface ShippingRateRule {
+  id: string;
+  zoneId: string;
+  name: string;
+  type: ShippingRateType;
+  /** Price for `flat` rates */
+  amount: Money;
+  tiers: ShippingTier[] | null;
+  minDeliveryDays: number | null;
+  maxDeliveryDays: number | null;
+}
+
+export interface ShippingDestination {
+  country: string;
+  region?: string | null;
+  city?: string | null;
+}
+
+export interface ShippingCharge {
+  /** Rate price before waivers */
+  base: Money;
+  codSurcharge: Money;
+  /** True when the rate was waived (zone threshold or free-shipping code) */
+  free: boolean;
+  /** What the customer pays for shipping */
+  amount: Money;
+}
+
+/**
+ * Picks the zone for a destination. Zones listing regions beat whole-country
+ * zones, so "Casablanca" can be cheaper than the rest of Morocco.
+ */
+export function matchShippingZone<Z extends ShippingZoneRule>(zones: Z[], dest: ShippingDestination): Z | null {
+  const country = dest.country.trim().toUpperCase();
+  const places = [dest.region, dest.city].filter(Boolean).map(p => normalizePlace(p!));
+
+  const inCountry = zones.filter(z => z.countries.map(c => c.toUpperCase()).includes(country));
+
+  const regional = inCountry.find(z =>
+    z.regions?.length && z.regions.some(r => places.includes(normalizePlace(r)))
+  );
+  if (regional) return regional;
+
+  return inCountry.find(z => !z.regions?.length) ?? null;
+}
+
+/**
+ * Prices one rate for a cart. Returns null when a tiered rate has no tier
+ * covering the cart (e.g. heavier than the carrier accepts).
+ */
+export function computeShippingCharge(
+  rate: ShippingRateRule,
+  zone: ShippingZoneRule,
+  cart: { subtotal: Money; weightGrams: number; paymentMethod: PaymentMethod; freeShipping?: boolean }
+): ShippingCharge | null {
+  let base: Money;
+  if (rate.type === 'flat') {
+    base = rate.amount;
+  } else {
+    const measure = rate.type === 'weight' ? cart.weightGrams : cart.subtotal;
+    const tier = (rate.tiers ?? []).find(t => measure >= t.min && (t.max === null || measure < t.max));
+    if (!tier) return null;
+    base = tier.amount;
+  }
+
+  const free = cart.freeShipping === true ||
+    (zone.freeShippingThreshold !== null && cart.subtotal >= zone.freeShippingThreshold);
+  const codSurcharge = cart.paymentMethod === 'COD' ? zone.codSurcharge : 0;
+
+  return {
+    base,
+    codSurcharge,
+    free,
+    amount: (free ? 0 : base) + codSurcharge,
+  };
+}
+
+function normalizePlace(value: string): string {
+  return value.trim().toLowerCase().normalize('NFKD').replace(/[̀-ͯ]/g, '');
+}
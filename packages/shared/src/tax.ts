@@ -0,0 +1,103 @@
+// packages/shared/src/tax.ts
+// TVA/VAT math — pure so checkout, invoices and the dashboard agree to the cent.
+//
+// Inclusive pricing (Moroccan TTC): catalogue prices already contain tax, the
+// tax is extracted from them. Exclusive pricing: tax is added on top.
+// Amounts are minor units; each line's tax is rounded to a whole one.
+
+import { sumMoney, percentOf } from './money.js';
+import type { Money } from './money.js';
+
+export interface TaxableLine {
+  /** What the line costs after its share of the discount */
+  amount: Money;
+  /** Percent, e.g. 20 for TVA 20% */
+  rate: number;
+}
+
+export interface TaxBreakdown {
+  /** Tax per line, same order as the input */
+  lineTaxes: Money[];
+  shippingTax: Money;
+  taxTotal: Money;
+  /** Tax grouped by rate — what invoices print ("TVA 20%: 33.33") */
+  byRate: { rate: number; taxable: Money; tax: Money }[];
+}
+
+export function computeLineTax(amount: Money, rate: number, inclusive: boolean): Money {
+  if (rate <= 0 || amount <= 0) return 0;
+  return inclusive ? Math.round(amount - amount / (1 + rate / 100)) : percentOf(amount, rate);
+}
+
+/**
+ * Spreads an order-level discount over lines in proportion to their amount.
+ * The last line absorbs rounding so the shares always sum to `discount`.
+ */
+export function allocateDiscount(amounts: Money[], discount: Money): Money[] {
+  const base = sumMoney(amounts);
+  if (discount <= 0 || base <= 0) return amounts.map(() => 0);
+
+  const capped = Math.min(discount, base);
+  const shares = amounts.map(a => Math.round(capped * a / base));
+  shares[shares.length - 1] = shares[shares.length - 1]! + capped - sumMoney(shares);
+  return shares;
+}
+
+export function computeTaxes(input: {
+  lines: TaxableLine[];
+  shipping: TaxableLine | null;
+  inclusive: boolean;
+}): TaxBreakdown {
+  const lineTaxes = input.lines.map(l => computeLineTax(l.amount, l.rate, input.inclusive));
+  const shippingTax = input.shipping
+    ? computeLineTax(input.shipping.amount, input.shipping.rate, input.inclusive)
+    : 0;
+
+  const groups = new Map<number, { rate: number; taxable: number; tax: number }>();
+  const add = (line: TaxableLine, tax: number) => {
+    if (line.rate <= 0) return;
+    const g = groups.get(line.rate) ?? { rate: line.rate, taxable: 0, tax: 0 };
+    g.taxable += input.inclusive ? line.amount - tax : line.amount;
+    g.tax += tax;
+    groups.set(line.rate, g);
+  };
+  input.lines.forEach((l, i) => add(l, lineTaxes[i]!));
+  if (input.shipping) add(input.shipping, shippingTax);
+
+  return {
+    lineTaxes,
+    shippingTax,
+    taxTotal: sumMoney(lineTaxes) + shippingTax,
+    byRate: [...groups.values()].sort((a, b) => b.rate - a.rate),
+  };
+}
+
+// ─── Refunds ──────────────────────────────────────────────────
+// Items are refunded at what was charged for them, not at their list price.
+
+/**
+ * What each order line cost the customer: its amount less its share of the
+ * order discount, plus its tax when prices exclude tax (inclusive prices
+ * already contain it). The order keeps no per-line discount, so it is
+ * spread again in proportion to the line amounts.
+ */
+export function chargedLineTotals(
+  lines: { price: Money; qty: number; taxAmount: Money }[],
+  discountTotal: Money,
+  inclusive: boolean
+): Money[] {
+  const amounts = lines.map(l => l.price * l.qty);
+  const shares = allocateDiscount(amounts, discountTotal);
+  return lines.map((l, i) => amounts[i]! - shares[i]! + (inclusive ? 0 : l.taxAmount));
+}
+
+/**
+ * Refund for `qty` more units of a line whose `refundedQty` units were refunded
+ * already. Worked out as a difference of cumulative shares, so refunding a line
+ * unit by unit adds up to exactly its charged total.
+ */
+export function lineRefundAmount(charged: Money, lineQty: number, refundedQty: number, qty: number): Money {
+  if (lineQty <= 0) return 0;
+  const upTo = (n: number) => Math.round(charged * n / lineQty);
+  return upTo(refundedQty + qty) - upTo(refundedQty);
+}
@@ -1,10 +1,15 @@
 // packages/shared/src/types.ts
 
+import type { Money } from './money.js';
+
 export type Plan = 'free' | 'pro' | 'business';
 export type Role = 'owner' | 'admin' | 'staff';
 export type OrderStatus = 'pending' | 'paid' | 'shipped' | 'delivered' | 'cancelled' | 'refunded';
 export type PaymentMethod = 'STRIPE' | 'COD';
 export type PaymentStatus = 'PAID' | 'UNPAID' | 'PENDING' | 'FAILED';
+export type RefundStatus = 'NONE' | 'PARTIAL' | 'FULL';
+export type ConfirmationStatus = 'pending' | 'confirmed' | 'unreachable' | 'rejected';
+export type ConfirmationOutcome = 'confirmed' | 'unreachable' | 'rejected' | 'callback';
 export type ProductStatus = 'active' | 'draft' | 'archived';
 export type SubscriptionStatus = 'active' | 'trialing' | 'past_due' | 'canceled' | 'incomplete';
 
@@ -36,11 +41,14 @@ export interface Product {
   tenantId: string;
   title: string;
   description: string | null;
-  price: number;
-  salePrice: number | null;
+  price: Money;
+  salePrice: Money | null;
   currency: string;
   sku: string | null;
   stock: number;
+  reservedStock: number;
+  weightGrams: number | null;
+  taxClassId: string | null;
   status: ProductStatus;
   createdAt: string;
   images?: ProductImage[];
@@ -66,6 +74,7 @@ export interface Category {
 export interface Order {
   id: string;
   tenantId: string;
+  orderNumber: string;
   customerEmail: string;
   customerName: string | null;
   customerPhone: string | null;
@@ -73,13 +82,40 @@ export interface Order {
   status: OrderStatus;
   paymentMethod: PaymentMethod;
   paymentStatus: PaymentStatus;
-  subtotal: number;
-  total: number;
+  subtotal: Money;
+  discountCode: string | null;
+  discountTotal: Money;
+  shippingTotal: Money;
+  shippingRateId: string | null;
+  shippingMethod: string | null;
+  shippingCountry: string | null;
+  shippingRegion: string | null;
+  shippingCity: string | null;
+  taxTotal: Money;
+  shippingTax: Money;
+  pricesIncludeTax: boolean;
+  total: Money;
   currency: string;
   stripeSessionId: string | null;
+  stripePaymentIntentId: string | null;
+  refundedTotal: Money;
+  refundStatus: RefundStatus;
+  riskScore: number | null;
+  riskReasonsJson: string | null;
+  requiresConfirmation: boolean;
+  confirmationStatus: ConfirmationStatus | null;
+  confirmationAttempts: number;
+  lastContactAt: string | null;
+  callbackAt: string | null;
+  confirmedAt: string | null;
+  invoiceNumber: string | null;
+  invoicedAt: string | null;
+  assignedUserId: string | null;
   notes: string | null;
   createdAt: string;
   items?: OrderItem[];
+  timeline?: OrderStatusEvent[];
+  refunds?: Refund[];
 }
 
 export interface OrderItem {
@@ -87,8 +123,55 @@ export interface OrderItem {
   orderId: string;
   productId: string | null;
   titleSnapshot: string;
-  priceSnapshot: number;
+  priceSnapshot: Money;
   qty: number;
+  taxRate: number;
+  taxAmount: Money;
+}
+
+export interface TaxClass {
+  id: string;
+  tenantId: string;
+  name: string;
+  /** Percent, e.g. 20 */
+  rate: number;
+  isDefault: boolean;
+}
+
+export interface Refund {
+  id: string;
+  orderId: string;
+  method: 'STRIPE' | 'CASH';
+  amount: Money;
+  currency: string;
+  status: 'pending' | 'succeeded' | 'failed' | 'canceled';
+  stripeRefundId: string | null;
+  reason: string | null;
+  itemsJson: string | null;
+  note: string | null;
+  actorUserId: string | null;
+  createdAt: string;
+}
+
+export interface ConfirmationAttempt {
+  id: string;
+  orderId: string;
+  outcome: ConfirmationOutcome;
+  note: string | null;
+  callbackAt: string | null;
+  actorUserId: string | null;
+  createdAt: string;
+}
+
+export interface OrderStatusEvent {
+  id: string;
+  orderId: string;
+  fromStatus: OrderStatus | null;
+  toStatus: OrderStatus;
+  actorUserId: string | null;
+  source: 'dashboard' | 'checkout' | 'webhook';
+  note: string | null;
+  createdAt: string;
 }
 
 export interface Subscription {